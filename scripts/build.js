@@ -11,7 +11,8 @@ async function build() {
       entryPoints: ['src/extension.ts'],
       bundle: true,
       outfile: 'out/extension.js',
-      external: ['vscode'],
+      // typescript 依赖运行时的 require/__filename，无法打包进 ESM 产物
+      external: ['vscode', 'typescript'],
       platform: 'node',
       target: 'node18',
       format: 'esm',
@@ -1,14 +1,43 @@
+import type { GlobalTodoGroupBy } from './providers/globalTodosProvider.js'
+import type { BookmarkNoteComment } from './services/bookmarkCommentController.js'
+import type { ClassUsage } from './services/classUsageFinder.js'
+import type { VueComponentEdge } from './services/vueComponentGraph.js'
 import * as vscode from 'vscode'
+import { StyleParser } from './parsers/styleParser.js'
+import { BookmarkHealthProvider } from './providers/bookmarkHealthProvider.js'
+import { BookmarkHistoryProvider } from './providers/bookmarkHistoryProvider.js'
 import { BookmarkProvider } from './providers/bookmarkProvider.js'
 import { CurrentFileNavProvider } from './providers/currentFileNavProvider.js'
 import { DataAdapter } from './providers/dataAdapter.js'
+import { DependencyGraphPanel } from './providers/dependencyGraphPanel.js'
 import { FunctionListProvider } from './providers/functionListProvider.js'
 import { GlobalBookmarksProvider } from './providers/globalBookmarksProvider.js'
 import { GlobalTodosProvider } from './providers/globalTodosProvider.js'
 import { QuickAccessProvider } from './providers/quickAccessProvider.js'
+import { TaskBoardPanel } from './providers/taskBoardPanel.js'
 import { TimelineProvider } from './providers/timelineProvider.js'
 import { TodoProvider } from './providers/todoProvider.js'
+import { UnusedExportsProvider } from './providers/unusedExportsProvider.js'
+import { VueComponentGraphProvider } from './providers/vueComponentGraphProvider.js'
+import { BookmarkAnchorTracker } from './services/bookmarkAnchorTracker.js'
+import { BookmarkCommentController } from './services/bookmarkCommentController.js'
+import { BookmarkExportService } from './services/bookmarkExportService.js'
+import { BookmarkHealthChecker } from './services/bookmarkHealthChecker.js'
+import { BookmarkSyncService } from './services/bookmarkSyncService.js'
+import { ClassUsageFinder } from './services/classUsageFinder.js'
+import { ComplexityDecorationManager } from './services/complexityDecorationManager.js'
+import { DependencyGraphService } from './services/dependencyGraphService.js'
+import { EnhancedBookmarkManager } from './services/enhancedBookmarkManager.js'
+import { GitBlameService } from './services/gitBlameService.js'
+import { ReactHookDiagnostics } from './services/reactHookDiagnostics.js'
+import { SharedBookmarkStore } from './services/sharedBookmarkStore.js'
+import { SymbolReferenceService } from './services/symbolReferenceService.js'
+import { TaskBoardService } from './services/taskBoardService.js'
+import { TodoHistoryService } from './services/todoHistoryService.js'
+import { TodoScanner } from './services/todoScanner.js'
 import { SearchType } from './services/unifiedSearchService.js'
+import { UnusedExportDetector } from './services/unusedExportDetector.js'
+import { VueComponentGraph } from './services/vueComponentGraph.js'
 
 // 全局状态管理
 let documentChangeTimeout: NodeJS.Timeout | undefined
@@ -19,9 +48,30 @@ export function activate(context: vscode.ExtensionContext) {
   try {
     // 创建传统Provider实例（保持向后兼容）
     const functionListProvider = new FunctionListProvider()
-    const bookmarkProvider = new BookmarkProvider(context)
+    const bookmarkManager = new EnhancedBookmarkManager(context)
+    const sharedBookmarkStore = new SharedBookmarkStore()
+    const bookmarkProvider = new BookmarkProvider(context, bookmarkManager, sharedBookmarkStore)
+    const bookmarkAnchorTracker = new BookmarkAnchorTracker(bookmarkManager, sharedBookmarkStore)
+    const bookmarkSyncService = new BookmarkSyncService(context, bookmarkManager)
+    const bookmarkCommentController = new BookmarkCommentController(bookmarkManager, sharedBookmarkStore)
+    const bookmarkExportService = new BookmarkExportService(bookmarkManager, sharedBookmarkStore)
+    const bookmarkHistoryProvider = new BookmarkHistoryProvider(context, bookmarkManager)
+    const bookmarkHealthProvider = new BookmarkHealthProvider(
+      new BookmarkHealthChecker(bookmarkManager, sharedBookmarkStore),
+      bookmarkManager,
+      sharedBookmarkStore,
+    )
     const todoProvider = new TodoProvider()
     const timelineProvider = new TimelineProvider()
+    const complexityDecorationManager = new ComplexityDecorationManager()
+    const reactHookDiagnostics = new ReactHookDiagnostics()
+    const vueComponentGraph = new VueComponentGraph()
+    const vueComponentGraphProvider = new VueComponentGraphProvider(vueComponentGraph)
+    const dependencyGraphService = new DependencyGraphService(vueComponentGraph)
+    const dependencyGraphPanel = new DependencyGraphPanel(dependencyGraphService)
+    const symbolReferenceService = new SymbolReferenceService()
+    const unusedExportDetector = new UnusedExportDetector(vueComponentGraph, symbolReferenceService)
+    const unusedExportsProvider = new UnusedExportsProvider(unusedExportDetector)
 
     // 创建数据适配器
     const dataAdapter = new DataAdapter(
@@ -66,12 +116,28 @@ export function activate(context: vscode.ExtensionContext) {
         console.log(`[CCoding] 切换置顶状态: ${item.label}`)
         // TODO: 实现置顶逻辑
       },
+      symbolReferenceService,
     )
 
-    const globalBookmarksProvider = new GlobalBookmarksProvider(context, bookmarkProvider)
-    const globalTodosProvider = new GlobalTodosProvider()
+    const globalBookmarksProvider = new GlobalBookmarksProvider(context, bookmarkManager, sharedBookmarkStore)
+    const gitBlameService = new GitBlameService()
+    const todoHistoryService = new TodoHistoryService(context)
+    const globalTodosProvider = new GlobalTodosProvider(gitBlameService, todoHistoryService)
+    const taskBoardService = new TaskBoardService()
+    const taskBoardPanel = new TaskBoardPanel(taskBoardService)
     const quickAccessProvider = new QuickAccessProvider(context, timelineProvider)
 
+    // 一次性迁移旧版 CCoding.bookmarks 数据，失败时管理器已回滚，下次激活重试
+    bookmarkManager.migrateLegacyBookmarks()
+      .then((migrated) => {
+        if (migrated > 0) {
+          vscode.window.showInformationMessage(`已迁移 ${migrated} 个旧版书签`)
+        }
+      })
+      .catch((error) => {
+        vscode.window.showWarningMessage(`旧版书签迁移失败，已回滚：${error}`)
+      })
+
     // 注册视图
     context.subscriptions.push(
       // 1. 当前文件导航 WebView
@@ -83,6 +149,20 @@ export function activate(context: vscode.ExtensionContext) {
       // 2. 全局书签管理 TreeView
       vscode.window.createTreeView('CCoding.globalBookmarks', {
         treeDataProvider: globalBookmarksProvider,
+        dragAndDropController: globalBookmarksProvider,
+        showCollapseAll: true,
+        canSelectMany: false,
+      }),
+
+      // 书签操作历史 TreeView
+      vscode.window.createTreeView('CCoding.bookmarkHistory', {
+        treeDataProvider: bookmarkHistoryProvider,
+        canSelectMany: false,
+      }),
+
+      // 书签健康检查 TreeView（执行检查后显示）
+      vscode.window.createTreeView('CCoding.bookmarkHealth', {
+        treeDataProvider: bookmarkHealthProvider,
         showCollapseAll: true,
         canSelectMany: false,
       }),
@@ -100,6 +180,20 @@ export function activate(context: vscode.ExtensionContext) {
         showCollapseAll: true,
         canSelectMany: false,
       }),
+
+      // Vue 组件关系 TreeView
+      vscode.window.createTreeView('CCoding.vueComponents', {
+        treeDataProvider: vueComponentGraphProvider,
+        showCollapseAll: true,
+        canSelectMany: false,
+      }),
+
+      // 未使用导出 TreeView
+      vscode.window.createTreeView('CCoding.unusedExports', {
+        treeDataProvider: unusedExportsProvider,
+        showCollapseAll: true,
+        canSelectMany: false,
+      }),
     )
 
     // 数据刷新函数
@@ -241,12 +335,284 @@ export function activate(context: vscode.ExtensionContext) {
         }
       }),
 
+      vscode.commands.registerCommand('CCoding.toggleBookmarkShared', (item: any) => {
+        const bookmarkId = item?.bookmark?.id
+        if (bookmarkId) {
+          bookmarkProvider.toggleShared(bookmarkId)
+        }
+      }),
+
+      // 书签注释（Comments API）
+      vscode.commands.registerCommand('CCoding.bookmarkComment.add', (reply: vscode.CommentReply) => {
+        bookmarkCommentController.addComment(reply)
+      }),
+
+      vscode.commands.registerCommand('CCoding.bookmarkComment.edit', (comment: BookmarkNoteComment) => {
+        bookmarkCommentController.editComment(comment)
+      }),
+
+      vscode.commands.registerCommand('CCoding.bookmarkComment.save', (comment: BookmarkNoteComment) => {
+        bookmarkCommentController.saveComment(comment)
+      }),
+
+      vscode.commands.registerCommand('CCoding.bookmarkComment.cancel', (comment: BookmarkNoteComment) => {
+        bookmarkCommentController.cancelEdit(comment)
+      }),
+
+      vscode.commands.registerCommand('CCoding.bookmarkComment.delete', (comment: BookmarkNoteComment) => {
+        bookmarkCommentController.deleteComment(comment)
+      }),
+
+      vscode.commands.registerCommand('CCoding.bookmarkComment.resolve', (thread: vscode.CommentThread) => {
+        bookmarkCommentController.setThreadResolved(thread, true)
+      }),
+
+      vscode.commands.registerCommand('CCoding.bookmarkComment.reopen', (thread: vscode.CommentThread) => {
+        bookmarkCommentController.setThreadResolved(thread, false)
+      }),
+
+      vscode.commands.registerCommand('CCoding.undoBookmarkOperation', async () => {
+        const operation = await bookmarkManager.undo()
+        if (!operation) {
+          vscode.window.showInformationMessage('没有可撤销的书签操作')
+          return
+        }
+        vscode.window.setStatusBarMessage('$(discard) 已撤销书签操作', 3000)
+      }),
+
+      vscode.commands.registerCommand('CCoding.redoBookmarkOperation', async () => {
+        const operation = await bookmarkManager.redo()
+        if (!operation) {
+          vscode.window.showInformationMessage('没有可重做的书签操作')
+          return
+        }
+        vscode.window.setStatusBarMessage('$(redo) 已重做书签操作', 3000)
+      }),
+
+      // 书签文件夹
+      vscode.commands.registerCommand('CCoding.createBookmarkFolder', (item: any) => {
+        globalBookmarksProvider.createFolder(item?.bookmark?.isFolder ? item.bookmark.id : undefined)
+      }),
+
+      vscode.commands.registerCommand('CCoding.renameBookmarkFolder', (item: any) => {
+        if (item?.bookmark?.isFolder) {
+          globalBookmarksProvider.renameFolder(item.bookmark.id)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.moveBookmarkToFolder', (item: any) => {
+        if (item?.bookmark) {
+          globalBookmarksProvider.moveToFolder(item.bookmark.id)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.openBookmarkFolder', (item: any) => {
+        if (item?.bookmark?.isFolder) {
+          globalBookmarksProvider.openFolder(item.bookmark.id)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.exportBookmarkFolder', async (item: any) => {
+        const folder = item?.bookmark
+        if (!folder?.isFolder)
+          return
+        try {
+          await bookmarkExportService.exportBookmarks(
+            [folder, ...bookmarkManager.getFolderBookmarks(folder.id, true)],
+            `ccoding-bookmarks-${folder.label}`,
+          )
+        }
+        catch (error) {
+          vscode.window.showErrorMessage(`导出书签失败: ${error}`)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.deleteBookmarkFolder', (item: any) => {
+        if (item?.bookmark?.isFolder) {
+          globalBookmarksProvider.deleteFolder(item.bookmark.id)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.addTemporaryBookmark', () => {
+        bookmarkProvider.addTemporaryBookmark()
+      }),
+
+      vscode.commands.registerCommand('CCoding.promoteBookmark', (item: any) => {
+        const bookmarkId = item?.bookmark?.id
+        if (bookmarkId) {
+          bookmarkProvider.promoteBookmark(bookmarkId)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.openBookmark', (bookmarkId: string) => {
+        if (bookmarkId) {
+          bookmarkProvider.openBookmark(bookmarkId)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.restoreArchivedBookmark', (item: any) => {
+        const bookmarkId = item?.bookmark?.id
+        if (bookmarkId) {
+          bookmarkProvider.restoreArchivedBookmark(bookmarkId)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.syncBookmarks', async () => {
+        try {
+          await bookmarkSyncService.sync()
+        }
+        catch (error) {
+          console.error('[CCoding] 同步书签失败:', error)
+          vscode.window.showErrorMessage(`同步书签失败: ${error}`)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.exportBookmarks', async () => {
+        try {
+          await bookmarkExportService.exportBookmarks()
+        }
+        catch (error) {
+          console.error('[CCoding] 导出书签失败:', error)
+          vscode.window.showErrorMessage(`导出书签失败: ${error}`)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.importBookmarks', async () => {
+        try {
+          await bookmarkExportService.importBookmarks()
+        }
+        catch (error) {
+          console.error('[CCoding] 导入书签失败:', error)
+          vscode.window.showErrorMessage(`导入书签失败: ${error}`)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.checkBookmarkHealth', async () => {
+        try {
+          const result = await bookmarkHealthProvider.runCheck()
+          await vscode.commands.executeCommand('setContext', 'CCoding.bookmarkHealthVisible', true)
+          await vscode.commands.executeCommand('CCoding.bookmarkHealth.focus')
+
+          const fixable = result.issues.filter(issue => issue.autoFixable).length
+          vscode.window.showInformationMessage(
+            `书签健康检查完成：共 ${result.totalChecked} 个书签，发现 ${result.issues.length} 个问题（${fixable} 个可自动修复）`,
+          )
+        }
+        catch (error) {
+          console.error('[CCoding] 书签健康检查失败:', error)
+          vscode.window.showErrorMessage(`书签健康检查失败: ${error}`)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.fixBookmarkIssue', async (item: any) => {
+        if (!item?.issue)
+          return
+        try {
+          const fixed = await bookmarkHealthProvider.fixIssue(item.issue)
+          if (!fixed) {
+            vscode.window.showWarningMessage('该问题无法自动修复，请重新运行健康检查')
+          }
+        }
+        catch (error) {
+          vscode.window.showErrorMessage(`修复书签失败: ${error}`)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.fixAllBookmarkIssues', async () => {
+        try {
+          const fixed = await bookmarkHealthProvider.fixAllIssues()
+          vscode.window.showInformationMessage(`已自动修复 ${fixed} 个书签问题`)
+        }
+        catch (error) {
+          vscode.window.showErrorMessage(`修复书签失败: ${error}`)
+        }
+      }),
+
       // 新视图刷新命令
       vscode.commands.registerCommand('CCoding.refreshCurrentFileNav', () => {
         console.log('[CCoding] 手动刷新当前文件导航')
         refreshCurrentFileNav()
       }),
 
+      vscode.commands.registerCommand('CCoding.refreshComponentGraph', async () => {
+        console.log('[CCoding] 重新扫描 Vue 组件关系')
+        await vueComponentGraph.rebuild()
+      }),
+
+      vscode.commands.registerCommand('CCoding.findComponentUsages', async (item?: any) => {
+        // 从组件关系视图调用时使用所选组件，否则使用当前编辑器中的组件
+        const uri: vscode.Uri | undefined = item instanceof vscode.Uri
+          ? item
+          : item?.componentUri || vscode.window.activeTextEditor?.document.uri
+        if (!uri || !uri.fsPath.endsWith('.vue')) {
+          vscode.window.showInformationMessage('请先打开一个 Vue 组件')
+          return
+        }
+        await showComponentUsagesPicker(vueComponentGraph, uri)
+      }),
+
+      vscode.commands.registerCommand('CCoding.findClassUsages', async () => {
+        // 光标位于样式中的类选择器时直接查找，否则让用户输入类名
+        const editor = vscode.window.activeTextEditor
+        const className = (editor && StyleParser.getClassNameAt(editor.document, editor.selection.active))
+          || await vscode.window.showInputBox({
+            prompt: '输入要查找的类名',
+            placeHolder: '例如 btn-primary',
+            validateInput: value => /^\.?-?[_a-z][\w-]*$/i.test(value.trim()) ? undefined : '请输入有效的类名',
+          })
+        if (!className)
+          return
+        await showClassUsagesPicker(className.trim().replace(/^\./, ''))
+      }),
+
+      vscode.commands.registerCommand('CCoding.showDependencyGraph', (uri?: vscode.Uri) => {
+        // 资源管理器右键时传入文件，否则使用当前编辑器
+        const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri
+        if (!target || !DependencyGraphService.isSourceFile(target)) {
+          vscode.window.showInformationMessage('请先打开一个 JS/TS、Vue 或 Svelte 文件')
+          return
+        }
+        dependencyGraphPanel.show(target)
+      }),
+
+      vscode.commands.registerCommand('CCoding.scanUnusedExports', async () => {
+        try {
+          const result = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: '正在扫描未使用的导出...' },
+            () => unusedExportDetector.scan(),
+          )
+          await vscode.commands.executeCommand('CCoding.unusedExports.focus')
+          vscode.window.showInformationMessage(
+            `扫描完成：${result.scannedFiles} 个文件，${result.totalExports} 个导出中有 ${result.exports.length} 个未被导入`,
+          )
+        }
+        catch (error) {
+          console.error('[CCoding] 扫描未使用的导出失败:', error)
+          vscode.window.showErrorMessage(`扫描未使用的导出失败: ${error}`)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.confirmUnusedExport', async (item: any) => {
+        if (!item?.unusedExport)
+          return
+        try {
+          const { status, references } = await unusedExportDetector.confirm(item.unusedExport)
+          const name = item.unusedExport.displayName
+          if (status === 'used') {
+            vscode.window.showInformationMessage(`${name} 在其他文件中有 ${references} 处引用，已从列表移除`)
+          }
+          else if (status === 'local') {
+            vscode.window.showInformationMessage(`${name} 仅在本文件中使用，可以移除 export`)
+          }
+          else {
+            vscode.window.showInformationMessage(`已确认 ${name} 没有任何引用`)
+          }
+        }
+        catch (error) {
+          vscode.window.showErrorMessage(`确认引用失败: ${error}`)
+        }
+      }),
+
       vscode.commands.registerCommand('CCoding.refreshGlobalBookmarks', () => {
         console.log('[CCoding] 手动刷新全局书签')
         globalBookmarksProvider.refresh()
@@ -256,7 +622,7 @@ export function activate(context: vscode.ExtensionContext) {
       vscode.commands.registerCommand('CCoding.searchGlobalBookmarks', async () => {
         const query = await vscode.window.showInputBox({
           prompt: '搜索全局书签',
-          placeHolder: '输入关键词搜索书签标签或文件路径...',
+          placeHolder: '输入关键词搜索书签标签、文件路径或注释...',
         })
         if (query !== undefined) {
           globalBookmarksProvider.search(query)
@@ -273,6 +639,7 @@ export function activate(context: vscode.ExtensionContext) {
           { label: '📁 按文件分组', description: '按文件路径分组显示', value: 'file' },
           { label: '🏷️ 按类型分组', description: '按书签类型分组显示', value: 'type' },
           { label: '🕐 按时间分组', description: '按创建时间分组显示', value: 'time' },
+          { label: '📂 按文件夹分组', description: '按自定义文件夹显示，可拖放整理', value: 'folder' },
         ]
 
         const selected = await vscode.window.showQuickPick(groupOptions, {
@@ -281,7 +648,7 @@ export function activate(context: vscode.ExtensionContext) {
         })
 
         if (selected) {
-          globalBookmarksProvider.setGroupBy(selected.value as 'file' | 'type' | 'time')
+          globalBookmarksProvider.setGroupBy(selected.value as 'file' | 'type' | 'time' | 'folder')
           vscode.window.showInformationMessage(`已切换到${selected.label}`)
         }
       }),
@@ -312,6 +679,10 @@ export function activate(context: vscode.ExtensionContext) {
           { label: '📁 按文件分组', description: '按文件路径分组显示', value: 'file' },
           { label: '🏷️ 按类型分组', description: '按 TODO 类型分组显示', value: 'type' },
           { label: '🎯 按优先级分组', description: '按优先级分组显示', value: 'priority' },
+          { label: '👤 按负责人分组', description: '按 TODO(@负责人) 分组显示', value: 'assignee' },
+          { label: '📅 按截止日期分组', description: '按 TODO(2026-11-01) 的截止日期分组显示', value: 'dueDate' },
+          { label: '✍️ 按作者分组', description: '按 git blame 的提交作者分组显示', value: 'author' },
+          { label: '🕰️ 按存在时间分组', description: '按 git blame 的提交时间分组显示', value: 'age' },
         ]
 
         const selected = await vscode.window.showQuickPick(groupOptions, {
@@ -320,11 +691,71 @@ export function activate(context: vscode.ExtensionContext) {
         })
 
         if (selected) {
-          globalTodosProvider.setGroupBy(selected.value as 'file' | 'type' | 'priority')
+          globalTodosProvider.setGroupBy(selected.value as GlobalTodoGroupBy)
           vscode.window.showInformationMessage(`已切换到${selected.label}`)
         }
       }),
 
+      vscode.commands.registerCommand('CCoding.clearTodoHistory', async () => {
+        const confirm = await vscode.window.showWarningMessage(
+          '清除待办的新增、解决记录和每日趋势？',
+          { modal: true },
+          '清除',
+        )
+        if (confirm === '清除') {
+          await todoHistoryService.clear()
+          globalTodosProvider.clearCacheAndRefresh()
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.filterStaleTodos', async () => {
+        // 已开启过滤时再次执行即关闭
+        if (globalTodosProvider.getStaleFilter()) {
+          globalTodosProvider.setStaleFilter(undefined)
+          vscode.window.showInformationMessage('已关闭过期待办过滤')
+          return
+        }
+
+        const defaultDays = vscode.workspace.getConfiguration('CCoding.todos').get<number>('staleDays', 90)
+        const input = await vscode.window.showInputBox({
+          prompt: '只显示提交时间早于多少天的待办',
+          value: String(defaultDays),
+          validateInput: value => /^[1-9]\d*$/.test(value.trim()) ? undefined : '请输入正整数',
+        })
+        if (input !== undefined) {
+          globalTodosProvider.setStaleFilter(Number(input.trim()))
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.promoteTodoToTask', async (item?: { todo?: any }) => {
+        // 从全局待办视图调用时使用树节点，否则使用光标所在行的待办
+        let source = item?.todo && { type: item.todo.type, text: item.todo.text, uri: item.todo.uri, line: item.todo.range.start.line }
+        const editor = vscode.window.activeTextEditor
+        if (!source && editor) {
+          const match = TodoScanner.getInstance().scanLine(editor.document, editor.selection.active.line)[0]
+          source = match && { type: match.type, text: match.text, uri: editor.document.uri, line: match.line }
+        }
+        if (!source) {
+          vscode.window.showInformationMessage('光标所在行没有待办')
+          return
+        }
+
+        try {
+          const task = await taskBoardService.promote(source)
+          const action = await vscode.window.showInformationMessage(`已创建任务 ${task.id}: ${task.title}`, '打开任务看板')
+          if (action) {
+            taskBoardPanel.show()
+          }
+        }
+        catch (error) {
+          vscode.window.showWarningMessage(`转换为任务失败: ${error instanceof Error ? error.message : error}`)
+        }
+      }),
+
+      vscode.commands.registerCommand('CCoding.showTaskBoard', () => {
+        taskBoardPanel.show()
+      }),
+
       vscode.commands.registerCommand('CCoding.refreshQuickAccess', () => {
         console.log('[CCoding] 手动刷新快速访问')
         quickAccessProvider.refresh()
@@ -340,11 +771,15 @@ export function activate(context: vscode.ExtensionContext) {
         if (choice === '继续修复') {
           try {
             // 强制重新加载并修复数据
-            const bookmarkFixedCount = await repairBookmarkData(context, bookmarkProvider)
+            const bookmarkFixedCount = await bookmarkManager.repairBookmarks()
 
-            vscode.window.showInformationMessage(
+            const next = await vscode.window.showInformationMessage(
               `数据修复完成！修复了 ${bookmarkFixedCount} 个书签数据。`,
+              '检查书签健康',
             )
+            if (next === '检查书签健康') {
+              vscode.commands.executeCommand('CCoding.checkBookmarkHealth')
+            }
           }
           catch (error) {
             vscode.window.showErrorMessage(`数据修复失败：${error}`)
@@ -381,10 +816,22 @@ export function activate(context: vscode.ExtensionContext) {
         globalTodosProvider.refresh()
         globalBookmarksProvider.refresh()
       }),
+
+      // 复杂度阈值、Hook 依赖检查开关变化后刷新函数列表和导航面板
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('CCoding.complexity') || event.affectsConfiguration('CCoding.reactHooks')) {
+          functionListProvider.refresh()
+          refreshCurrentFileNav()
+        }
+      }),
     ]
 
     context.subscriptions.push(...disposables)
-    context.subscriptions.push(todoProvider)
+    context.subscriptions.push(todoProvider, globalTodosProvider, gitBlameService, complexityDecorationManager, reactHookDiagnostics)
+    context.subscriptions.push(taskBoardPanel, taskBoardService)
+    context.subscriptions.push(vueComponentGraphProvider, dependencyGraphPanel, dependencyGraphService, vueComponentGraph)
+    context.subscriptions.push(unusedExportsProvider, unusedExportDetector, symbolReferenceService)
+    context.subscriptions.push(bookmarkAnchorTracker, bookmarkCommentController, bookmarkSyncService, sharedBookmarkStore, bookmarkManager)
 
     console.log('CCoding activated successfully!')
   }
@@ -430,71 +877,88 @@ async function showQuickJumpPicker() {
   }
 }
 
-export function deactivate() {
-  console.log('[CCoding] 插件正在停用，清理资源...')
+async function showComponentUsagesPicker(graph: VueComponentGraph, uri: vscode.Uri) {
+  const name = graph.getComponentName(uri)
+  const usages = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: `查找 ${name} 的使用位置` },
+    () => graph.getParents(uri),
+  )
 
-  // 清理定时器
-  if (documentChangeTimeout) {
-    clearTimeout(documentChangeTimeout)
-    documentChangeTimeout = undefined
+  if (usages.length === 0) {
+    vscode.window.showInformationMessage(`没有找到渲染 ${name} 的位置`)
+    return
   }
 
-  // 注意：由于activation函数中的providers是局部变量，
-  // 这里无法直接访问，但dispose方法会在context.subscriptions中自动调用
+  const open = (usage: VueComponentEdge) => vscode.window.showTextDocument(usage.source, { selection: usage.range })
+  if (usages.length === 1) {
+    await open(usages[0])
+    return
+  }
 
-  console.log('[CCoding] 插件停用完成')
-}
+  const items = usages.map(usage => ({
+    label: `<${usage.tagName}>`,
+    description: graph.getComponentName(usage.source),
+    detail: `${vscode.workspace.asRelativePath(usage.source)}:${usage.range.start.line + 1}`,
+    usage,
+  }))
 
-/**
- * 修复书签数据
- * @param context 扩展上下文
- * @param bookmarkProvider 书签Provider
- * @returns 修复的数据条数
- */
-async function repairBookmarkData(context: vscode.ExtensionContext, bookmarkProvider: BookmarkProvider): Promise<number> {
-  const saved = context.globalState.get<any[]>('CCoding.bookmarks', [])
-  const originalCount = saved.length
-
-  // 过滤出有效的书签数据
-  const validBookmarks = saved.filter((bookmark) => {
-    if (!bookmark || typeof bookmark !== 'object') {
-      return false
-    }
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `${name} 被渲染 ${usages.length} 次，选择要跳转的位置`,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  })
 
-    // 检查必需的属性
-    if (!bookmark.id || !bookmark.label || typeof bookmark.label !== 'string') {
-      return false
-    }
+  if (selected) {
+    await open(selected.usage)
+  }
+}
 
-    // 检查 URI
-    if (!bookmark.uri) {
-      return false
-    }
+async function showClassUsagesPicker(className: string) {
+  const usages = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: `查找 .${className} 的使用位置` },
+    () => ClassUsageFinder.findUsages(className),
+  )
 
-    // 检查 range 对象的完整性
-    if (!bookmark.range
-      || !bookmark.range.start
-      || !bookmark.range.end
-      || typeof bookmark.range.start.line !== 'number'
-      || typeof bookmark.range.start.character !== 'number'
-      || typeof bookmark.range.end.line !== 'number'
-      || typeof bookmark.range.end.character !== 'number') {
-      return false
-    }
+  if (usages.length === 0) {
+    vscode.window.showInformationMessage(`没有找到使用 .${className} 的位置`)
+    return
+  }
 
-    // 检查时间戳
-    if (!bookmark.timestamp || typeof bookmark.timestamp !== 'number') {
-      return false
-    }
+  const open = (usage: ClassUsage) => vscode.window.showTextDocument(usage.uri, { selection: usage.range })
+  if (usages.length === 1) {
+    await open(usages[0])
+    return
+  }
 
-    return true
+  const items = usages.map(usage => ({
+    label: usage.preview.length > 80 ? `${usage.preview.slice(0, 80)}...` : usage.preview,
+    description: usage.source,
+    detail: `${vscode.workspace.asRelativePath(usage.uri)}:${usage.range.start.line + 1}`,
+    usage,
+  }))
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `.${className} 被使用 ${usages.length} 次，选择要跳转的位置`,
+    matchOnDescription: true,
+    matchOnDetail: true,
   })
 
-  // 保存修复后的数据
-  await context.globalState.update('CCoding.bookmarks', validBookmarks)
+  if (selected) {
+    await open(selected.usage)
+  }
+}
+
+export function deactivate() {
+  console.log('[CCoding] 插件正在停用，清理资源...')
+
+  // 清理定时器
+  if (documentChangeTimeout) {
+    clearTimeout(documentChangeTimeout)
+    documentChangeTimeout = undefined
+  }
 
-  // 刷新书签Provider
-  bookmarkProvider.refresh()
+  // 注意：由于activation函数中的providers是局部变量，
+  // 这里无法直接访问，但dispose方法会在context.subscriptions中自动调用
 
-  return originalCount - validBookmarks.length
+  console.log('[CCoding] 插件停用完成')
 }
@@ -0,0 +1,316 @@
+import ts from 'typescript'
+import * as vscode from 'vscode'
+import {
+  getCalleeName,
+  getObjectProperty,
+  getPropertyName,
+  inferTypeFromNode,
+  unwrapExpression,
+} from './astUtils.js'
+
+export type AngularClassKind = 'Component' | 'Directive' | 'Pipe' | 'Injectable' | 'NgModule'
+
+/**
+ * 带 Angular 装饰器的类
+ */
+export interface AngularClass {
+  name: string
+  kind: AngularClassKind
+  selector?: string
+  standalone?: boolean
+  templateUrl?: string
+  inputs: AngularInput[]
+  outputs: AngularOutput[]
+  lifecycle: AngularLifecycle[]
+  injections: AngularInjection[]
+  methods: AngularMethod[]
+  isExported: boolean
+  range: vscode.Range
+}
+
+/**
+ * 单个文件的解析结果
+ */
+export interface AngularModule {
+  classes: AngularClass[]
+}
+
+export interface AngularInput {
+  name: string
+  alias?: string
+  type?: string
+  required?: boolean
+  // 通过 input() / model() 信号声明
+  isSignal: boolean
+  range: vscode.Range
+}
+
+export interface AngularOutput {
+  name: string
+  alias?: string
+  type?: string
+  isSignal: boolean
+  range: vscode.Range
+}
+
+export interface AngularLifecycle {
+  name: string
+  range: vscode.Range
+}
+
+/**
+ * 注入的依赖（通常是服务）
+ */
+export interface AngularInjection {
+  name: string
+  type: string
+  source: 'constructor' | 'inject'
+  range: vscode.Range
+}
+
+export interface AngularMethod {
+  name: string
+  params: string[]
+  isAsync: boolean
+  range: vscode.Range
+}
+
+interface ParseContext {
+  document: vscode.TextDocument
+  sourceFile: ts.SourceFile
+}
+
+export class AngularParser {
+  private static readonly CLASS_DECORATORS: AngularClassKind[] = ['Component', 'Directive', 'Pipe', 'Injectable', 'NgModule']
+
+  private static readonly LIFECYCLE_HOOKS = [
+    'ngOnChanges',
+    'ngOnInit',
+    'ngDoCheck',
+    'ngAfterContentInit',
+    'ngAfterContentChecked',
+    'ngAfterViewInit',
+    'ngAfterViewChecked',
+    'ngOnDestroy',
+  ]
+
+  static parseAngularFile(document: vscode.TextDocument): AngularModule | null {
+    const content = document.getText()
+    if (!this.isAngularFile(content)) {
+      return null
+    }
+
+    const sourceFile = ts.createSourceFile(document.fileName, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS)
+    const context: ParseContext = { document, sourceFile }
+    const classes: AngularClass[] = []
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isClassDeclaration(statement) || !statement.name)
+        continue
+
+      const decorator = this.findDecorator(statement, this.CLASS_DECORATORS)
+      if (!decorator)
+        continue
+
+      classes.push(this.createClass(statement, decorator, context))
+    }
+
+    return classes.length > 0 ? { classes } : null
+  }
+
+  private static isAngularFile(content: string): boolean {
+    return content.includes('@angular/core')
+  }
+
+  private static rangeOf(node: ts.Node, context: ParseContext): vscode.Range {
+    return new vscode.Range(
+      context.document.positionAt(node.getStart(context.sourceFile)),
+      context.document.positionAt(node.getEnd()),
+    )
+  }
+
+  /**
+   * 查找指定名称的装饰器，返回装饰器名与调用表达式
+   */
+  private static findDecorator<T extends string>(node: ts.HasDecorators, names: readonly T[]): { name: T, call?: ts.CallExpression } | undefined {
+    for (const decorator of ts.getDecorators(node) || []) {
+      const expression = decorator.expression
+      const call = ts.isCallExpression(expression) ? expression : undefined
+      const name = call ? getCalleeName(call) : ts.isIdentifier(expression) ? expression.text : undefined
+      if (name && (names as readonly string[]).includes(name))
+        return { name: name as T, call }
+    }
+    return undefined
+  }
+
+  private static createClass(
+    node: ts.ClassDeclaration,
+    decorator: { name: AngularClassKind, call?: ts.CallExpression },
+    context: ParseContext,
+  ): AngularClass {
+    const angularClass: AngularClass = {
+      name: node.name!.text,
+      kind: decorator.name,
+      inputs: [],
+      outputs: [],
+      lifecycle: [],
+      injections: [],
+      methods: [],
+      isExported: node.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword) ?? false,
+      range: this.rangeOf(node, context),
+    }
+
+    const options = decorator.call?.arguments[0] ? unwrapExpression(decorator.call.arguments[0]) : undefined
+    if (options && ts.isObjectLiteralExpression(options)) {
+      const selector = getObjectProperty(options, 'selector') ?? getObjectProperty(options, 'name')
+      if (selector && ts.isStringLiteralLike(selector))
+        angularClass.selector = selector.text
+
+      const templateUrl = getObjectProperty(options, 'templateUrl')
+      if (templateUrl && ts.isStringLiteralLike(templateUrl))
+        angularClass.templateUrl = templateUrl.text
+
+      const standalone = getObjectProperty(options, 'standalone')
+      if (standalone)
+        angularClass.standalone = standalone.kind === ts.SyntaxKind.TrueKeyword
+    }
+
+    for (const member of node.members) {
+      if (ts.isConstructorDeclaration(member)) {
+        angularClass.injections.push(...this.parseConstructorInjections(member, context))
+        continue
+      }
+
+      const name = getPropertyName(member)
+      if (!name)
+        continue
+
+      if (ts.isMethodDeclaration(member)) {
+        if (this.LIFECYCLE_HOOKS.includes(name)) {
+          angularClass.lifecycle.push({ name, range: this.rangeOf(member, context) })
+        }
+        else {
+          angularClass.methods.push({
+            name,
+            params: member.parameters.map(param => param.getText(context.sourceFile)),
+            isAsync: member.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.AsyncKeyword) ?? false,
+            range: this.rangeOf(member, context),
+          })
+        }
+      }
+      else if (ts.isPropertyDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+        this.parseMember(member, name, angularClass, context)
+      }
+    }
+
+    return angularClass
+  }
+
+  /**
+   * 解析 @Input / @Output 装饰的成员，以及 input() / output() / model() / inject() 初始化的属性
+   */
+  private static parseMember(
+    member: ts.PropertyDeclaration | ts.SetAccessorDeclaration,
+    name: string,
+    angularClass: AngularClass,
+    context: ParseContext,
+  ): void {
+    const range = this.rangeOf(member, context)
+    const decorator = this.findDecorator(member, ['Input', 'Output'] as const)
+    const declaredType = ts.isPropertyDeclaration(member)
+      ? member.type?.getText(context.sourceFile)
+      : member.parameters[0]?.type?.getText(context.sourceFile)
+    const initializer = ts.isPropertyDeclaration(member) && member.initializer
+      ? unwrapExpression(member.initializer)
+      : undefined
+
+    if (decorator?.name === 'Input') {
+      // @Input('alias') / @Input({ alias, required })
+      const argument = decorator.call?.arguments[0]
+      const options = argument && ts.isObjectLiteralExpression(argument) ? argument : undefined
+      const alias = argument && ts.isStringLiteralLike(argument) ? argument : options && getObjectProperty(options, 'alias')
+      const required = options && getObjectProperty(options, 'required')
+      angularClass.inputs.push({
+        name,
+        alias: alias && ts.isStringLiteralLike(alias) ? alias.text : undefined,
+        type: declaredType || inferTypeFromNode(initializer),
+        required: required?.kind === ts.SyntaxKind.TrueKeyword || undefined,
+        isSignal: false,
+        range,
+      })
+      return
+    }
+
+    if (decorator?.name === 'Output') {
+      // @Output() changed = new EventEmitter<string>()
+      const argument = decorator.call?.arguments[0]
+      const emitterType = initializer && ts.isNewExpression(initializer) ? initializer.typeArguments?.[0] : undefined
+      angularClass.outputs.push({
+        name,
+        alias: argument && ts.isStringLiteralLike(argument) ? argument.text : undefined,
+        type: emitterType?.getText(context.sourceFile) || declaredType,
+        isSignal: false,
+        range,
+      })
+      return
+    }
+
+    if (!initializer || !ts.isCallExpression(initializer))
+      return
+
+    // input.required<T>() 的被调用者是 input.required
+    const callee = initializer.expression
+    const factory = ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)
+      ? callee.expression.text
+      : getCalleeName(initializer)
+    const isRequired = ts.isPropertyAccessExpression(callee) && callee.name.text === 'required'
+    const signalType = initializer.typeArguments?.[0]?.getText(context.sourceFile)
+    const options = initializer.arguments.find(ts.isObjectLiteralExpression)
+    const alias = options && getObjectProperty(options, 'alias')
+    const aliasText = alias && ts.isStringLiteralLike(alias) ? alias.text : undefined
+
+    if (factory === 'input' || factory === 'model') {
+      // 未声明类型参数时根据初始值推断
+      const type = signalType || inferTypeFromNode(initializer.arguments[0])
+      angularClass.inputs.push({ name, alias: aliasText, type, required: isRequired || undefined, isSignal: true, range })
+      // model() 同时产生 nameChange 输出，用于双向绑定
+      if (factory === 'model')
+        angularClass.outputs.push({ name: `${aliasText || name}Change`, type, isSignal: true, range })
+    }
+    else if (factory === 'output') {
+      angularClass.outputs.push({ name, alias: aliasText, type: signalType, isSignal: true, range })
+    }
+    else if (factory === 'inject' && initializer.arguments[0]) {
+      angularClass.injections.push({
+        name,
+        type: initializer.arguments[0].getText(context.sourceFile),
+        source: 'inject',
+        range,
+      })
+    }
+  }
+
+  /**
+   * 构造函数参数注入，如 constructor(private http: HttpClient)
+   */
+  private static parseConstructorInjections(node: ts.ConstructorDeclaration, context: ParseContext): AngularInjection[] {
+    return node.parameters.flatMap((param) => {
+      if (!ts.isIdentifier(param.name))
+        return []
+
+      // @Inject(TOKEN) 优先于类型注解
+      const injectDecorator = this.findDecorator(param, ['Inject'] as const)
+      const token = injectDecorator?.call?.arguments[0]
+      const type = token?.getText(context.sourceFile) || param.type?.getText(context.sourceFile)
+      if (!type)
+        return []
+
+      return [{
+        name: param.name.text,
+        type,
+        source: 'constructor' as const,
+        range: this.rangeOf(param, context),
+      }]
+    })
+  }
+}
@@ -0,0 +1,121 @@
+import ts from 'typescript'
+
+/**
+ * 基于 TypeScript AST 的解析辅助函数，供各框架解析器共用
+ */
+
+/**
+ * 展开类型字面量、本地 interface / type 别名与交叉类型的成员
+ * 从其他文件导入的类型无法解析，返回空
+ */
+export function resolveTypeMembers(type: ts.TypeNode, sourceFiles: ts.SourceFile[], seen = new Set<string>()): ts.TypeElement[] {
+  if (ts.isTypeLiteralNode(type)) {
+    return [...type.members]
+  }
+  if (ts.isParenthesizedTypeNode(type)) {
+    return resolveTypeMembers(type.type, sourceFiles, seen)
+  }
+  if (ts.isIntersectionTypeNode(type)) {
+    return type.types.flatMap(member => resolveTypeMembers(member, sourceFiles, seen))
+  }
+  if (!ts.isTypeReferenceNode(type) || !ts.isIdentifier(type.typeName)) {
+    return []
+  }
+
+  const typeName = type.typeName.text
+  if (seen.has(typeName))
+    return []
+  seen.add(typeName)
+
+  for (const sourceFile of sourceFiles) {
+    for (const statement of sourceFile.statements) {
+      if (ts.isInterfaceDeclaration(statement) && statement.name.text === typeName) {
+        const inherited = (statement.heritageClauses || [])
+          .flatMap(clause => clause.types)
+          .flatMap(heritage => ts.isIdentifier(heritage.expression)
+            ? resolveTypeMembers(ts.factory.createTypeReferenceNode(heritage.expression.text), sourceFiles, seen)
+            : [])
+        return [...inherited, ...statement.members]
+      }
+      if (ts.isTypeAliasDeclaration(statement) && statement.name.text === typeName) {
+        return resolveTypeMembers(statement.type, sourceFiles, seen)
+      }
+    }
+  }
+
+  return []
+}
+
+/**
+ * 调用表达式的函数名，React.useState 返回 useState
+ */
+export function getCalleeName(call: ts.CallExpression): string | undefined {
+  const callee = call.expression
+  if (ts.isIdentifier(callee))
+    return callee.text
+  if (ts.isPropertyAccessExpression(callee))
+    return callee.name.text
+  return undefined
+}
+
+/**
+ * 绑定模式中声明的全部变量名，如 [count, setCount] 返回 ['count', 'setCount']
+ */
+export function getBindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name))
+    return [name.text]
+  return name.elements.flatMap(element => ts.isOmittedExpression(element) ? [] : getBindingNames(element.name))
+}
+
+export function getPropertyName(node: ts.ObjectLiteralElementLike | ts.TypeElement | ts.ClassElement): string | undefined {
+  const name = node.name
+  if (!name)
+    return undefined
+  if (ts.isIdentifier(name) || ts.isStringLiteralLike(name) || ts.isNumericLiteral(name))
+    return name.text
+  return undefined
+}
+
+export function getObjectProperty(node: ts.ObjectLiteralExpression, key: string): ts.Node | undefined {
+  const property = node.properties.find(item => getPropertyName(item) === key)
+  if (!property)
+    return undefined
+  return ts.isPropertyAssignment(property) ? unwrapExpression(property.initializer) : property
+}
+
+/**
+ * 去掉括号、类型断言和非空断言，得到实际的表达式
+ */
+export function unwrapExpression(node: ts.Expression): ts.Expression {
+  let current = node
+  while (
+    ts.isParenthesizedExpression(current)
+    || ts.isAsExpression(current)
+    || ts.isSatisfiesExpression(current)
+    || ts.isTypeAssertionExpression(current)
+    || ts.isNonNullExpression(current)
+  ) {
+    current = current.expression
+  }
+  return current
+}
+
+export function inferTypeFromNode(node: ts.Expression | undefined): string | undefined {
+  if (!node)
+    return undefined
+
+  const value = unwrapExpression(node)
+  if (ts.isStringLiteralLike(value) || ts.isTemplateExpression(value))
+    return 'string'
+  if (ts.isNumericLiteral(value) || (ts.isPrefixUnaryExpression(value) && ts.isNumericLiteral(value.operand)))
+    return 'number'
+  if (value.kind === ts.SyntaxKind.TrueKeyword || value.kind === ts.SyntaxKind.FalseKeyword)
+    return 'boolean'
+  if (ts.isArrayLiteralExpression(value))
+    return 'array'
+  if (ts.isObjectLiteralExpression(value))
+    return 'object'
+  if (value.kind === ts.SyntaxKind.NullKeyword)
+    return 'null'
+  return undefined
+}
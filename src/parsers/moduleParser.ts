@@ -0,0 +1,168 @@
+import ts from 'typescript'
+import { unwrapExpression } from './astUtils.js'
+
+/**
+ * 一条导入，names 为从源模块取用的导出名
+ * default 表示默认导出，* 表示整体使用（命名空间导入、export * 和动态导入）
+ */
+export interface ModuleImport {
+  source: string
+  names: string[]
+}
+
+export type ModuleExportKind = 'function' | 'component' | 'hook' | 'composable'
+
+/**
+ * 文件中导出的函数类符号，offset 为符号名称在脚本中的位置
+ */
+export interface ModuleExport {
+  // 导出名，默认导出为 default
+  name: string
+  // 声明时的名称，用于显示
+  localName: string
+  kind: ModuleExportKind
+  offset: number
+}
+
+type FunctionNode = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction
+
+// 包装后仍返回组件的高阶函数
+const COMPONENT_WRAPPERS = ['memo', 'forwardRef', 'observer']
+
+/**
+ * 解析文件的全部导入，包括 export ... from 的转发
+ * @param sourceFile 脚本语法树
+ */
+export function parseModuleImports(sourceFile: ts.SourceFile): ModuleImport[] {
+  const imports: ModuleImport[] = []
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const names: string[] = []
+      const clause = node.importClause
+      if (clause?.name) {
+        names.push('default')
+      }
+      if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+        names.push('*')
+      }
+      else if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        names.push(...clause.namedBindings.elements.map(element => (element.propertyName || element.name).text))
+      }
+      imports.push({ source: node.moduleSpecifier.text, names })
+    }
+    else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      const names = node.exportClause && ts.isNamedExports(node.exportClause)
+        ? node.exportClause.elements.map(element => (element.propertyName || element.name).text)
+        : ['*']
+      imports.push({ source: node.moduleSpecifier.text, names })
+    }
+    else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0])) {
+      const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require'
+      if (isDynamicImport || isRequire) {
+        imports.push({ source: node.arguments[0].text, names: ['*'] })
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return imports
+}
+
+/**
+ * 解析文件导出的函数、组件、Hook 和组合式函数，变量、类型和类不在统计范围内
+ * @param sourceFile 脚本语法树
+ * @param framework 文件使用的框架，决定 use 开头的函数归为 Hook 还是组合式函数
+ */
+export function parseModuleExports(sourceFile: ts.SourceFile, framework: 'react' | 'vue' | undefined): ModuleExport[] {
+  const exports: ModuleExport[] = []
+  // 声明为函数的顶层变量和函数，值为名称节点
+  const locals = new Map<string, ts.Node>()
+  const isJsx = sourceFile.languageVariant === ts.LanguageVariant.JSX
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      locals.set(statement.name.text, statement.name)
+    }
+    else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (declaration.initializer && getFunction(declaration.initializer) && ts.isIdentifier(declaration.name)) {
+          locals.set(declaration.name.text, declaration.name)
+        }
+      }
+    }
+  }
+
+  const add = (name: string, localName: string, node: ts.Node): void => {
+    const kind = classify(localName, framework, isJsx)
+    exports.push({ name, localName, kind, offset: node.getStart(sourceFile) })
+  }
+
+  for (const statement of sourceFile.statements) {
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined
+    const isExported = modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)
+    const isDefault = modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword)
+
+    if (ts.isFunctionDeclaration(statement) && isExported) {
+      const localName = statement.name?.text || 'default'
+      add(isDefault ? 'default' : localName, localName, statement.name || statement)
+    }
+    else if (ts.isVariableStatement(statement) && isExported) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && locals.has(declaration.name.text)) {
+          add(declaration.name.text, declaration.name.text, declaration.name)
+        }
+      }
+    }
+    else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        const localName = (element.propertyName || element.name).text
+        const local = locals.get(localName)
+        if (local) {
+          add(element.name.text, localName, local)
+        }
+      }
+    }
+    else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const expression = unwrapExpression(statement.expression)
+      const local = ts.isIdentifier(expression) ? locals.get(expression.text) : undefined
+      if (local && ts.isIdentifier(expression)) {
+        add('default', expression.text, local)
+      }
+      else if (getFunction(expression)) {
+        add('default', 'default', statement)
+      }
+    }
+  }
+
+  return exports
+}
+
+/**
+ * 变量初始值中的函数，支持 memo(() => ...) 等包装
+ */
+function getFunction(node: ts.Expression): FunctionNode | undefined {
+  const value = unwrapExpression(node)
+  if (ts.isArrowFunction(value) || ts.isFunctionExpression(value))
+    return value
+  if (ts.isCallExpression(value) && value.arguments.length > 0) {
+    const callee = ts.isPropertyAccessExpression(value.expression) ? value.expression.name.text : value.expression.getText()
+    if (COMPONENT_WRAPPERS.includes(callee))
+      return getFunction(value.arguments[0])
+  }
+  return undefined
+}
+
+function classify(name: string, framework: 'react' | 'vue' | undefined, isJsx: boolean): ModuleExportKind {
+  if (/^use[A-Z0-9]/.test(name)) {
+    if (framework === 'vue')
+      return 'composable'
+    if (framework === 'react' || isJsx)
+      return 'hook'
+  }
+  if (/^[A-Z]/.test(name) && (framework === 'react' || isJsx))
+    return 'component'
+  return 'function'
+}
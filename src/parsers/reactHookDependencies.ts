@@ -0,0 +1,204 @@
+import ts from 'typescript'
+import { getBindingNames, unwrapExpression } from './astUtils.js'
+
+/**
+ * 依赖数组的检查结果，依赖以路径表示，如 user.id
+ */
+export interface HookDependencyResult {
+  missing: string[]
+  unnecessary: string[]
+}
+
+type FunctionNode = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction
+
+// 需要检查依赖数组的 Hook
+const CHECKED_HOOKS = ['useEffect', 'useLayoutEffect', 'useInsertionEffect', 'useMemo', 'useCallback']
+
+const EFFECT_HOOKS = ['useEffect', 'useLayoutEffect', 'useInsertionEffect']
+
+const ASSIGNMENT_OPERATORS = [
+  ts.SyntaxKind.EqualsToken,
+  ts.SyntaxKind.PlusEqualsToken,
+  ts.SyntaxKind.MinusEqualsToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]
+
+/**
+ * 对比 Hook 的依赖数组与回调中实际引用的组件作用域变量
+ * 规则与 eslint-plugin-react-hooks 的 exhaustive-deps 保持一致：
+ * - 组件外部的值、回调内部声明的值和稳定值（setState、dispatch、useRef 返回值）不需要声明
+ * - useMemo / useCallback 中未使用的依赖视为不必要；effect 允许额外依赖，只有组件外部的值才视为不必要
+ * 未传入内联回调或依赖数组不是数组字面量时无法静态分析，返回 undefined
+ * @param scope 组件或自定义 Hook 函数
+ * @param call Hook 调用表达式
+ * @param hookName 去掉导入别名后的 Hook 名
+ * @param stableNames 组件内的稳定值
+ */
+export function analyzeHookDependencies(
+  scope: FunctionNode,
+  call: ts.CallExpression,
+  hookName: string,
+  stableNames: Set<string>,
+): HookDependencyResult | undefined {
+  if (!CHECKED_HOOKS.includes(hookName))
+    return undefined
+
+  const callback = call.arguments[0] && unwrapExpression(call.arguments[0])
+  const dependencyArray = call.arguments[1] && unwrapExpression(call.arguments[1])
+  if (!callback || !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback)))
+    return undefined
+  if (!dependencyArray || !ts.isArrayLiteralExpression(dependencyArray))
+    return undefined
+  if (dependencyArray.elements.some(element => ts.isSpreadElement(element)))
+    return undefined
+
+  const scopeNames = collectScopeNames(scope)
+  const localNames = collectLocalNames(callback)
+  const referenced = new Set<string>()
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isTypeNode(node))
+      return
+
+    if (ts.isIdentifier(node) && isReference(node)) {
+      const name = node.text
+      if (scopeNames.has(name) && !localNames.has(name) && !stableNames.has(name)) {
+        referenced.add(getDependencyPath(node))
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  ts.forEachChild(callback.body, visit)
+
+  // 已有 user 时不再单独要求 user.id
+  const required = [...referenced].filter(path => !hasAncestorPath(path, referenced))
+  const declared = dependencyArray.elements.map(element => normalizePath(element.getText()))
+  const covers = (dependency: string, path: string): boolean => path === dependency || path.startsWith(`${dependency}.`)
+
+  const missing = required.filter(path => !declared.some(dependency => covers(dependency, path)))
+  const unnecessary = declared.filter((dependency) => {
+    const root = dependency.split('.')[0]
+    if (stableNames.has(root))
+      return false
+    if (EFFECT_HOOKS.includes(hookName))
+      return !scopeNames.has(root)
+    return !required.some(path => covers(dependency, path) || covers(path, dependency))
+  })
+
+  return { missing, unnecessary }
+}
+
+/**
+ * 组件作用域内声明的变量：参数以及函数体中的声明，不进入嵌套函数
+ */
+function collectScopeNames(scope: FunctionNode): Set<string> {
+  const names = new Set(scope.parameters.flatMap(param => getBindingNames(param.name)))
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isVariableDeclaration(node)) {
+      getBindingNames(node.name).forEach(name => names.add(name))
+    }
+    else if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.name) {
+      names.add(node.name.text)
+    }
+
+    if (ts.isFunctionLike(node) || ts.isClassLike(node))
+      return
+    ts.forEachChild(node, visit)
+  }
+
+  if (scope.body)
+    ts.forEachChild(scope.body, visit)
+  return names
+}
+
+/**
+ * 回调内部声明的变量（含嵌套函数的参数），引用它们不需要声明依赖
+ */
+function collectLocalNames(callback: ts.ArrowFunction | ts.FunctionExpression): Set<string> {
+  const names = new Set<string>()
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isParameter(node) || ts.isVariableDeclaration(node) || ts.isBindingElement(node)) {
+      getBindingNames(node.name).forEach(name => names.add(name))
+    }
+    else if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isFunctionExpression(node)) && node.name) {
+      names.add(node.name.text)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  ts.forEachChild(callback, visit)
+  return names
+}
+
+/**
+ * 标识符是否为变量引用，排除属性名、声明名、标签等
+ */
+function isReference(node: ts.Identifier): boolean {
+  const parent = node.parent
+  if (ts.isPropertyAccessExpression(parent))
+    return parent.expression === node
+  if (ts.isPropertyAssignment(parent) || ts.isMethodDeclaration(parent) || ts.isPropertyDeclaration(parent))
+    return parent.name !== node
+  if (ts.isBindingElement(parent))
+    return parent.propertyName !== node && parent.name !== node
+  if (
+    ts.isVariableDeclaration(parent)
+    || ts.isParameter(parent)
+    || ts.isFunctionDeclaration(parent)
+    || ts.isFunctionExpression(parent)
+    || ts.isClassDeclaration(parent)
+  ) {
+    return parent.name !== node
+  }
+  return !(
+    ts.isJsxAttribute(parent)
+    || ts.isLabeledStatement(parent)
+    || ts.isBreakOrContinueStatement(parent)
+    || ts.isGetAccessorDeclaration(parent)
+    || ts.isSetAccessorDeclaration(parent)
+  )
+}
+
+/**
+ * 从标识符向外取属性访问链作为依赖路径
+ * items.filter() 只依赖 items，user.name = x 只依赖 user
+ */
+function getDependencyPath(identifier: ts.Identifier): string {
+  let path = identifier.text
+  let current: ts.Expression = identifier
+
+  while (ts.isPropertyAccessExpression(current.parent) && current.parent.expression === current) {
+    const access: ts.PropertyAccessExpression = current.parent
+    if (ts.isCallExpression(access.parent) && access.parent.expression === access)
+      break
+    if (ts.isBinaryExpression(access.parent) && access.parent.left === access && ASSIGNMENT_OPERATORS.includes(access.parent.operatorToken.kind))
+      break
+    path += `.${access.name.text}`
+    current = access
+  }
+
+  return path
+}
+
+function getParentPath(path: string): string {
+  return path.slice(0, Math.max(0, path.lastIndexOf('.')))
+}
+
+function hasAncestorPath(path: string, paths: Set<string>): boolean {
+  for (let parent = getParentPath(path); parent; parent = getParentPath(parent)) {
+    if (paths.has(parent))
+      return true
+  }
+  return false
+}
+
+/**
+ * 去掉空白和可选链，props?.user 与 props.user 视为同一依赖
+ */
+function normalizePath(text: string): string {
+  return text.replace(/\s+/g, '').replace(/\?\./g, '.').replace(/!/g, '')
+}
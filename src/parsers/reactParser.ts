@@ -1,14 +1,52 @@
+import * as path from 'node:path'
+import ts from 'typescript'
 import * as vscode from 'vscode'
+import {
+  getBindingNames,
+  getCalleeName,
+  getPropertyName,
+  inferTypeFromNode,
+  resolveTypeMembers,
+  unwrapExpression,
+} from './astUtils.js'
+import { analyzeHookDependencies } from './reactHookDependencies.js'
 
 export interface ReactComponent {
   name: string
   type: 'functional' | 'class'
+  // 包裹组件的高阶函数，由外到内，如 ['memo', 'forwardRef']
+  wrappers: ('memo' | 'forwardRef')[]
+  propsType?: string
   props: ReactProp[]
   state?: ReactState[]
   methods: ReactMethod[]
   hooks: ReactHook[]
   imports: ReactImport[]
   exports: ReactExport[]
+  isExported: boolean
+  isDefaultExport: boolean
+  range: vscode.Range
+}
+
+/**
+ * 文件中定义的自定义 Hook（use 开头的函数）
+ */
+export interface ReactCustomHook {
+  name: string
+  params: string[]
+  hooks: ReactHook[]
+  isExported: boolean
+  range: vscode.Range
+}
+
+/**
+ * 单个文件的解析结果
+ */
+export interface ReactModule {
+  components: ReactComponent[]
+  customHooks: ReactCustomHook[]
+  imports: ReactImport[]
+  exports: ReactExport[]
 }
 
 export interface ReactProp {
@@ -34,9 +72,21 @@ export interface ReactMethod {
 }
 
 export interface ReactHook {
+  // 接收返回值的变量名，未赋值时为 Hook 名
   name: string
-  type: 'useState' | 'useEffect' | 'useContext' | 'useReducer' | 'useMemo' | 'useCallback' | 'custom'
+  hookName: string
+  type: 'useState' | 'useEffect' | 'useLayoutEffect' | 'useContext' | 'useReducer' | 'useMemo' | 'useCallback' | 'useRef' | 'useImperativeHandle' | 'custom'
+  // 解构或赋值得到的全部变量，如 useState 的 [count, setCount]
+  bindings: string[]
+  // 未传依赖数组时为 undefined（每次渲染都执行），空数组表示只在挂载时执行
   dependencies?: string[]
+  // effect 回调是否返回清理函数
+  hasCleanup?: boolean
+  // 回调中引用了但未声明的依赖、声明了但不需要的依赖（仅 useEffect / useMemo / useCallback 等）
+  missingDependencies?: string[]
+  unnecessaryDependencies?: string[]
+  // 依赖数组的位置
+  dependencyRange?: vscode.Range
   range: vscode.Range
 }
 
@@ -50,9 +100,20 @@ export interface ReactImport {
 export interface ReactExport {
   name: string
   isDefault: boolean
+  // export default memo(Card) 中包裹导出组件的高阶函数
+  wrappers?: ReactComponent['wrappers']
   range: vscode.Range
 }
 
+type FunctionNode = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction
+
+interface ParseContext {
+  document: vscode.TextDocument
+  sourceFile: ts.SourceFile
+  // 从 react 导入时的别名，如 useState as useS
+  aliases: Map<string, string>
+}
+
 export class ReactParser {
   private static readonly LIFECYCLE_METHODS = [
     'componentDidMount',
@@ -78,28 +139,127 @@ export class ReactParser {
     'useDebugValue',
   ]
 
-  static parseReactFile(document: vscode.TextDocument): ReactComponent | null {
-    const content = document.getText()
-    const fileName = document.uri.fsPath.split('/').pop()?.replace(/\.(jsx?|tsx?)$/, '') || 'Component'
+  // 依赖数组所在的参数位置
+  private static readonly DEPENDENCY_ARGUMENT_INDEX: Record<string, number> = {
+    useEffect: 1,
+    useLayoutEffect: 1,
+    useInsertionEffect: 1,
+    useMemo: 1,
+    useCallback: 1,
+    useImperativeHandle: 2,
+  }
+
+  private static readonly EFFECT_HOOKS = ['useEffect', 'useLayoutEffect', 'useInsertionEffect']
 
-    if (!this.isReactFile(content)) {
+  // 返回值中引用不变的绑定位置，如 useState 的 setter、useReducer 的 dispatch
+  private static readonly STABLE_BINDING_INDEX: Record<string, number> = {
+    useState: 1,
+    useReducer: 1,
+    useTransition: 1,
+    useRef: 0,
+  }
+
+  private static readonly COMPONENT_BASE_CLASSES = ['Component', 'PureComponent']
+
+  /**
+   * 解析文件中的主组件：优先默认导出，其次与文件同名的组件，最后取第一个组件
+   */
+  static parseReactFile(document: vscode.TextDocument): ReactComponent | null {
+    const module = this.parseReactModule(document)
+    if (!module || module.components.length === 0) {
       return null
     }
 
-    const componentType = this.detectComponentType(content)
-    const imports = this.parseImports(content, document)
-    const exports = this.parseExports(content, document)
+    const fileName = this.getFileName(document)
+    return module.components.find(component => component.isDefaultExport)
+      || module.components.find(component => component.name === fileName)
+      || module.components[0]
+  }
+
+  /**
+   * 解析文件中的全部组件、自定义 Hook、导入和导出
+   */
+  static parseReactModule(document: vscode.TextDocument): ReactModule | null {
+    const content = document.getText()
+    if (!this.isReactFile(content, document.fileName)) {
+      return null
+    }
 
-    if (componentType === 'class') {
-      return this.parseClassComponent(content, document, fileName, imports, exports)
+    const sourceFile = ts.createSourceFile(
+      document.fileName,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(document.fileName),
+    )
+    const context: ParseContext = { document, sourceFile, aliases: new Map() }
+    const imports = this.parseImports(context)
+    const exports = this.parseExports(context)
+    const components: ReactComponent[] = []
+    const customHooks: ReactCustomHook[] = []
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isFunctionDeclaration(statement)) {
+        const name = statement.name?.text || (this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword) ? this.getFileName(document) : undefined)
+        if (!name)
+          continue
+
+        if (this.isHookName(name)) {
+          customHooks.push(this.createCustomHook(name, statement, statement, context))
+        }
+        else if (this.isComponentFunction(name, statement)) {
+          components.push(this.createFunctionComponent(name, statement, [], undefined, statement, context))
+        }
+      }
+      else if (ts.isClassDeclaration(statement) && this.isClassComponent(statement)) {
+        components.push(this.createClassComponent(statement, context))
+      }
+      else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (!ts.isIdentifier(declaration.name) || !declaration.initializer)
+            continue
+
+          const name = declaration.name.text
+          const { fn, wrappers, typeArguments } = this.unwrapComponent(declaration.initializer)
+          if (!fn)
+            continue
+
+          if (this.isHookName(name) && wrappers.length === 0) {
+            customHooks.push(this.createCustomHook(name, fn, statement, context))
+          }
+          else if (this.isComponentFunction(name, fn) || wrappers.length > 0) {
+            const propsType = this.getPropsTypeNode(fn, declaration.type, wrappers, typeArguments)
+            components.push(this.createFunctionComponent(name, fn, wrappers, propsType, statement, context))
+          }
+        }
+      }
+      else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        // export default () => <div /> / export default memo(function () {})
+        const { fn, wrappers, typeArguments } = this.unwrapComponent(statement.expression)
+        if (fn && (wrappers.length > 0 || this.containsJsx(fn))) {
+          const propsType = this.getPropsTypeNode(fn, undefined, wrappers, typeArguments)
+          const component = this.createFunctionComponent(this.getFileName(document), fn, wrappers, propsType, statement, context)
+          component.isExported = true
+          component.isDefaultExport = true
+          components.push(component)
+        }
+      }
     }
-    else {
-      return this.parseFunctionalComponent(content, document, fileName, imports, exports)
+
+    this.applyStaticProps(components, context)
+    this.applyExports(components, customHooks, exports)
+
+    for (const component of components) {
+      component.imports = imports
+      component.exports = exports
     }
+
+    return { components, customHooks, imports, exports }
   }
 
-  private static isReactFile(content: string): boolean {
-    return content.includes('import React')
+  private static isReactFile(content: string, fileName: string): boolean {
+    return /\.(?:jsx|tsx)$/i.test(fileName)
+      || content.includes('import React')
       || content.includes('from \'react\'')
       || content.includes('from "react"')
       || content.includes('JSX.Element')
@@ -107,386 +267,580 @@ export class ReactParser {
       || content.includes('React.FC')
   }
 
-  private static detectComponentType(content: string): 'functional' | 'class' {
-    if (content.includes('extends React.Component') || content.includes('extends Component')) {
-      return 'class'
+  private static getScriptKind(fileName: string): ts.ScriptKind {
+    const extension = path.extname(fileName).toLowerCase()
+    if (extension === '.tsx')
+      return ts.ScriptKind.TSX
+    if (extension === '.ts')
+      return ts.ScriptKind.TS
+    // .js 文件中也可能包含 JSX
+    return ts.ScriptKind.JSX
+  }
+
+  private static getFileName(document: vscode.TextDocument): string {
+    return path.basename(document.uri.fsPath).replace(/\.(?:jsx?|tsx?)$/, '') || 'Component'
+  }
+
+  private static rangeOf(node: ts.Node, context: ParseContext): vscode.Range {
+    return new vscode.Range(
+      context.document.positionAt(node.getStart(context.sourceFile)),
+      context.document.positionAt(node.getEnd()),
+    )
+  }
+
+  private static isHookName(name: string): boolean {
+    return /^use[A-Z0-9]/.test(name) || name === 'use'
+  }
+
+  private static isComponentFunction(name: string, fn: FunctionNode): boolean {
+    return /^[A-Z]/.test(name) && this.containsJsx(fn)
+  }
+
+  private static containsJsx(node: ts.Node): boolean {
+    let found = false
+    const visit = (child: ts.Node): void => {
+      if (found)
+        return
+      if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child) || ts.isJsxFragment(child)) {
+        found = true
+        return
+      }
+      if (ts.isCallExpression(child) && getCalleeName(child) === 'createElement') {
+        found = true
+        return
+      }
+      ts.forEachChild(child, visit)
     }
-    return 'functional'
+    ts.forEachChild(node, visit)
+    return found
   }
 
-  private static parseClassComponent(
-    content: string,
-    document: vscode.TextDocument,
-    fileName: string,
-    imports: ReactImport[],
-    exports: ReactExport[],
-  ): ReactComponent {
-    const _lines = document.getText().split('\n')
+  private static hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return !!ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind)
+  }
+
+  /**
+   * 拆开 memo / forwardRef 包裹，得到组件函数，或者 memo(Card) 中被包裹的组件名
+   */
+  private static unwrapComponent(expression: ts.Expression): {
+    fn?: FunctionNode
+    identifier?: ts.Identifier
+    wrappers: ReactComponent['wrappers']
+    typeArguments: ts.NodeArray<ts.TypeNode> | undefined
+  } {
+    const wrappers: ReactComponent['wrappers'] = []
+    let typeArguments: ts.NodeArray<ts.TypeNode> | undefined
+    let current = unwrapExpression(expression)
+
+    while (ts.isCallExpression(current)) {
+      const callee = getCalleeName(current)
+      if ((callee !== 'memo' && callee !== 'forwardRef') || current.arguments.length === 0)
+        break
+
+      wrappers.push(callee)
+      if (callee === 'forwardRef') {
+        typeArguments = current.typeArguments
+      }
+      current = unwrapExpression(current.arguments[0])
+    }
 
     return {
-      name: fileName,
-      type: 'class',
-      props: this.parseProps(content, document),
-      state: this.parseState(content, document),
-      methods: this.parseMethods(content, document),
-      hooks: [],
-      imports,
-      exports,
+      fn: ts.isArrowFunction(current) || ts.isFunctionExpression(current) ? current : undefined,
+      identifier: ts.isIdentifier(current) ? current : undefined,
+      wrappers,
+      typeArguments,
     }
   }
 
-  private static parseFunctionalComponent(
-    content: string,
-    document: vscode.TextDocument,
-    fileName: string,
-    imports: ReactImport[],
-    exports: ReactExport[],
+  /**
+   * 组件 props 的类型来源：参数类型注解、React.FC<Props> 变量注解或 forwardRef<Ref, Props>
+   */
+  private static getPropsTypeNode(
+    fn: FunctionNode,
+    variableType: ts.TypeNode | undefined,
+    wrappers: ReactComponent['wrappers'],
+    typeArguments: ts.NodeArray<ts.TypeNode> | undefined,
+  ): ts.TypeNode | undefined {
+    const parameterType = fn.parameters[0]?.type
+    if (parameterType)
+      return parameterType
+
+    if (wrappers.includes('forwardRef') && typeArguments?.[1])
+      return typeArguments[1]
+
+    // React.FC<Props> / FC<Props> / React.FunctionComponent<Props>
+    if (variableType && ts.isTypeReferenceNode(variableType) && variableType.typeArguments?.[0])
+      return variableType.typeArguments[0]
+
+    return undefined
+  }
+
+  private static createFunctionComponent(
+    name: string,
+    fn: FunctionNode,
+    wrappers: ReactComponent['wrappers'],
+    propsType: ts.TypeNode | undefined,
+    node: ts.Node,
+    context: ParseContext,
   ): ReactComponent {
     return {
-      name: fileName,
+      name,
       type: 'functional',
-      props: this.parseProps(content, document),
-      methods: this.parseMethods(content, document),
-      hooks: this.parseHooks(content, document),
-      imports,
-      exports,
+      wrappers,
+      propsType: (propsType || fn.parameters[0]?.type)?.getText(),
+      props: this.parseFunctionProps(fn, propsType || fn.parameters[0]?.type, context),
+      methods: this.parseInnerFunctions(fn, context),
+      hooks: this.parseHooks(fn, context),
+      imports: [],
+      exports: [],
+      isExported: this.hasModifier(node, ts.SyntaxKind.ExportKeyword),
+      isDefaultExport: this.hasModifier(node, ts.SyntaxKind.DefaultKeyword),
+      range: this.rangeOf(node, context),
     }
   }
 
-  private static parseImports(content: string, document: vscode.TextDocument): ReactImport[] {
-    const imports: ReactImport[] = []
-    const lines = document.getText().split('\n')
-
-    const importRegex = /import\s+(?:(\w+)|\{([^}]+)\}|\*\s+as\s+(\w+))\s+from\s+['"`]([^'"`]+)['"`]/g
-    let match
-
-    match = importRegex.exec(content)
-    while (match !== null) {
-      const [fullMatch, defaultImport, namedImports, namespaceImport, fromModule] = match
-      const lineIndex = lines.findIndex(line => line.includes(fullMatch))
-      const range = lineIndex !== -1
-        ? new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-        : new vscode.Range(0, 0, 0, 0)
-
-      if (defaultImport) {
-        imports.push({
-          name: defaultImport,
-          from: fromModule,
-          isDefault: true,
-          range,
-        })
-      }
+  private static createCustomHook(name: string, fn: FunctionNode, node: ts.Node, context: ParseContext): ReactCustomHook {
+    return {
+      name,
+      params: fn.parameters.map(param => param.getText()),
+      hooks: this.parseHooks(fn, context),
+      isExported: this.hasModifier(node, ts.SyntaxKind.ExportKeyword),
+      range: this.rangeOf(node, context),
+    }
+  }
 
-      if (namedImports) {
-        const names = namedImports.split(',').map(name => name.trim())
-        names.forEach((name) => {
-          const cleanName = name.replace(/\s+as\s+\w+/, '').trim()
-          imports.push({
-            name: cleanName,
-            from: fromModule,
-            isDefault: false,
-            range,
-          })
-        })
+  /**
+   * 合并类型声明中的 props 和参数解构中的 props（解构默认值视为可选）
+   */
+  private static parseFunctionProps(fn: FunctionNode, propsType: ts.TypeNode | undefined, context: ParseContext): ReactProp[] {
+    const props = propsType ? this.parsePropsType(propsType, context) : []
+    const parameter = fn.parameters[0]
+    if (!parameter || !ts.isObjectBindingPattern(parameter.name))
+      return props
+
+    for (const element of parameter.name.elements) {
+      if (element.dotDotDotToken)
+        continue
+
+      const name = element.propertyName?.getText() || element.name.getText()
+      const existing = props.find(prop => prop.name === name)
+      const defaultValue = element.initializer?.getText()
+
+      if (existing) {
+        if (defaultValue !== undefined) {
+          existing.defaultValue = defaultValue
+          existing.required = false
+        }
       }
-
-      if (namespaceImport) {
-        imports.push({
-          name: namespaceImport,
-          from: fromModule,
-          isDefault: false,
-          range,
+      else {
+        props.push({
+          name,
+          defaultValue,
+          required: defaultValue === undefined ? undefined : false,
+          range: this.rangeOf(element, context),
         })
       }
-      match = importRegex.exec(content)
     }
 
-    return imports
+    return props
   }
 
-  private static parseExports(content: string, document: vscode.TextDocument): ReactExport[] {
-    const exports: ReactExport[] = []
-    const lines = document.getText().split('\n')
-
-    const exportRegex = /export\s+(?:default\s+)?(?:const|function|class)\s+(\w+)/g
-    const defaultExportRegex = /export\s+default\s+(\w+)/g
-
-    let match
-
-    match = exportRegex.exec(content)
-    while (match !== null) {
-      const exportName = match[1]
-      const isDefault = match[0].includes('default')
-      const lineIndex = lines.findIndex(line => line.includes(match[0]))
-      const range = lineIndex !== -1
-        ? new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-        : new vscode.Range(0, 0, 0, 0)
-
-      exports.push({
-        name: exportName,
-        isDefault,
-        range,
-      })
-      match = exportRegex.exec(content)
+  private static parsePropsType(type: ts.TypeNode, context: ParseContext): ReactProp[] {
+    // PropsWithChildren<Props> 等包装类型取第一个类型参数
+    if (ts.isTypeReferenceNode(type) && type.typeArguments?.length && /(?:^|\.)PropsWith\w+$/.test(type.typeName.getText())) {
+      return this.parsePropsType(type.typeArguments[0], context)
     }
 
-    match = defaultExportRegex.exec(content)
-    while (match !== null) {
-      const exportName = match[1]
-      const lineIndex = lines.findIndex(line => line.includes(match[0]))
-      const range = lineIndex !== -1
-        ? new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-        : new vscode.Range(0, 0, 0, 0)
-
-      if (!exports.some(exp => exp.name === exportName && exp.isDefault)) {
-        exports.push({
-          name: exportName,
-          isDefault: true,
-          range,
+    return resolveTypeMembers(type, [context.sourceFile])
+      .filter((member): member is ts.PropertySignature | ts.MethodSignature =>
+        ts.isPropertySignature(member) || ts.isMethodSignature(member))
+      .map(member => ({
+        name: getPropertyName(member) || member.name.getText(),
+        type: ts.isPropertySignature(member) ? member.type?.getText() : member.getText(),
+        required: !member.questionToken,
+        range: this.rangeOf(member, context),
+      }))
+  }
+
+  /**
+   * 组件函数体内定义的函数（事件处理等），useCallback 包裹的函数记为 Hook
+   */
+  private static parseInnerFunctions(fn: FunctionNode, context: ParseContext): ReactMethod[] {
+    if (!fn.body || !ts.isBlock(fn.body))
+      return []
+
+    const methods: ReactMethod[] = []
+    for (const statement of fn.body.statements) {
+      if (ts.isFunctionDeclaration(statement) && statement.name) {
+        methods.push({
+          name: statement.name.text,
+          params: statement.parameters.map(param => param.getText()),
+          isLifecycle: false,
+          range: this.rangeOf(statement, context),
         })
       }
-      match = defaultExportRegex.exec(content)
+      else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          const initializer = declaration.initializer && unwrapExpression(declaration.initializer)
+          if (ts.isIdentifier(declaration.name) && initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+            methods.push({
+              name: declaration.name.text,
+              params: initializer.parameters.map(param => param.getText()),
+              isLifecycle: false,
+              range: this.rangeOf(declaration, context),
+            })
+          }
+        }
+      }
     }
 
-    return exports
+    return methods
   }
 
-  private static parseProps(content: string, document: vscode.TextDocument): ReactProp[] {
-    const props: ReactProp[] = []
-    const lines = document.getText().split('\n')
+  /**
+   * 收集函数体内的 Hook 调用，不进入嵌套函数（嵌套函数中的 Hook 违反 Hooks 规则）
+   */
+  private static parseHooks(fn: FunctionNode, context: ParseContext): ReactHook[] {
+    const calls: { call: ts.CallExpression, hook: ReactHook }[] = []
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isFunctionLike(node))
+        return
+
+      if (ts.isCallExpression(node)) {
+        const hookName = getCalleeName(node)
+        if (hookName && this.isHookName(hookName)) {
+          calls.push({ call: node, hook: this.createHook(node, hookName, context) })
+        }
+      }
+      ts.forEachChild(node, visit)
+    }
 
-    const propsTypeRegex = /interface\s+(\w+Props)\s*\{([^}]*)\}/g
-    const propTypeRegex = /type\s+(\w+Props)\s*=\s*\{([^}]*)\}/g
-    const functionPropsRegex = /(?:function\s+\w+|const\s+\w+\s*=\s*(?:\([^)]*\)\s*=>|\([^)]*\)\s*=>\s*\{))\s*\(\s*\{([^}]+)\}\s*(?:[:)]\s*)?\w*Props/g
+    if (fn.body) {
+      ts.forEachChild(fn.body, visit)
+    }
 
-    let match
+    this.checkDependencies(fn, calls, context)
+    return calls.map(({ hook }) => hook)
+  }
 
-    match = propsTypeRegex.exec(content)
-    while (match !== null) {
-      const propsContent = match[2]
-      this.extractPropsFromContent(propsContent, props, document, lines)
-      match = propsTypeRegex.exec(content)
+  /**
+   * 检查依赖数组是否与回调实际引用的值一致
+   */
+  private static checkDependencies(fn: FunctionNode, calls: { call: ts.CallExpression, hook: ReactHook }[], context: ParseContext): void {
+    const stableNames = new Set(calls.flatMap(({ call, hook }) => {
+      const index = this.STABLE_BINDING_INDEX[hook.hookName]
+      const declaration = ts.isVariableDeclaration(call.parent) ? call.parent : undefined
+      if (index === undefined || !declaration)
+        return []
+      // useRef 直接赋值；useState 等需要数组解构才能取到 setter
+      if (index === 0)
+        return ts.isIdentifier(declaration.name) ? [declaration.name.text] : []
+      const element = ts.isArrayBindingPattern(declaration.name) ? declaration.name.elements[index] : undefined
+      return element && ts.isBindingElement(element) && ts.isIdentifier(element.name) ? [element.name.text] : []
+    }))
+
+    for (const { call, hook } of calls) {
+      const result = analyzeHookDependencies(fn, call, hook.hookName, stableNames)
+      if (!result)
+        continue
+
+      hook.missingDependencies = result.missing
+      hook.unnecessaryDependencies = result.unnecessary
+      hook.dependencyRange = this.rangeOf(call.arguments[1], context)
     }
+  }
 
-    match = propTypeRegex.exec(content)
-    while (match !== null) {
-      const propsContent = match[2]
-      this.extractPropsFromContent(propsContent, props, document, lines)
-      match = propTypeRegex.exec(content)
+  private static createHook(call: ts.CallExpression, calleeName: string, context: ParseContext): ReactHook {
+    const hookName = context.aliases.get(calleeName) || calleeName
+    const declaration = ts.isVariableDeclaration(call.parent) ? call.parent : undefined
+    const bindings = declaration ? getBindingNames(declaration.name) : []
+    const type = this.REACT_HOOKS.includes(hookName) && hookName !== 'useDebugValue'
+      ? hookName as ReactHook['type']
+      : 'custom'
+
+    // 内置 Hook 的依赖数组位置固定；自定义 Hook 约定最后一个数组字面量参数为依赖
+    const builtinIndex = this.DEPENDENCY_ARGUMENT_INDEX[hookName]
+    const dependencyIndex = builtinIndex ?? (type === 'custom' ? call.arguments.length - 1 : -1)
+    const dependencyArgument = dependencyIndex >= 0 ? call.arguments[dependencyIndex] : undefined
+    const dependencyValue = dependencyArgument && unwrapExpression(dependencyArgument)
+    let dependencies: string[] | undefined
+    if (dependencyValue && ts.isArrayLiteralExpression(dependencyValue)) {
+      dependencies = dependencyValue.elements.map(element => element.getText())
+    }
+    else if (dependencyValue && builtinIndex !== undefined) {
+      // 依赖数组由变量传入，无法静态展开
+      dependencies = [dependencyValue.getText()]
     }
 
-    match = functionPropsRegex.exec(content)
-    while (match !== null) {
-      const propsContent = match[1]
-      const propNames = propsContent.split(',').map(prop => prop.trim())
-
-      propNames.forEach((propName) => {
-        const cleanName = propName.split(':')[0].trim()
-        const lineIndex = lines.findIndex(line => line.includes(cleanName))
-        const range = lineIndex !== -1
-          ? new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-          : new vscode.Range(0, 0, 0, 0)
+    const hook: ReactHook = {
+      name: bindings[0] || hookName,
+      hookName,
+      type,
+      bindings,
+      dependencies,
+      range: this.rangeOf(declaration || call, context),
+    }
 
-        props.push({
-          name: cleanName,
-          range,
-        })
-      })
-      match = functionPropsRegex.exec(content)
+    if (this.EFFECT_HOOKS.includes(hookName)) {
+      hook.hasCleanup = this.hasCleanup(call.arguments[0])
     }
 
-    return props
+    return hook
   }
 
-  private static extractPropsFromContent(
-    propsContent: string,
-    props: ReactProp[],
-    document: vscode.TextDocument,
-    lines: string[],
-  ) {
-    const propRegex = /(\w+)(\?)?\s*:\s*([^;,\n]+)/g
-    let propMatch
-
-    propMatch = propRegex.exec(propsContent)
-    while (propMatch !== null) {
-      const propName = propMatch[1]
-      const optional = propMatch[2] === '?'
-      const propType = propMatch[3].trim()
-
-      const lineIndex = lines.findIndex(line =>
-        line.includes(propName) && line.includes(':'),
-      )
-      const range = lineIndex !== -1
-        ? new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-        : new vscode.Range(0, 0, 0, 0)
-
-      props.push({
-        name: propName,
-        type: propType,
-        required: !optional,
-        range,
-      })
-      propMatch = propRegex.exec(propsContent)
+  private static hasCleanup(callback: ts.Expression | undefined): boolean {
+    const fn = callback && unwrapExpression(callback)
+    if (!fn || !(ts.isArrowFunction(fn) || ts.isFunctionExpression(fn)))
+      return false
+    if (!ts.isBlock(fn.body))
+      return false
+
+    let found = false
+    const visit = (node: ts.Node): void => {
+      if (found || ts.isFunctionLike(node))
+        return
+      if (ts.isReturnStatement(node) && node.expression) {
+        found = true
+        return
+      }
+      ts.forEachChild(node, visit)
     }
+    ts.forEachChild(fn.body, visit)
+    return found
   }
 
-  private static parseState(content: string, document: vscode.TextDocument): ReactState[] {
-    const state: ReactState[] = []
-    const lines = document.getText().split('\n')
-
-    const stateRegex = /state\s*=\s*\{([^}]*)\}/g
-    let match
-
-    match = stateRegex.exec(content)
-    while (match !== null) {
-      const stateContent = match[1]
-      const stateItemRegex = /(\w+)\s*:\s*([^,}]+)/g
-      let stateMatch
-
-      stateMatch = stateItemRegex.exec(stateContent)
-      while (stateMatch !== null) {
-        const stateName = stateMatch[1]
-        const initialValue = stateMatch[2].trim()
-
-        const lineIndex = lines.findIndex(line =>
-          line.includes(stateName) && line.includes(':'),
-        )
-        const range = lineIndex !== -1
-          ? new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-          : new vscode.Range(0, 0, 0, 0)
-
-        state.push({
-          name: stateName,
-          initialValue,
-          type: this.inferTypeFromValue(initialValue),
-          range,
-        })
-        stateMatch = stateItemRegex.exec(stateContent)
-      }
-      match = stateRegex.exec(content)
-    }
+  private static isClassComponent(node: ts.ClassDeclaration): boolean {
+    const heritage = node.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)
+    const base = heritage?.types[0]?.expression
+    if (!base)
+      return false
 
-    return state
+    const baseName = ts.isPropertyAccessExpression(base) ? base.name.text : base.getText()
+    return this.COMPONENT_BASE_CLASSES.includes(baseName)
   }
 
-  private static parseMethods(content: string, document: vscode.TextDocument): ReactMethod[] {
+  private static createClassComponent(node: ts.ClassDeclaration, context: ParseContext): ReactComponent {
+    const heritage = node.heritageClauses!.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)!.types[0]
+    const propsType = heritage.typeArguments?.[0]
     const methods: ReactMethod[] = []
-    const lines = document.getText().split('\n')
-
-    const methodRegex = /(\w+)\s*\([^)]*\)\s*\{|(\w+)\s*=\s*(?:\([^)]*\)\s*=>|async\s*\([^)]*\)\s*=>)/g
-    let match
-
-    match = methodRegex.exec(content)
-    while (match !== null) {
-      const methodName = match[1] || match[2]
-      const isLifecycle = this.LIFECYCLE_METHODS.includes(methodName)
-
-      const lineIndex = lines.findIndex(line =>
-        line.includes(methodName) && (line.includes('(') || line.includes('=>')),
-      )
-      const range = lineIndex !== -1
-        ? new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-        : new vscode.Range(0, 0, 0, 0)
-
-      const params = this.extractMethodParams(match[0])
-
-      methods.push({
-        name: methodName,
-        params,
-        isLifecycle,
-        range,
-      })
-      match = methodRegex.exec(content)
+    let state: ReactState[] = []
+
+    for (const member of node.members) {
+      const name = getPropertyName(member)
+      if (!name)
+        continue
+
+      if (ts.isMethodDeclaration(member)) {
+        methods.push({
+          name,
+          params: member.parameters.map(param => param.getText()),
+          isLifecycle: this.LIFECYCLE_METHODS.includes(name),
+          range: this.rangeOf(member, context),
+        })
+      }
+      else if (ts.isPropertyDeclaration(member) && member.initializer) {
+        const initializer = unwrapExpression(member.initializer)
+        if (name === 'state' && ts.isObjectLiteralExpression(initializer)) {
+          state = this.parseStateObject(initializer, context)
+        }
+        else if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+          methods.push({
+            name,
+            params: initializer.parameters.map(param => param.getText()),
+            isLifecycle: false,
+            range: this.rangeOf(member, context),
+          })
+        }
+      }
+      else if (ts.isConstructorDeclaration(member) && member.body && state.length === 0) {
+        // constructor 中的 this.state = {...}
+        for (const statement of member.body.statements) {
+          if (!ts.isExpressionStatement(statement) || !ts.isBinaryExpression(statement.expression))
+            continue
+          const { left, right } = statement.expression
+          const value = unwrapExpression(right)
+          if (left.getText() === 'this.state' && ts.isObjectLiteralExpression(value)) {
+            state = this.parseStateObject(value, context)
+          }
+        }
+      }
     }
 
-    return methods
+    return {
+      name: node.name?.text || this.getFileName(context.document),
+      type: 'class',
+      wrappers: [],
+      propsType: propsType?.getText(),
+      props: propsType ? this.parsePropsType(propsType, context) : [],
+      state,
+      methods,
+      hooks: [],
+      imports: [],
+      exports: [],
+      isExported: this.hasModifier(node, ts.SyntaxKind.ExportKeyword),
+      isDefaultExport: this.hasModifier(node, ts.SyntaxKind.DefaultKeyword),
+      range: this.rangeOf(node, context),
+    }
   }
 
-  private static parseHooks(content: string, document: vscode.TextDocument): ReactHook[] {
-    const hooks: ReactHook[] = []
-    const lines = document.getText().split('\n')
-
-    this.REACT_HOOKS.forEach((hookName) => {
-      const hookRegex = new RegExp(`(\\w+)\\s*=\\s*${hookName}\\s*\\([^)]*\\)`, 'g')
-      let match
-
-      match = hookRegex.exec(content)
-      while (match !== null) {
-        const variableName = match[1]
-        const lineIndex = lines.findIndex(line => line.includes(match[0]))
-        const range = lineIndex !== -1
-          ? new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-          : new vscode.Range(0, 0, 0, 0)
-
-        const dependencies = this.extractHookDependencies(match[0])
-
-        hooks.push({
-          name: variableName,
-          type: hookName as ReactHook['type'],
-          dependencies,
-          range,
-        })
-        match = hookRegex.exec(content)
-      }
+  private static parseStateObject(node: ts.ObjectLiteralExpression, context: ParseContext): ReactState[] {
+    return node.properties.flatMap((property): ReactState[] => {
+      const name = getPropertyName(property)
+      if (!name)
+        return []
+
+      const initialValue = ts.isPropertyAssignment(property) ? property.initializer : undefined
+      return [{
+        name,
+        initialValue: initialValue?.getText(),
+        type: inferTypeFromNode(initialValue),
+        range: this.rangeOf(property, context),
+      }]
     })
+  }
 
-    const customHookRegex = /(\w+)\s*=\s*(use\w+)\s*\([^)]*\)/g
-    let customMatch
-
-    customMatch = customHookRegex.exec(content)
-    while (customMatch !== null) {
-      const variableName = customMatch[1]
-      const _hookName = customMatch[2]
-
-      const lineIndex = lines.findIndex(line => line.includes(customMatch[0]))
-      const range = lineIndex !== -1
-        ? new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-        : new vscode.Range(0, 0, 0, 0)
-
-      hooks.push({
-        name: variableName,
-        type: 'custom',
-        range,
-      })
-      customMatch = customHookRegex.exec(content)
+  /**
+   * 合并 Component.defaultProps 与 Component.propTypes 声明
+   */
+  private static applyStaticProps(components: ReactComponent[], context: ParseContext): void {
+    for (const statement of context.sourceFile.statements) {
+      if (!ts.isExpressionStatement(statement) || !ts.isBinaryExpression(statement.expression))
+        continue
+
+      const { left, right, operatorToken } = statement.expression
+      const value = unwrapExpression(right)
+      if (operatorToken.kind !== ts.SyntaxKind.EqualsToken || !ts.isPropertyAccessExpression(left) || !ts.isObjectLiteralExpression(value))
+        continue
+
+      const component = components.find(item => item.name === left.expression.getText())
+      const staticName = left.name.text
+      if (!component || (staticName !== 'defaultProps' && staticName !== 'propTypes'))
+        continue
+
+      for (const property of value.properties) {
+        const name = getPropertyName(property)
+        if (!name || !ts.isPropertyAssignment(property))
+          continue
+
+        let prop = component.props.find(item => item.name === name)
+        if (!prop) {
+          prop = { name, range: this.rangeOf(property, context) }
+          component.props.push(prop)
+        }
+
+        const text = property.initializer.getText()
+        if (staticName === 'defaultProps') {
+          prop.defaultValue = text
+          prop.required = false
+        }
+        else {
+          // PropTypes.string.isRequired
+          prop.type = prop.type || text.replace(/^PropTypes\./, '').replace(/\.isRequired$/, '')
+          prop.required = prop.required ?? text.endsWith('.isRequired')
+        }
+      }
     }
-
-    return hooks
   }
 
-  private static extractMethodParams(methodSignature: string): string[] {
-    const paramsMatch = methodSignature.match(/\(([^)]*)\)/)
-    if (!paramsMatch || !paramsMatch[1].trim()) {
-      return []
-    }
+  /**
+   * 根据 export { A } / export default A 补充导出标记
+   */
+  private static applyExports(components: ReactComponent[], customHooks: ReactCustomHook[], exports: ReactExport[]): void {
+    for (const item of exports) {
+      const component = components.find(component => component.name === item.name)
+      if (component) {
+        component.isExported = true
+        component.isDefaultExport = component.isDefaultExport || item.isDefault
+        if (item.wrappers?.length) {
+          component.wrappers = [...item.wrappers, ...component.wrappers]
+        }
+      }
 
-    return paramsMatch[1].split(',').map(param => param.trim())
+      const hook = customHooks.find(hook => hook.name === item.name)
+      if (hook) {
+        hook.isExported = true
+      }
+    }
   }
 
-  private static extractHookDependencies(hookCall: string): string[] | undefined {
-    const depsMatch = hookCall.match(/\[([^\]]*)\]/)
-    if (!depsMatch || !depsMatch[1].trim()) {
-      return undefined
+  private static parseImports(context: ParseContext): ReactImport[] {
+    const imports: ReactImport[] = []
+
+    for (const statement of context.sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier) || !statement.importClause)
+        continue
+
+      const from = statement.moduleSpecifier.text
+      const range = this.rangeOf(statement, context)
+      const { name, namedBindings } = statement.importClause
+
+      if (name) {
+        imports.push({ name: name.text, from, isDefault: true, range })
+      }
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        imports.push({ name: namedBindings.name.text, from, isDefault: false, range })
+      }
+      else if (namedBindings && ts.isNamedImports(namedBindings)) {
+        for (const element of namedBindings.elements) {
+          if (from === 'react' && element.propertyName) {
+            context.aliases.set(element.name.text, element.propertyName.text)
+          }
+          imports.push({
+            name: (element.propertyName || element.name).text,
+            from,
+            isDefault: false,
+            range,
+          })
+        }
+      }
     }
 
-    return depsMatch[1].split(',').map(dep => dep.trim())
+    return imports
   }
 
-  private static inferTypeFromValue(value: string): string | undefined {
-    if (value.startsWith('"') || value.startsWith('\'') || value.startsWith('`'))
-      return 'string'
-    if (/^\d+$/.test(value))
-      return 'number'
-    if (value === 'true' || value === 'false')
-      return 'boolean'
-    if (value.startsWith('['))
-      return 'array'
-    if (value.startsWith('{'))
-      return 'object'
-    if (value === 'null')
-      return 'null'
-    if (value === 'undefined')
-      return 'undefined'
-    return undefined
+  private static parseExports(context: ParseContext): ReactExport[] {
+    const exports: ReactExport[] = []
+
+    for (const statement of context.sourceFile.statements) {
+      const range = this.rangeOf(statement, context)
+
+      if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        // export default Card / export default memo(Card)
+        const { identifier, wrappers } = this.unwrapComponent(statement.expression)
+        if (identifier) {
+          exports.push({ name: identifier.text, isDefault: true, wrappers: wrappers.length > 0 ? wrappers : undefined, range })
+        }
+        continue
+      }
+
+      if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        for (const element of statement.exportClause.elements) {
+          exports.push({
+            name: (element.propertyName || element.name).text,
+            isDefault: element.name.text === 'default',
+            range,
+          })
+        }
+        continue
+      }
+
+      if (!this.hasModifier(statement, ts.SyntaxKind.ExportKeyword))
+        continue
+
+      const isDefault = this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+      if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+        exports.push({ name: statement.name.text, isDefault, range })
+      }
+      else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          for (const name of getBindingNames(declaration.name)) {
+            exports.push({ name, isDefault: false, range })
+          }
+        }
+      }
+    }
+
+    return exports
   }
 }
@@ -0,0 +1,362 @@
+import * as vscode from 'vscode'
+import { SvelteParser } from './svelteParser.js'
+import { VueParser } from './vueParser.js'
+
+export type StyleLanguage = 'css' | 'scss' | 'sass' | 'less' | 'stylus' | 'postcss'
+
+export type StyleSymbolKind = 'rule' | 'media' | 'keyframes' | 'fontFace' | 'mixin' | 'function' | 'variable' | 'atRule'
+
+export interface StyleSymbol {
+  kind: StyleSymbolKind
+  // 源码中的选择器、at 规则或变量名
+  name: string
+  // 展开嵌套和 & 后的完整选择器，仅规则有
+  selector?: string
+  range: vscode.Range
+  selectionRange: vscode.Range
+  children: StyleSymbol[]
+}
+
+/**
+ * 一段样式源码：独立样式文件或 .vue / .svelte 中的 <style> 块
+ */
+export interface StyleBlock {
+  lang: StyleLanguage
+  content: string
+  // 内容在整个文件中的起始偏移
+  offset: number
+  scoped: boolean
+  module: boolean
+  // <style> 块的完整范围，独立样式文件为 undefined
+  range?: vscode.Range
+}
+
+interface StyleFrame {
+  symbol: StyleSymbol
+  // 最近的选择器规则展开后的选择器列表，at 规则沿用父级
+  selectors: string[]
+}
+
+const STYLE_EXTENSIONS: Record<string, StyleLanguage> = {
+  '.css': 'css',
+  '.scss': 'scss',
+  '.sass': 'sass',
+  '.less': 'less',
+  '.styl': 'stylus',
+  '.pcss': 'postcss',
+  '.postcss': 'postcss',
+}
+
+// 声明变量：CSS 自定义属性、SCSS $var、Less @var
+const VARIABLE_PATTERN = /^(--[\w-]+|\$[\w-]+|@[\w-]+)\s*:/
+// Less 的 mixin 定义：.name() 或 #ns()，可带 when 守卫
+const LESS_MIXIN_PATTERN = /^[.#][\w-]+\s*\([^)]*\)\s*(?:when\b.*)?$/s
+const CLASS_PATTERN = /\.(-?[_a-z][\w-]*)/gi
+
+/**
+ * 样式表解析器
+ * 按花括号结构解析 CSS / SCSS / Less，得到带层级的规则、媒体查询、关键帧动画和变量
+ * 缩进语法（Sass、Stylus）没有花括号，只识别变量
+ */
+export class StyleParser {
+  static getLanguage(fileName: string): StyleLanguage | undefined {
+    const match = fileName.toLowerCase().match(/\.[a-z]+$/)
+    return match ? STYLE_EXTENSIONS[match[0]] : undefined
+  }
+
+  static isStyleFile(fileName: string): boolean {
+    return this.getLanguage(fileName) !== undefined
+  }
+
+  /**
+   * 获取文档中的样式源码，支持独立样式文件和 Vue / Svelte 的 <style> 块
+   * @param document 文档
+   */
+  static getStyleBlocks(document: vscode.TextDocument): StyleBlock[] {
+    const fileName = document.fileName.toLowerCase()
+    const language = this.getLanguage(fileName)
+    if (language) {
+      return [{ lang: language, content: document.getText(), offset: 0, scoped: false, module: false }]
+    }
+
+    let blocks: { attrs: Record<string, string | true>, content: string, offset: number, range: vscode.Range }[] = []
+    if (fileName.endsWith('.vue')) {
+      blocks = VueParser.parseSfc(document).styles
+    }
+    else if (fileName.endsWith('.svelte')) {
+      blocks = SvelteParser.parseSvelteFile(document)?.styles || []
+    }
+
+    return blocks.map(block => ({
+      lang: typeof block.attrs.lang === 'string' ? this.normalizeLanguage(block.attrs.lang) : 'css',
+      content: block.content,
+      offset: block.offset,
+      scoped: block.attrs.scoped !== undefined,
+      module: block.attrs.module !== undefined,
+      range: block.range,
+    }))
+  }
+
+  /**
+   * 解析一段样式源码
+   * @param document 样式所在文档，用于计算位置
+   * @param block 样式源码
+   */
+  static parseBlock(document: vscode.TextDocument, block: StyleBlock): StyleSymbol[] {
+    const roots: StyleSymbol[] = []
+    const stack: StyleFrame[] = []
+    const { content, offset } = block
+    const lineComments = block.lang !== 'css'
+    const indented = block.lang === 'sass' || block.lang === 'stylus'
+
+    const rangeOf = (start: number, end: number): vscode.Range =>
+      new vscode.Range(document.positionAt(offset + start), document.positionAt(offset + end))
+    const push = (symbol: StyleSymbol): void => {
+      (stack.length > 0 ? stack[stack.length - 1].symbol.children : roots).push(symbol)
+    }
+
+    // 当前语句的起始位置，语句在 ; { } 处结束
+    let statementStart = 0
+    let parens = 0
+
+    const flushDeclaration = (end: number): void => {
+      const start = this.skipWhitespace(content, statementStart, end)
+      const text = content.slice(start, end).trim()
+      const match = text.match(VARIABLE_PATTERN)
+      if (match && !this.isInsideKeyframes(stack)) {
+        const nameRange = rangeOf(start, start + match[1].length)
+        push({ kind: 'variable', name: match[1], range: rangeOf(start, start + text.length), selectionRange: nameRange, children: [] })
+      }
+    }
+
+    let index = 0
+    while (index < content.length) {
+      const char = content[index]
+      const next = content[index + 1]
+
+      // 块注释和 // 行注释，url(http://...) 中的 // 不是注释
+      const isBlockComment = char === '/' && next === '*'
+      if (isBlockComment || (lineComments && char === '/' && next === '/' && parens === 0)) {
+        const end = isBlockComment ? content.indexOf('*/', index + 2) : content.indexOf('\n', index)
+        const after = end === -1 ? content.length : end + (isBlockComment ? 2 : 0)
+        // 语句前的注释不计入选择器
+        if (!content.slice(statementStart, index).trim()) {
+          statementStart = after
+        }
+        index = after
+        continue
+      }
+      if (char === '"' || char === '\'') {
+        index = this.skipString(content, index)
+        continue
+      }
+      // SCSS #{} 和 Less @{} 插值中的花括号不是块
+      if ((char === '#' || char === '@') && next === '{') {
+        const end = content.indexOf('}', index + 2)
+        index = end === -1 ? content.length : end + 1
+        continue
+      }
+
+      if (char === '(') {
+        parens++
+      }
+      else if (char === ')') {
+        parens = Math.max(0, parens - 1)
+      }
+      else if (char === ';' && parens === 0) {
+        flushDeclaration(index)
+        statementStart = index + 1
+      }
+      else if (char === '\n' && indented) {
+        flushDeclaration(index)
+        statementStart = index + 1
+      }
+      else if (char === '{' && parens === 0) {
+        const start = this.skipWhitespace(content, statementStart, index)
+        const prelude = content.slice(start, index).trim()
+        const parent = stack[stack.length - 1]
+        const symbol = this.createSymbol(prelude, parent)
+        symbol.range = rangeOf(start, index + 1)
+        symbol.selectionRange = rangeOf(start, start + prelude.length)
+
+        // 关键帧中的 from / to / 百分比不显示
+        if (!this.isInsideKeyframes(stack) && prelude) {
+          push(symbol)
+        }
+        stack.push({
+          symbol,
+          selectors: symbol.kind === 'rule' ? this.splitSelectors(symbol.selector!) : parent?.selectors || [],
+        })
+        statementStart = index + 1
+      }
+      else if (char === '}' && parens === 0) {
+        // 块中最后一条声明可以省略分号
+        flushDeclaration(index)
+        const frame = stack.pop()
+        if (frame) {
+          frame.symbol.range = new vscode.Range(frame.symbol.range.start, document.positionAt(offset + index + 1))
+        }
+        statementStart = index + 1
+      }
+
+      index++
+    }
+
+    // 未闭合的块延伸到内容末尾
+    for (const frame of stack) {
+      frame.symbol.range = new vscode.Range(frame.symbol.range.start, document.positionAt(offset + content.length))
+    }
+
+    return roots
+  }
+
+  /**
+   * 解析文档中的全部样式
+   * @param document 文档
+   */
+  static parseDocument(document: vscode.TextDocument): { block: StyleBlock, symbols: StyleSymbol[] }[] {
+    return this.getStyleBlocks(document).map(block => ({ block, symbols: this.parseBlock(document, block) }))
+  }
+
+  /**
+   * 选择器中出现的类名，忽略属性选择器和字符串中的内容
+   * @param selector 选择器
+   */
+  static getClassNames(selector: string): string[] {
+    const cleaned = selector.replace(/\[[^\]]*\]/g, '').replace(/(["'])(?:\\.|(?!\1).)*\1/g, '')
+    return [...new Set([...cleaned.matchAll(CLASS_PATTERN)].map(match => match[1]))]
+  }
+
+  /**
+   * 光标处的类名，仅在样式中以 . 开头的选择器上生效
+   * @param document 文档
+   * @param position 光标位置
+   */
+  static getClassNameAt(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+    const range = document.getWordRangeAtPosition(position, /-?[_a-z][\w-]*/i)
+    if (!range || range.start.character === 0)
+      return undefined
+
+    const before = document.getText(new vscode.Range(range.start.translate(0, -1), range.start))
+    if (before !== '.')
+      return undefined
+
+    const offset = document.offsetAt(position)
+    const inStyle = this.getStyleBlocks(document)
+      .some(block => offset >= block.offset && offset <= block.offset + block.content.length)
+    return inStyle ? document.getText(range) : undefined
+  }
+
+  private static createSymbol(prelude: string, parent: StyleFrame | undefined): StyleSymbol {
+    const empty = new vscode.Range(0, 0, 0, 0)
+    const name = prelude.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\s+/g, ' ').trim()
+    const symbol: StyleSymbol = { kind: 'rule', name, range: empty, selectionRange: empty, children: [] }
+    const atRule = prelude.match(/^@([\w-]+)/)
+
+    if (atRule) {
+      const name = atRule[1].toLowerCase()
+      if (name === 'media' || name === 'supports' || name === 'container' || name === 'layer') {
+        symbol.kind = 'media'
+      }
+      else if (name.endsWith('keyframes')) {
+        symbol.kind = 'keyframes'
+      }
+      else if (name === 'font-face') {
+        symbol.kind = 'fontFace'
+      }
+      else if (name === 'mixin') {
+        symbol.kind = 'mixin'
+      }
+      else if (name === 'function') {
+        symbol.kind = 'function'
+      }
+      // Less 分离规则集 @detached: { ... }
+      else if (VARIABLE_PATTERN.test(prelude)) {
+        symbol.kind = 'variable'
+        symbol.name = prelude.slice(0, prelude.indexOf(':')).trim()
+      }
+      else {
+        symbol.kind = 'atRule'
+      }
+      return symbol
+    }
+
+    if (LESS_MIXIN_PATTERN.test(prelude)) {
+      symbol.kind = 'mixin'
+      return symbol
+    }
+
+    symbol.selector = this.resolveSelector(symbol.name, parent?.selectors || [])
+    return symbol
+  }
+
+  /**
+   * 展开嵌套选择器：含 & 时替换为父选择器，否则作为后代选择器拼接
+   */
+  private static resolveSelector(selector: string, parents: string[]): string {
+    const selectors = this.splitSelectors(selector)
+    if (parents.length === 0) {
+      return selectors.map(item => item.replace(/&/g, '').trim()).join(', ')
+    }
+
+    const resolved: string[] = []
+    for (const parent of parents) {
+      for (const item of selectors) {
+        resolved.push(item.includes('&') ? item.replace(/&/g, parent) : `${parent} ${item}`)
+      }
+    }
+    return resolved.join(', ')
+  }
+
+  private static splitSelectors(selector: string): string[] {
+    const selectors: string[] = []
+    let depth = 0
+    let current = ''
+    for (const char of selector) {
+      if (char === '(' || char === '[')
+        depth++
+      else if (char === ')' || char === ']')
+        depth--
+
+      if (char === ',' && depth === 0) {
+        selectors.push(current.trim())
+        current = ''
+      }
+      else {
+        current += char
+      }
+    }
+    if (current.trim()) {
+      selectors.push(current.trim())
+    }
+    return selectors
+  }
+
+  private static isInsideKeyframes(stack: StyleFrame[]): boolean {
+    return stack.some(frame => frame.symbol.kind === 'keyframes')
+  }
+
+  private static skipString(content: string, start: number): number {
+    const quote = content[start]
+    let index = start + 1
+    while (index < content.length && content[index] !== quote && content[index] !== '\n') {
+      index += content[index] === '\\' ? 2 : 1
+    }
+    return index + 1
+  }
+
+  private static skipWhitespace(content: string, start: number, end: number): number {
+    let index = start
+    while (index < end && /\s/.test(content[index])) {
+      index++
+    }
+    return index
+  }
+
+  private static normalizeLanguage(lang: string): StyleLanguage {
+    const normalized = lang.toLowerCase()
+    if (normalized === 'styl')
+      return 'stylus'
+    return (Object.values(STYLE_EXTENSIONS) as string[]).includes(normalized) ? normalized as StyleLanguage : 'css'
+  }
+}
@@ -0,0 +1,555 @@
+import * as path from 'node:path'
+import ts from 'typescript'
+import * as vscode from 'vscode'
+import {
+  getCalleeName,
+  getPropertyName,
+  inferTypeFromNode,
+  resolveTypeMembers,
+  unwrapExpression,
+} from './astUtils.js'
+
+export interface SvelteComponent {
+  name: string
+  lang?: string
+  // 使用了 $props / $state 等 rune，即 Svelte 5 的 runes 模式
+  runes: boolean
+  props: SvelteProp[]
+  state: SvelteState[]
+  reactive: SvelteReactive[]
+  stores: SvelteStore[]
+  events: SvelteEvent[]
+  functions: SvelteFunction[]
+  lifecycle: SvelteLifecycle[]
+  // 模板中使用的子组件
+  components: string[]
+  script: SvelteScriptBlock | null
+  moduleScript: SvelteScriptBlock | null
+  styles: SvelteScriptBlock[]
+}
+
+export interface SvelteProp {
+  name: string
+  type?: string
+  default?: string
+  // 通过 $props() 声明（Svelte 5），否则为 export let
+  isRune: boolean
+  bindable?: boolean
+  range: vscode.Range
+}
+
+export interface SvelteState {
+  name: string
+  // $state / $derived 等 rune；非 runes 模式下的顶层 let 为 'let'
+  kind: '$state' | '$state.raw' | '$derived' | '$derived.by' | 'let'
+  type?: string
+  range: vscode.Range
+}
+
+/**
+ * $: 响应式语句
+ */
+export interface SvelteReactive {
+  // $: doubled = count * 2 中的 doubled，纯副作用语句没有名称
+  name?: string
+  dependencies: string[]
+  expression: string
+  range: vscode.Range
+}
+
+export interface SvelteStore {
+  name: string
+  // imported 表示未在本文件创建、只通过 $name 订阅的 store
+  storeType: 'writable' | 'readable' | 'derived' | 'imported'
+  // 在脚本中通过 $name 自动订阅
+  subscribed: boolean
+  range: vscode.Range
+}
+
+export interface SvelteEvent {
+  name: string
+  type?: string
+  range: vscode.Range
+}
+
+export interface SvelteFunction {
+  name: string
+  params: string[]
+  isAsync: boolean
+  range: vscode.Range
+}
+
+export interface SvelteLifecycle {
+  name: string
+  range: vscode.Range
+}
+
+export interface SvelteScriptBlock {
+  attrs: Record<string, string | true>
+  content: string
+  // 内容在整个文件中的起始偏移
+  offset: number
+  range: vscode.Range
+}
+
+type FunctionNode = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction
+
+interface ParseContext {
+  document: vscode.TextDocument
+  sourceFile: ts.SourceFile
+  offset: number
+}
+
+const BLOCK_PATTERN = /<(script|style)(\s[^>]*)?>([\s\S]*?)<\/\1\s*>/gi
+const ATTRIBUTE_PATTERN = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"']\S*)))?/g
+
+export class SvelteParser {
+  private static readonly LIFECYCLE_FUNCTIONS = [
+    'onMount',
+    'onDestroy',
+    'beforeUpdate',
+    'afterUpdate',
+    '$effect',
+    '$effect.pre',
+  ]
+
+  private static readonly STORE_FACTORIES = ['writable', 'readable', 'derived']
+
+  // 以 $ 开头但不是 store 订阅的名称
+  private static readonly RUNES = [
+    '$state',
+    '$derived',
+    '$effect',
+    '$props',
+    '$bindable',
+    '$inspect',
+    '$host',
+    '$$props',
+    '$$restProps',
+    '$$slots',
+  ]
+
+  static parseSvelteFile(document: vscode.TextDocument): SvelteComponent | null {
+    const text = document.getText()
+    const component: SvelteComponent = {
+      name: path.basename(document.uri.fsPath, '.svelte') || 'Component',
+      runes: false,
+      props: [],
+      state: [],
+      reactive: [],
+      stores: [],
+      events: [],
+      functions: [],
+      lifecycle: [],
+      components: [],
+      script: null,
+      moduleScript: null,
+      styles: [],
+    }
+
+    let markup = text
+    const pattern = new RegExp(BLOCK_PATTERN.source, 'gi')
+    let match = pattern.exec(text)
+    while (match !== null) {
+      const attrs = this.parseAttributes(match[2] || '')
+      const offset = match.index + match[0].indexOf('>') + 1
+      const block: SvelteScriptBlock = {
+        attrs,
+        content: match[3],
+        offset,
+        range: new vscode.Range(document.positionAt(match.index), document.positionAt(match.index + match[0].length)),
+      }
+
+      if (match[1].toLowerCase() === 'style') {
+        component.styles.push(block)
+      }
+      // <script context="module">（Svelte 4）或 <script module>（Svelte 5）
+      else if (attrs.context === 'module' || attrs.module === true) {
+        component.moduleScript = component.moduleScript || block
+      }
+      else {
+        component.script = component.script || block
+      }
+
+      markup = markup.slice(0, match.index) + ' '.repeat(match[0].length) + markup.slice(match.index + match[0].length)
+      match = pattern.exec(text)
+    }
+
+    if (!component.script && !component.moduleScript && !markup.trim()) {
+      return null
+    }
+
+    const lang = [component.script, component.moduleScript].map(block => block?.attrs.lang).find(value => typeof value === 'string')
+    component.lang = lang as string | undefined
+    component.components = this.parseMarkupComponents(markup)
+
+    if (component.moduleScript) {
+      // module 脚本只执行一次，其中只有函数和 store 有意义
+      const context = this.createContext(document, component.moduleScript)
+      this.parseStatements(context, component, false)
+    }
+    if (component.script) {
+      const context = this.createContext(document, component.script)
+      this.parseStatements(context, component, true)
+    }
+
+    return component
+  }
+
+  private static parseAttributes(source: string): Record<string, string | true> {
+    const attrs: Record<string, string | true> = {}
+    const pattern = new RegExp(ATTRIBUTE_PATTERN.source, 'g')
+    let match = pattern.exec(source)
+    while (match !== null) {
+      attrs[match[1]] = match[2] ?? match[3] ?? match[4] ?? true
+      match = pattern.exec(source)
+    }
+    return attrs
+  }
+
+  private static createContext(document: vscode.TextDocument, block: SvelteScriptBlock): ParseContext {
+    const lang = typeof block.attrs.lang === 'string' ? block.attrs.lang : 'js'
+    const sourceFile = ts.createSourceFile(
+      `component.${lang}`,
+      block.content,
+      ts.ScriptTarget.Latest,
+      true,
+      lang === 'ts' ? ts.ScriptKind.TS : ts.ScriptKind.JS,
+    )
+    return { document, sourceFile, offset: block.offset }
+  }
+
+  private static rangeOf(node: ts.Node, context: ParseContext): vscode.Range {
+    return new vscode.Range(
+      context.document.positionAt(context.offset + node.getStart(context.sourceFile)),
+      context.document.positionAt(context.offset + node.getEnd()),
+    )
+  }
+
+  /**
+   * 解析脚本顶层语句，instance 为 false 时表示 module 脚本
+   */
+  private static parseStatements(context: ParseContext, component: SvelteComponent, instance: boolean): void {
+    // 非 runes 模式下顶层 let 才是响应式状态，需要解析完整个脚本后再决定
+    const plainLets: SvelteState[] = []
+
+    for (const statement of context.sourceFile.statements) {
+      if (ts.isFunctionDeclaration(statement) && statement.name) {
+        component.functions.push(this.createFunction(statement.name.text, statement, statement, context))
+      }
+      else if (ts.isVariableStatement(statement)) {
+        const isExported = statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword) ?? false
+        const isLet = (statement.declarationList.flags & ts.NodeFlags.Let) !== 0
+
+        for (const declaration of statement.declarationList.declarations) {
+          this.parseDeclaration(declaration, statement, { isExported, isLet, instance }, context, component, plainLets)
+        }
+      }
+      else if (instance && ts.isLabeledStatement(statement) && statement.label.text === '$') {
+        component.reactive.push(this.createReactive(statement, context))
+      }
+      else if (ts.isExpressionStatement(statement) && ts.isCallExpression(statement.expression)) {
+        const calleeText = statement.expression.expression.getText(context.sourceFile)
+        if (this.LIFECYCLE_FUNCTIONS.includes(calleeText)) {
+          component.lifecycle.push({ name: calleeText, range: this.rangeOf(statement, context) })
+        }
+        if (calleeText.startsWith('$'))
+          component.runes = true
+      }
+    }
+
+    if (instance) {
+      component.runes = component.runes || component.props.some(prop => prop.isRune) || component.state.length > 0
+      if (!component.runes)
+        component.state.push(...plainLets)
+
+      this.parseDispatchedEvents(context, component)
+      this.parseStoreSubscriptions(context, component)
+      this.resolveReactiveDependencies(component)
+    }
+  }
+
+  private static parseDeclaration(
+    declaration: ts.VariableDeclaration,
+    statement: ts.VariableStatement,
+    flags: { isExported: boolean, isLet: boolean, instance: boolean },
+    context: ParseContext,
+    component: SvelteComponent,
+    plainLets: SvelteState[],
+  ): void {
+    const initializer = declaration.initializer ? unwrapExpression(declaration.initializer) : undefined
+    const calleeText = initializer && ts.isCallExpression(initializer)
+      ? initializer.expression.getText(context.sourceFile)
+      : undefined
+
+    // let { a, b = 1 }: Props = $props()
+    if (calleeText === '$props' && flags.instance) {
+      component.props.push(...this.parseRuneProps(declaration, context))
+      return
+    }
+
+    if (!ts.isIdentifier(declaration.name))
+      return
+    const name = declaration.name.text
+    const range = this.rangeOf(statement, context)
+
+    if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+      component.functions.push(this.createFunction(name, initializer, statement, context))
+      return
+    }
+
+    if (calleeText && ['$state', '$state.raw', '$derived', '$derived.by'].includes(calleeText)) {
+      const call = initializer as ts.CallExpression
+      component.state.push({
+        name,
+        kind: calleeText as SvelteState['kind'],
+        type: declaration.type?.getText(context.sourceFile)
+          || call.typeArguments?.[0]?.getText(context.sourceFile)
+          || inferTypeFromNode(call.arguments[0]),
+        range,
+      })
+      return
+    }
+
+    if (initializer && ts.isCallExpression(initializer)) {
+      const factory = getCalleeName(initializer)
+      if (factory && this.STORE_FACTORIES.includes(factory)) {
+        component.stores.push({
+          name,
+          storeType: factory as SvelteStore['storeType'],
+          subscribed: false,
+          range,
+        })
+        return
+      }
+      if (factory === 'createEventDispatcher') {
+        component.events.push(...this.parseDispatcherEvents(initializer, context))
+        return
+      }
+    }
+
+    if (flags.isExported && flags.isLet && flags.instance) {
+      // Svelte 4: export let name = default
+      component.props.push({
+        name,
+        type: declaration.type?.getText(context.sourceFile) || inferTypeFromNode(initializer),
+        default: initializer?.getText(context.sourceFile),
+        isRune: false,
+        range,
+      })
+      return
+    }
+
+    if (flags.isLet && flags.instance) {
+      plainLets.push({
+        name,
+        kind: 'let',
+        type: declaration.type?.getText(context.sourceFile) || inferTypeFromNode(initializer),
+        range,
+      })
+    }
+  }
+
+  /**
+   * 解析 $props() 的解构，类型来自解构的类型注解或 $props 的类型参数
+   */
+  private static parseRuneProps(declaration: ts.VariableDeclaration, context: ParseContext): SvelteProp[] {
+    const call = unwrapExpression(declaration.initializer!) as ts.CallExpression
+    const typeNode = declaration.type || call.typeArguments?.[0]
+    const members = typeNode ? resolveTypeMembers(typeNode, [context.sourceFile]) : []
+    const memberTypes = new Map(members.flatMap((member) => {
+      const name = getPropertyName(member)
+      return name ? [[name, member] as const] : []
+    }))
+
+    const createProp = (name: string, node: ts.Node, defaultValue?: ts.Expression): SvelteProp => {
+      const member = memberTypes.get(name)
+      let bindable = false
+      let initial = defaultValue ? unwrapExpression(defaultValue) : undefined
+
+      // $bindable(fallback)
+      if (initial && ts.isCallExpression(initial) && initial.expression.getText(context.sourceFile) === '$bindable') {
+        bindable = true
+        initial = initial.arguments[0]
+      }
+
+      return {
+        name,
+        type: (member && ts.isPropertySignature(member) ? member.type?.getText(context.sourceFile) : undefined) || inferTypeFromNode(initial),
+        default: initial?.getText(context.sourceFile),
+        isRune: true,
+        bindable: bindable || undefined,
+        range: this.rangeOf(node, context),
+      }
+    }
+
+    if (ts.isIdentifier(declaration.name)) {
+      // let props: Props = $props()，列出类型中的全部成员
+      return members.flatMap((member) => {
+        const name = getPropertyName(member)
+        return name ? [createProp(name, member)] : []
+      })
+    }
+
+    if (!ts.isObjectBindingPattern(declaration.name))
+      return []
+
+    return declaration.name.elements.flatMap((element) => {
+      if (element.dotDotDotToken || !ts.isIdentifier(element.name))
+        return []
+      const name = element.propertyName && ts.isIdentifier(element.propertyName)
+        ? element.propertyName.text
+        : element.name.text
+      return [createProp(name, element, element.initializer)]
+    })
+  }
+
+  /**
+   * createEventDispatcher<{ change: string }>() 的类型参数中声明的事件
+   */
+  private static parseDispatcherEvents(call: ts.CallExpression, context: ParseContext): SvelteEvent[] {
+    const typeNode = call.typeArguments?.[0]
+    if (!typeNode)
+      return []
+
+    return resolveTypeMembers(typeNode, [context.sourceFile]).flatMap((member) => {
+      const name = getPropertyName(member)
+      if (!name)
+        return []
+      return [{
+        name,
+        type: ts.isPropertySignature(member) ? member.type?.getText(context.sourceFile) : undefined,
+        range: this.rangeOf(member, context),
+      }]
+    })
+  }
+
+  /**
+   * 补充通过 dispatch('name') 派发但未在类型参数中声明的事件
+   */
+  private static parseDispatchedEvents(context: ParseContext, component: SvelteComponent): void {
+    const dispatchers = new Set<string>()
+    for (const statement of context.sourceFile.statements) {
+      if (!ts.isVariableStatement(statement))
+        continue
+      for (const declaration of statement.declarationList.declarations) {
+        const initializer = declaration.initializer ? unwrapExpression(declaration.initializer) : undefined
+        if (ts.isIdentifier(declaration.name) && initializer && ts.isCallExpression(initializer)
+          && getCalleeName(initializer) === 'createEventDispatcher') {
+          dispatchers.add(declaration.name.text)
+        }
+      }
+    }
+    if (dispatchers.size === 0)
+      return
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && dispatchers.has(node.expression.text)) {
+        const eventName = node.arguments[0]
+        if (eventName && ts.isStringLiteralLike(eventName) && !component.events.some(event => event.name === eventName.text)) {
+          component.events.push({ name: eventName.text, range: this.rangeOf(node, context) })
+        }
+      }
+      ts.forEachChild(node, visit)
+    }
+    ts.forEachChild(context.sourceFile, visit)
+  }
+
+  /**
+   * 脚本中的 $name 自动订阅：已声明的 store 标记为已订阅，其余视为导入的 store
+   */
+  private static parseStoreSubscriptions(context: ParseContext, component: SvelteComponent): void {
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node) && node.text.length > 1 && node.text.startsWith('$') && !this.RUNES.includes(node.text)) {
+        const storeName = node.text.slice(1)
+        const store = component.stores.find(item => item.name === storeName)
+        if (store) {
+          store.subscribed = true
+        }
+        else {
+          component.stores.push({
+            name: storeName,
+            storeType: 'imported',
+            subscribed: true,
+            range: this.rangeOf(node, context),
+          })
+        }
+      }
+      ts.forEachChild(node, visit)
+    }
+    ts.forEachChild(context.sourceFile, visit)
+  }
+
+  private static createReactive(statement: ts.LabeledStatement, context: ParseContext): SvelteReactive {
+    const body = statement.statement
+    let name: string | undefined
+    if (ts.isExpressionStatement(body)) {
+      const expression = body.expression
+      if (ts.isBinaryExpression(expression) && expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+        && ts.isIdentifier(expression.left)) {
+        name = expression.left.text
+      }
+    }
+
+    const identifiers = new Set<string>()
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node)) {
+        const parent = node.parent
+        const isPropertyName = (ts.isPropertyAccessExpression(parent) && parent.name === node)
+          || (ts.isPropertyAssignment(parent) && parent.name === node)
+        if (!isPropertyName && node.text !== name)
+          identifiers.add(node.text)
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(body)
+
+    const expression = body.getText(context.sourceFile)
+    return {
+      name,
+      // 先记录全部标识符，待整个脚本解析完成后再筛选为依赖
+      dependencies: [...identifiers],
+      expression: expression.length > 80 ? `${expression.substring(0, 80)}...` : expression,
+      range: this.rangeOf(statement, context),
+    }
+  }
+
+  /**
+   * 只保留组件中声明的 props、状态、store 和其他响应式语句作为依赖
+   */
+  private static resolveReactiveDependencies(component: SvelteComponent): void {
+    const known = new Set([
+      ...component.props.map(prop => prop.name),
+      ...component.state.map(state => state.name),
+      ...component.reactive.flatMap(reactive => reactive.name ? [reactive.name] : []),
+      ...component.stores.map(store => `$${store.name}`),
+    ])
+
+    for (const reactive of component.reactive) {
+      reactive.dependencies = reactive.dependencies.filter(name => known.has(name))
+    }
+  }
+
+  private static createFunction(name: string, fn: FunctionNode, node: ts.Node, context: ParseContext): SvelteFunction {
+    return {
+      name,
+      params: fn.parameters.map(param => param.getText(context.sourceFile)),
+      isAsync: fn.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.AsyncKeyword) ?? false,
+      range: this.rangeOf(node, context),
+    }
+  }
+
+  /**
+   * 模板中使用的组件：以大写字母开头的标签，包括 Foo.Bar 形式
+   */
+  private static parseMarkupComponents(markup: string): string[] {
+    const components = new Set<string>()
+    const pattern = /<([A-Z][\w.]*)/g
+    let match = pattern.exec(markup)
+    while (match !== null) {
+      components.add(match[1])
+      match = pattern.exec(markup)
+    }
+    return [...components]
+  }
+}
@@ -1,14 +1,41 @@
+import * as path from 'node:path'
+import ts from 'typescript'
 import * as vscode from 'vscode'
+import {
+  getCalleeName,
+  getObjectProperty,
+  getPropertyName,
+  inferTypeFromNode,
+  resolveTypeMembers,
+  unwrapExpression,
+} from './astUtils.js'
 
 export interface VueComponent {
   name: string
+  // 是否使用 <script setup>
+  setup: boolean
+  lang?: string
   props: VueProp[]
+  emits: VueEmit[]
+  models: VueModel[]
+  exposed: VueExpose[]
   methods: VueMethod[]
   computed: VueComputed[]
   data: VueData[]
   lifecycle: VueLifecycle[]
   template: VueTemplate | null
   style: VueStyle[]
+  blocks: VueSfcDescriptor
+  // 脚本中导入或注册的子组件
+  componentImports: VueComponentImport[]
+}
+
+/**
+ * 组件名与其来源模块，如 { name: 'UserCard', source: './UserCard.vue' }
+ */
+export interface VueComponentImport {
+  name: string
+  source: string
 }
 
 export interface VueProp {
@@ -19,6 +46,26 @@ export interface VueProp {
   range: vscode.Range
 }
 
+export interface VueEmit {
+  name: string
+  // 事件参数，如 ['id: number']
+  params: string[]
+  range: vscode.Range
+}
+
+export interface VueModel {
+  name: string
+  type?: string
+  required?: boolean
+  default?: string
+  range: vscode.Range
+}
+
+export interface VueExpose {
+  name: string
+  range: vscode.Range
+}
+
 export interface VueMethod {
   name: string
   params: string[]
@@ -35,6 +82,8 @@ export interface VueComputed {
 export interface VueData {
   name: string
   type?: string
+  // 创建响应式数据的函数，如 ref、reactive；Options API 的 data() 为空
+  reactiveType?: string
   range: vscode.Range
 }
 
@@ -46,11 +95,20 @@ export interface VueLifecycle {
 export interface VueTemplate {
   directives: VueDirective[]
   components: string[]
+  // 每个组件标签的位置（标签名范围）
+  componentUsages: VueComponentUsage[]
+  range: vscode.Range
+}
+
+export interface VueComponentUsage {
+  name: string
   range: vscode.Range
 }
 
 export interface VueDirective {
   name: string
+  arg?: string
+  modifiers?: string[]
   value?: string
   range: vscode.Range
 }
@@ -61,6 +119,47 @@ export interface VueStyle {
   range: vscode.Range
 }
 
+/**
+ * SFC 顶层块（template / script / style / 自定义块）
+ */
+export interface VueSfcBlock {
+  type: string
+  attrs: Record<string, string | true>
+  content: string
+  // 内容在整个文件中的起始偏移
+  offset: number
+  // 包含开始和结束标签的完整范围
+  range: vscode.Range
+  contentRange: vscode.Range
+}
+
+export interface VueSfcDescriptor {
+  template: VueSfcBlock | null
+  script: VueSfcBlock | null
+  scriptSetup: VueSfcBlock | null
+  styles: VueSfcBlock[]
+  customBlocks: VueSfcBlock[]
+}
+
+interface ParsedAttribute {
+  name: string
+  value?: string
+  index: number
+  length: number
+}
+
+/**
+ * 脚本解析上下文，用于把 AST 节点位置换算回 .vue 文件中的位置
+ */
+interface ScriptContext {
+  document: vscode.TextDocument
+  offsets: Map<ts.SourceFile, number>
+  sourceFiles: ts.SourceFile[]
+}
+
+const OPEN_TAG_PATTERN = /<([a-z][\w.:-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>][^\s>]*))?)*)\s*(\/?)>/gi
+const ATTRIBUTE_PATTERN = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>][^\s>]*)))?/g
+
 export class VueParser {
   private static readonly LIFECYCLE_HOOKS = [
     'beforeCreate',
@@ -71,341 +170,934 @@ export class VueParser {
     'updated',
     'beforeUnmount',
     'unmounted',
+    'beforeDestroy',
+    'destroyed',
+    'activated',
+    'deactivated',
     'errorCaptured',
     'renderTracked',
     'renderTriggered',
+    'serverPrefetch',
   ]
 
-  static parseVueFile(document: vscode.TextDocument): VueComponent | null {
-    const content = document.getText()
+  private static readonly COMPOSITION_LIFECYCLE_HOOKS = [
+    'onBeforeMount',
+    'onMounted',
+    'onBeforeUpdate',
+    'onUpdated',
+    'onBeforeUnmount',
+    'onUnmounted',
+    'onActivated',
+    'onDeactivated',
+    'onErrorCaptured',
+    'onRenderTracked',
+    'onRenderTriggered',
+    'onServerPrefetch',
+  ]
 
-    if (!content.includes('<template>') && !content.includes('<script>')) {
+  private static readonly REACTIVE_FACTORIES = [
+    'ref',
+    'shallowRef',
+    'reactive',
+    'shallowReactive',
+    'readonly',
+    'toRef',
+    'toRefs',
+    'customRef',
+  ]
+
+  static parseVueFile(document: vscode.TextDocument): VueComponent | null {
+    const blocks = this.parseSfc(document)
+    if (!blocks.template && !blocks.script && !blocks.scriptSetup) {
       return null
     }
 
-    const scriptContent = this.extractScriptContent(content)
-    if (!scriptContent) {
-      return null
+    const scriptBlocks = [blocks.script, blocks.scriptSetup].filter((block): block is VueSfcBlock => !!block)
+    const context: ScriptContext = { document, offsets: new Map(), sourceFiles: [] }
+    const sourceFiles = scriptBlocks.map((block) => {
+      const sourceFile = this.createSourceFile(block)
+      context.offsets.set(sourceFile, block.offset)
+      context.sourceFiles.push(sourceFile)
+      return sourceFile
+    })
+
+    const lang = scriptBlocks.map(block => block.attrs.lang).find(value => typeof value === 'string') as string | undefined
+    const component: VueComponent = {
+      name: path.basename(document.uri.fsPath, '.vue') || 'Component',
+      setup: !!blocks.scriptSetup,
+      lang,
+      props: [],
+      emits: [],
+      models: [],
+      exposed: [],
+      methods: [],
+      computed: [],
+      data: [],
+      lifecycle: [],
+      template: this.parseTemplate(blocks.template, document),
+      style: blocks.styles.map(block => ({
+        scoped: block.attrs.scoped === true,
+        lang: typeof block.attrs.lang === 'string' ? block.attrs.lang : undefined,
+        range: block.range,
+      })),
+      blocks,
+      componentImports: sourceFiles.flatMap(sourceFile => this.parseComponentImports(sourceFile)),
     }
 
-    const fileName = document.uri.fsPath.split('/').pop()?.replace('.vue', '') || 'Component'
+    if (blocks.script) {
+      this.parseOptionsApi(sourceFiles[0], component, context)
+    }
+    if (blocks.scriptSetup) {
+      this.parseSetupStatements(sourceFiles[sourceFiles.length - 1].statements, component, context, true)
+    }
 
-    return {
-      name: fileName,
-      props: this.parseProps(scriptContent, document),
-      methods: this.parseMethods(scriptContent, document),
-      computed: this.parseComputed(scriptContent, document),
-      data: this.parseData(scriptContent, document),
-      lifecycle: this.parseLifecycle(scriptContent, document),
-      template: this.parseTemplate(content, document),
-      style: this.parseStyle(content, document),
+    return component
+  }
+
+  /**
+   * 拆分 SFC 顶层块，记录每个块内容在文件中的准确偏移
+   */
+  static parseSfc(document: vscode.TextDocument): VueSfcDescriptor {
+    const text = document.getText()
+    const descriptor: VueSfcDescriptor = {
+      template: null,
+      script: null,
+      scriptSetup: null,
+      styles: [],
+      customBlocks: [],
     }
+
+    let index = 0
+    while (index < text.length) {
+      const tagStart = text.indexOf('<', index)
+      if (tagStart === -1)
+        break
+
+      if (text.startsWith('<!--', tagStart)) {
+        const commentEnd = text.indexOf('-->', tagStart + 4)
+        index = commentEnd === -1 ? text.length : commentEnd + 3
+        continue
+      }
+
+      const openTag = new RegExp(OPEN_TAG_PATTERN.source, 'iy')
+      openTag.lastIndex = tagStart
+      const match = openTag.exec(text)
+      if (!match) {
+        index = tagStart + 1
+        continue
+      }
+
+      const type = match[1].toLowerCase()
+      const contentStart = tagStart + match[0].length
+      const [contentEnd, blockEnd] = match[3]
+        ? [contentStart, contentStart]
+        : this.findClosingTag(text, type, contentStart)
+
+      const attrs: Record<string, string | true> = {}
+      for (const attribute of this.parseAttributes(match[2])) {
+        attrs[attribute.name] = attribute.value ?? true
+      }
+
+      const block: VueSfcBlock = {
+        type,
+        attrs,
+        content: text.slice(contentStart, contentEnd),
+        offset: contentStart,
+        range: new vscode.Range(document.positionAt(tagStart), document.positionAt(blockEnd)),
+        contentRange: new vscode.Range(document.positionAt(contentStart), document.positionAt(contentEnd)),
+      }
+
+      if (type === 'template' && !descriptor.template) {
+        descriptor.template = block
+      }
+      else if (type === 'script' && attrs.setup !== undefined && !descriptor.scriptSetup) {
+        descriptor.scriptSetup = block
+      }
+      else if (type === 'script' && attrs.setup === undefined && !descriptor.script) {
+        descriptor.script = block
+      }
+      else if (type === 'style') {
+        descriptor.styles.push(block)
+      }
+      else {
+        descriptor.customBlocks.push(block)
+      }
+
+      index = Math.max(blockEnd, tagStart + 1)
+    }
+
+    return descriptor
   }
 
-  private static extractScriptContent(content: string): string | null {
-    const scriptMatch = content.match(/<script[^>]*>([\s\S]*?)<\/script>/)
-    return scriptMatch ? scriptMatch[1] : null
+  /**
+   * 查找块的结束标签，返回 [内容结束偏移, 块结束偏移]
+   * template 内允许嵌套 <template>，需要按层级匹配
+   */
+  private static findClosingTag(text: string, type: string, from: number): [number, number] {
+    const pattern = type === 'template'
+      ? /<(\/?)template\b(?:"[^"]*"|'[^']*'|[^"'>])*?(\/?)>/gi
+      : new RegExp(`</${type}\\s*>`, 'gi')
+    pattern.lastIndex = from
+
+    let depth = 1
+    let match = pattern.exec(text)
+    while (match !== null) {
+      if (type !== 'template' || match[1]) {
+        depth--
+      }
+      else if (!match[2]) {
+        depth++
+      }
+
+      if (depth === 0) {
+        return [match.index, match.index + match[0].length]
+      }
+      match = pattern.exec(text)
+    }
+
+    // 未闭合的块视为延续到文件末尾
+    return [text.length, text.length]
   }
 
-  private static parseProps(scriptContent: string, document: vscode.TextDocument): VueProp[] {
-    const props: VueProp[] = []
-    const lines = document.getText().split('\n')
-
-    const propsRegex = /props\s*:\s*\{([^}]*)\}/
-    const propMatch = scriptContent.match(propsRegex)
-
-    if (propMatch) {
-      const propsContent = propMatch[1]
-      const propItemRegex = /(\w+)\s*:\s*(\{[^}]*\}|\w+)/g
-      let match
-
-      match = propItemRegex.exec(propsContent)
-      while (match !== null) {
-        const propName = match[1]
-        const propDef = match[2]
-
-        const lineIndex = lines.findIndex(line => line.includes(propName) && line.includes(':'))
-        if (lineIndex !== -1) {
-          const range = new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-
-          props.push({
-            name: propName,
-            type: this.extractPropType(propDef),
-            required: propDef.includes('required: true'),
-            default: this.extractPropDefault(propDef),
-            range,
+  private static parseAttributes(source: string): ParsedAttribute[] {
+    const attributes: ParsedAttribute[] = []
+    const pattern = new RegExp(ATTRIBUTE_PATTERN.source, 'g')
+    let match = pattern.exec(source)
+
+    while (match !== null) {
+      attributes.push({
+        name: match[1],
+        value: match[2] ?? match[3] ?? match[4],
+        index: match.index,
+        length: match[0].length,
+      })
+      match = pattern.exec(source)
+    }
+
+    return attributes
+  }
+
+  private static createSourceFile(block: VueSfcBlock): ts.SourceFile {
+    const lang = typeof block.attrs.lang === 'string' ? block.attrs.lang : 'js'
+    const scriptKinds: Record<string, ts.ScriptKind> = {
+      ts: ts.ScriptKind.TS,
+      tsx: ts.ScriptKind.TSX,
+      jsx: ts.ScriptKind.JSX,
+    }
+
+    return ts.createSourceFile(
+      `component.${lang}`,
+      block.content,
+      ts.ScriptTarget.Latest,
+      true,
+      scriptKinds[lang] ?? ts.ScriptKind.JS,
+    )
+  }
+
+  private static rangeOf(node: ts.Node, context: ScriptContext): vscode.Range {
+    const sourceFile = node.getSourceFile()
+    const offset = context.offsets.get(sourceFile) ?? 0
+    return new vscode.Range(
+      context.document.positionAt(offset + node.getStart(sourceFile)),
+      context.document.positionAt(offset + node.getEnd()),
+    )
+  }
+
+  /**
+   * 解析普通 <script> 中 export default 的组件选项
+   */
+  private static parseOptionsApi(sourceFile: ts.SourceFile, component: VueComponent, context: ScriptContext): void {
+    const exportDefault = sourceFile.statements.find((statement): statement is ts.ExportAssignment =>
+      ts.isExportAssignment(statement) && !statement.isExportEquals,
+    )
+    if (!exportDefault)
+      return
+
+    let options = unwrapExpression(exportDefault.expression)
+    // defineComponent({...}) / Vue.extend({...})
+    if (ts.isCallExpression(options) && options.arguments.length > 0) {
+      options = unwrapExpression(options.arguments[0])
+    }
+    if (!ts.isObjectLiteralExpression(options))
+      return
+
+    for (const property of options.properties) {
+      const name = getPropertyName(property)
+      if (!name)
+        continue
+
+      const value = ts.isPropertyAssignment(property) ? unwrapExpression(property.initializer) : undefined
+      const fn = this.getFunctionLike(property)
+
+      if (name === 'name' && value && ts.isStringLiteralLike(value)) {
+        component.name = value.text
+      }
+      else if (name === 'props' && value) {
+        component.props.push(...this.parseRuntimeProps(value, context))
+      }
+      else if (name === 'emits' && value) {
+        component.emits.push(...this.parseRuntimeEmits(value, context))
+      }
+      else if (name === 'expose' && value && ts.isArrayLiteralExpression(value)) {
+        component.exposed.push(...value.elements
+          .filter(ts.isStringLiteralLike)
+          .map(element => ({ name: element.text, range: this.rangeOf(element, context) })))
+      }
+      else if (name === 'methods' && value && ts.isObjectLiteralExpression(value)) {
+        component.methods.push(...this.parseMethods(value, context))
+      }
+      else if (name === 'computed' && value && ts.isObjectLiteralExpression(value)) {
+        component.computed.push(...this.parseComputed(value, context))
+      }
+      else if (name === 'data' && fn) {
+        component.data.push(...this.parseData(fn, context))
+      }
+      else if (name === 'components' && value && ts.isObjectLiteralExpression(value)) {
+        component.componentImports.push(...this.parseComponentsOption(value, component.componentImports))
+      }
+      else if (name === 'setup' && fn?.body && ts.isBlock(fn.body)) {
+        this.parseSetupStatements(fn.body.statements, component, context, false)
+      }
+      else if (fn && this.LIFECYCLE_HOOKS.includes(name)) {
+        component.lifecycle.push({ name, range: this.rangeOf(property, context) })
+      }
+    }
+  }
+
+  /**
+   * 解析 setup() 函数体或 <script setup> 顶层语句
+   * 编译宏（defineProps 等）只在 <script setup> 中生效
+   */
+  private static parseSetupStatements(
+    statements: ts.NodeArray<ts.Statement>,
+    component: VueComponent,
+    context: ScriptContext,
+    isScriptSetup: boolean,
+  ): void {
+    for (const statement of statements) {
+      if (ts.isFunctionDeclaration(statement) && statement.name) {
+        component.methods.push({
+          name: statement.name.text,
+          params: statement.parameters.map(param => param.getText()),
+          range: this.rangeOf(statement, context),
+        })
+        continue
+      }
+
+      if (ts.isExpressionStatement(statement)) {
+        const expression = unwrapExpression(statement.expression)
+        if (ts.isCallExpression(expression)) {
+          this.parseSetupCall(expression, undefined, statement, component, context, isScriptSetup)
+        }
+        continue
+      }
+
+      if (!ts.isVariableStatement(statement))
+        continue
+
+      for (const declaration of statement.declarationList.declarations) {
+        if (!declaration.initializer)
+          continue
+
+        const initializer = unwrapExpression(declaration.initializer)
+        if (ts.isCallExpression(initializer)) {
+          this.parseSetupCall(initializer, declaration.name, declaration, component, context, isScriptSetup)
+        }
+        else if ((ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) && ts.isIdentifier(declaration.name)) {
+          component.methods.push({
+            name: declaration.name.text,
+            params: initializer.parameters.map(param => param.getText()),
+            range: this.rangeOf(declaration, context),
           })
         }
-        match = propItemRegex.exec(propsContent)
       }
     }
-
-    return props
   }
 
-  private static parseMethods(scriptContent: string, document: vscode.TextDocument): VueMethod[] {
-    const methods: VueMethod[] = []
-    const lines = document.getText().split('\n')
-
-    const methodsRegex = /methods\s*:\s*\{([^}]*)\}/
-    const methodsMatch = scriptContent.match(methodsRegex)
-
-    if (methodsMatch) {
-      const methodsContent = methodsMatch[1]
-      const methodRegex = /(\w+)\s*\([^)]*\)\s*\{/g
-      let match
-
-      match = methodRegex.exec(methodsContent)
-      while (match !== null) {
-        const methodName = match[1]
-        const lineIndex = lines.findIndex(line =>
-          line.includes(methodName) && line.includes('(') && line.includes(')'),
-        )
-
-        if (lineIndex !== -1) {
-          const range = new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-          const params = this.extractMethodParams(match[0])
-
-          methods.push({
-            name: methodName,
-            params,
-            range,
-          })
+  private static parseSetupCall(
+    call: ts.CallExpression,
+    binding: ts.BindingName | undefined,
+    node: ts.Node,
+    component: VueComponent,
+    context: ScriptContext,
+    isScriptSetup: boolean,
+  ): void {
+    const callee = getCalleeName(call)
+    const bindingName = binding && ts.isIdentifier(binding) ? binding.text : undefined
+
+    if (isScriptSetup) {
+      if (callee === 'defineProps' || callee === 'withDefaults') {
+        component.props.push(...this.parseDefineProps(call, binding, context))
+        return
+      }
+      if (callee === 'defineEmits') {
+        component.emits.push(...this.parseDefineEmits(call, context))
+        return
+      }
+      if (callee === 'defineModel') {
+        component.models.push(this.parseDefineModel(call, node, context))
+        return
+      }
+      if (callee === 'defineExpose') {
+        const exposed = call.arguments[0] && unwrapExpression(call.arguments[0])
+        if (exposed && ts.isObjectLiteralExpression(exposed)) {
+          component.exposed.push(...exposed.properties
+            .map(property => ({ name: getPropertyName(property), range: this.rangeOf(property, context) }))
+            .filter((item): item is VueExpose => !!item.name))
         }
-        match = methodRegex.exec(methodsContent)
+        return
+      }
+      if (callee === 'defineOptions') {
+        const options = call.arguments[0] && unwrapExpression(call.arguments[0])
+        const name = options && ts.isObjectLiteralExpression(options) ? getObjectProperty(options, 'name') : undefined
+        if (name && ts.isStringLiteralLike(name)) {
+          component.name = name.text
+        }
+        return
       }
     }
 
-    return methods
+    if (callee && this.COMPOSITION_LIFECYCLE_HOOKS.includes(callee)) {
+      component.lifecycle.push({ name: callee, range: this.rangeOf(node, context) })
+      return
+    }
+
+    if (!bindingName)
+      return
+
+    if (callee === 'computed') {
+      const getter = call.arguments[0] && unwrapExpression(call.arguments[0])
+      const isAccessorObject = !!getter && ts.isObjectLiteralExpression(getter)
+      component.computed.push({
+        name: bindingName,
+        getter: !isAccessorObject || !!getObjectProperty(getter as ts.ObjectLiteralExpression, 'get'),
+        setter: isAccessorObject && !!getObjectProperty(getter as ts.ObjectLiteralExpression, 'set'),
+        range: this.rangeOf(node, context),
+      })
+    }
+    else if (callee && this.REACTIVE_FACTORIES.includes(callee)) {
+      component.data.push({
+        name: bindingName,
+        type: call.typeArguments?.[0]?.getText() || inferTypeFromNode(call.arguments[0]),
+        reactiveType: callee,
+        range: this.rangeOf(node, context),
+      })
+    }
   }
 
-  private static parseComputed(scriptContent: string, document: vscode.TextDocument): VueComputed[] {
-    const computed: VueComputed[] = []
-    const lines = document.getText().split('\n')
-
-    const computedRegex = /computed\s*:\s*\{([^}]*)\}/
-    const computedMatch = scriptContent.match(computedRegex)
-
-    if (computedMatch) {
-      const computedContent = computedMatch[1]
-      const computedItemRegex = /(\w+)\s*(?:\(\)|:\s*(?:function|\{|[^,}]+))/g
-      let match
-
-      match = computedItemRegex.exec(computedContent)
-      while (match !== null) {
-        const computedName = match[1]
-        const lineIndex = lines.findIndex(line =>
-          line.includes(computedName) && (line.includes('()') || line.includes(':')),
-        )
-
-        if (lineIndex !== -1) {
-          const range = new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-          const definition = match[0]
-
-          computed.push({
-            name: computedName,
-            getter: true,
-            setter: definition.includes('set'),
-            range,
-          })
+  /**
+   * defineProps<T>() / defineProps({...}) / withDefaults(defineProps<T>(), {...})
+   * 以及 Vue 3.5 的解构默认值 const { a = 1 } = defineProps<T>()
+   */
+  private static parseDefineProps(call: ts.CallExpression, binding: ts.BindingName | undefined, context: ScriptContext): VueProp[] {
+    let defineCall = call
+    const defaults = new Map<string, string>()
+
+    if (getCalleeName(call) === 'withDefaults') {
+      const inner = call.arguments[0] && unwrapExpression(call.arguments[0])
+      if (!inner || !ts.isCallExpression(inner))
+        return []
+      defineCall = inner
+
+      const defaultsObject = call.arguments[1] && unwrapExpression(call.arguments[1])
+      if (defaultsObject && ts.isObjectLiteralExpression(defaultsObject)) {
+        for (const property of defaultsObject.properties) {
+          const name = getPropertyName(property)
+          if (name) {
+            defaults.set(name, ts.isPropertyAssignment(property) ? property.initializer.getText() : property.getText())
+          }
         }
-        match = computedItemRegex.exec(computedContent)
       }
     }
 
-    return computed
+    if (binding && ts.isObjectBindingPattern(binding)) {
+      for (const element of binding.elements) {
+        const name = element.propertyName?.getText() || element.name.getText()
+        if (element.initializer) {
+          defaults.set(name, element.initializer.getText())
+        }
+      }
+    }
+
+    const typeArgument = defineCall.typeArguments?.[0]
+    const props = typeArgument
+      ? resolveTypeMembers(typeArgument, context.sourceFiles)
+          .filter((member): member is ts.PropertySignature | ts.MethodSignature =>
+            ts.isPropertySignature(member) || ts.isMethodSignature(member))
+          .map(member => ({
+            name: getPropertyName(member) || member.name.getText(),
+            type: ts.isPropertySignature(member) ? member.type?.getText() : member.getText(),
+            required: !member.questionToken,
+            range: this.rangeOf(member, context),
+          }))
+      : this.parseRuntimeProps(defineCall.arguments[0] && unwrapExpression(defineCall.arguments[0]), context)
+
+    return props.map((prop) => {
+      const defaultValue = defaults.get(prop.name)
+      return defaultValue === undefined ? prop : { ...prop, default: defaultValue, required: false }
+    })
   }
 
-  private static parseData(scriptContent: string, document: vscode.TextDocument): VueData[] {
-    const data: VueData[] = []
-    const lines = document.getText().split('\n')
+  /**
+   * 运行时声明的 props：数组或对象写法
+   */
+  private static parseRuntimeProps(node: ts.Expression | undefined, context: ScriptContext): VueProp[] {
+    if (!node)
+      return []
+
+    if (ts.isArrayLiteralExpression(node)) {
+      return node.elements
+        .filter(ts.isStringLiteralLike)
+        .map(element => ({ name: element.text, range: this.rangeOf(element, context) }))
+    }
 
-    const dataRegex = /data\s*\(\s*\)\s*\{[\s\S]*?return\s*\{([^}]*)\}/
-    const dataMatch = scriptContent.match(dataRegex)
+    if (!ts.isObjectLiteralExpression(node))
+      return []
 
-    if (dataMatch) {
-      const dataContent = dataMatch[1]
-      const dataItemRegex = /(\w+)\s*:\s*([^,}]+)/g
-      let match
+    const props: VueProp[] = []
+    for (const property of node.properties) {
+      const name = getPropertyName(property)
+      if (!name)
+        continue
+
+      const prop: VueProp = { name, range: this.rangeOf(property, context) }
+      const definition = ts.isPropertyAssignment(property) ? unwrapExpression(property.initializer) : undefined
+
+      if (definition && ts.isObjectLiteralExpression(definition)) {
+        const type = getObjectProperty(definition, 'type')
+        const required = getObjectProperty(definition, 'required')
+        const defaultValue = getObjectProperty(definition, 'default')
+
+        prop.type = type ? this.formatRuntimeType(type) : undefined
+        prop.required = required?.kind === ts.SyntaxKind.TrueKeyword
+        prop.default = defaultValue?.getText()
+      }
+      else if (definition) {
+        prop.type = this.formatRuntimeType(definition)
+      }
 
-      match = dataItemRegex.exec(dataContent)
-      while (match !== null) {
-        const dataName = match[1]
-        const dataValue = match[2].trim()
+      props.push(prop)
+    }
 
-        const lineIndex = lines.findIndex(line =>
-          line.includes(dataName) && line.includes(':'),
-        )
+    return props
+  }
 
-        if (lineIndex !== -1) {
-          const range = new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
+  /**
+   * defineEmits 的三种写法：
+   * 调用签名 <{ (e: 'change', id: number): void }>、具名元组 <{ change: [id: number] }> 和运行时数组/对象
+   */
+  private static parseDefineEmits(call: ts.CallExpression, context: ScriptContext): VueEmit[] {
+    const typeArgument = call.typeArguments?.[0]
+    if (!typeArgument) {
+      return this.parseRuntimeEmits(call.arguments[0] && unwrapExpression(call.arguments[0]), context)
+    }
 
-          data.push({
-            name: dataName,
-            type: this.inferTypeFromValue(dataValue),
-            range,
+    const members: ts.Node[] = ts.isFunctionTypeNode(typeArgument)
+      ? [typeArgument]
+      : resolveTypeMembers(typeArgument, context.sourceFiles)
+    const emits: VueEmit[] = []
+
+    for (const member of members) {
+      if (ts.isCallSignatureDeclaration(member) || ts.isFunctionTypeNode(member)) {
+        const [event, ...params] = member.parameters
+        for (const name of this.getStringLiteralTypes(event?.type)) {
+          emits.push({
+            name,
+            params: params.map(param => param.getText()),
+            range: this.rangeOf(member, context),
           })
         }
-        match = dataItemRegex.exec(dataContent)
+      }
+      else if (ts.isPropertySignature(member)) {
+        const name = getPropertyName(member)
+        if (!name)
+          continue
+
+        emits.push({
+          name,
+          params: member.type && ts.isTupleTypeNode(member.type)
+            ? member.type.elements.map(element => element.getText())
+            : [],
+          range: this.rangeOf(member, context),
+        })
       }
     }
 
-    return data
+    return emits
   }
 
-  private static parseLifecycle(scriptContent: string, document: vscode.TextDocument): VueLifecycle[] {
-    const lifecycle: VueLifecycle[] = []
-    const lines = document.getText().split('\n')
-
-    this.LIFECYCLE_HOOKS.forEach((hook) => {
-      const hookRegex = new RegExp(`${hook}\\s*\\([^)]*\\)\\s*\\{`, 'g')
-      const match = scriptContent.match(hookRegex)
-
-      if (match) {
-        const lineIndex = lines.findIndex(line => line.includes(hook))
-        if (lineIndex !== -1) {
-          const range = new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length)
-          lifecycle.push({
-            name: hook,
-            range,
-          })
-        }
-      }
-    })
+  private static parseRuntimeEmits(node: ts.Expression | undefined, context: ScriptContext): VueEmit[] {
+    if (!node)
+      return []
+
+    if (ts.isArrayLiteralExpression(node)) {
+      return node.elements
+        .filter(ts.isStringLiteralLike)
+        .map(element => ({ name: element.text, params: [], range: this.rangeOf(element, context) }))
+    }
 
-    return lifecycle
+    if (!ts.isObjectLiteralExpression(node))
+      return []
+
+    return node.properties
+      .map((property) => {
+        const validator = this.getFunctionLike(property)
+        return {
+          name: getPropertyName(property),
+          params: validator ? validator.parameters.map(param => param.getText()) : [],
+          range: this.rangeOf(property, context),
+        }
+      })
+      .filter((emit): emit is VueEmit => !!emit.name)
   }
 
-  private static parseTemplate(content: string, document: vscode.TextDocument): VueTemplate | null {
-    const templateMatch = content.match(/<template[^>]*>([\s\S]*?)<\/template>/)
-    if (!templateMatch) {
-      return null
+  /**
+   * defineModel() / defineModel('name', options) / defineModel<T>(options)
+   */
+  private static parseDefineModel(call: ts.CallExpression, node: ts.Node, context: ScriptContext): VueModel {
+    const [first, second] = call.arguments.map(arg => unwrapExpression(arg))
+    const hasName = !!first && ts.isStringLiteralLike(first)
+    const options = hasName ? second : first
+
+    const model: VueModel = {
+      name: hasName ? (first as ts.StringLiteralLike).text : 'modelValue',
+      type: call.typeArguments?.[0]?.getText(),
+      range: this.rangeOf(node, context),
     }
 
-    const templateContent = templateMatch[1]
-    const lines = content.split('\n')
-    const templateStartLine = lines.findIndex(line => line.includes('<template>'))
-    const templateEndLine = lines.findIndex(line => line.includes('</template>'))
+    if (options && ts.isObjectLiteralExpression(options)) {
+      const type = getObjectProperty(options, 'type')
+      model.type = model.type || (type ? this.formatRuntimeType(type) : undefined)
+      model.required = getObjectProperty(options, 'required')?.kind === ts.SyntaxKind.TrueKeyword
+      model.default = getObjectProperty(options, 'default')?.getText()
+    }
 
-    if (templateStartLine === -1 || templateEndLine === -1) {
-      return null
+    return model
+  }
+
+  private static parseMethods(methods: ts.ObjectLiteralExpression, context: ScriptContext): VueMethod[] {
+    return methods.properties
+      .map((property) => {
+        const fn = this.getFunctionLike(property)
+        const name = getPropertyName(property)
+        return fn && name
+          ? { name, params: fn.parameters.map(param => param.getText()), range: this.rangeOf(property, context) }
+          : undefined
+      })
+      .filter((method): method is VueMethod => !!method)
+  }
+
+  private static parseComputed(computed: ts.ObjectLiteralExpression, context: ScriptContext): VueComputed[] {
+    const result: VueComputed[] = []
+
+    for (const property of computed.properties) {
+      const name = getPropertyName(property)
+      if (!name)
+        continue
+
+      const value = ts.isPropertyAssignment(property) ? unwrapExpression(property.initializer) : undefined
+      if (value && ts.isObjectLiteralExpression(value)) {
+        result.push({
+          name,
+          getter: !!getObjectProperty(value, 'get'),
+          setter: !!getObjectProperty(value, 'set'),
+          range: this.rangeOf(property, context),
+        })
+      }
+      else if (this.getFunctionLike(property)) {
+        result.push({ name, getter: true, setter: false, range: this.rangeOf(property, context) })
+      }
     }
 
-    const range = new vscode.Range(templateStartLine, 0, templateEndLine, lines[templateEndLine].length)
+    return result
+  }
 
-    return {
-      directives: this.parseDirectives(templateContent, document),
-      components: this.parseComponentUsage(templateContent),
-      range,
+  /**
+   * 解析 data() 返回的对象字面量
+   */
+  private static parseData(fn: ts.SignatureDeclaration & { body?: ts.ConciseBody }, context: ScriptContext): VueData[] {
+    const body = fn.body
+    let returned: ts.Expression | undefined
+    if (body && ts.isBlock(body)) {
+      returned = body.statements.find(ts.isReturnStatement)?.expression
+    }
+    else if (body) {
+      returned = body as ts.Expression
     }
+
+    const data = returned && unwrapExpression(returned)
+    if (!data || !ts.isObjectLiteralExpression(data))
+      return []
+
+    return data.properties.flatMap((property): VueData[] => {
+      const name = getPropertyName(property)
+      return name
+        ? [{
+            name,
+            type: ts.isPropertyAssignment(property) ? inferTypeFromNode(property.initializer) : undefined,
+            range: this.rangeOf(property, context),
+          }]
+        : []
+    })
   }
 
-  private static parseDirectives(templateContent: string, _document: vscode.TextDocument): VueDirective[] {
+  private static parseTemplate(block: VueSfcBlock | null, document: vscode.TextDocument): VueTemplate | null {
+    if (!block) {
+      return null
+    }
+
+    // 用空格替换注释，保持偏移不变
+    const content = block.content.replace(/<!--[\s\S]*?-->/g, comment => ' '.repeat(comment.length))
     const directives: VueDirective[] = []
-    const directiveRegex = /v-(\w+)(?:[:@](\w+))?(?:="([^"]+)"|='([^']+)')?/g
-    let match
+    const components: string[] = []
+    const componentUsages: VueComponentUsage[] = []
+    const tagPattern = new RegExp(OPEN_TAG_PATTERN.source, 'gi')
+    let match = tagPattern.exec(content)
 
-    match = directiveRegex.exec(templateContent)
     while (match !== null) {
-      const directiveName = `v-${match[1]}`
-      const value = match[3] || match[4] || ''
+      const tagName = match[1]
+      if (/^[A-Z]/.test(tagName) || tagName.includes('-')) {
+        if (!components.includes(tagName)) {
+          components.push(tagName)
+        }
+        const tagOffset = block.offset + match.index + 1
+        componentUsages.push({
+          name: tagName,
+          range: new vscode.Range(document.positionAt(tagOffset), document.positionAt(tagOffset + tagName.length)),
+        })
+      }
 
-      directives.push({
-        name: directiveName,
-        value,
-        range: new vscode.Range(0, 0, 0, 0),
-      })
-      match = directiveRegex.exec(templateContent)
+      const attributesOffset = block.offset + match.index + 1 + tagName.length
+      for (const attribute of this.parseAttributes(match[2])) {
+        const directive = this.parseDirectiveName(attribute.name)
+        if (!directive)
+          continue
+
+        directives.push({
+          ...directive,
+          value: attribute.value ?? '',
+          range: new vscode.Range(
+            document.positionAt(attributesOffset + attribute.index),
+            document.positionAt(attributesOffset + attribute.index + attribute.length),
+          ),
+        })
+      }
+
+      match = tagPattern.exec(content)
     }
 
-    return directives
+    return {
+      directives,
+      components,
+      componentUsages,
+      range: block.range,
+    }
   }
 
-  private static parseComponentUsage(templateContent: string): string[] {
-    const components: string[] = []
-    const componentRegex = /<([A-Z][a-zA-Z0-9-]*)/g
-    let match
+  /**
+   * 脚本中可作为组件使用的导入：.vue 文件的默认导入和 defineAsyncComponent 包装的动态导入
+   */
+  private static parseComponentImports(sourceFile: ts.SourceFile): VueComponentImport[] {
+    const imports: VueComponentImport[] = []
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const source = statement.moduleSpecifier.text
+        const defaultName = statement.importClause?.name?.text
+        if (defaultName && source.endsWith('.vue')) {
+          imports.push({ name: defaultName, source })
+        }
+      }
+      else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          const source = declaration.initializer && this.getAsyncComponentSource(declaration.initializer)
+          if (source && ts.isIdentifier(declaration.name)) {
+            imports.push({ name: declaration.name.text, source })
+          }
+        }
+      }
+    }
 
-    match = componentRegex.exec(templateContent)
-    while (match !== null) {
-      const componentName = match[1]
-      if (!components.includes(componentName)) {
-        components.push(componentName)
+    return imports
+  }
+
+  /**
+   * Options API 的 components 选项，注册名可能与导入名不同
+   * @param components components 对象字面量
+   * @param imports 已解析的导入，用于查找注册值的来源
+   */
+  private static parseComponentsOption(components: ts.ObjectLiteralExpression, imports: VueComponentImport[]): VueComponentImport[] {
+    const registered: VueComponentImport[] = []
+
+    for (const property of components.properties) {
+      const name = getPropertyName(property)
+      const value = ts.isShorthandPropertyAssignment(property)
+        ? property.name
+        : ts.isPropertyAssignment(property) ? unwrapExpression(property.initializer) : undefined
+      if (!name || !value)
+        continue
+
+      const source = ts.isIdentifier(value)
+        ? imports.find(item => item.name === value.text)?.source
+        : this.getAsyncComponentSource(value)
+      if (source && !imports.some(item => item.name === name && item.source === source)) {
+        registered.push({ name, source })
       }
-      match = componentRegex.exec(templateContent)
     }
 
-    return components
+    return registered
   }
 
-  private static parseStyle(content: string, _document: vscode.TextDocument): VueStyle[] {
-    const styles: VueStyle[] = []
-    const styleRegex = /<style([^>]*)>([\s\S]*?)<\/style>/g
-    let match
+  /**
+   * defineAsyncComponent(() => import('./X.vue')) 或 { loader: () => import('./X.vue') } 中的模块路径
+   */
+  private static getAsyncComponentSource(node: ts.Expression): string | undefined {
+    const call = unwrapExpression(node)
+    if (!ts.isCallExpression(call) || getCalleeName(call) !== 'defineAsyncComponent' || call.arguments.length === 0)
+      return undefined
+
+    let loader = unwrapExpression(call.arguments[0])
+    if (ts.isObjectLiteralExpression(loader)) {
+      const property = getObjectProperty(loader, 'loader')
+      if (!property || !ts.isArrowFunction(property))
+        return undefined
+      loader = property
+    }
+    if (!ts.isArrowFunction(loader) || !ts.isCallExpression(loader.body))
+      return undefined
+
+    const importCall = loader.body
+    const argument = importCall.arguments[0]
+    if (importCall.expression.kind !== ts.SyntaxKind.ImportKeyword || !argument || !ts.isStringLiteralLike(argument))
+      return undefined
+    return argument.text
+  }
 
-    match = styleRegex.exec(content)
-    while (match !== null) {
-      const attributes = match[1]
-      const scoped = attributes.includes('scoped')
-      const langMatch = attributes.match(/lang="([^"]+)"/)
-      const lang = langMatch ? langMatch[1] : undefined
-
-      const lines = content.split('\n')
-      const styleStartLine = lines.findIndex(line => line.includes('<style'))
-      const range = new vscode.Range(styleStartLine, 0, styleStartLine, lines[styleStartLine].length)
-
-      styles.push({
-        scoped,
-        lang,
-        range,
-      })
-      match = styleRegex.exec(content)
+  /**
+   * 解析 .ts / .js 文件中的全局组件注册
+   * - app.component('Name', Component) / Vue.component('Name', Component)
+   * - unplugin-vue-components 生成的 components.d.ts 中的 GlobalComponents 声明
+   * @param text 文件内容
+   * @param fileName 文件名，用于确定脚本类型
+   */
+  static parseGlobalRegistrations(text: string, fileName: string): VueComponentImport[] {
+    const sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true)
+    const imports = this.parseComponentImports(sourceFile)
+    const registrations: VueComponentImport[] = []
+
+    const visit = (node: ts.Node): void => {
+      if (
+        ts.isCallExpression(node)
+        && ts.isPropertyAccessExpression(node.expression)
+        && node.expression.name.text === 'component'
+        && node.arguments.length >= 2
+        && ts.isStringLiteralLike(node.arguments[0])
+      ) {
+        const value = unwrapExpression(node.arguments[1])
+        const source = ts.isIdentifier(value)
+          ? imports.find(item => item.name === value.text)?.source
+          : this.getAsyncComponentSource(value)
+        if (source) {
+          registrations.push({ name: node.arguments[0].text, source })
+        }
+      }
+      else if (ts.isInterfaceDeclaration(node) && node.name.text === 'GlobalComponents') {
+        for (const member of node.members) {
+          const name = getPropertyName(member)
+          const source = ts.isPropertySignature(member) && member.type && this.getImportTypeSource(member.type)
+          if (name && source) {
+            registrations.push({ name, source })
+          }
+        }
+        return
+      }
+      ts.forEachChild(node, visit)
     }
 
-    return styles
+    visit(sourceFile)
+    return registrations
   }
 
-  private static extractPropType(propDef: string): string | undefined {
-    if (propDef.includes('String'))
-      return 'String'
-    if (propDef.includes('Number'))
-      return 'Number'
-    if (propDef.includes('Boolean'))
-      return 'Boolean'
-    if (propDef.includes('Array'))
-      return 'Array'
-    if (propDef.includes('Object'))
-      return 'Object'
-    if (propDef.includes('Function'))
-      return 'Function'
-    return undefined
+  /**
+   * typeof import('./X.vue')['default'] 中的模块路径
+   */
+  private static getImportTypeSource(type: ts.TypeNode): string | undefined {
+    const importType = ts.isIndexedAccessTypeNode(type) ? type.objectType : type
+    if (!ts.isImportTypeNode(importType) || !ts.isLiteralTypeNode(importType.argument))
+      return undefined
+    const literal = importType.argument.literal
+    return ts.isStringLiteral(literal) ? literal.text : undefined
   }
 
-  private static extractPropDefault(propDef: string): string | undefined {
-    const defaultMatch = propDef.match(/default:\s*([^,}]+)/)
-    return defaultMatch ? defaultMatch[1].trim() : undefined
-  }
+  /**
+   * 解析指令名，展开 @ / : / # 简写
+   */
+  private static parseDirectiveName(attributeName: string): Pick<VueDirective, 'name' | 'arg' | 'modifiers'> | null {
+    const shorthands: Record<string, string> = { '@': 'v-on', ':': 'v-bind', '#': 'v-slot' }
+    let name: string
+    let rest: string
+
+    if (shorthands[attributeName[0]]) {
+      name = shorthands[attributeName[0]]
+      rest = attributeName.slice(1)
+    }
+    else if (attributeName.startsWith('v-')) {
+      const match = attributeName.match(/^(v-[\w-]+)(?::(.*))?$/)
+      if (!match)
+        return null
+      name = match[1]
+      rest = match[2] ?? ''
+    }
+    else {
+      return null
+    }
 
-  private static extractMethodParams(methodSignature: string): string[] {
-    const paramsMatch = methodSignature.match(/\(([^)]*)\)/)
-    if (!paramsMatch || !paramsMatch[1].trim()) {
-      return []
+    // 动态参数 [key] 中可能包含 "."
+    let argEnd = rest.startsWith('[') ? rest.indexOf(']') + 1 : rest.indexOf('.')
+    if (argEnd <= 0 && !rest.startsWith('.')) {
+      argEnd = rest.length
     }
+    const modifiers = rest.slice(Math.max(argEnd, 0)).split('.').filter(Boolean)
 
-    return paramsMatch[1].split(',').map(param => param.trim())
+    return {
+      name,
+      arg: rest.slice(0, Math.max(argEnd, 0)) || undefined,
+      modifiers: modifiers.length > 0 ? modifiers : undefined,
+    }
   }
 
-  private static inferTypeFromValue(value: string): string | undefined {
-    if (value.startsWith('"') || value.startsWith('\''))
-      return 'string'
-    if (/^\d+$/.test(value))
-      return 'number'
-    if (value === 'true' || value === 'false')
-      return 'boolean'
-    if (value.startsWith('['))
-      return 'array'
-    if (value.startsWith('{'))
-      return 'object'
+  private static getStringLiteralTypes(type: ts.TypeNode | undefined): string[] {
+    if (!type)
+      return []
+    if (ts.isLiteralTypeNode(type) && ts.isStringLiteral(type.literal))
+      return [type.literal.text]
+    if (ts.isUnionTypeNode(type))
+      return type.types.flatMap(member => this.getStringLiteralTypes(member))
+    return []
+  }
+
+  /**
+   * 对象成员若是方法或函数，返回对应的函数节点
+   */
+  private static getFunctionLike(property: ts.ObjectLiteralElementLike): (ts.SignatureDeclaration & { body?: ts.ConciseBody }) | undefined {
+    if (ts.isMethodDeclaration(property))
+      return property
+    if (ts.isPropertyAssignment(property)) {
+      const value = unwrapExpression(property.initializer)
+      if (ts.isArrowFunction(value) || ts.isFunctionExpression(value))
+        return value
+    }
     return undefined
   }
+
+  /**
+   * 运行时类型声明转为文本：String → String，[String, Number] → String | Number
+   */
+  private static formatRuntimeType(node: ts.Node): string {
+    if (ts.isArrayLiteralExpression(node))
+      return node.elements.map(element => element.getText()).join(' | ')
+    if (ts.isAsExpression(node))
+      return node.type.getText()
+    return node.getText()
+  }
 }
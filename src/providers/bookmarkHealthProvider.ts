@@ -0,0 +1,158 @@
+import type { BookmarkHealthChecker } from '../services/bookmarkHealthChecker.js'
+import type { EnhancedBookmarkManager } from '../services/enhancedBookmarkManager.js'
+import type { SharedBookmarkStore } from '../services/sharedBookmarkStore.js'
+import type { BookmarkHealthCheck, BookmarkIssue } from '../types/bookmarks.js'
+import * as vscode from 'vscode'
+
+const ISSUE_TYPE_LABELS: Record<BookmarkIssue['type'], string> = {
+  'invalid-path': '无效路径',
+  'file-not-found': '文件不存在',
+  'orphaned': '位置失效',
+  'outdated': '代码已变化',
+  'duplicate': '重复书签',
+  'unused': '长期未使用',
+}
+
+const SEVERITY_COLORS: Record<BookmarkIssue['severity'], string> = {
+  critical: 'errorForeground',
+  high: 'list.errorForeground',
+  medium: 'list.warningForeground',
+  low: 'descriptionForeground',
+}
+
+/**
+ * 书签健康检查 Provider
+ * 按问题类型分组显示最近一次健康检查的结果
+ */
+export class BookmarkHealthProvider implements vscode.TreeDataProvider<HealthTreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<HealthTreeItem | undefined | null | void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+
+  private result: BookmarkHealthCheck | undefined
+
+  constructor(
+    private healthChecker: BookmarkHealthChecker,
+    private bookmarkManager: EnhancedBookmarkManager,
+    private sharedBookmarkStore: SharedBookmarkStore,
+  ) {}
+
+  /**
+   * 重新执行健康检查并刷新视图
+   */
+  async runCheck(): Promise<BookmarkHealthCheck> {
+    this.result = await this.healthChecker.runHealthCheck()
+    this._onDidChangeTreeData.fire()
+    return this.result
+  }
+
+  /**
+   * 修复单个问题后重新检查
+   */
+  async fixIssue(issue: BookmarkIssue): Promise<boolean> {
+    const fixed = await this.healthChecker.fixIssue(issue)
+    if (fixed) {
+      await this.runCheck()
+    }
+    return fixed
+  }
+
+  /**
+   * 修复所有可自动修复的问题后重新检查
+   */
+  async fixAllIssues(): Promise<number> {
+    if (!this.result)
+      return 0
+
+    const fixed = await this.healthChecker.fixAllIssues(this.result.issues.filter(issue => issue.autoFixable))
+    await this.runCheck()
+    return fixed
+  }
+
+  getTreeItem(element: HealthTreeItem): vscode.TreeItem {
+    return element
+  }
+
+  getChildren(element?: HealthTreeItem): HealthTreeItem[] {
+    if (element) {
+      return element.children
+    }
+
+    if (!this.result) {
+      return [new HealthTreeItem('运行 "检查书签健康" 开始扫描', [], new vscode.ThemeIcon('info'))]
+    }
+
+    if (this.result.issues.length === 0) {
+      return [new HealthTreeItem(
+        `全部 ${this.result.totalChecked} 个书签状态良好`,
+        [],
+        new vscode.ThemeIcon('pass', new vscode.ThemeColor('charts.green')),
+      )]
+    }
+
+    const groups = new Map<BookmarkIssue['type'], BookmarkIssue[]>()
+    for (const issue of this.result.issues) {
+      if (!groups.has(issue.type)) {
+        groups.set(issue.type, [])
+      }
+      groups.get(issue.type)!.push(issue)
+    }
+
+    const items = Array.from(groups.entries()).map(([type, issues]) => {
+      const item = new HealthTreeItem(
+        `${ISSUE_TYPE_LABELS[type]} (${issues.length})`,
+        issues.map(issue => this.createIssueItem(issue)),
+        new vscode.ThemeIcon('warning'),
+        vscode.TreeItemCollapsibleState.Expanded,
+      )
+      item.contextValue = 'bookmarkIssueGroup'
+      return item
+    })
+
+    const summary = new HealthTreeItem(
+      `已检查 ${this.result.totalChecked} 个，有效 ${this.result.validBookmarks} 个`,
+      [],
+      new vscode.ThemeIcon('pulse'),
+    )
+    summary.tooltip = this.result.recommendations.join('\n')
+
+    return [summary, ...items]
+  }
+
+  private createIssueItem(issue: BookmarkIssue): HealthTreeItem {
+    const bookmark = this.sharedBookmarkStore.getBookmark(issue.bookmarkId) || this.bookmarkManager.getBookmark(issue.bookmarkId)
+    const item = new HealthTreeItem(
+      bookmark?.label || issue.bookmarkId,
+      [],
+      new vscode.ThemeIcon(issue.autoFixable ? 'wrench' : 'circle-slash', new vscode.ThemeColor(SEVERITY_COLORS[issue.severity])),
+      vscode.TreeItemCollapsibleState.None,
+      issue,
+    )
+
+    item.description = issue.description
+    item.tooltip = `${issue.description}\n建议: ${issue.suggestedAction}${issue.autoFixable ? '（可自动修复）' : ''}`
+    item.contextValue = issue.autoFixable ? 'bookmarkIssue-fixable' : 'bookmarkIssue'
+
+    if (bookmark && issue.type !== 'file-not-found' && issue.type !== 'invalid-path') {
+      const line = Math.max(0, bookmark.range.start.line)
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open',
+        arguments: [bookmark.uri, { selection: new vscode.Range(line, 0, line, 0) }],
+      }
+    }
+
+    return item
+  }
+}
+
+class HealthTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly name: string,
+    public readonly children: HealthTreeItem[],
+    public readonly iconPath: vscode.ThemeIcon,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
+    public readonly issue?: BookmarkIssue,
+  ) {
+    super(name, collapsibleState)
+  }
+}
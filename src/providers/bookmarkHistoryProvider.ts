@@ -0,0 +1,111 @@
+import type { EnhancedBookmarkManager } from '../services/enhancedBookmarkManager.js'
+import type { BookmarkOperation } from '../types/bookmarks.js'
+import * as vscode from 'vscode'
+
+const OPERATION_LABELS: Record<BookmarkOperation['type'], string> = {
+  create: '创建',
+  update: '修改',
+  delete: '删除',
+  access: '访问',
+  share: '共享',
+  export: '导出',
+  import: '导入',
+}
+
+const OPERATION_ICONS: Record<BookmarkOperation['type'], string> = {
+  create: 'add',
+  update: 'edit',
+  delete: 'trash',
+  access: 'eye',
+  share: 'organization',
+  export: 'export',
+  import: 'cloud-download',
+}
+
+/**
+ * 书签操作历史 Provider
+ * 按时间倒序列出最近的书签操作，已撤销的操作置灰显示
+ */
+export class BookmarkHistoryProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+
+  // 最多显示的历史条数
+  private maxItems = 100
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private bookmarkManager: EnhancedBookmarkManager,
+  ) {
+    this.context.subscriptions.push(
+      this.bookmarkManager.onDidChangeHistory(() => this.refresh()),
+    )
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire()
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element
+  }
+
+  getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+    if (element)
+      return []
+
+    const operations = this.bookmarkManager.getOperationHistory().slice(0, this.maxItems)
+    if (operations.length === 0) {
+      const empty = new vscode.TreeItem('暂无书签操作记录')
+      empty.iconPath = new vscode.ThemeIcon('info')
+      return [empty]
+    }
+
+    return operations.map(operation => this.createOperationItem(operation))
+  }
+
+  private createOperationItem(operation: BookmarkOperation): vscode.TreeItem {
+    const undone = this.bookmarkManager.isOperationUndone(operation.id)
+    const action = operation.type === 'share' && operation.details.shared === false ? '取消共享' : OPERATION_LABELS[operation.type]
+    const title = `${action} ${this.describeTarget(operation)}`
+
+    const item = new vscode.TreeItem(title)
+    item.description = `${this.formatTime(operation.timestamp)}${undone ? ' · 已撤销' : ''}`
+    item.iconPath = new vscode.ThemeIcon(
+      OPERATION_ICONS[operation.type],
+      undone ? new vscode.ThemeColor('disabledForeground') : undefined,
+    )
+    item.tooltip = `${title}\n🕒 ${operation.timestamp.toLocaleString('zh-CN')}${operation.undoable ? '' : '\n不可撤销'}`
+    item.contextValue = undone ? 'bookmarkOperation-undone' : 'bookmarkOperation'
+
+    const bookmark = this.bookmarkManager.getBookmark(operation.bookmarkId)
+    if (bookmark && operation.type !== 'import') {
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open',
+        arguments: [bookmark.uri, { selection: new vscode.Range(bookmark.range.start, bookmark.range.start) }],
+      }
+    }
+
+    return item
+  }
+
+  private describeTarget(operation: BookmarkOperation): string {
+    const { details } = operation
+
+    if (operation.type === 'import') {
+      return `${details.bookmarkIds?.length || 0} 个书签`
+    }
+
+    const label = details.next?.label
+      || details.bookmark?.label
+      || details.label
+      || this.bookmarkManager.getBookmark(operation.bookmarkId)?.label
+    return label ? `"${label}"` : operation.bookmarkId
+  }
+
+  private formatTime(date: Date): string {
+    const isToday = date.toDateString() === new Date().toDateString()
+    return isToday ? date.toLocaleTimeString('zh-CN') : date.toLocaleString('zh-CN')
+  }
+}
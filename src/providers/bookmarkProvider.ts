@@ -1,24 +1,63 @@
+import type { EnhancedBookmarkManager } from '../services/enhancedBookmarkManager.js'
+import type { SharedBookmarkStore } from '../services/sharedBookmarkStore.js'
+import type { EnhancedBookmark } from '../types/bookmarks.js'
 import * as vscode from 'vscode'
 
-interface Bookmark {
-  id: string
-  label: string
-  uri: vscode.Uri
-  range: vscode.Range
-  timestamp: number
-}
+type Bookmark = EnhancedBookmark
 
 export class BookmarkProvider implements vscode.TreeDataProvider<BookmarkItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<BookmarkItem | undefined | null | void> = new vscode.EventEmitter<BookmarkItem | undefined | null | void>()
   readonly onDidChangeTreeData: vscode.Event<BookmarkItem | undefined | null | void> = this._onDidChangeTreeData.event
 
-  private bookmarks: Bookmark[] = []
   private context: vscode.ExtensionContext
+  private bookmarkManager: EnhancedBookmarkManager
+  private sharedBookmarkStore: SharedBookmarkStore
   private currentTab: 'current' | 'all' = 'current'
 
-  constructor(context: vscode.ExtensionContext) {
+  constructor(
+    context: vscode.ExtensionContext,
+    bookmarkManager: EnhancedBookmarkManager,
+    sharedBookmarkStore: SharedBookmarkStore,
+  ) {
     this.context = context
-    this.loadBookmarks()
+    this.bookmarkManager = bookmarkManager
+    this.sharedBookmarkStore = sharedBookmarkStore
+
+    // 私有书签由增强书签管理器存储，共享书签由共享文件存储，任一变更时同步刷新
+    const onChange = () => {
+      this.updateHasBookmarksContext()
+      this.refresh()
+    }
+    this.context.subscriptions.push(
+      this.bookmarkManager.onDidChangeBookmarks(onChange),
+      this.sharedBookmarkStore.onDidChangeBookmarks(onChange),
+    )
+    this.updateHasBookmarksContext()
+  }
+
+  /**
+   * 当前所有书签（私有 + 共享），不含书签文件夹和已归档的临时书签
+   */
+  private get bookmarks(): Bookmark[] {
+    return [
+      ...this.bookmarkManager.getAllBookmarks(),
+      ...this.sharedBookmarkStore.getAllBookmarks(),
+    ].filter(bookmark => !bookmark.isFolder && !bookmark.isArchived)
+  }
+
+  /**
+   * 获取书签所在的存储
+   */
+  private getStoreFor(bookmarkId: string): EnhancedBookmarkManager | SharedBookmarkStore {
+    return this.sharedBookmarkStore.getBookmark(bookmarkId) ? this.sharedBookmarkStore : this.bookmarkManager
+  }
+
+  /**
+   * 获取所有书签
+   * @returns 增强书签数组
+   */
+  getBookmarks(): Bookmark[] {
+    return this.bookmarks
   }
 
   /**
@@ -120,22 +159,13 @@ export class BookmarkProvider implements vscode.TreeDataProvider<BookmarkItem> {
     })
 
     if (label) {
-      const bookmark: Bookmark = {
-        id: Date.now().toString(),
-        label,
-        uri: document.uri,
-        range: selection.isEmpty
-          ? new vscode.Range(selection.active.line, 0, selection.active.line, 0)
-          : selection,
-        timestamp: Date.now(),
-      }
+      const range = selection.isEmpty
+        ? new vscode.Range(selection.active.line, 0, selection.active.line, 0)
+        : new vscode.Range(selection.start, selection.end)
 
-      this.bookmarks.push(bookmark)
-      this.saveBookmarks()
-      this.refresh()
-
-      vscode.commands.executeCommand('setContext', 'CCoding.hasBookmarks', this.bookmarks.length > 0)
-      vscode.window.showInformationMessage(`Bookmark "${label}" added`)
+      if (await this.createBookmark(document.uri, range, label)) {
+        vscode.window.showInformationMessage(`Bookmark "${label}" added`)
+      }
     }
   }
 
@@ -160,20 +190,9 @@ export class BookmarkProvider implements vscode.TreeDataProvider<BookmarkItem> {
       })
 
       if (label) {
-        const bookmark: Bookmark = {
-          id: Date.now().toString(),
-          label,
-          uri,
-          range: new vscode.Range(0, 0, 0, 0),
-          timestamp: Date.now(),
+        if (await this.createBookmark(uri, new vscode.Range(0, 0, 0, 0), label)) {
+          vscode.window.showInformationMessage(`Bookmark "${label}" added for ${fileName}`)
         }
-
-        this.bookmarks.push(bookmark)
-        this.saveBookmarks()
-        this.refresh()
-
-        vscode.commands.executeCommand('setContext', 'CCoding.hasBookmarks', this.bookmarks.length > 0)
-        vscode.window.showInformationMessage(`Bookmark "${label}" added for ${fileName}`)
       }
     }
     catch (error) {
@@ -223,22 +242,84 @@ export class BookmarkProvider implements vscode.TreeDataProvider<BookmarkItem> {
     })
 
     if (label) {
-      const bookmark: Bookmark = {
-        id: Date.now().toString(),
-        label: label.trim(),
-        uri: document.uri,
-        range: selection.isEmpty
-          ? new vscode.Range(selection.active.line, 0, selection.active.line, 0)
-          : selection,
-        timestamp: Date.now(),
+      const range = selection.isEmpty
+        ? new vscode.Range(selection.active.line, 0, selection.active.line, 0)
+        : new vscode.Range(selection.start, selection.end)
+
+      if (await this.createBookmark(document.uri, range, label.trim())) {
+        vscode.window.showInformationMessage(`书签 "${label}" 已添加到 ${fileName}`)
       }
+    }
+  }
 
-      this.bookmarks.push(bookmark)
-      this.saveBookmarks()
-      this.refresh()
+  /**
+   * 在光标处放置临时书签
+   * @description 不询问标签，按配置的有效期自动过期并归档
+   */
+  async addTemporaryBookmark() {
+    const editor = vscode.window.activeTextEditor
+    if (!editor) {
+      vscode.window.showErrorMessage('No active editor')
+      return
+    }
+
+    const selection = editor.selection
+    const range = selection.isEmpty
+      ? new vscode.Range(selection.active.line, 0, selection.active.line, 0)
+      : new vscode.Range(selection.start, selection.end)
 
-      vscode.commands.executeCommand('setContext', 'CCoding.hasBookmarks', this.bookmarks.length > 0)
-      vscode.window.showInformationMessage(`书签 "${label}" 已添加到 ${fileName}`)
+    try {
+      const bookmark = await this.bookmarkManager.createBookmark(editor.document.uri, range, { isTemporary: true })
+      const hours = bookmark.expiresAt ? Math.round((bookmark.expiresAt.getTime() - Date.now()) / (60 * 60 * 1000)) : 0
+      const choice = await vscode.window.showInformationMessage(
+        `临时书签 "${bookmark.label}" 已添加，将在 ${hours} 小时后过期`,
+        '转为永久书签',
+      )
+      if (choice === '转为永久书签') {
+        await this.promoteBookmark(bookmark.id)
+      }
+    }
+    catch (error) {
+      console.error('Error creating temporary bookmark:', error)
+      vscode.window.showErrorMessage(`保存书签数据失败: ${error}`)
+    }
+  }
+
+  /**
+   * 将临时书签转为永久书签
+   */
+  async promoteBookmark(bookmarkId: string) {
+    const bookmark = await this.bookmarkManager.promoteBookmark(bookmarkId)
+    if (bookmark) {
+      vscode.window.showInformationMessage(`书签 "${bookmark.label}" 已转为永久书签`)
+    }
+  }
+
+  /**
+   * 打开书签位置并记录访问，共享书签没有个人访问统计
+   * @param bookmarkId 书签ID
+   */
+  async openBookmark(bookmarkId: string) {
+    const bookmark = this.sharedBookmarkStore.getBookmark(bookmarkId) ?? this.bookmarkManager.getBookmark(bookmarkId)
+    if (!bookmark) {
+      vscode.window.showErrorMessage('Bookmark not found')
+      return
+    }
+
+    await vscode.window.showTextDocument(bookmark.uri, { selection: new vscode.Range(bookmark.range.start, bookmark.range.start) })
+    if (!bookmark.isShared) {
+      await this.bookmarkManager.accessBookmark(bookmarkId)
+    }
+  }
+
+  /**
+   * 恢复已归档的临时书签
+   * @param bookmarkId 书签ID
+   */
+  async restoreArchivedBookmark(bookmarkId: string) {
+    const bookmark = await this.bookmarkManager.restoreArchivedBookmark(bookmarkId)
+    if (bookmark) {
+      vscode.window.showInformationMessage(`书签 "${bookmark.label}" 已恢复`)
     }
   }
 
@@ -265,143 +346,67 @@ export class BookmarkProvider implements vscode.TreeDataProvider<BookmarkItem> {
     })
 
     if (newLabel && newLabel !== bookmark.label) {
-      bookmark.label = newLabel.trim()
-      this.saveBookmarks()
-      this.refresh()
+      await this.getStoreFor(bookmarkId).updateBookmark(bookmarkId, { label: newLabel.trim() })
       vscode.window.showInformationMessage(`Bookmark renamed to "${newLabel}"`)
     }
   }
 
-  removeBookmark(bookmarkId: string) {
+  async removeBookmark(bookmarkId: string) {
     const bookmark = this.bookmarks.find(b => b.id === bookmarkId)
     if (bookmark) {
-      this.bookmarks = this.bookmarks.filter(b => b.id !== bookmarkId)
-      this.saveBookmarks()
-      this.refresh()
-      vscode.commands.executeCommand('setContext', 'CCoding.hasBookmarks', this.bookmarks.length > 0)
+      await this.getStoreFor(bookmarkId).deleteBookmark(bookmarkId)
       vscode.window.showInformationMessage(`Bookmark "${bookmark.label}" removed`)
     }
   }
 
-  private loadBookmarks() {
-    try {
-      const saved = this.context.globalState.get<any[]>('CCoding.bookmarks', [])
-      console.log('Loading bookmarks from globalState:', saved.length, 'items')
-
-      this.bookmarks = saved
-        .filter(b => this.isValidBookmark(b))
-        .map((b) => {
-          try {
-            // 确保 URI 对象正确重建
-            const uri = typeof b.uri === 'string'
-              ? vscode.Uri.parse(b.uri)
-              : (b.uri && b.uri.scheme ? vscode.Uri.parse(b.uri.toString()) : vscode.Uri.parse(b.uri))
-
-            // 确保 Range 对象正确重建
-            const range = new vscode.Range(
-              new vscode.Position(
-                b.range?.start?.line || 0,
-                b.range?.start?.character || 0,
-              ),
-              new vscode.Position(
-                b.range?.end?.line || 0,
-                b.range?.end?.character || 0,
-              ),
-            )
-
-            return {
-              id: b.id || Date.now().toString(),
-              label: b.label || 'Unknown Bookmark',
-              uri,
-              range,
-              timestamp: b.timestamp || Date.now(),
-            }
-          }
-          catch (itemError) {
-            console.error('Error processing bookmark item:', itemError, b)
-            return null
-          }
-        })
-        .filter(b => b !== null) as Bookmark[]
-
-      console.log('Successfully loaded bookmarks:', this.bookmarks.length)
-      vscode.commands.executeCommand('setContext', 'CCoding.hasBookmarks', this.bookmarks.length > 0)
-    }
-    catch (error) {
-      console.error('Error loading bookmarks:', error)
-      // 如果加载失败，重置为空数组但不清除原数据（可能是临时错误）
-      this.bookmarks = []
-      vscode.commands.executeCommand('setContext', 'CCoding.hasBookmarks', false)
-    }
-  }
-
   /**
-   * 验证书签数据的完整性
-   * @param bookmark 要验证的书签数据
-   * @returns 是否有效
+   * 切换书签的共享状态
+   * @description 共享书签写入工作区共享文件，取消共享后移回私有存储；这种移动不进入撤销栈
    */
-  private isValidBookmark(bookmark: any): boolean {
-    if (!bookmark || typeof bookmark !== 'object') {
-      return false
-    }
+  async toggleShared(bookmarkId: string) {
+    const shared = this.sharedBookmarkStore.getBookmark(bookmarkId)
 
-    // 检查必需的属性（放宽验证条件）
-    if (!bookmark.id || !bookmark.label || typeof bookmark.label !== 'string') {
-      return false
-    }
+    try {
+      if (shared) {
+        await this.bookmarkManager.moveFromShared(shared)
+        await this.sharedBookmarkStore.deleteBookmark(bookmarkId)
+        vscode.window.showInformationMessage(`书签 "${shared.label}" 已取消共享`)
+        return
+      }
 
-    // 检查 URI（支持多种格式）
-    if (!bookmark.uri) {
-      return false
-    }
+      const bookmark = this.bookmarkManager.getBookmark(bookmarkId)
+      if (!bookmark) {
+        vscode.window.showErrorMessage('Bookmark not found')
+        return
+      }
 
-    // 检查 range 对象的完整性（提供默认值）
-    if (!bookmark.range) {
-      return false
+      await this.sharedBookmarkStore.addBookmark(bookmark)
+      await this.bookmarkManager.moveToShared(bookmarkId)
+      vscode.window.showInformationMessage(`书签 "${bookmark.label}" 已共享到工作区`)
     }
-
-    // 放宽range验证，只要有基本结构即可
-    if (!bookmark.range.start && !bookmark.range.end) {
-      return false
+    catch (error) {
+      vscode.window.showErrorMessage(`切换共享状态失败: ${error}`)
     }
-
-    return true
   }
 
-  private saveBookmarks() {
+  /**
+   * 通过增强书签管理器创建书签
+   */
+  private async createBookmark(uri: vscode.Uri, range: vscode.Range, label: string): Promise<Bookmark | undefined> {
     try {
-      // 序列化数据，确保 URI 和 Range 对象被正确转换
-      const serializedBookmarks = this.bookmarks.map(bookmark => ({
-        id: bookmark.id,
-        label: bookmark.label,
-        uri: bookmark.uri.toString(), // 确保 URI 被序列化为字符串
-        range: {
-          start: {
-            line: bookmark.range.start.line,
-            character: bookmark.range.start.character,
-          },
-          end: {
-            line: bookmark.range.end.line,
-            character: bookmark.range.end.character,
-          },
-        },
-        timestamp: bookmark.timestamp,
-      }))
-
-      console.log('Saving bookmarks to globalState:', serializedBookmarks.length, 'items')
-      this.context.globalState.update('CCoding.bookmarks', serializedBookmarks)
-
-      // 强制同步保存
-      if (this.context.globalState.setKeysForSync) {
-        this.context.globalState.setKeysForSync(['CCoding.bookmarks'])
-      }
+      return await this.bookmarkManager.createBookmark(uri, range, { label })
     }
     catch (error) {
-      console.error('Error saving bookmarks:', error)
+      console.error('Error creating bookmark:', error)
       vscode.window.showErrorMessage(`保存书签数据失败: ${error}`)
+      return undefined
     }
   }
 
+  private updateHasBookmarksContext() {
+    vscode.commands.executeCommand('setContext', 'CCoding.hasBookmarks', this.bookmarks.length > 0)
+  }
+
   /**
    * 当前搜索状态
    */
@@ -435,7 +440,9 @@ export class BookmarkProvider implements vscode.TreeDataProvider<BookmarkItem> {
    * @description 提供给外部调用的数据保存方法，确保数据持久化
    */
   public forceSave(): void {
-    this.saveBookmarks()
+    if (this.context.globalState.setKeysForSync) {
+      this.context.globalState.setKeysForSync(['CCoding.enhancedBookmarks'])
+    }
   }
 
   /**
@@ -452,9 +459,12 @@ export class BookmarkProvider implements vscode.TreeDataProvider<BookmarkItem> {
    */
   public getDataHealth(): { isHealthy: boolean, count: number, lastSaved: string } {
     try {
-      const saved = this.context.globalState.get<any[]>('CCoding.bookmarks', [])
+      // 持久化的只有私有书签（含文件夹和已归档书签），与内存中的私有书签逐个比对
+      const saved = this.context.globalState.get<Array<{ id: string }>>('CCoding.enhancedBookmarks', [])
+      const savedIds = new Set(saved.map(item => item.id))
+      const loaded = this.bookmarkManager.getAllBookmarks()
       return {
-        isHealthy: saved.length === this.bookmarks.length,
+        isHealthy: savedIds.size === loaded.length && loaded.every(bookmark => savedIds.has(bookmark.id)),
         count: this.bookmarks.length,
         lastSaved: new Date().toISOString(),
       }
@@ -481,11 +491,9 @@ class BookmarkItem extends vscode.TreeItem {
       this.description = `${fileName}:${lineNumber}`
 
       this.command = {
-        command: 'vscode.open',
+        command: 'CCoding.openBookmark',
         title: 'Open',
-        arguments: [bookmark.uri, {
-          selection: bookmark.range,
-        }],
+        arguments: [bookmark.id],
       }
 
       this.iconPath = new vscode.ThemeIcon('bookmark')
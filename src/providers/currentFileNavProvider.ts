@@ -1,6 +1,7 @@
-import type * as vscode from 'vscode'
 import type { DataAdapter } from './dataAdapter.js'
 import type { UnifiedItem } from './unifiedListProvider.js'
+import * as vscode from 'vscode'
+import { SymbolReferenceService } from '../services/symbolReferenceService.js'
 
 /**
  * 智能导航面板 - 当前文件的一站式导航
@@ -11,6 +12,8 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView
   private searchQuery = ''
   private activeTab: 'symbols' | 'bookmarks' | 'todos' = 'symbols'
+  // 符号排序：按位置 / 按认知复杂度
+  private sortBy: 'position' | 'complexity' = 'position'
 
   // 各类型数据缓存
   private symbolItems: UnifiedItem[] = []
@@ -23,6 +26,7 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
     private readonly dataAdapter: DataAdapter,
     private onItemClicked: (item: UnifiedItem) => void,
     private onPinToggled: (item: UnifiedItem) => void,
+    private readonly referenceService: SymbolReferenceService,
   ) { }
 
   public resolveWebviewView(
@@ -50,6 +54,10 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             this.searchQuery = message.query
             this.updateDisplay()
             break
+          case 'sortChanged':
+            this.sortBy = message.sortBy
+            this.updateDisplay()
+            break
           case 'itemClicked': {
             const item = this.findItemById(this.getCurrentTabItems(), message.itemId)
             if (item) {
@@ -57,6 +65,15 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             }
             break
           }
+          case 'loadReferences':
+            this.loadReferences(message.itemId)
+            break
+          case 'openReference':
+            vscode.window.showTextDocument(vscode.Uri.parse(message.uri), {
+              selection: new vscode.Range(message.line, message.character, message.line, message.character),
+              preserveFocus: false,
+            })
+            break
           // case 'pinToggled': { // Removed
           //   const toggleItem = this.findItemById(this.getCurrentTabItems(), message.itemId)
           //   if (toggleItem) {
@@ -91,6 +108,56 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
     return undefined
   }
 
+  /**
+   * 查询符号的工作区引用，按文件分组并附带每处引用的代码，发送给 WebView 展开显示
+   * @param itemId 符号项 ID
+   */
+  private async loadReferences(itemId: string): Promise<void> {
+    const item = this.findItemById(this.symbolItems, itemId)
+    if (!item?.referencePosition)
+      return
+
+    const position = new vscode.Position(item.referencePosition.line, item.referencePosition.character)
+    const references = await this.referenceService.getReferences(item.uri, position)
+    item.referenceCount = references.length
+
+    const groups = await Promise.all(SymbolReferenceService.groupByFile(references).map(async (group) => {
+      let document: vscode.TextDocument | undefined
+      try {
+        document = await vscode.workspace.openTextDocument(group.uri)
+      }
+      catch (error) {
+        console.warn('[CCoding] 无法打开引用所在文件:', error)
+      }
+      return {
+        uri: group.uri.toString(),
+        file: vscode.workspace.asRelativePath(group.uri),
+        references: group.references.map(({ range }) => ({
+          line: range.start.line,
+          character: range.start.character,
+          preview: document && range.start.line < document.lineCount ? document.lineAt(range.start.line).text.trim() : '',
+        })),
+      }
+    }))
+
+    this._view?.webview.postMessage({ type: 'references', itemId, count: references.length, groups })
+  }
+
+  /**
+   * 填入已缓存的引用次数，未查询过的符号保持为空
+   */
+  private applyCachedReferenceCounts(items: UnifiedItem[]): void {
+    for (const item of items) {
+      if (item.referencePosition) {
+        const position = new vscode.Position(item.referencePosition.line, item.referencePosition.character)
+        item.referenceCount = this.referenceService.getCachedReferences(item.uri, position)?.length
+      }
+      if (item.children) {
+        this.applyCachedReferenceCounts(item.children)
+      }
+    }
+  }
+
   /**
    * 获取当前激活Tab的数据
    */
@@ -163,6 +230,14 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
       )
     }
 
+    if (this.activeTab === 'symbols') {
+      this.applyCachedReferenceCounts(currentItems)
+    }
+
+    if (this.activeTab === 'symbols' && this.sortBy === 'complexity') {
+      currentItems = this.sortByComplexity(currentItems)
+    }
+
     // 计算各Tab统计
     const stats = {
       symbols: this.symbolItems.length,
@@ -177,9 +252,19 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
       stats,
       activeTab: this.activeTab,
       searchQuery: this.searchQuery,
+      sortBy: this.sortBy,
     })
   }
 
+  /**
+   * 分组内按认知复杂度降序排列，分组本身保持原有顺序
+   */
+  private sortByComplexity(items: UnifiedItem[]): UnifiedItem[] {
+    return items
+      .map(item => item.children ? { ...item, children: this.sortByComplexity(item.children) } : item)
+      .sort((a, b) => (b.cognitiveComplexity ?? -1) - (a.cognitiveComplexity ?? -1))
+  }
+
   /**
    * 切换Tab
    */
@@ -280,6 +365,30 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             display: block;
         }
 
+        /* 排序切换 */
+        .sort-button {
+            padding: 4px 8px;
+            border: none;
+            border-left: 1px solid var(--vscode-input-border);
+            background: transparent;
+            color: var(--vscode-descriptionForeground);
+            cursor: pointer;
+            font-size: 12px;
+            white-space: nowrap;
+        }
+
+        .sort-button:hover {
+            color: var(--vscode-foreground);
+        }
+
+        .sort-button.active {
+            color: var(--vscode-textLink-foreground);
+        }
+
+        .sort-button.hidden {
+            display: none;
+        }
+
         /* Tab导航区域 */
         .tab-container {
             margin-bottom: 12px;
@@ -387,6 +496,12 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             margin-bottom: 1px;
         }
 
+        /* 样式大纲中嵌套的选择器 */
+        .item-children {
+            margin-left: 14px;
+            border-left: 1px dotted var(--vscode-widget-border);
+        }
+
         .item {
             display: flex;
             align-items: center;
@@ -443,6 +558,100 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             white-space: nowrap;
         }
 
+        /* React Hook 依赖问题徽标 */
+        .item-warning {
+            flex-shrink: 0;
+            margin-left: 6px;
+            padding: 0 4px;
+            border-radius: 8px;
+            font-size: 10px;
+            line-height: 16px;
+            color: var(--vscode-editorWarning-foreground);
+            border: 1px solid var(--vscode-editorWarning-foreground);
+        }
+
+        /* 复杂度列：显示认知复杂度 */
+        .item-complexity {
+            flex-shrink: 0;
+            min-width: 20px;
+            margin-left: 6px;
+            padding: 0 4px;
+            border-radius: 8px;
+            font-size: 10px;
+            line-height: 16px;
+            text-align: center;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .item-complexity.level-2 {
+            color: var(--vscode-editorWarning-foreground);
+        }
+
+        .item-complexity.level-3,
+        .item-complexity.level-4 {
+            color: var(--vscode-badge-foreground);
+            background-color: var(--vscode-editorError-foreground);
+            font-weight: 600;
+        }
+
+        /* 工作区引用：点击展开引用所在的文件和行 */
+        .item-references {
+            flex-shrink: 0;
+            margin-left: 6px;
+            padding: 0 4px;
+            border-radius: 8px;
+            font-size: 10px;
+            line-height: 16px;
+            color: var(--vscode-descriptionForeground);
+            cursor: pointer;
+            opacity: 0;
+        }
+
+        .item:hover .item-references,
+        .item-references.loaded,
+        .item-references.active {
+            opacity: 1;
+        }
+
+        .item-references:hover,
+        .item-references.active {
+            color: var(--vscode-textLink-foreground);
+        }
+
+        .reference-list {
+            margin: 0 0 4px 22px;
+            border-left: 1px dotted var(--vscode-widget-border);
+            padding-left: 6px;
+            font-size: 11px;
+        }
+
+        .reference-file {
+            padding: 2px 0;
+            color: var(--vscode-descriptionForeground);
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .reference-line {
+            display: flex;
+            gap: 6px;
+            padding: 2px 4px 2px 10px;
+            border-radius: 3px;
+            cursor: pointer;
+            white-space: nowrap;
+        }
+
+        .reference-line:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .reference-line .preview {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            color: var(--vscode-descriptionForeground);
+        }
+
         .item-actions {
             flex-shrink: 0;
             display: flex;
@@ -498,6 +707,7 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
         <div class="search-input-wrapper">
             <input type="text" class="search-input" id="searchInput" placeholder="搜索当前文件..." />
             <button class="search-clear" id="searchClear" title="清除搜索">✕</button>
+            <button class="sort-button" id="sortToggle" title="切换排序：按位置 / 按认知复杂度">⇅ 位置</button>
         </div>
     </div>
 
@@ -531,11 +741,15 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
         const searchInput = document.getElementById('searchInput');
         const searchClear = document.getElementById('searchClear');
         const itemsContainer = document.getElementById('itemsContainer');
+        const sortToggle = document.getElementById('sortToggle');
 
         // 状态
         let searchTimeout = null;
         let currentItems = [];
         let activeTab = 'symbols';
+        let sortBy = 'position';
+        // 已展开引用的符号：itemId -> 引用数据，查询中为 null
+        const expandedReferences = new Map();
 
         // Tab切换
         document.querySelectorAll('.tab-button').forEach(button => {
@@ -590,6 +804,16 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             });
         });
 
+        // 排序切换（仅符号Tab）
+        sortToggle.addEventListener('click', () => {
+            sortBy = sortBy === 'complexity' ? 'position' : 'complexity';
+            updateSortToggle();
+            vscode.postMessage({
+                type: 'sortChanged',
+                sortBy: sortBy
+            });
+        });
+
         // 处理扩展消息
         window.addEventListener('message', event => {
             const message = event.data;
@@ -598,9 +822,23 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
                     updateStatsDisplay(message.stats);
                     updateItemsList(message.items);
                     activeTab = message.activeTab;
+                    sortBy = message.sortBy || 'position';
                     updateActiveTab();
+                    updateSortToggle();
                     currentItems = message.items;
+                    reloadExpandedReferences();
                     break;
+                case 'references': {
+                    if (expandedReferences.has(message.itemId)) {
+                        expandedReferences.set(message.itemId, message);
+                    }
+                    const target = findItem(currentItems, message.itemId);
+                    if (target) {
+                        target.referenceCount = message.count;
+                    }
+                    updateItemsList(currentItems);
+                    break;
+                }
                 case 'clearSearch':
                     searchInput.value = '';
                     searchClear.classList.remove('show');
@@ -611,6 +849,36 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             }
         });
 
+        // 数据刷新后重新查询仍然存在的已展开符号，其余收起
+        function reloadExpandedReferences() {
+            for (const itemId of [...expandedReferences.keys()]) {
+                if (findItem(currentItems, itemId)) {
+                    vscode.postMessage({ type: 'loadReferences', itemId });
+                } else {
+                    expandedReferences.delete(itemId);
+                }
+            }
+        }
+
+        function findItem(items, itemId) {
+            for (const item of items || []) {
+                if (item.id === itemId) return item;
+                const found = findItem(item.children, itemId);
+                if (found) return found;
+            }
+            return undefined;
+        }
+
+        function toggleReferences(itemId) {
+            if (expandedReferences.has(itemId)) {
+                expandedReferences.delete(itemId);
+            } else {
+                expandedReferences.set(itemId, null);
+                vscode.postMessage({ type: 'loadReferences', itemId });
+            }
+            updateItemsList(currentItems);
+        }
+
         // 更新统计显示
         function updateStatsDisplay(stats) {
             document.getElementById('countSymbols').textContent = stats.symbols || 0;
@@ -630,6 +898,13 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             }
         }
 
+        // 更新排序按钮
+        function updateSortToggle() {
+            sortToggle.textContent = sortBy === 'complexity' ? '⇅ 复杂度' : '⇅ 位置';
+            sortToggle.classList.toggle('active', sortBy === 'complexity');
+            sortToggle.classList.toggle('hidden', activeTab !== 'symbols');
+        }
+
         // 更新项目列表
         function updateItemsList(items) {
             if (!items || items.length === 0) {
@@ -674,7 +949,7 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             if (!itemEl.classList.contains('group-item')) {
               const itemId = itemEl.getAttribute('data-item-id')
               itemEl.addEventListener('click', (e) => {
-                if (e.target.classList.contains('action-button'))
+                if (e.target.classList.contains('action-button') || e.target.classList.contains('item-references'))
                   return
                 e.stopPropagation() // 防止事件冒泡到父元素
                 vscode.postMessage({
@@ -695,6 +970,25 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
               }
             }
           })
+
+          itemsContainer.querySelectorAll('.item-references').forEach((badge) => {
+            badge.addEventListener('click', (e) => {
+              e.stopPropagation()
+              toggleReferences(badge.getAttribute('data-references-for'))
+            })
+          })
+
+          itemsContainer.querySelectorAll('.reference-line').forEach((lineEl) => {
+            lineEl.addEventListener('click', (e) => {
+              e.stopPropagation()
+              const data = expandedReferences.get(lineEl.getAttribute('data-reference-item'))
+              const group = data && data.groups[Number(lineEl.getAttribute('data-group'))]
+              const reference = group && group.references[Number(lineEl.getAttribute('data-index'))]
+              if (reference) {
+                vscode.postMessage({ type: 'openReference', uri: group.uri, line: reference.line, character: reference.character })
+              }
+            })
+          })
         }
 
         // 切换分组展开/折叠状态
@@ -741,17 +1035,70 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
                             \${getItemDescription(item)}
                         </div>
                     </div>
+                    \${getWarningHtml(item)}
+                    \${getComplexityHtml(item)}
+                    \${getReferencesBadgeHtml(item)}
                     <div class="item-actions">
                         \${pinButton}
                     </div>
                 </div>
+                \${getReferenceListHtml(item)}
+                \${getNestedChildrenHtml(item)}
             \`;
         }
 
+        // 引用徽标，未查询时只显示图标
+        function getReferencesBadgeHtml(item) {
+            if (!item.referencePosition) {
+                return '';
+            }
+            const loaded = item.referenceCount !== undefined && item.referenceCount !== null;
+            const classes = ['item-references'];
+            if (loaded) classes.push('loaded');
+            if (expandedReferences.has(item.id)) classes.push('active');
+            const title = loaded ? \`被引用 \${item.referenceCount} 次，点击查看\` : '查找工作区中的引用';
+            return \`<span class="\${classes.join(' ')}" data-references-for="\${item.id}" title="\${title}">🔗\${loaded ? ' ' + item.referenceCount : ''}</span>\`;
+        }
+
+        // 展开的引用列表：按文件分组，每行显示行号和代码
+        function getReferenceListHtml(item) {
+            if (!expandedReferences.has(item.id)) {
+                return '';
+            }
+            const data = expandedReferences.get(item.id);
+            if (!data) {
+                return '<div class="reference-list"><div class="reference-file">正在查找引用...</div></div>';
+            }
+            if (data.groups.length === 0) {
+                return '<div class="reference-list"><div class="reference-file">未找到引用</div></div>';
+            }
+            const groupsHtml = data.groups.map((group, groupIndex) => \`
+                <div class="reference-file" title="\${escapeHtml(group.file)}">📄 \${escapeHtml(group.file)} · \${group.references.length} 处</div>
+                \${group.references.map((reference, index) => \`
+                    <div class="reference-line" data-reference-item="\${item.id}" data-group="\${groupIndex}" data-index="\${index}">
+                        <span>L:\${reference.line + 1}</span>
+                        <span class="preview">\${escapeHtml(reference.preview)}</span>
+                    </div>
+                \`).join('')}
+            \`).join('');
+            return \`<div class="reference-list">\${groupsHtml}</div>\`;
+        }
+
+        // 普通项目的子项（样式大纲的嵌套规则）
+        function getNestedChildrenHtml(item) {
+            if (!item.children || item.children.length === 0) {
+                return '';
+            }
+            return \`<div class="item-children">\${item.children.map(child => createItemHtml(child)).join('')}</div>\`;
+        }
+
         // 获取项目描述
         function getItemDescription(item) {
             let desc = '';
-            if (item.chineseType) {
+            // 嵌套选择器显示展开后的完整选择器
+            if (item.styleKind && item.description) {
+                desc = item.description;
+            } else if (item.chineseType) {
                 desc = item.chineseType;
             } else if (item.description) {
                 desc = item.description;
@@ -766,6 +1113,24 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
             return desc;
         }
 
+        // 获取 Hook 依赖问题徽标
+        function getWarningHtml(item) {
+            if (!item.hookWarnings || item.hookWarnings.length === 0) {
+                return '';
+            }
+            const title = escapeHtml(item.hookWarnings.join('\\n')).replace(/"/g, '&quot;');
+            return \`<span class="item-warning" title="\${title}">⚠ \${item.hookWarnings.length}</span>\`;
+        }
+
+        // 获取复杂度列，非函数符号不显示
+        function getComplexityHtml(item) {
+            if (item.cognitiveComplexity === undefined) {
+                return '';
+            }
+            const title = \`圈复杂度 \${item.cyclomaticComplexity} · 认知复杂度 \${item.cognitiveComplexity}\`;
+            return \`<span class="item-complexity level-\${item.complexityLevel || 1}" title="\${title}">\${item.cognitiveComplexity}</span>\`;
+        }
+
         // 创建分组HTML
         function createGroupHtml(group) {
           const groupId = group.id
@@ -808,6 +1173,13 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
                 '🪝 React Hooks': '🪝',
                 '⚡ 事件处理': '⚡',
                 '📋 组件属性': '📋',
+                '💲 响应式语句': '💲',
+                '🗃️ Stores': '🗃️',
+                '🅰️ Angular组件': '🅰️',
+                '📥 输入属性': '📥',
+                '📤 输出事件': '📤',
+                '💉 注入服务': '💉',
+                '🖌️ 样式大纲': '🖌️',
             };
             return iconMap[groupName] || '📁';
         }
@@ -843,9 +1215,28 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
 
             switch (item.type) {
                 case 'symbol':
+                    if (item.styleKind) {
+                        const styleIconMap = {
+                            'rule': '#',
+                            'media': '📱',
+                            'keyframes': '🎞️',
+                            'fontFace': '🔤',
+                            'mixin': '🧩',
+                            'function': 'ƒ',
+                            'variable': '🔣',
+                            'atRule': '@'
+                        };
+                        return styleIconMap[item.styleKind] || '#';
+                    }
+                    if (item.chineseType === '样式块') return '🖌️';
                     if (item.chineseType) {
                         if (item.chineseType.includes('计算属性')) return '⚙️';
+                        if (item.chineseType.includes('响应式语句')) return '💲';
                         if (item.chineseType.includes('响应式')) return '📦';
+                        if (item.chineseType === 'Store') return '🗃️';
+                        if (item.chineseType === '输入属性') return '📥';
+                        if (item.chineseType === '输出事件') return '📤';
+                        if (item.chineseType === '注入服务') return '💉';
                         if (item.chineseType.includes('方法') || item.chineseType.includes('函数')) return '⚡';
                     }
                     if (item.symbolKind === 12) return '⚡'; // Function
@@ -863,7 +1254,7 @@ export class CurrentFileNavProvider implements vscode.WebviewViewProvider {
                         'BUG': '🐛',
                         'HACK': '🔧'
                     };
-                    return todoMap[item.todoType || 'TODO'] || '✅';
+                    return item.todoEmoji || todoMap[item.todoType || 'TODO'] || '✅';
                 default:
                     return '○';
             }
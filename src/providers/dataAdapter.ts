@@ -1,8 +1,18 @@
+import type { StyleSymbol } from '../parsers/styleParser.js'
+import type { SvelteReactive } from '../parsers/svelteParser.js'
+import type { FunctionComplexity } from '../services/complexityAnalyzer.js'
+import type { ReactHookIssue } from '../services/reactHookDiagnostics.js'
 import type { BookmarkProvider } from './bookmarkProvider.js'
 import type { FunctionListProvider } from './functionListProvider.js'
 import type { TodoProvider } from './todoProvider.js'
 import type { UnifiedItem } from './unifiedListProvider.js'
 import * as vscode from 'vscode'
+import { AngularParser } from '../parsers/angularParser.js'
+import { StyleParser } from '../parsers/styleParser.js'
+import { SvelteParser } from '../parsers/svelteParser.js'
+import { ComplexityAnalyzer } from '../services/complexityAnalyzer.js'
+import { ReactHookDiagnostics } from '../services/reactHookDiagnostics.js'
+import { TodoScanner } from '../services/todoScanner.js'
 
 // 精确的序列化书签类型（存储在 globalState 中）
 interface SerializedRange {
@@ -19,9 +29,46 @@ interface SerializedBookmark {
   description?: string
 }
 
+const STYLE_GROUP_NAME = '🖌️ 样式大纲'
+
+const STYLE_KIND_LABELS: Record<StyleSymbol['kind'], string> = {
+  rule: '选择器',
+  media: '媒体查询',
+  keyframes: '关键帧动画',
+  fontFace: '字体',
+  mixin: 'Mixin',
+  function: 'Sass 函数',
+  variable: '变量',
+  atRule: 'At 规则',
+}
+
+const STYLE_KIND_ICONS: Record<StyleSymbol['kind'], string> = {
+  rule: 'symbol-class',
+  media: 'device-mobile',
+  keyframes: 'play',
+  fontFace: 'symbol-text',
+  mixin: 'symbol-snippet',
+  function: 'symbol-function',
+  variable: 'symbol-variable',
+  atRule: 'symbol-key',
+}
+
+// 可以在当前文件导航中查询工作区引用的符号类型
+const REFERENCEABLE_KINDS = new Set([
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Enum,
+  vscode.SymbolKind.Variable,
+  vscode.SymbolKind.Constant,
+  vscode.SymbolKind.Property,
+  vscode.SymbolKind.Field,
+])
+
 interface ScannedTodo {
   id: string
-  type: 'TODO' | 'FIXME' | 'NOTE' | 'BUG' | 'HACK'
+  type: string
   text: string
   uri: vscode.Uri
   range: vscode.Range
@@ -32,6 +79,13 @@ interface ScannedTodo {
  * 数据适配器 - 将现有Provider的数据转换为统一格式
  */
 export class DataAdapter {
+  // Svelte / Angular 解析器识别出的符号类型，符号名 -> 中文类型
+  private frameworkSymbolTypes = new Map<string, string>()
+  // 当前文档各函数的圈复杂度/认知复杂度
+  private functionComplexities: FunctionComplexity[] = []
+  // 当前文档的 React Hook 依赖数组问题
+  private hookIssues: ReactHookIssue[] = []
+
   constructor(
     private functionProvider: FunctionListProvider,
     private bookmarkProvider: BookmarkProvider,
@@ -52,14 +106,30 @@ export class DataAdapter {
 
     console.log(`[DataAdapter] 活动编辑器文件: ${editor.document.fileName}`)
     const document = editor.document
-    const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+    const styleGroups = this.createStyleGroups(document)
+
+    // 样式文件只显示解析出的样式大纲，内置 CSS 符号没有层级
+    if (StyleParser.isStyleFile(document.fileName)) {
+      return styleGroups
+    }
+
+    let symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
       'vscode.executeDocumentSymbolProvider',
       document.uri,
     )
 
+    this.frameworkSymbolTypes = this.parseFrameworkSymbolTypes(document)
+    this.functionComplexities = ComplexityAnalyzer.analyzeDocument(document)
+    this.hookIssues = ReactHookDiagnostics.isEnabled() ? ReactHookDiagnostics.collectIssues(document) : []
+
+    // 未安装 Svelte 扩展时 VSCode 识别不到符号，改用解析器生成
+    if ((!symbols || symbols.length === 0) && this.detectFrameworkType(document) === 'svelte') {
+      symbols = this.createSvelteSymbols(document)
+    }
+
     if (!symbols || symbols.length === 0) {
       console.log('[DataAdapter] 没有找到符号')
-      return []
+      return styleGroups
     }
 
     console.log(`[DataAdapter] 找到${symbols.length}个符号`)
@@ -71,7 +141,108 @@ export class DataAdapter {
     const groupedSymbols = this.groupSymbolsByType(enhancedSymbols, document)
 
     console.log(`[DataAdapter] 分组后得到${groupedSymbols.length}个分组`)
-    return groupedSymbols
+    return [...groupedSymbols, ...styleGroups]
+  }
+
+  /**
+   * 样式大纲分组：独立样式文件或 <style> 块中的规则、媒体查询、关键帧动画和变量，保留嵌套层级
+   * 多个 <style> 块时每个块单独作为一层
+   */
+  private createStyleGroups(document: vscode.TextDocument): UnifiedItem[] {
+    let parsed: ReturnType<typeof StyleParser.parseDocument>
+    try {
+      parsed = StyleParser.parseDocument(document).filter(item => item.symbols.length > 0)
+    }
+    catch (error) {
+      console.warn('[DataAdapter] 样式解析失败:', error)
+      return []
+    }
+
+    if (parsed.length === 0) {
+      return []
+    }
+
+    const children = parsed.length === 1
+      ? parsed[0].symbols.map(symbol => this.styleSymbolToUnifiedItem(symbol, document))
+      : parsed.map(({ block, symbols }) => {
+          const range = block.range || new vscode.Range(0, 0, 0, 0)
+          const attrs = [block.scoped && 'scoped', block.module && 'module', block.lang !== 'css' && `lang="${block.lang}"`].filter(Boolean)
+          return {
+            ...this.createItemBase(`style-${document.uri.toString()}-${range.start.line}`, `<style${attrs.map(attr => ` ${attr}`).join('')}>`, range, document),
+            chineseType: '样式块',
+            children: symbols.map(symbol => this.styleSymbolToUnifiedItem(symbol, document)),
+          }
+        })
+
+    const count = (symbols: StyleSymbol[]): number => symbols.reduce((total, symbol) => total + 1 + count(symbol.children), 0)
+    const total = parsed.reduce((sum, { symbols }) => sum + count(symbols), 0)
+    return [{
+      ...this.createItemBase(`group-${STYLE_GROUP_NAME.replace(/[^\u4E00-\u9FA5a-z]/gi, '')}`, `${STYLE_GROUP_NAME} (${total})`, new vscode.Range(0, 0, 0, 0), document),
+      type: 'group',
+      description: `${total} 个项目`,
+      icon: this.getGroupIcon(STYLE_GROUP_NAME),
+      iconColor: this.getGroupColor(STYLE_GROUP_NAME),
+      isGroup: true,
+      groupName: STYLE_GROUP_NAME,
+      children,
+      isExpanded: true,
+    }]
+  }
+
+  private styleSymbolToUnifiedItem(symbol: StyleSymbol, document: vscode.TextDocument): UnifiedItem {
+    const { start } = symbol.selectionRange
+    const nested = symbol.selector !== undefined && symbol.selector !== symbol.name
+    return {
+      ...this.createItemBase(`style-${document.uri.toString()}-${start.line}-${start.character}`, symbol.name, symbol.range, document),
+      // 嵌套规则显示展开后的完整选择器
+      description: nested ? symbol.selector : undefined,
+      icon: STYLE_KIND_ICONS[symbol.kind],
+      symbolKind: symbol.kind === 'variable' ? vscode.SymbolKind.Variable : vscode.SymbolKind.Class,
+      chineseType: this.getStyleKindLabel(symbol),
+      styleKind: symbol.kind,
+      children: symbol.children.length > 0
+        ? symbol.children.map(child => this.styleSymbolToUnifiedItem(child, document))
+        : undefined,
+    }
+  }
+
+  private getStyleKindLabel(symbol: StyleSymbol): string {
+    if (symbol.kind === 'variable') {
+      if (symbol.name.startsWith('--'))
+        return 'CSS 变量'
+      return symbol.name.startsWith('$') ? 'SCSS 变量' : 'Less 变量'
+    }
+    return STYLE_KIND_LABELS[symbol.kind]
+  }
+
+  /**
+   * 样式大纲项的公共字段
+   */
+  private createItemBase(id: string, label: string, range: vscode.Range, document: vscode.TextDocument): UnifiedItem {
+    return {
+      id,
+      type: 'symbol',
+      label,
+      location: {
+        file: this.getRelativePath(document.uri),
+        line: range.start.line,
+        character: range.start.character,
+      },
+      icon: 'symbol-misc',
+      isPinned: false,
+      timestamp: Date.now(),
+      uri: document.uri,
+      range,
+
+      // WebView 序列化友好字段
+      uriString: document.uri.toString(),
+      simpleRange: {
+        startLine: range.start.line,
+        startCharacter: range.start.character,
+        endLine: range.end.line,
+        endCharacter: range.end.character,
+      },
+    }
   }
 
   /**
@@ -161,6 +332,7 @@ export class DataAdapter {
           endCharacter: todo.range.end.character,
         },
         todoType: todo.type,
+        todoEmoji: TodoScanner.getInstance().getTag(todo.type).emoji,
       }))
 
       console.log(`[DataAdapter] 转换后得到${result.length}个TODO项`)
@@ -254,9 +426,10 @@ export class DataAdapter {
   /**
    * 将VSCode符号转换为UnifiedItem
    */
-  private symbolToUnifiedItem(symbol: vscode.DocumentSymbol, document: vscode.TextDocument, frameworkType: 'react' | 'vue' | 'general'): UnifiedItem {
+  private symbolToUnifiedItem(symbol: vscode.DocumentSymbol, document: vscode.TextDocument, frameworkType: 'react' | 'vue' | 'svelte' | 'angular' | 'general'): UnifiedItem {
     const signature = this.extractSignature(symbol, document)
     const chineseType = this.getChineseSymbolType(symbol, signature, frameworkType)
+    const metrics = ComplexityAnalyzer.findFunction(this.functionComplexities, symbol.range)
 
     return {
       id: `symbol-${document.uri.toString()}-${symbol.range.start.line}-${symbol.range.start.character}`,
@@ -286,20 +459,45 @@ export class DataAdapter {
       symbolKind: symbol.kind,
       chineseType,
       frameworkType,
+      cyclomaticComplexity: metrics?.cyclomatic,
+      cognitiveComplexity: metrics?.cognitive,
+      complexityLevel: metrics && ComplexityAnalyzer.getLevel(metrics.cognitive),
+      hookWarnings: this.getHookWarnings(symbol),
+      referencePosition: REFERENCEABLE_KINDS.has(symbol.kind)
+        ? { line: symbol.selectionRange.start.line, character: symbol.selectionRange.start.character }
+        : undefined,
     }
   }
 
+  /**
+   * 符号对应 Hook 的依赖数组问题
+   * 赋值给变量的 Hook（useMemo / useCallback）标记在变量上，useEffect 等没有符号的标记在所属组件上
+   */
+  private getHookWarnings(symbol: vscode.DocumentSymbol): string[] | undefined {
+    const line = symbol.range.start.line
+    const warnings = this.hookIssues
+      .filter(issue => issue.hook.bindings.length > 0
+        ? issue.hook.range.start.line === line
+        : issue.ownerRange.start.line === line)
+      .map(issue => issue.message)
+    return warnings.length > 0 ? warnings : undefined
+  }
+
   /**
    * 检测框架类型
    */
-  private detectFrameworkType(document: vscode.TextDocument): 'react' | 'vue' | 'general' {
+  private detectFrameworkType(document: vscode.TextDocument): 'react' | 'vue' | 'svelte' | 'angular' | 'general' {
     const fileName = document.fileName.toLowerCase()
     if (fileName.endsWith('.vue'))
       return 'vue'
+    if (fileName.endsWith('.svelte'))
+      return 'svelte'
     if (fileName.endsWith('.jsx') || fileName.endsWith('.tsx'))
       return 'react'
 
     const content = document.getText()
+    if (content.includes('@angular/core'))
+      return 'angular'
     if (content.includes('import React') || content.includes('from \'react\''))
       return 'react'
     if (content.includes('<template>') || content.includes('Vue.'))
@@ -308,10 +506,91 @@ export class DataAdapter {
     return 'general'
   }
 
+  /**
+   * 解析 Svelte 组件或 Angular 类，得到符号名到中文类型的映射
+   */
+  private parseFrameworkSymbolTypes(document: vscode.TextDocument): Map<string, string> {
+    const types = new Map<string, string>()
+    const frameworkType = this.detectFrameworkType(document)
+
+    try {
+      if (frameworkType === 'svelte') {
+        const component = SvelteParser.parseSvelteFile(document)
+        if (!component)
+          return types
+
+        component.props.forEach(prop => types.set(prop.name, '组件属性'))
+        component.events.forEach(event => types.set(event.name, '组件事件'))
+        component.state.forEach(state => types.set(state.name, state.kind.startsWith('$derived') ? '计算属性' : '响应式数据'))
+        component.reactive.forEach((reactive) => {
+          types.set(this.getSvelteReactiveLabel(reactive), '响应式语句')
+          if (reactive.name)
+            types.set(reactive.name, '响应式语句')
+        })
+        component.stores.forEach(store => types.set(store.name, 'Store'))
+        component.functions.forEach(fn => types.set(fn.name, '函数'))
+        component.lifecycle.forEach(lifecycle => types.set(lifecycle.name, '生命周期'))
+      }
+      else if (frameworkType === 'angular') {
+        const classTypes: Record<string, string> = {
+          Component: '组件',
+          Directive: '指令',
+          Pipe: '管道',
+          Injectable: '服务',
+          NgModule: 'Angular模块',
+        }
+        for (const angularClass of AngularParser.parseAngularFile(document)?.classes || []) {
+          types.set(angularClass.name, classTypes[angularClass.kind])
+          angularClass.inputs.forEach(input => types.set(input.name, '输入属性'))
+          angularClass.outputs.forEach(output => types.set(output.name, '输出事件'))
+          angularClass.injections.forEach(injection => types.set(injection.name, '注入服务'))
+          angularClass.lifecycle.forEach(lifecycle => types.set(lifecycle.name, '生命周期'))
+          angularClass.methods.forEach(method => types.set(method.name, '方法'))
+        }
+      }
+    }
+    catch (error) {
+      console.warn('[DataAdapter] 框架解析失败:', error)
+    }
+
+    return types
+  }
+
+  /**
+   * 根据 Svelte 解析结果生成文档符号
+   */
+  private createSvelteSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const component = SvelteParser.parseSvelteFile(document)
+    if (!component)
+      return []
+
+    const createSymbol = (name: string, kind: vscode.SymbolKind, range: vscode.Range): vscode.DocumentSymbol =>
+      new vscode.DocumentSymbol(name, '', kind, range, range)
+
+    return [
+      ...component.props.map(prop => createSymbol(prop.name, vscode.SymbolKind.Property, prop.range)),
+      ...component.events.map(event => createSymbol(event.name, vscode.SymbolKind.Event, event.range)),
+      ...component.state.map(state => createSymbol(state.name, vscode.SymbolKind.Variable, state.range)),
+      ...component.reactive.map(reactive => createSymbol(this.getSvelteReactiveLabel(reactive), vscode.SymbolKind.Variable, reactive.range)),
+      ...component.stores.map(store => createSymbol(store.name, vscode.SymbolKind.Variable, store.range)),
+      ...component.functions.map(fn => createSymbol(fn.name, vscode.SymbolKind.Function, fn.range)),
+      ...component.lifecycle.map(lifecycle => createSymbol(lifecycle.name, vscode.SymbolKind.Method, lifecycle.range)),
+    ]
+  }
+
+  private getSvelteReactiveLabel(reactive: SvelteReactive): string {
+    return reactive.name ? `$: ${reactive.name}` : `$: ${reactive.expression}`
+  }
+
   /**
    * 获取中文符号类型
    */
-  private getChineseSymbolType(symbol: vscode.DocumentSymbol, signature: string, frameworkType: 'react' | 'vue' | 'general'): string {
+  private getChineseSymbolType(symbol: vscode.DocumentSymbol, signature: string, frameworkType: 'react' | 'vue' | 'svelte' | 'angular' | 'general'): string {
+    // Svelte / Angular 优先使用解析器识别的类型
+    if ((frameworkType === 'svelte' || frameworkType === 'angular') && this.frameworkSymbolTypes.has(symbol.name)) {
+      return this.frameworkSymbolTypes.get(symbol.name)!
+    }
+
     // Vue特殊处理
     if (frameworkType === 'vue') {
       // 检查 Vue 模板结构标签
@@ -458,7 +737,7 @@ export class DataAdapter {
   /**
    * 判断是否应该过滤此符号（避免重复显示）
    */
-  private shouldFilterSymbol(symbol: vscode.DocumentSymbol, frameworkType: 'react' | 'vue' | 'general'): boolean {
+  private shouldFilterSymbol(symbol: vscode.DocumentSymbol, frameworkType: 'react' | 'vue' | 'svelte' | 'angular' | 'general'): boolean {
     // 1. Vue 特殊处理
     if (frameworkType === 'vue') {
       // 保留 Vue 结构标签，但过滤掉普通 HTML 标签
@@ -657,6 +936,8 @@ export class DataAdapter {
     const frameworkType = this.detectFrameworkType(document)
     const isReact = frameworkType === 'react'
     const isVue = frameworkType === 'vue'
+    const isSvelte = frameworkType === 'svelte'
+    const isAngular = frameworkType === 'angular'
 
     // 在分组前进行最终去重检查
     const filteredSymbols = this.performFinalDuplicateCheck(symbols, frameworkType)
@@ -691,6 +972,27 @@ export class DataAdapter {
       groups['🔧 Setup函数'] = []
     }
 
+    // Svelte特定分组
+    if (isSvelte) {
+      groups['📨 组件属性'] = []
+      groups['📦 响应式数据'] = []
+      groups['⚙️ 计算属性'] = []
+      groups['💲 响应式语句'] = []
+      groups['🗃️ Stores'] = []
+      groups['⚡ 方法函数'] = []
+      groups['🔄 生命周期'] = []
+    }
+
+    // Angular特定分组
+    if (isAngular) {
+      groups['🅰️ Angular组件'] = []
+      groups['📥 输入属性'] = []
+      groups['📤 输出事件'] = []
+      groups['💉 注入服务'] = []
+      groups['🔄 生命周期'] = []
+      groups['⚡ 方法函数'] = []
+    }
+
     // 分组符号
     filteredSymbols.forEach((symbol) => {
       this.assignSymbolToGroup(symbol, groups, frameworkType)
@@ -750,7 +1052,7 @@ export class DataAdapter {
   /**
    * 将符号分配到对应分组
    */
-  private assignSymbolToGroup(symbol: UnifiedItem, groups: Record<string, UnifiedItem[]>, frameworkType: 'react' | 'vue' | 'general'): void {
+  private assignSymbolToGroup(symbol: UnifiedItem, groups: Record<string, UnifiedItem[]>, frameworkType: 'react' | 'vue' | 'svelte' | 'angular' | 'general'): void {
     // Vue特定分组逻辑
     if (frameworkType === 'vue') {
       // Vue 模板结构标签
@@ -784,12 +1086,48 @@ export class DataAdapter {
         this.assignToGeneralGroup(symbol, groups)
       }
     }
+    // Svelte / Angular 按解析器识别的类型分组
+    else if (frameworkType === 'svelte' || frameworkType === 'angular') {
+      const groupName = this.getComponentGroupName(symbol.chineseType)
+      if (groupName && groups[groupName]) {
+        groups[groupName].push(symbol)
+      }
+      else {
+        this.assignToGeneralGroup(symbol, groups)
+      }
+    }
     // 通用分组
     else {
       this.assignToGeneralGroup(symbol, groups)
     }
   }
 
+  /**
+   * Svelte / Angular 符号的中文类型对应的分组
+   */
+  private getComponentGroupName(chineseType?: string): string | undefined {
+    const groupMap: Record<string, string> = {
+      组件属性: '📨 组件属性',
+      组件事件: '📨 组件属性',
+      响应式数据: '📦 响应式数据',
+      计算属性: '⚙️ 计算属性',
+      响应式语句: '💲 响应式语句',
+      Store: '🗃️ Stores',
+      函数: '⚡ 方法函数',
+      方法: '⚡ 方法函数',
+      生命周期: '🔄 生命周期',
+      组件: '🅰️ Angular组件',
+      指令: '🅰️ Angular组件',
+      管道: '🅰️ Angular组件',
+      服务: '🅰️ Angular组件',
+      Angular模块: '🅰️ Angular组件',
+      输入属性: '📥 输入属性',
+      输出事件: '📤 输出事件',
+      注入服务: '💉 注入服务',
+    }
+    return chineseType ? groupMap[chineseType] : undefined
+  }
+
   /**
    * 分配到通用分组
    */
@@ -815,7 +1153,7 @@ export class DataAdapter {
   /**
    * 执行最终去重检查（基于名称和行号）
    */
-  private performFinalDuplicateCheck(symbols: UnifiedItem[], frameworkType: 'react' | 'vue' | 'general'): UnifiedItem[] {
+  private performFinalDuplicateCheck(symbols: UnifiedItem[], frameworkType: 'react' | 'vue' | 'svelte' | 'angular' | 'general'): UnifiedItem[] {
     const seen = new Map<string, UnifiedItem>()
     const result: UnifiedItem[] = []
 
@@ -851,7 +1189,7 @@ export class DataAdapter {
   /**
    * 判断是否应该用新符号替换现有符号
    */
-  private shouldReplaceSymbol(existing: UnifiedItem, newSymbol: UnifiedItem, frameworkType: 'react' | 'vue' | 'general'): boolean {
+  private shouldReplaceSymbol(existing: UnifiedItem, newSymbol: UnifiedItem, frameworkType: 'react' | 'vue' | 'svelte' | 'angular' | 'general'): boolean {
     // 1. 优先保留有中文类型描述的符号
     if (existing.chineseType && !newSymbol.chineseType) {
       return false // 保留现有的
@@ -913,6 +1251,13 @@ export class DataAdapter {
       '🪝 React Hooks': 'symbol-event',
       '⚡ 事件处理': 'zap',
       '📋 组件属性': 'symbol-parameter',
+      '💲 响应式语句': 'symbol-operator',
+      '🗃️ Stores': 'database',
+      '🅰️ Angular组件': 'symbol-class',
+      '📥 输入属性': 'arrow-down',
+      '📤 输出事件': 'arrow-up',
+      '💉 注入服务': 'plug',
+      '🖌️ 样式大纲': 'symbol-color',
     }
     return iconMap[groupName] || 'folder'
   }
@@ -924,39 +1269,23 @@ export class DataAdapter {
     if (groupName.includes('Vue') || groupName.includes('响应式') || groupName.includes('计算属性') || groupName.includes('方法函数')) {
       return 'charts.green'
     }
-    if (groupName.includes('React') || groupName.includes('Hook') || groupName.includes('事件')) {
+    if (groupName.includes('React') || groupName.includes('Hook') || groupName.includes('事件处理')) {
       return 'charts.blue'
     }
+    if (groupName.includes('响应式语句') || groupName.includes('Stores')) {
+      return 'charts.orange'
+    }
+    if (groupName.includes('Angular') || groupName.includes('输入属性') || groupName.includes('输出事件') || groupName.includes('注入服务')) {
+      return 'charts.red'
+    }
     return 'foreground'
   }
 
   /**
    * 从BookmarkProvider获取书签数据
-   * 这是一个临时方法，理想情况下BookmarkProvider应该暴露这个方法
    */
   private async getBookmarksFromProvider(): Promise<SerializedBookmark[]> {
-    // 通过扩展上下文从全局状态读取序列化的书签数据
-    const saved = this.context.globalState.get<SerializedBookmark[]>('CCoding.bookmarks', [])
-    return Array.isArray(saved) ? saved.filter(b => this.isValidSerializedBookmark(b)) : []
-  }
-
-  /**
-   * 校验序列化书签的基本结构
-   */
-  private isValidSerializedBookmark(b: unknown): b is SerializedBookmark {
-    if (!b || typeof b !== 'object')
-      return false
-    const obj = b as Record<string, unknown>
-    if (!obj.id || !obj.label || !obj.uri || !obj.range)
-      return false
-    const r = obj.range as unknown
-    if (r instanceof vscode.Range)
-      return true
-    if (!r || typeof r !== 'object')
-      return false
-    const rr = r as { start?: { line?: unknown, character?: unknown }, end?: { line?: unknown, character?: unknown } }
-    return !!(rr.start && typeof rr.start.line === 'number' && typeof rr.start.character === 'number'
-      && rr.end && typeof rr.end.line === 'number' && typeof rr.end.character === 'number')
+    return this.bookmarkProvider.getBookmarks()
   }
 
   /**
@@ -982,42 +1311,16 @@ export class DataAdapter {
    * 扫描文档中的TODO项目
    */
   private scanTodosInDocument(document: vscode.TextDocument): ScannedTodo[] {
-    const todos: ScannedTodo[] = []
     console.log(`[DataAdapter] 扫描TODO，文档行数: ${document.lineCount}`)
 
-    // 支持多种TODO格式：中英文冒号、可选冒号、数字前缀等
-    const todoRegex = /(?:\/\/\s*|\/\*\s*|#\s*)?(TODO|FIXME|NOTE|BUG|HACK)(?:\s*[:：]\s*(?:\d+\.\s*)?)?(.+)/gi
-
-    for (let i = 0; i < document.lineCount; i++) {
-      const line = document.lineAt(i)
-      const lineText = line.text.trim()
-
-      // 跳过空行
-      if (!lineText)
-        continue
-
-      const matches = [...lineText.matchAll(todoRegex)]
-
-      for (const match of matches) {
-        const [fullMatch, type, text] = match
-        const startPos = line.text.indexOf(fullMatch)
-
-        const todoItem: ScannedTodo = {
-          id: `${document.uri.toString()}-${i}-${startPos}`,
-          type: type.toUpperCase() as ScannedTodo['type'],
-          text: text.trim(),
-          uri: document.uri,
-          range: new vscode.Range(
-            new vscode.Position(i, startPos),
-            new vscode.Position(i, startPos + fullMatch.length),
-          ),
-          timestamp: Date.now(),
-        }
-
-        todos.push(todoItem)
-        console.log(`[DataAdapter] 找到TODO: ${type} - ${text.trim()} (第${i + 1}行)`)
-      }
-    }
+    const todos = TodoScanner.getInstance().scanDocument(document).map((match): ScannedTodo => ({
+      id: `${document.uri.toString()}-${match.line}-${match.range.start.character}`,
+      type: match.type,
+      text: match.text,
+      uri: document.uri,
+      range: match.range,
+      timestamp: Date.now(),
+    }))
 
     console.log(`[DataAdapter] 扫描完成，找到${todos.length}个TODO项`)
     return todos
@@ -1046,28 +1349,14 @@ export class DataAdapter {
    * 获取TODO图标
    */
   private getTodoIcon(type: string): string {
-    const iconMap: Record<string, string> = {
-      TODO: 'check',
-      FIXME: 'warning',
-      NOTE: 'note',
-      BUG: 'bug',
-      HACK: 'tools',
-    }
-    return iconMap[type] || 'check'
+    return TodoScanner.getInstance().getTag(type).icon
   }
 
   /**
    * 获取TODO颜色
    */
   private getTodoColor(type: string): string {
-    const colorMap: Record<string, string> = {
-      TODO: 'charts.green',
-      FIXME: 'charts.red',
-      NOTE: 'charts.blue',
-      BUG: 'charts.red',
-      HACK: 'charts.yellow',
-    }
-    return colorMap[type] || 'charts.green'
+    return TodoScanner.getInstance().getTag(type).themeColor
   }
 
   /**
@@ -1233,6 +1522,7 @@ export class DataAdapter {
         },
 
         todoType: todo.type,
+        todoEmoji: TodoScanner.getInstance().getTag(todo.type).emoji,
       }))
 
       console.log(`[DataAdapter] 当前文件TODO转换完成: ${result.length}个`)
@@ -0,0 +1,514 @@
+import * as vscode from 'vscode'
+import { DependencyGraphService } from '../services/dependencyGraphService.js'
+
+/**
+ * 依赖关系图面板
+ * 以当前文件为中心，左侧显示依赖它的文件，右侧显示它依赖的文件和渲染的组件
+ */
+export class DependencyGraphPanel implements vscode.Disposable {
+  static readonly viewType = 'CCoding.dependencyGraph'
+
+  private panel: vscode.WebviewPanel | undefined
+  private rootUri: vscode.Uri | undefined
+  private depth = DependencyGraphService.getDepth()
+  private updateTimeout: NodeJS.Timeout | undefined
+  private disposables: vscode.Disposable[] = []
+
+  constructor(private graphService: DependencyGraphService) {
+    this.disposables.push(
+      // 面板打开时跟随当前编辑器切换中心文件
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (this.panel && editor && DependencyGraphService.isSourceFile(editor.document.uri)) {
+          this.rootUri = editor.document.uri
+          this.scheduleUpdate()
+        }
+      }),
+      this.graphService.onDidChange(() => this.scheduleUpdate()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('CCoding.dependencyGraph')) {
+          this.depth = DependencyGraphService.getDepth()
+          this.scheduleUpdate()
+        }
+      }),
+    )
+  }
+
+  /**
+   * 打开面板并显示文件的依赖关系
+   * @param uri 中心文件
+   */
+  show(uri: vscode.Uri): void {
+    this.rootUri = uri
+
+    if (this.panel) {
+      this.panel.reveal(undefined, true)
+      this.update()
+      return
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      DependencyGraphPanel.viewType,
+      '依赖关系图',
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+      },
+    )
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined
+    })
+
+    this.panel.webview.onDidReceiveMessage(async (message) => {
+      switch (message.type) {
+        case 'ready':
+          await this.update()
+          break
+        case 'openFile':
+          await vscode.window.showTextDocument(vscode.Uri.file(message.id), { viewColumn: vscode.ViewColumn.One })
+          break
+        case 'setDepth':
+          this.depth = Math.max(1, Math.min(5, Number(message.depth) || 1))
+          await this.update()
+          break
+      }
+    })
+
+    this.panel.webview.html = this.generateHTML()
+  }
+
+  private scheduleUpdate(): void {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+    }
+    this.updateTimeout = setTimeout(() => {
+      this.updateTimeout = undefined
+      this.update()
+    }, 300)
+  }
+
+  private async update(): Promise<void> {
+    if (!this.panel || !this.rootUri)
+      return
+
+    const rootUri = this.rootUri
+    this.panel.title = `依赖关系图 · ${vscode.workspace.asRelativePath(rootUri)}`
+    this.panel.webview.postMessage({ type: 'loading' })
+
+    try {
+      const graph = await this.graphService.buildGraph(rootUri, this.depth)
+      // 计算期间可能已切换到其他文件
+      if (this.panel && this.rootUri === rootUri) {
+        this.panel.webview.postMessage({ type: 'graph', graph, depth: this.depth })
+      }
+    }
+    catch (error) {
+      console.error('[CCoding] 计算依赖关系图失败:', error)
+      this.panel?.webview.postMessage({ type: 'error', message: `${error}` })
+    }
+  }
+
+  private generateHTML(): string {
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>依赖关系图</title>
+    <style>
+        body {
+            margin: 0;
+            padding: 0;
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            overflow: hidden;
+        }
+
+        .toolbar {
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 12px;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .toolbar label {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            cursor: pointer;
+        }
+
+        .toolbar select {
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+        }
+
+        #filters {
+            display: flex;
+            gap: 10px;
+        }
+
+        .swatch {
+            display: inline-block;
+            width: 10px;
+            height: 10px;
+            border-radius: 2px;
+        }
+
+        .status {
+            margin-left: auto;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        svg {
+            width: 100vw;
+            height: calc(100vh - 36px);
+            cursor: grab;
+        }
+
+        svg.panning {
+            cursor: grabbing;
+        }
+
+        .node {
+            cursor: pointer;
+        }
+
+        .node rect {
+            fill: var(--vscode-editorWidget-background);
+            stroke-width: 1.5;
+        }
+
+        .node.root rect {
+            stroke-width: 3;
+        }
+
+        .node text {
+            fill: var(--vscode-foreground);
+            font-size: 12px;
+            pointer-events: none;
+        }
+
+        .node text.path {
+            fill: var(--vscode-descriptionForeground);
+            font-size: 10px;
+        }
+
+        .edge {
+            fill: none;
+            stroke: var(--vscode-editorLineNumber-foreground);
+            stroke-width: 1.2;
+        }
+
+        .edge.render {
+            stroke: var(--vscode-charts-green);
+            stroke-dasharray: 5 3;
+        }
+
+        .dimmed {
+            opacity: 0.15;
+        }
+
+        .edge.highlight {
+            stroke: var(--vscode-focusBorder);
+            stroke-width: 2;
+        }
+
+        .message {
+            position: absolute;
+            top: 50%;
+            width: 100%;
+            text-align: center;
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <label>深度
+            <select id="depth">
+                <option value="1">1</option>
+                <option value="2">2</option>
+                <option value="3">3</option>
+                <option value="4">4</option>
+                <option value="5">5</option>
+            </select>
+        </label>
+        <span id="filters"></span>
+        <span class="status" id="status"></span>
+    </div>
+    <div class="message" id="message">加载中...</div>
+    <svg id="graph">
+        <defs>
+            <marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="var(--vscode-editorLineNumber-foreground)"></path>
+            </marker>
+        </defs>
+        <g id="viewport"></g>
+    </svg>
+    <script>
+        const vscode = acquireVsCodeApi();
+        const SVG_NS = 'http://www.w3.org/2000/svg';
+        const FRAMEWORKS = {
+            vue: { label: 'Vue', color: '#42b883' },
+            react: { label: 'React', color: '#61dafb' },
+            svelte: { label: 'Svelte', color: '#ff3e00' },
+            angular: { label: 'Angular', color: '#dd0031' },
+            script: { label: '脚本', color: '#8a8a8a' },
+        };
+        const NODE_WIDTH = 170;
+        const NODE_HEIGHT = 38;
+        const COLUMN_GAP = 90;
+        const ROW_GAP = 14;
+
+        const svg = document.getElementById('graph');
+        const viewport = document.getElementById('viewport');
+        const depthSelect = document.getElementById('depth');
+        const filtersElement = document.getElementById('filters');
+        const statusElement = document.getElementById('status');
+        const messageElement = document.getElementById('message');
+
+        let graph = null;
+        const hiddenFrameworks = new Set();
+        let transform = { x: 0, y: 0, scale: 1 };
+
+        depthSelect.addEventListener('change', () => {
+            vscode.postMessage({ type: 'setDepth', depth: Number(depthSelect.value) });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.type) {
+                case 'loading':
+                    statusElement.textContent = '计算中...';
+                    break;
+                case 'error':
+                    showMessage('计算依赖关系失败: ' + message.message);
+                    break;
+                case 'graph':
+                    graph = message.graph;
+                    depthSelect.value = String(message.depth);
+                    renderFilters();
+                    render(true);
+                    break;
+            }
+        });
+
+        function showMessage(text) {
+            messageElement.textContent = text;
+            messageElement.style.display = text ? 'block' : 'none';
+        }
+
+        function renderFilters() {
+            filtersElement.textContent = '';
+            const present = new Set(graph.nodes.map(node => node.framework));
+            for (const [id, info] of Object.entries(FRAMEWORKS)) {
+                if (!present.has(id)) continue;
+                const label = document.createElement('label');
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.checked = !hiddenFrameworks.has(id);
+                checkbox.addEventListener('change', () => {
+                    if (checkbox.checked) hiddenFrameworks.delete(id);
+                    else hiddenFrameworks.add(id);
+                    render(false);
+                });
+                const swatch = document.createElement('span');
+                swatch.className = 'swatch';
+                swatch.style.background = info.color;
+                label.append(checkbox, swatch, document.createTextNode(info.label));
+                filtersElement.appendChild(label);
+            }
+        }
+
+        function createSvg(tag, attributes) {
+            const element = document.createElementNS(SVG_NS, tag);
+            for (const [key, value] of Object.entries(attributes)) {
+                element.setAttribute(key, value);
+            }
+            return element;
+        }
+
+        function truncate(text, max) {
+            return text.length > max ? text.slice(0, max - 1) + '…' : text;
+        }
+
+        /**
+         * 分层布局：按与中心文件的距离分列，被依赖文件在左，依赖文件在右
+         */
+        function layout(nodes) {
+            const columns = new Map();
+            for (const node of nodes) {
+                if (!columns.has(node.depth)) columns.set(node.depth, []);
+                columns.get(node.depth).push(node);
+            }
+
+            const positions = new Map();
+            for (const [depth, column] of columns) {
+                column.sort((a, b) => a.framework.localeCompare(b.framework) || a.label.localeCompare(b.label));
+                const height = column.length * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+                column.forEach((node, index) => {
+                    positions.set(node.id, {
+                        x: depth * (NODE_WIDTH + COLUMN_GAP),
+                        y: index * (NODE_HEIGHT + ROW_GAP) - height / 2,
+                    });
+                });
+            }
+            return positions;
+        }
+
+        function render(fit) {
+            viewport.textContent = '';
+            if (!graph) return;
+
+            const nodes = graph.nodes.filter(node => node.id === graph.root || !hiddenFrameworks.has(node.framework));
+            const visible = new Set(nodes.map(node => node.id));
+            const edges = graph.edges.filter(edge => visible.has(edge.from) && visible.has(edge.to));
+            const positions = layout(nodes);
+
+            statusElement.textContent = nodes.length + ' 个文件 · ' + edges.length + ' 条关系'
+                + (graph.truncated ? '（文件过多，已截断）' : '');
+            showMessage(nodes.length <= 1 ? '没有找到与当前文件相关的依赖' : '');
+
+            const edgeLayer = createSvg('g', {});
+            const nodeLayer = createSvg('g', {});
+            viewport.append(edgeLayer, nodeLayer);
+
+            const edgeElements = edges.map(edge => {
+                const from = positions.get(edge.from);
+                const to = positions.get(edge.to);
+                // 从左向右的边连接右侧和左侧，反向的边绕到同侧
+                const forward = to.x >= from.x;
+                const x1 = forward ? from.x + NODE_WIDTH : from.x;
+                const x2 = forward ? to.x : to.x + NODE_WIDTH;
+                const y1 = from.y + NODE_HEIGHT / 2;
+                const y2 = to.y + NODE_HEIGHT / 2;
+                const bend = Math.max(40, Math.abs(x2 - x1) / 2) * (forward ? 1 : -1);
+                const path = createSvg('path', {
+                    class: 'edge ' + edge.kind,
+                    d: 'M' + x1 + ',' + y1 + ' C' + (x1 + bend) + ',' + y1 + ' ' + (x2 - bend) + ',' + y2 + ' ' + x2 + ',' + y2,
+                    'marker-end': 'url(#arrow)',
+                });
+                edgeLayer.appendChild(path);
+                return { edge, element: path };
+            });
+
+            for (const node of nodes) {
+                const position = positions.get(node.id);
+                const group = createSvg('g', {
+                    class: 'node' + (node.id === graph.root ? ' root' : ''),
+                    transform: 'translate(' + position.x + ',' + position.y + ')',
+                });
+                const color = FRAMEWORKS[node.framework].color;
+                group.appendChild(createSvg('rect', { width: NODE_WIDTH, height: NODE_HEIGHT, rx: 5, stroke: color }));
+
+                const title = createSvg('title', {});
+                title.textContent = node.path + (node.id === graph.root ? '' : '\\n点击打开文件');
+                group.appendChild(title);
+
+                const label = createSvg('text', { x: 8, y: 16 });
+                label.textContent = truncate(node.label, 24);
+                const path = createSvg('text', { x: 8, y: 30, class: 'path' });
+                path.textContent = truncate(node.path, 30);
+                group.append(label, path);
+
+                group.addEventListener('click', () => vscode.postMessage({ type: 'openFile', id: node.id }));
+                group.addEventListener('mouseenter', () => highlight(node.id, edgeElements));
+                group.addEventListener('mouseleave', () => highlight(null, edgeElements));
+                group.dataset.id = node.id;
+                nodeLayer.appendChild(group);
+            }
+
+            if (fit) fitToView(positions);
+            applyTransform();
+        }
+
+        /**
+         * 悬停时突出显示与节点直接相连的文件
+         */
+        function highlight(id, edgeElements) {
+            const connected = new Set([id]);
+            for (const { edge, element } of edgeElements) {
+                const related = id !== null && (edge.from === id || edge.to === id);
+                element.classList.toggle('highlight', related);
+                element.classList.toggle('dimmed', id !== null && !related);
+                if (related) {
+                    connected.add(edge.from);
+                    connected.add(edge.to);
+                }
+            }
+            for (const node of viewport.querySelectorAll('.node')) {
+                node.classList.toggle('dimmed', id !== null && !connected.has(node.dataset.id));
+            }
+        }
+
+        function fitToView(positions) {
+            const points = [...positions.values()];
+            const minX = Math.min(...points.map(point => point.x));
+            const maxX = Math.max(...points.map(point => point.x)) + NODE_WIDTH;
+            const minY = Math.min(...points.map(point => point.y));
+            const maxY = Math.max(...points.map(point => point.y)) + NODE_HEIGHT;
+            const rect = svg.getBoundingClientRect();
+            const scale = Math.max(0.2, Math.min(1.2, (rect.width - 40) / (maxX - minX), (rect.height - 40) / (maxY - minY)));
+            transform = {
+                scale,
+                x: rect.width / 2 - ((minX + maxX) / 2) * scale,
+                y: rect.height / 2 - ((minY + maxY) / 2) * scale,
+            };
+        }
+
+        function applyTransform() {
+            viewport.setAttribute('transform', 'translate(' + transform.x + ',' + transform.y + ') scale(' + transform.scale + ')');
+        }
+
+        // 拖动平移、滚轮缩放
+        let panStart = null;
+        svg.addEventListener('mousedown', event => {
+            if (event.target.closest('.node')) return;
+            panStart = { x: event.clientX - transform.x, y: event.clientY - transform.y };
+            svg.classList.add('panning');
+        });
+        window.addEventListener('mousemove', event => {
+            if (!panStart) return;
+            transform.x = event.clientX - panStart.x;
+            transform.y = event.clientY - panStart.y;
+            applyTransform();
+        });
+        window.addEventListener('mouseup', () => {
+            panStart = null;
+            svg.classList.remove('panning');
+        });
+        svg.addEventListener('wheel', event => {
+            event.preventDefault();
+            const rect = svg.getBoundingClientRect();
+            const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+            const scale = Math.max(0.2, Math.min(3, transform.scale * factor));
+            const cursorX = event.clientX - rect.left;
+            const cursorY = event.clientY - rect.top;
+            transform.x = cursorX - (cursorX - transform.x) * (scale / transform.scale);
+            transform.y = cursorY - (cursorY - transform.y) * (scale / transform.scale);
+            transform.scale = scale;
+            applyTransform();
+        }, { passive: false });
+
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`
+  }
+
+  dispose(): void {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+    }
+    this.panel?.dispose()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
@@ -1,3 +1,4 @@
+import type { SymbolReference, SymbolReferenceGroup } from '../services/symbolReferenceService.js'
 import type {
   FrontendSymbolInfo,
   QuickFilter,
@@ -5,8 +6,10 @@ import type {
 import * as vscode from 'vscode'
 import { FrontendSymbolDetector } from '../services/frontendSymbolDetector.js'
 import { SymbolGroupManager } from '../services/symbolGroupManager.js'
+import { SymbolReferenceService } from '../services/symbolReferenceService.js'
 import {
   FrameworkType,
+  FrontendSymbolKind,
   SymbolPriority,
 } from '../types/frontendSymbols.js'
 
@@ -15,6 +18,20 @@ import {
  * 使用新的前端符号检测和分组系统
  */
 export class EnhancedFunctionListProvider implements vscode.TreeDataProvider<EnhancedFunctionItem> {
+  // 没有可引用名称的符号不显示"被引用"节点
+  private static readonly UNREFERENCEABLE_KINDS: FrontendSymbolKind[] = [
+    FrontendSymbolKind.VueLifecycle,
+    FrontendSymbolKind.VueWatch,
+    FrontendSymbolKind.VueDirective,
+    FrontendSymbolKind.VueSlot,
+    FrontendSymbolKind.ReactEffect,
+    FrontendSymbolKind.Style,
+    FrontendSymbolKind.Asset,
+    FrontendSymbolKind.HTMLElement,
+    FrontendSymbolKind.CSSRule,
+    FrontendSymbolKind.CSSSelector,
+  ]
+
   private _onDidChangeTreeData: vscode.EventEmitter<EnhancedFunctionItem | undefined | null | void>
     = new vscode.EventEmitter<EnhancedFunctionItem | undefined | null | void>()
 
@@ -25,6 +42,7 @@ export class EnhancedFunctionListProvider implements vscode.TreeDataProvider<Enh
   private groupedSymbols: Map<string, FrontendSymbolInfo[]> = new Map()
   private rootItems: EnhancedFunctionItem[] = []
   private groupManager: SymbolGroupManager
+  private referenceService: SymbolReferenceService
   private currentFramework: FrameworkType = FrameworkType.General
 
   // 状态管理
@@ -40,6 +58,7 @@ export class EnhancedFunctionListProvider implements vscode.TreeDataProvider<Enh
 
   constructor() {
     this.groupManager = new SymbolGroupManager()
+    this.referenceService = new SymbolReferenceService()
     this.refresh()
   }
 
@@ -50,6 +69,7 @@ export class EnhancedFunctionListProvider implements vscode.TreeDataProvider<Enh
     console.log('[CCoding] 清理Enhanced Function Provider资源')
     this.stopRefresh()
     this.clearAllState()
+    this.referenceService.dispose()
   }
 
   /**
@@ -130,7 +150,7 @@ export class EnhancedFunctionListProvider implements vscode.TreeDataProvider<Enh
     }
 
     // 使用前端符号检测器分析
-    const detector = new FrontendSymbolDetector(this.currentDocument)
+    const detector = new FrontendSymbolDetector(this.currentDocument, this.referenceService)
     this.symbols = await detector.analyzeSymbols(vscodeSymbols)
     this.currentFramework = this.detectFramework()
 
@@ -270,9 +290,14 @@ export class EnhancedFunctionListProvider implements vscode.TreeDataProvider<Enh
       parent,
     )
 
-    // 递归创建子项目
-    if (symbol.children && symbol.children.length > 0) {
-      item.children = symbol.children.map(child => this.createSymbolItem(child, item))
+    // 递归创建子项目，末尾追加"被引用"节点
+    const children = (symbol.children || []).map(child => this.createSymbolItem(child, item))
+    if (this.isReferenceable(symbol)) {
+      children.push(this.createUsedByItem(symbol, item))
+    }
+
+    if (children.length > 0) {
+      item.children = children
       item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed
     }
     else {
@@ -282,6 +307,100 @@ export class EnhancedFunctionListProvider implements vscode.TreeDataProvider<Enh
     return item
   }
 
+  private isReferenceable(symbol: FrontendSymbolInfo): boolean {
+    return !EnhancedFunctionListProvider.UNREFERENCEABLE_KINDS.includes(symbol.frontendKind)
+  }
+
+  private getReferencePosition(symbol: FrontendSymbolInfo): vscode.Position {
+    return (symbol.selectionRange || symbol.range).start
+  }
+
+  /**
+   * 创建"被引用"节点，展开时才查询引用
+   */
+  private createUsedByItem(symbol: FrontendSymbolInfo, parent: EnhancedFunctionItem): EnhancedFunctionItem {
+    const item = new EnhancedFunctionItem('被引用', undefined, false, undefined, parent)
+    item.usedBySymbol = symbol
+    item.iconPath = new vscode.ThemeIcon('references')
+    item.contextValue = 'enhancedFunctionUsedBy'
+    item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed
+
+    const cached = this.referenceService.getCachedReferences(symbol.uri, this.getReferencePosition(symbol))
+    item.description = cached ? this.formatReferenceSummary(cached) : '展开查找引用'
+    item.tooltip = `${symbol.name} 在工作区中的引用`
+    return item
+  }
+
+  private formatReferenceSummary(references: SymbolReference[]): string {
+    const fileCount = new Set(references.map(reference => reference.uri.toString())).size
+    return `${references.length} 处 · ${fileCount} 个文件`
+  }
+
+  /**
+   * 查询符号的工作区引用，并回写引用数和相关文件
+   */
+  private async loadReferences(symbol: FrontendSymbolInfo): Promise<SymbolReference[]> {
+    const references = await this.referenceService.getReferences(symbol.uri, this.getReferencePosition(symbol))
+    symbol.context.referenceCount = references.length
+    symbol.relatedFiles = FrontendSymbolDetector.getRelatedFiles(symbol, references.map(reference => reference.uri))
+    return references
+  }
+
+  /**
+   * "被引用"节点的子项：按文件分组
+   */
+  private async getUsedByChildren(element: EnhancedFunctionItem, symbol: FrontendSymbolInfo): Promise<EnhancedFunctionItem[]> {
+    const references = await this.loadReferences(symbol)
+    if (references.length === 0) {
+      const empty = new EnhancedFunctionItem('未找到引用', undefined, false, undefined, element)
+      empty.iconPath = new vscode.ThemeIcon('info')
+      return [empty]
+    }
+
+    const groups = SymbolReferenceService.groupByFile(references)
+    return groups.map((group) => {
+      const item = new EnhancedFunctionItem(vscode.workspace.asRelativePath(group.uri), undefined, false, undefined, element)
+      item.referenceGroup = group
+      item.resourceUri = group.uri
+      item.iconPath = vscode.ThemeIcon.File
+      item.description = `${group.references.length} 处`
+      item.contextValue = 'enhancedFunctionReferenceFile'
+      // 只有一个文件时直接展开
+      item.collapsibleState = groups.length === 1
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+      return item
+    })
+  }
+
+  /**
+   * 文件节点的子项：每处引用的行号和代码
+   */
+  private async getReferenceLocationItems(element: EnhancedFunctionItem, group: SymbolReferenceGroup): Promise<EnhancedFunctionItem[]> {
+    let document: vscode.TextDocument | undefined
+    try {
+      document = await vscode.workspace.openTextDocument(group.uri)
+    }
+    catch (error) {
+      console.warn('[CCoding] 无法打开引用所在文件:', error)
+    }
+
+    return group.references.map((reference) => {
+      const line = reference.range.start.line
+      const item = new EnhancedFunctionItem(`L:${line + 1}`, undefined, false, undefined, element)
+      item.description = document && line < document.lineCount ? document.lineAt(line).text.trim() : ''
+      item.tooltip = `${vscode.workspace.asRelativePath(reference.uri)}:${line + 1}`
+      item.iconPath = new vscode.ThemeIcon('arrow-small-right')
+      item.contextValue = 'enhancedFunctionReference'
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open',
+        arguments: [reference.uri, { selection: reference.range }],
+      }
+      return item
+    })
+  }
+
   /**
    * 是否有搜索查询
    */
@@ -304,7 +423,25 @@ export class EnhancedFunctionListProvider implements vscode.TreeDataProvider<Enh
     return element
   }
 
+  /**
+   * 悬停时查询引用数，更新提示中的引用信息
+   */
+  async resolveTreeItem(item: vscode.TreeItem, element: EnhancedFunctionItem): Promise<vscode.TreeItem> {
+    if (element.symbol && this.isReferenceable(element.symbol)) {
+      await this.loadReferences(element.symbol)
+      item.tooltip = this.groupManager.getSymbolDisplayInfo(element.symbol).tooltip
+    }
+    return item
+  }
+
   getChildren(element?: EnhancedFunctionItem): Thenable<EnhancedFunctionItem[]> {
+    if (element?.usedBySymbol) {
+      return this.getUsedByChildren(element, element.usedBySymbol)
+    }
+    if (element?.referenceGroup) {
+      return this.getReferenceLocationItems(element, element.referenceGroup)
+    }
+
     if (!element) {
       // 返回根项目，应用搜索过滤
       const items = this.hasSearchQuery()
@@ -343,6 +480,11 @@ export class EnhancedFunctionListProvider implements vscode.TreeDataProvider<Enh
       return this.symbolMatchesSearch(item.symbol)
     }
 
+    // 引用节点跟随所属符号显示
+    if (item.usedBySymbol) {
+      return true
+    }
+
     return false
   }
 
@@ -479,6 +621,10 @@ export class EnhancedFunctionItem extends vscode.TreeItem {
   public isGroup: boolean
   public groupInfo?: any
   public parent?: EnhancedFunctionItem
+  // "被引用"节点对应的符号
+  public usedBySymbol?: FrontendSymbolInfo
+  // 引用文件节点包含的引用
+  public referenceGroup?: SymbolReferenceGroup
 
   constructor(
     label: string,
@@ -1,6 +1,13 @@
+import type { AngularModule } from '../parsers/angularParser.js'
+import type { SvelteComponent } from '../parsers/svelteParser.js'
+import type { VueComponent } from '../parsers/vueParser.js'
+import type { FunctionComplexity } from '../services/complexityAnalyzer.js'
 import * as vscode from 'vscode'
+import { AngularParser } from '../parsers/angularParser.js'
 import { ReactParser } from '../parsers/reactParser.js'
+import { SvelteParser } from '../parsers/svelteParser.js'
 import { VueParser } from '../parsers/vueParser.js'
+import { ComplexityAnalyzer } from '../services/complexityAnalyzer.js'
 
 // 扩展的符号类型
 enum CustomSymbolKind {
@@ -27,12 +34,17 @@ interface FunctionDetails {
   returnType?: string
   isLifecycle?: boolean
   isPrivate?: boolean
+  // 复杂度等级（1-4），由认知复杂度与阈值换算
   complexity?: number
-  frameworkType?: 'react' | 'vue' | 'general'
+  cyclomaticComplexity?: number
+  cognitiveComplexity?: number
+  frameworkType?: 'react' | 'vue' | 'svelte' | 'angular' | 'general'
   additionalInfo?: {
     // 通用/React Hook 信息
     hookType?: string
     dependencies?: string[]
+    missingDependencies?: string[]
+    unnecessaryDependencies?: string[]
     isHook?: boolean
     isAsync?: boolean
 
@@ -54,9 +66,23 @@ interface FunctionDetails {
     isData?: boolean
     type?: string
     isProp?: boolean
+    isModel?: boolean
+    isEmit?: boolean
     required?: boolean
     default?: string
 
+    // Svelte 响应式语句 / store 信息
+    isReactive?: boolean
+    isStore?: boolean
+    storeType?: string
+
+    // Angular 输入输出、依赖注入和装饰器信息
+    isInput?: boolean
+    isOutput?: boolean
+    isService?: boolean
+    alias?: string
+    decorator?: string
+
     // HTML/CSS 相关信息
     htmlTag?: string
     cssProperty?: string
@@ -389,6 +415,8 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
     const frameworkTypes = symbols.map(s => s.frameworkType).filter(Boolean)
     const isReact = frameworkTypes.includes('react')
     const isVue = frameworkTypes.includes('vue')
+    const isSvelte = frameworkTypes.includes('svelte')
+    const isAngular = frameworkTypes.includes('angular')
 
     // 基础分组 - 使用直观的中文描述
     const groups: Record<string, FunctionDetails[]> = {
@@ -419,7 +447,26 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
       groups['🔧 Setup函数'] = []
     }
 
-    console.log(`[CCoding] 开始分组 ${symbols.length} 个符号，框架: React=${isReact}, Vue=${isVue}`)
+    // Svelte 特定分组
+    if (isSvelte) {
+      groups['📨 组件属性'] = []
+      groups['📦 响应式数据'] = []
+      groups['⚙️ 计算属性'] = []
+      groups['💲 响应式语句'] = []
+      groups['🗃️ Stores'] = []
+      groups['⚡ 方法函数'] = []
+      groups['🔄 生命周期'] = []
+    }
+
+    // Angular 特定分组
+    if (isAngular) {
+      groups['🅰️ Angular组件'] = []
+      groups['📥 输入属性'] = []
+      groups['📤 输出事件'] = []
+      groups['💉 注入服务'] = []
+    }
+
+    console.log(`[CCoding] 开始分组 ${symbols.length} 个符号，框架: React=${isReact}, Vue=${isVue}, Svelte=${isSvelte}, Angular=${isAngular}`)
 
     // 用于检测重复的映射
     const seenSymbols = new Map<string, { symbol: FunctionDetails, group: string }>()
@@ -481,7 +528,7 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
           targetGroup = '📦 响应式数据'
           console.log(`  -> Vue Data ✅`)
         }
-        else if (symbol.additionalInfo?.isProp) {
+        else if (symbol.additionalInfo?.isProp || symbol.additionalInfo?.isEmit) {
           groups['📨 组件属性'].push(symbol)
           targetGroup = '📨 组件属性'
           console.log(`  -> Vue Prop ✅`)
@@ -506,6 +553,14 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
           targetGroup = this.assignToRegularGroup(symbol, groups)
         }
       }
+      // Svelte 特定分组逻辑
+      else if (symbol.frameworkType === 'svelte' && symbol.additionalInfo) {
+        targetGroup = this.assignToSvelteGroup(symbol, groups)
+      }
+      // Angular 特定分组逻辑
+      else if (symbol.frameworkType === 'angular' && symbol.additionalInfo) {
+        targetGroup = this.assignToAngularGroup(symbol, groups)
+      }
       // 常规分组逻辑
       else {
         targetGroup = this.assignToRegularGroup(symbol, groups)
@@ -530,6 +585,52 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
     return groups
   }
 
+  private assignToSvelteGroup(symbol: FunctionDetails, groups: Record<string, FunctionDetails[]>): string {
+    const info = symbol.additionalInfo!
+    let targetGroup = ''
+    if (info.isProp || info.isEmit)
+      targetGroup = '📨 组件属性'
+    else if (info.isReactive)
+      targetGroup = '💲 响应式语句'
+    else if (info.isStore)
+      targetGroup = '🗃️ Stores'
+    else if (info.isComputed)
+      targetGroup = '⚙️ 计算属性'
+    else if (info.isData)
+      targetGroup = '📦 响应式数据'
+    else if (info.isLifecycle)
+      targetGroup = '🔄 生命周期'
+    else if (info.isMethod)
+      targetGroup = '⚡ 方法函数'
+
+    if (!targetGroup)
+      return this.assignToRegularGroup(symbol, groups)
+
+    groups[targetGroup].push(symbol)
+    console.log(`  -> Svelte ${targetGroup} ✅`)
+    return targetGroup
+  }
+
+  private assignToAngularGroup(symbol: FunctionDetails, groups: Record<string, FunctionDetails[]>): string {
+    const info = symbol.additionalInfo!
+    let targetGroup = ''
+    if (info.isComponent)
+      targetGroup = '🅰️ Angular组件'
+    else if (info.isInput)
+      targetGroup = '📥 输入属性'
+    else if (info.isOutput)
+      targetGroup = '📤 输出事件'
+    else if (info.isService)
+      targetGroup = '💉 注入服务'
+
+    if (!targetGroup)
+      return this.assignToRegularGroup(symbol, groups)
+
+    groups[targetGroup].push(symbol)
+    console.log(`  -> Angular ${targetGroup} ✅`)
+    return targetGroup
+  }
+
   private assignToRegularGroup(symbol: FunctionDetails, groups: Record<string, FunctionDetails[]>): string {
     // 优先级1: 自定义类型（箭头函数等）
     if (symbol.customKind === CustomSymbolKind.ArrowFunction
@@ -780,10 +881,20 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
       console.log(`  - VSCode识别符号数: ${symbols?.length || 0}`)
     }
 
-    if (symbols && symbols.length > 0) {
+    // Svelte / Angular 文件：先根据解析器创建框架特定的符号
+    const frameworkType = this.detectFrameworkType(document.fileName, document)
+    if (frameworkType === 'svelte') {
+      await this.parseSvelteFileStructure(document)
+    }
+    else if (frameworkType === 'angular') {
+      await this.parseAngularFileStructure(document)
+    }
+
+    // 未安装 Svelte 扩展时 VSCode 识别不到符号，仅使用解析器创建的符号
+    if ((symbols && symbols.length > 0) || this.functions.length > 0) {
       // 第一阶段：核心符号解析（最高优先级，不会被覆盖）
-      console.log(`[CCoding] 🔧 阶段1: 解析VSCode API识别的 ${symbols.length} 个符号`)
-      await this.extractFunctions(symbols, document)
+      console.log(`[CCoding] 🔧 阶段1: 解析VSCode API识别的 ${symbols?.length || 0} 个符号`)
+      await this.extractFunctions(symbols || [], document)
       console.log(`[CCoding] ✅ 阶段1完成: 当前符号数 = ${this.functions.length}`)
 
       // 🔍 特殊检查：increment在第一阶段的状态
@@ -1505,6 +1616,7 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
       if (this.isCallableSymbol(symbol) || symbol.kind === vscode.SymbolKind.Class) {
         // 提取符号签名用于箭头函数检测
         const signature = await this.extractSignature(symbol, document)
+        const metrics = this.calculateComplexity(symbol.range, document)
 
         const functionDetails: FunctionDetails = {
           name: symbol.name,
@@ -1519,7 +1631,9 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
           frameworkType: this.detectFrameworkType(document.fileName, document),
           isLifecycle: this.isLifecycleMethod(symbol.name, document.fileName),
           isPrivate: symbol.name.startsWith('_') || symbol.name.startsWith('#'),
-          complexity: this.calculateComplexity(symbol.range, document),
+          complexity: metrics && ComplexityAnalyzer.getLevel(metrics.cognitive),
+          cyclomaticComplexity: metrics?.cyclomatic,
+          cognitiveComplexity: metrics?.cognitive,
         }
 
         // 🔥 关键修复：在第一阶段检测箭头函数并设置customKind
@@ -1532,6 +1646,12 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
         else if (functionDetails.frameworkType === 'vue') {
           functionDetails.additionalInfo = await this.extractVueInfo(symbol, document)
         }
+        else if (functionDetails.frameworkType === 'svelte') {
+          functionDetails.additionalInfo = this.extractSvelteInfo(symbol, document)
+        }
+        else if (functionDetails.frameworkType === 'angular') {
+          functionDetails.additionalInfo = this.extractAngularInfo(symbol, document)
+        }
 
         // 只有顶级符号（没有parent）才添加到主列表
         if (!parent) {
@@ -1789,10 +1909,12 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
     return []
   }
 
-  private detectFrameworkType(fileName: string, document?: vscode.TextDocument): 'react' | 'vue' | 'general' {
+  private detectFrameworkType(fileName: string, document?: vscode.TextDocument): 'react' | 'vue' | 'svelte' | 'angular' | 'general' {
     // 首先基于文件扩展名检测
     if (fileName.endsWith('.vue'))
       return 'vue'
+    if (fileName.endsWith('.svelte'))
+      return 'svelte'
     if (fileName.endsWith('.jsx') || fileName.endsWith('.tsx'))
       return 'react'
 
@@ -1801,8 +1923,13 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
       return 'general'
     }
 
-    // 基于文件内容检测 React
+    // Angular 以 @angular/core 导入为准，需在 React 的宽松检测之前判断
     const content = document.getText()
+    if (content.includes('@angular/core')) {
+      return 'angular'
+    }
+
+    // 基于文件内容检测 React
     if (this.isReactFile(content)) {
       return 'react'
     }
@@ -1841,44 +1968,61 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
   private isLifecycleMethod(name: string, fileName: string): boolean {
     const reactLifecycle = ['componentDidMount', 'componentDidUpdate', 'componentWillUnmount', 'useEffect']
     const vueLifecycle = ['mounted', 'created', 'updated', 'destroyed', 'beforeMount', 'beforeDestroy']
+    const svelteLifecycle = ['onMount', 'onDestroy', 'beforeUpdate', 'afterUpdate']
+    const angularLifecycle = ['ngOnChanges', 'ngOnInit', 'ngDoCheck', 'ngAfterContentInit', 'ngAfterContentChecked', 'ngAfterViewInit', 'ngAfterViewChecked', 'ngOnDestroy']
 
     if (fileName.endsWith('.vue')) {
       return vueLifecycle.includes(name)
     }
-    return reactLifecycle.includes(name)
+    if (fileName.endsWith('.svelte')) {
+      return svelteLifecycle.includes(name)
+    }
+    return reactLifecycle.includes(name) || angularLifecycle.includes(name)
   }
 
   private async extractReactInfo(symbol: vscode.DocumentSymbol, document: vscode.TextDocument): Promise<any> {
     try {
       // 使用 ReactParser 进行详细解析
-      const reactComponent = ReactParser.parseReactFile(document)
-      if (!reactComponent) {
+      const reactModule = ReactParser.parseReactModule(document)
+      if (!reactModule) {
         return this.extractBasicReactInfo(symbol)
       }
 
       const info: any = {}
 
-      // 检查是否是 Hook
-      if (symbol.name.startsWith('use')) {
-        const hook = reactComponent.hooks.find(h => h.name === symbol.name)
-        if (hook) {
-          info.hookType = hook.type
-          info.dependencies = hook.dependencies
-          info.isHook = true
-        }
+      // 检查是否是自定义 Hook 定义
+      const customHook = reactModule.customHooks.find(h => h.name === symbol.name)
+      if (customHook) {
+        info.hookType = 'custom'
+        info.params = customHook.params
+        info.isHook = true
+      }
+
+      // 检查是否是 Hook 调用的返回值，如 const handleClick = useCallback(...)
+      const hook = [
+        ...reactModule.components.flatMap(c => c.hooks),
+        ...reactModule.customHooks.flatMap(h => h.hooks),
+      ].find(h => h.bindings.includes(symbol.name))
+      if (hook && !customHook) {
+        info.hookType = hook.hookName
+        info.dependencies = hook.dependencies
+        info.missingDependencies = hook.missingDependencies
+        info.unnecessaryDependencies = hook.unnecessaryDependencies
+        info.isHook = true
       }
 
       // 检查是否是组件方法
-      const method = reactComponent.methods.find(m => m.name === symbol.name)
+      const method = reactModule.components.flatMap(c => c.methods).find(m => m.name === symbol.name)
       if (method) {
         info.isLifecycle = method.isLifecycle
         info.params = method.params
       }
 
       // 检查是否是组件
-      if (symbol.name === reactComponent.name) {
-        info.componentType = reactComponent.type
-        info.props = reactComponent.props
+      const component = reactModule.components.find(c => c.name === symbol.name)
+      if (component) {
+        info.componentType = component.type
+        info.props = component.props
         info.isComponent = true
       }
 
@@ -1941,6 +2085,16 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
         info.type = prop.type
       }
 
+      // 检查是否是 v-model
+      const model = vueComponent.models.find(m => m.name === symbol.name)
+      if (model) {
+        info.isProp = true
+        info.isModel = true
+        info.required = model.required
+        info.default = model.default
+        info.type = model.type
+      }
+
       // 检查是否是生命周期
       const lifecycle = vueComponent.lifecycle.find(l => l.name === symbol.name)
       if (lifecycle) {
@@ -1976,7 +2130,10 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
       }
 
       console.log(`[CCoding] ✅ Vue 组件解析成功: ${vueComponent.name}`)
+      console.log(`  - Script Setup: ${vueComponent.setup}`)
       console.log(`  - Props: ${vueComponent.props.length}`)
+      console.log(`  - Models: ${vueComponent.models.length}`)
+      console.log(`  - Emits: ${vueComponent.emits.length}`)
       console.log(`  - Methods: ${vueComponent.methods.length}`)
       console.log(`  - Computed: ${vueComponent.computed.length}`)
       console.log(`  - Data: ${vueComponent.data.length}`)
@@ -1993,9 +2150,9 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
   /**
    * 根据 Vue 组件信息创建特定的符号
    */
-  private createVueSpecificSymbols(vueComponent: any, document: vscode.TextDocument): void {
+  private createVueSpecificSymbols(vueComponent: VueComponent, document: vscode.TextDocument): void {
     // 创建 Props 符号
-    vueComponent.props.forEach((prop: any) => {
+    vueComponent.props.forEach((prop) => {
       const propSymbol: FunctionDetails = {
         name: prop.name,
         kind: vscode.SymbolKind.Property,
@@ -2015,8 +2172,49 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
       console.log(`[CCoding] ✅ 添加 Vue Prop: ${prop.name}`)
     })
 
+    // 创建 v-model 符号（defineModel）
+    vueComponent.models.forEach((model) => {
+      const modelSymbol: FunctionDetails = {
+        name: model.name,
+        kind: vscode.SymbolKind.Property,
+        range: model.range,
+        uri: document.uri,
+        level: 0,
+        children: [],
+        frameworkType: 'vue',
+        additionalInfo: {
+          isProp: true,
+          isModel: true,
+          required: model.required,
+          default: model.default,
+          type: model.type,
+        },
+      }
+      this.functions.push(modelSymbol)
+      console.log(`[CCoding] ✅ 添加 Vue Model: ${model.name}`)
+    })
+
+    // 创建 Emits 符号
+    vueComponent.emits.forEach((emit) => {
+      const emitSymbol: FunctionDetails = {
+        name: emit.name,
+        kind: vscode.SymbolKind.Event,
+        range: emit.range,
+        uri: document.uri,
+        level: 0,
+        children: [],
+        frameworkType: 'vue',
+        additionalInfo: {
+          isEmit: true,
+          params: emit.params,
+        },
+      }
+      this.functions.push(emitSymbol)
+      console.log(`[CCoding] ✅ 添加 Vue Emit: ${emit.name}`)
+    })
+
     // 创建 Data 符号
-    vueComponent.data.forEach((data: any) => {
+    vueComponent.data.forEach((data) => {
       const dataSymbol: FunctionDetails = {
         name: data.name,
         kind: vscode.SymbolKind.Variable,
@@ -2035,7 +2233,7 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
     })
 
     // 创建 Computed 符号
-    vueComponent.computed.forEach((computed: any) => {
+    vueComponent.computed.forEach((computed) => {
       const computedSymbol: FunctionDetails = {
         name: computed.name,
         kind: vscode.SymbolKind.Property,
@@ -2055,7 +2253,7 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
     })
 
     // 创建 Methods 符号
-    vueComponent.methods.forEach((method: any) => {
+    vueComponent.methods.forEach((method) => {
       const methodSymbol: FunctionDetails = {
         name: method.name,
         kind: vscode.SymbolKind.Method,
@@ -2074,7 +2272,7 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
     })
 
     // 创建 Lifecycle 符号
-    vueComponent.lifecycle.forEach((lifecycle: any) => {
+    vueComponent.lifecycle.forEach((lifecycle) => {
       const lifecycleSymbol: FunctionDetails = {
         name: lifecycle.name,
         kind: vscode.SymbolKind.Method,
@@ -2093,23 +2291,264 @@ export class FunctionListProvider implements vscode.TreeDataProvider<FunctionIte
     })
   }
 
-  private calculateComplexity(range: vscode.Range, _document: vscode.TextDocument): number {
+  private extractSvelteInfo(symbol: vscode.DocumentSymbol, document: vscode.TextDocument): FunctionDetails['additionalInfo'] {
     try {
-      // 简单的复杂度计算：基于行数
-      const lineCount = range.end.line - range.start.line + 1
-      if (lineCount <= 5)
-        return 1 // 简单
-      if (lineCount <= 15)
-        return 2 // 中等
-      if (lineCount <= 30)
-        return 3 // 复杂
-      return 4 // 非常复杂
+      const svelteComponent = SvelteParser.parseSvelteFile(document)
+      if (!svelteComponent) {
+        return {}
+      }
+
+      const info: FunctionDetails['additionalInfo'] = {}
+
+      const fn = svelteComponent.functions.find(f => f.name === symbol.name)
+      if (fn) {
+        info.isMethod = true
+        info.params = fn.params
+        info.isAsync = fn.isAsync
+      }
+
+      const state = svelteComponent.state.find(s => s.name === symbol.name)
+      if (state) {
+        info.isComputed = state.kind.startsWith('$derived')
+        info.isData = !info.isComputed
+        info.type = state.type
+      }
+
+      const prop = svelteComponent.props.find(p => p.name === symbol.name)
+      if (prop) {
+        info.isProp = true
+        info.type = prop.type
+        info.default = prop.default
+      }
+
+      const store = svelteComponent.stores.find(s => s.name === symbol.name)
+      if (store) {
+        info.isStore = true
+        info.storeType = store.storeType
+      }
+
+      return info
     }
-    catch {
-      return 1
+    catch (error) {
+      console.warn('[CCoding] SvelteParser 解析失败:', error)
+      return {}
+    }
+  }
+
+  private extractAngularInfo(symbol: vscode.DocumentSymbol, document: vscode.TextDocument): FunctionDetails['additionalInfo'] {
+    try {
+      const angularModule = AngularParser.parseAngularFile(document)
+      if (!angularModule) {
+        return {}
+      }
+
+      const info: FunctionDetails['additionalInfo'] = {}
+
+      // 检查是否是带装饰器的类（组件、指令、服务等）
+      const angularClass = angularModule.classes.find(c => c.name === symbol.name)
+      if (angularClass) {
+        info.isComponent = true
+        info.decorator = angularClass.kind
+        info.selector = angularClass.selector
+      }
+
+      // 检查是否是类中的生命周期钩子或方法
+      const members = angularModule.classes.filter(c => c.range.contains(symbol.range))
+      const lifecycle = members.flatMap(c => c.lifecycle).find(l => l.name === symbol.name)
+      if (lifecycle) {
+        info.isLifecycle = true
+      }
+
+      const method = members.flatMap(c => c.methods).find(m => m.name === symbol.name)
+      if (method) {
+        info.isMethod = true
+        info.params = method.params
+        info.isAsync = method.isAsync
+      }
+
+      return info
+    }
+    catch (error) {
+      console.warn('[CCoding] AngularParser 解析失败:', error)
+      return {}
     }
   }
 
+  /**
+   * 解析 Svelte 组件，创建 props、状态、响应式语句、store 等符号
+   */
+  private async parseSvelteFileStructure(document: vscode.TextDocument): Promise<void> {
+    try {
+      const svelteComponent = SvelteParser.parseSvelteFile(document)
+      if (!svelteComponent) {
+        console.log('[CCoding] ❌ SvelteParser 无法解析此文件')
+        return
+      }
+
+      console.log(`[CCoding] ✅ Svelte 组件解析成功: ${svelteComponent.name} (runes: ${svelteComponent.runes})`)
+      this.createSvelteSpecificSymbols(svelteComponent, document)
+    }
+    catch (error) {
+      console.error('[CCoding] Svelte 文件解析失败:', error)
+    }
+  }
+
+  private createSvelteSpecificSymbols(svelteComponent: SvelteComponent, document: vscode.TextDocument): void {
+    const createSymbol = (
+      name: string,
+      kind: vscode.SymbolKind,
+      range: vscode.Range,
+      additionalInfo: FunctionDetails['additionalInfo'],
+      signature?: string,
+    ): void => {
+      this.functions.push({
+        name,
+        kind,
+        range,
+        uri: document.uri,
+        level: 0,
+        children: [],
+        signature,
+        frameworkType: 'svelte',
+        isLifecycle: additionalInfo?.isLifecycle,
+        additionalInfo,
+      })
+    }
+
+    svelteComponent.props.forEach((prop) => {
+      createSymbol(prop.name, vscode.SymbolKind.Property, prop.range, {
+        isProp: true,
+        type: prop.type,
+        default: prop.default,
+        isModel: prop.bindable,
+      })
+    })
+
+    svelteComponent.events.forEach((event) => {
+      createSymbol(event.name, vscode.SymbolKind.Event, event.range, { isEmit: true, type: event.type })
+    })
+
+    svelteComponent.state.forEach((state) => {
+      const isComputed = state.kind.startsWith('$derived')
+      createSymbol(state.name, vscode.SymbolKind.Variable, state.range, {
+        isComputed,
+        isData: !isComputed,
+        type: state.type,
+      }, state.kind === 'let' ? undefined : state.kind)
+    })
+
+    svelteComponent.reactive.forEach((reactive) => {
+      createSymbol(reactive.name ? `$: ${reactive.name}` : `$: ${reactive.expression}`, vscode.SymbolKind.Variable, reactive.range, {
+        isReactive: true,
+        dependencies: reactive.dependencies,
+      }, reactive.expression)
+    })
+
+    svelteComponent.stores.forEach((store) => {
+      createSymbol(store.name, vscode.SymbolKind.Variable, store.range, {
+        isStore: true,
+        storeType: store.storeType,
+      })
+    })
+
+    svelteComponent.functions.forEach((fn) => {
+      createSymbol(fn.name, vscode.SymbolKind.Function, fn.range, {
+        isMethod: true,
+        params: fn.params,
+        isAsync: fn.isAsync,
+      })
+    })
+
+    svelteComponent.lifecycle.forEach((lifecycle) => {
+      createSymbol(lifecycle.name, vscode.SymbolKind.Method, lifecycle.range, { isLifecycle: true })
+    })
+
+    console.log(`[CCoding] ✅ 添加 Svelte 符号: ${this.functions.length} 个`)
+  }
+
+  /**
+   * 解析 Angular 文件，为输入、输出和注入的服务创建符号
+   * 装饰器类本身及其方法仍由 VSCode 符号提供
+   */
+  private async parseAngularFileStructure(document: vscode.TextDocument): Promise<void> {
+    try {
+      const angularModule = AngularParser.parseAngularFile(document)
+      if (!angularModule) {
+        console.log('[CCoding] ❌ AngularParser 无法解析此文件')
+        return
+      }
+
+      console.log(`[CCoding] ✅ Angular 解析成功: ${angularModule.classes.map(c => `@${c.kind} ${c.name}`).join(', ')}`)
+      this.createAngularSpecificSymbols(angularModule, document)
+    }
+    catch (error) {
+      console.error('[CCoding] Angular 文件解析失败:', error)
+    }
+  }
+
+  private createAngularSpecificSymbols(angularModule: AngularModule, document: vscode.TextDocument): void {
+    for (const angularClass of angularModule.classes) {
+      angularClass.inputs.forEach((input) => {
+        this.functions.push({
+          name: input.name,
+          kind: vscode.SymbolKind.Property,
+          range: input.range,
+          uri: document.uri,
+          level: 0,
+          children: [],
+          frameworkType: 'angular',
+          additionalInfo: {
+            isInput: true,
+            alias: input.alias,
+            type: input.type,
+            required: input.required,
+          },
+        })
+      })
+
+      angularClass.outputs.forEach((output) => {
+        this.functions.push({
+          name: output.name,
+          kind: vscode.SymbolKind.Event,
+          range: output.range,
+          uri: document.uri,
+          level: 0,
+          children: [],
+          frameworkType: 'angular',
+          additionalInfo: {
+            isOutput: true,
+            alias: output.alias,
+            type: output.type,
+          },
+        })
+      })
+
+      angularClass.injections.forEach((injection) => {
+        this.functions.push({
+          name: injection.name,
+          kind: vscode.SymbolKind.Field,
+          range: injection.range,
+          uri: document.uri,
+          level: 0,
+          children: [],
+          frameworkType: 'angular',
+          signature: injection.source === 'inject' ? `inject(${injection.type})` : `${injection.name}: ${injection.type}`,
+          additionalInfo: {
+            isService: true,
+            type: injection.type,
+          },
+        })
+      })
+    }
+  }
+
+  /**
+   * 查找符号对应函数的圈复杂度与认知复杂度，非函数符号返回 undefined
+   */
+  private calculateComplexity(range: vscode.Range, document: vscode.TextDocument): FunctionComplexity | undefined {
+    return ComplexityAnalyzer.findFunction(ComplexityAnalyzer.analyzeDocument(document), range)
+  }
+
   /**
    * 当前搜索状态
    */
@@ -2299,7 +2738,7 @@ class FunctionItem extends vscode.TreeItem {
     const asyncInfo = details.additionalInfo?.isAsync ? 'async ' : ''
     const privateInfo = details.isPrivate ? '🔒 ' : ''
     const lifecycleInfo = details.isLifecycle ? '🔄 ' : ''
-    const complexityInfo = this.getComplexityIndicator(details.complexity || 1)
+    const complexityInfo = details.complexity ? this.getComplexityIndicator(details.complexity) : ''
 
     this.label = `${privateInfo}${lifecycleInfo}${asyncInfo}${details.name}${params}${typeInfo}`
 
@@ -2316,6 +2755,10 @@ class FunctionItem extends vscode.TreeItem {
     if (details.frameworkType === 'vue') {
       typeDescription = this.getVueSymbolTypeDescription(details)
     }
+    // Svelte / Angular 符号优先使用解析器给出的类型
+    else if (details.frameworkType === 'svelte' || details.frameworkType === 'angular') {
+      typeDescription = this.getComponentSymbolTypeDescription(details) || typeDescription
+    }
 
     this.description = `${typeDescription} • L:${details.range.start.line + 1} ${complexityInfo}`
 
@@ -2348,6 +2791,15 @@ class FunctionItem extends vscode.TreeItem {
           if (details.additionalInfo.dependencies?.length) {
             tooltip += `🔗 Dependencies: ${details.additionalInfo.dependencies.join(', ')}\n`
           }
+          else if (details.additionalInfo.dependencies) {
+            tooltip += `🔗 Dependencies: [] (仅在挂载时执行)\n`
+          }
+          if (details.additionalInfo.missingDependencies?.length) {
+            tooltip += `⚠️ Missing: ${details.additionalInfo.missingDependencies.join(', ')}\n`
+          }
+          if (details.additionalInfo.unnecessaryDependencies?.length) {
+            tooltip += `⚠️ Unnecessary: ${details.additionalInfo.unnecessaryDependencies.join(', ')}\n`
+          }
         }
         if (details.additionalInfo.isLifecycle) {
           tooltip += `🔄 React Lifecycle Method\n`
@@ -2388,6 +2840,62 @@ class FunctionItem extends vscode.TreeItem {
           tooltip += `🔄 Vue Lifecycle Hook\n`
         }
       }
+
+      // Svelte 特定信息
+      if (details.frameworkType === 'svelte' && details.additionalInfo) {
+        if (details.additionalInfo.isProp) {
+          tooltip += `📨 Svelte Prop${details.additionalInfo.isModel ? ' ($bindable)' : ''}\n`
+          if (details.additionalInfo.default)
+            tooltip += `  🔧 Default: ${details.additionalInfo.default}\n`
+          if (details.additionalInfo.type)
+            tooltip += `  🏷️ Type: ${details.additionalInfo.type}\n`
+        }
+        if (details.additionalInfo.isEmit) {
+          tooltip += `📨 Svelte Event\n`
+        }
+        if (details.additionalInfo.isReactive) {
+          tooltip += `💲 Reactive Statement\n`
+          if (details.additionalInfo.dependencies?.length) {
+            tooltip += `🔗 Dependencies: ${details.additionalInfo.dependencies.join(', ')}\n`
+          }
+        }
+        if (details.additionalInfo.isStore) {
+          tooltip += `🗃️ Store (${details.additionalInfo.storeType})\n`
+        }
+        if (details.additionalInfo.isComputed) {
+          tooltip += `⚙️ Svelte Derived\n`
+        }
+        else if (details.additionalInfo.isData) {
+          tooltip += `💾 Svelte State\n`
+        }
+        if (details.additionalInfo.isLifecycle) {
+          tooltip += `🔄 Svelte Lifecycle\n`
+        }
+      }
+
+      // Angular 特定信息
+      if (details.frameworkType === 'angular' && details.additionalInfo) {
+        if (details.additionalInfo.isComponent) {
+          tooltip += `🅰️ @${details.additionalInfo.decorator}\n`
+          if (details.additionalInfo.selector)
+            tooltip += `  🏷️ Selector: ${details.additionalInfo.selector}\n`
+        }
+        if (details.additionalInfo.isInput || details.additionalInfo.isOutput) {
+          tooltip += details.additionalInfo.isInput ? `📥 Angular Input\n` : `📤 Angular Output\n`
+          if (details.additionalInfo.alias)
+            tooltip += `  🔖 Alias: ${details.additionalInfo.alias}\n`
+          if (details.additionalInfo.required)
+            tooltip += `  ⚠️ Required\n`
+          if (details.additionalInfo.type)
+            tooltip += `  🏷️ Type: ${details.additionalInfo.type}\n`
+        }
+        if (details.additionalInfo.isService) {
+          tooltip += `💉 Injected: ${details.additionalInfo.type}\n`
+        }
+        if (details.additionalInfo.isLifecycle) {
+          tooltip += `🔄 Angular Lifecycle Hook\n`
+        }
+      }
     }
 
     // 显示层级信息
@@ -2399,7 +2907,13 @@ class FunctionItem extends vscode.TreeItem {
       tooltip += `🔗 Parent: ${details.parent.name}\n`
     }
 
-    tooltip += `🎯 Complexity: ${this.getComplexityName(details.complexity || 1)}\n`
+    if (details.complexity) {
+      tooltip += `🎯 Complexity: ${this.getComplexityName(details.complexity)}\n`
+    }
+    if (details.cognitiveComplexity !== undefined) {
+      tooltip += `  🔀 Cyclomatic: ${details.cyclomaticComplexity}\n`
+      tooltip += `  🧠 Cognitive: ${details.cognitiveComplexity} (threshold ${ComplexityAnalyzer.getThreshold()})\n`
+    }
 
     if (details.signature) {
       tooltip += `📝 ${details.signature}\n`
@@ -2537,6 +3051,22 @@ class FunctionItem extends vscode.TreeItem {
       case '🔧 Setup函数':
         return new vscode.ThemeIcon('symbol-function', new vscode.ThemeColor('charts.green'))
 
+      // Svelte 特定分组
+      case '💲 响应式语句':
+        return new vscode.ThemeIcon('symbol-operator', new vscode.ThemeColor('charts.orange'))
+      case '🗃️ Stores':
+        return new vscode.ThemeIcon('database', new vscode.ThemeColor('charts.orange'))
+
+      // Angular 特定分组
+      case '🅰️ Angular组件':
+        return new vscode.ThemeIcon('symbol-class', new vscode.ThemeColor('charts.red'))
+      case '📥 输入属性':
+        return new vscode.ThemeIcon('arrow-down', new vscode.ThemeColor('charts.red'))
+      case '📤 输出事件':
+        return new vscode.ThemeIcon('arrow-up', new vscode.ThemeColor('charts.red'))
+      case '💉 注入服务':
+        return new vscode.ThemeIcon('plug', new vscode.ThemeColor('charts.red'))
+
       // 通用分组 - 使用新的中文名称
       case '🏛️ 类定义':
         return new vscode.ThemeIcon('symbol-class', new vscode.ThemeColor('symbolIcon.classForeground'))
@@ -2612,6 +3142,38 @@ class FunctionItem extends vscode.TreeItem {
         color = new vscode.ThemeColor('charts.green')
       }
     }
+    // Svelte 特定图标逻辑
+    else if (details.frameworkType === 'svelte' && details.additionalInfo && !details.customKind) {
+      color = new vscode.ThemeColor(details.additionalInfo.isLifecycle ? 'charts.orange' : 'charts.yellow')
+      if (details.additionalInfo.isReactive)
+        iconName = 'symbol-operator'
+      else if (details.additionalInfo.isStore)
+        iconName = 'database'
+      else if (details.additionalInfo.isComputed)
+        iconName = 'gear'
+      else if (details.additionalInfo.isProp)
+        iconName = 'symbol-parameter'
+      else if (details.additionalInfo.isEmit || details.additionalInfo.isLifecycle)
+        iconName = 'symbol-event'
+      else
+        iconName = this.getDefaultIconForFramework(details, 'svelte')
+    }
+    // Angular 特定图标逻辑
+    else if (details.frameworkType === 'angular' && details.additionalInfo && !details.customKind) {
+      color = new vscode.ThemeColor(details.additionalInfo.isLifecycle ? 'charts.orange' : 'charts.red')
+      if (details.additionalInfo.isComponent)
+        iconName = 'symbol-class'
+      else if (details.additionalInfo.isInput)
+        iconName = 'arrow-down'
+      else if (details.additionalInfo.isOutput)
+        iconName = 'arrow-up'
+      else if (details.additionalInfo.isService)
+        iconName = 'plug'
+      else if (details.additionalInfo.isLifecycle)
+        iconName = 'symbol-event'
+      else
+        iconName = this.getDefaultIconForFramework(details, 'angular')
+    }
     // 优先使用自定义符号类型图标
     else if (details.customKind) {
       iconName = this.getIconNameForCustomKind(details.customKind)
@@ -2661,7 +3223,7 @@ class FunctionItem extends vscode.TreeItem {
     return new vscode.ThemeIcon(iconName, color)
   }
 
-  private getDefaultIconForFramework(details: FunctionDetails, _framework: 'react' | 'vue'): string {
+  private getDefaultIconForFramework(details: FunctionDetails, _framework: 'react' | 'vue' | 'svelte' | 'angular'): string {
     // 根据符号类型和框架返回合适的图标
     if (details.kind === vscode.SymbolKind.Function) {
       return 'symbol-function'
@@ -2803,6 +3365,40 @@ class FunctionItem extends vscode.TreeItem {
     return this.getChineseKindDisplayName(details.kind)
   }
 
+  /**
+   * Svelte / Angular 符号的中文类型，无法识别时返回 undefined
+   */
+  private getComponentSymbolTypeDescription(details: FunctionDetails): string | undefined {
+    const info = details.additionalInfo
+    if (!info)
+      return undefined
+    if (info.isComponent)
+      return `@${info.decorator}`
+    if (info.isInput)
+      return '输入属性'
+    if (info.isOutput)
+      return '输出事件'
+    if (info.isService)
+      return '注入服务'
+    if (info.isReactive)
+      return '响应式语句'
+    if (info.isStore)
+      return 'Store'
+    if (info.isEmit)
+      return '组件事件'
+    if (info.isProp)
+      return '组件属性'
+    if (info.isComputed)
+      return '计算属性'
+    if (info.isData)
+      return '响应式数据'
+    if (info.isLifecycle || details.isLifecycle)
+      return '生命周期'
+    if (info.isMethod)
+      return '方法'
+    return undefined
+  }
+
   /**
    * 获取自定义符号类型的中文显示名称
    */
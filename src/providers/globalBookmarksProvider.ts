@@ -1,21 +1,44 @@
-import type { BookmarkProvider } from './bookmarkProvider.js'
+import type { EnhancedBookmarkManager } from '../services/enhancedBookmarkManager.js'
+import type { SharedBookmarkStore } from '../services/sharedBookmarkStore.js'
+import type { EnhancedBookmark } from '../types/bookmarks.js'
 import * as vscode from 'vscode'
 
+const DRAG_MIME_TYPE = 'application/vnd.code.tree.ccoding.globalbookmarks'
+
+type GlobalBookmarksGroupBy = 'file' | 'type' | 'time' | 'folder'
+
 /**
  * 全局书签管理 Provider
- * 显示所有文件的书签，支持跨文件管理
+ * 显示所有文件的书签，支持跨文件管理；按文件夹分组时支持拖放整理
  */
-export class GlobalBookmarksProvider implements vscode.TreeDataProvider<BookmarkTreeItem> {
+export class GlobalBookmarksProvider implements vscode.TreeDataProvider<BookmarkTreeItem>, vscode.TreeDragAndDropController<BookmarkTreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<BookmarkTreeItem | undefined | null | void>()
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event
 
-  private groupBy: 'file' | 'type' | 'time' = 'file'
+  readonly dragMimeTypes = [DRAG_MIME_TYPE]
+  readonly dropMimeTypes = [DRAG_MIME_TYPE]
+
+  private groupBy: GlobalBookmarksGroupBy = 'file'
   private searchQuery = ''
 
   constructor(
     private context: vscode.ExtensionContext,
-    private bookmarkProvider: BookmarkProvider,
-  ) {}
+    private bookmarkManager: EnhancedBookmarkManager,
+    private sharedBookmarkStore: SharedBookmarkStore,
+  ) {
+    this.context.subscriptions.push(
+      this.bookmarkManager.onDidChangeBookmarks(() => this.refresh()),
+      this.sharedBookmarkStore.onDidChangeBookmarks(() => this.refresh()),
+    )
+
+    // 存在临时书签时每分钟刷新一次，更新剩余时间
+    const countdownTimer = setInterval(() => {
+      if (this.bookmarkManager.getAllBookmarks().some(bookmark => bookmark.isTemporary && !bookmark.isArchived)) {
+        this.refresh()
+      }
+    }, 60 * 1000)
+    this.context.subscriptions.push({ dispose: () => clearInterval(countdownTimer) })
+  }
 
   getTreeItem(element: BookmarkTreeItem): vscode.TreeItem {
     return element
@@ -35,18 +58,24 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
 
   private async getRootItems(): Promise<BookmarkTreeItem[]> {
     try {
-      // 从全局状态获取所有书签
+      // 合并私有书签与工作区共享书签
       const allBookmarks = await this.getAllBookmarks()
+      const archivedBookmarks = this.bookmarkManager.getAllBookmarks().filter(bookmark => bookmark.isArchived)
 
-      if (allBookmarks.length === 0) {
+      if (allBookmarks.length === 0 && archivedBookmarks.length === 0) {
         return [this.createEmptyItem()]
       }
 
       // 应用搜索过滤
       const filteredBookmarks = this.applySearch(allBookmarks)
 
-      // 按选择的方式分组
-      return this.groupBookmarks(filteredBookmarks)
+      // 按选择的方式分组，过期归档的临时书签单独放在末尾
+      const items = this.groupBookmarks(filteredBookmarks)
+      const archivedGroup = this.createArchivedGroup(this.applySearch(archivedBookmarks))
+      if (archivedGroup) {
+        items.push(archivedGroup)
+      }
+      return items
     }
     catch (error) {
       console.error('[GlobalBookmarksProvider] 获取书签失败:', error)
@@ -54,15 +83,43 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
     }
   }
 
-  private async getAllBookmarks(): Promise<any[]> {
-    const saved = this.context.globalState.get<any[]>('CCoding.bookmarks', [])
-    return saved.filter((bookmark) => {
-      // 验证书签数据完整性
-      return bookmark && bookmark.id && bookmark.label && bookmark.uri && bookmark.range
-    })
+  private async getAllBookmarks(): Promise<EnhancedBookmark[]> {
+    const merged = new Map<string, EnhancedBookmark>()
+
+    // 同一ID同时存在时以共享文件为准
+    for (const bookmark of this.bookmarkManager.getAllBookmarks()) {
+      merged.set(bookmark.id, bookmark)
+    }
+    for (const bookmark of this.sharedBookmarkStore.getAllBookmarks()) {
+      merged.set(bookmark.id, bookmark)
+    }
+
+    return Array.from(merged.values()).filter(bookmark => !bookmark.isArchived && !bookmark.isFolder)
   }
 
-  private applySearch(bookmarks: any[]): any[] {
+  /**
+   * 创建已归档分组，可从中恢复或转为永久书签
+   * @param bookmarks 已归档的书签
+   */
+  private createArchivedGroup(bookmarks: EnhancedBookmark[]): BookmarkTreeItem | undefined {
+    if (bookmarks.length === 0) {
+      return undefined
+    }
+
+    const children = bookmarks
+      .sort((a, b) => (b.expiresAt?.getTime() ?? 0) - (a.expiresAt?.getTime() ?? 0))
+      .map(bookmark => this.createBookmarkItem(bookmark))
+
+    return new BookmarkTreeItem(
+      `🗄️ 已归档 (${bookmarks.length})`,
+      true,
+      children,
+      new vscode.ThemeIcon('archive'),
+      vscode.TreeItemCollapsibleState.Collapsed,
+    )
+  }
+
+  private applySearch(bookmarks: EnhancedBookmark[]): EnhancedBookmark[] {
     if (!this.searchQuery) {
       return bookmarks
     }
@@ -71,11 +128,12 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
     return bookmarks.filter(bookmark =>
       bookmark.label.toLowerCase().includes(query)
       || (bookmark.description && bookmark.description.toLowerCase().includes(query))
-      || this.getRelativePath(bookmark.uri).toLowerCase().includes(query),
+      || this.getRelativePath(bookmark.uri).toLowerCase().includes(query)
+      || bookmark.comments.some(comment => comment.content.toLowerCase().includes(query)),
     )
   }
 
-  private groupBookmarks(bookmarks: any[]): BookmarkTreeItem[] {
+  private groupBookmarks(bookmarks: EnhancedBookmark[]): BookmarkTreeItem[] {
     switch (this.groupBy) {
       case 'file':
         return this.groupByFile(bookmarks)
@@ -83,13 +141,15 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
         return this.groupByType(bookmarks)
       case 'time':
         return this.groupByTime(bookmarks)
+      case 'folder':
+        return this.groupByFolder(bookmarks)
       default:
         return this.groupByFile(bookmarks)
     }
   }
 
-  private groupByFile(bookmarks: any[]): BookmarkTreeItem[] {
-    const groups = new Map<string, any[]>()
+  private groupByFile(bookmarks: EnhancedBookmark[]): BookmarkTreeItem[] {
+    const groups = new Map<string, EnhancedBookmark[]>()
 
     bookmarks.forEach((bookmark) => {
       const filePath = this.getRelativePath(bookmark.uri)
@@ -118,8 +178,8 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
     })
   }
 
-  private groupByType(bookmarks: any[]): BookmarkTreeItem[] {
-    const groups = new Map<string, any[]>()
+  private groupByType(bookmarks: EnhancedBookmark[]): BookmarkTreeItem[] {
+    const groups = new Map<string, EnhancedBookmark[]>()
 
     bookmarks.forEach((bookmark) => {
       // 根据描述或标签推断类型
@@ -149,9 +209,9 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
     })
   }
 
-  private groupByTime(bookmarks: any[]): BookmarkTreeItem[] {
+  private groupByTime(bookmarks: EnhancedBookmark[]): BookmarkTreeItem[] {
     const now = Date.now()
-    const groups = new Map<string, any[]>([
+    const groups = new Map<string, EnhancedBookmark[]>([
       ['今天', []],
       ['昨天', []],
       ['本周', []],
@@ -204,7 +264,57 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
       })
   }
 
-  private inferBookmarkType(bookmark: any): string {
+  /**
+   * 按用户自定义文件夹显示
+   * 搜索时只保留包含匹配书签的文件夹
+   */
+  private groupByFolder(bookmarks: EnhancedBookmark[]): BookmarkTreeItem[] {
+    const visibleIds = new Set(bookmarks.map(bookmark => bookmark.id))
+
+    const build = (folderId?: string): BookmarkTreeItem[] => {
+      const items: BookmarkTreeItem[] = []
+      for (const child of this.bookmarkManager.getFolderChildren(folderId)) {
+        if (child.isFolder) {
+          const children = build(child.id)
+          if (!this.searchQuery || children.length > 0) {
+            items.push(this.createFolderItem(child, children))
+          }
+        }
+        else if (visibleIds.has(child.id)) {
+          items.push(this.createBookmarkItem(child))
+        }
+      }
+      return items
+    }
+
+    const rootItems = build()
+
+    // 共享书签不参与私有文件夹层级，显示在根目录末尾
+    const sharedItems = bookmarks
+      .filter(bookmark => bookmark.isShared)
+      .map(bookmark => this.createBookmarkItem(bookmark))
+
+    return [...rootItems, ...sharedItems]
+  }
+
+  private createFolderItem(folder: EnhancedBookmark, children: BookmarkTreeItem[]): BookmarkTreeItem {
+    const item = new BookmarkTreeItem(
+      folder.label,
+      true,
+      children,
+      new vscode.ThemeIcon('folder'),
+      children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None,
+      folder,
+    )
+
+    const count = this.bookmarkManager.getFolderBookmarks(folder.id).length
+    item.description = `${count} 个书签`
+    item.tooltip = folder.description ? `${folder.label}\n${folder.description}` : folder.label
+    item.contextValue = 'globalBookmarkFolder'
+    return item
+  }
+
+  private inferBookmarkType(bookmark: EnhancedBookmark): string {
     const text = `${bookmark.label} ${bookmark.description || ''}`.toLowerCase()
 
     if (text.includes('bug') || text.includes('问题') || text.includes('错误')) {
@@ -254,12 +364,18 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
     return 'bookmark'
   }
 
-  private createBookmarkItem(bookmark: any): BookmarkTreeItem {
+  private createBookmarkItem(bookmark: EnhancedBookmark): BookmarkTreeItem {
     const item = new BookmarkTreeItem(
       bookmark.label,
       false,
       [],
-      new vscode.ThemeIcon('bookmark', new vscode.ThemeColor('charts.blue')),
+      bookmark.isShared
+        ? new vscode.ThemeIcon('organization', new vscode.ThemeColor('charts.green'))
+        : bookmark.isArchived
+          ? new vscode.ThemeIcon('archive', new vscode.ThemeColor('disabledForeground'))
+          : bookmark.isTemporary
+            ? new vscode.ThemeIcon('watch', new vscode.ThemeColor('charts.orange'))
+            : new vscode.ThemeIcon('bookmark', new vscode.ThemeColor('charts.blue')),
       vscode.TreeItemCollapsibleState.None,
       bookmark,
     )
@@ -267,30 +383,32 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
     // 设置描述和工具提示
     const filePath = this.getRelativePath(bookmark.uri)
     item.description = `${filePath}:${bookmark.range.start.line + 1}`
+    if (bookmark.isArchived && bookmark.expiresAt) {
+      item.description += ` · ${bookmark.expiresAt.toLocaleString('zh-CN')} 过期`
+    }
+    else if (bookmark.isTemporary && bookmark.expiresAt) {
+      item.description += ` ⏳ ${this.formatRemaining(bookmark.expiresAt)}`
+    }
     item.tooltip = this.createTooltip(bookmark)
 
     // 设置上下文值用于菜单
-    item.contextValue = 'globalBookmark'
+    item.contextValue = bookmark.isShared
+      ? 'globalBookmark-shared'
+      : bookmark.isArchived
+        ? 'globalBookmark-archived'
+        : bookmark.isTemporary ? 'globalBookmark-temporary' : 'globalBookmark'
 
     // 设置点击命令
     item.command = {
-      command: 'vscode.open',
+      command: 'CCoding.openBookmark',
       title: 'Open',
-      arguments: [
-        bookmark.uri,
-        {
-          selection: new vscode.Range(
-            bookmark.range.start,
-            bookmark.range.start,
-          ),
-        },
-      ],
+      arguments: [bookmark.id],
     }
 
     return item
   }
 
-  private createTooltip(bookmark: any): string {
+  private createTooltip(bookmark: EnhancedBookmark): string {
     let tooltip = `**${bookmark.label}**\n\n`
     tooltip += `📁 ${this.getRelativePath(bookmark.uri)}:${bookmark.range.start.line + 1}\n`
 
@@ -300,9 +418,42 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
 
     tooltip += `🕒 ${this.formatTimestamp(bookmark.timestamp)}\n`
 
+    if (bookmark.isShared) {
+      tooltip += `👥 共享书签${bookmark.author ? ` · ${bookmark.author}` : ''}\n`
+    }
+
+    if (bookmark.comments.length > 0) {
+      const unresolved = bookmark.comments.filter(comment => !comment.isResolved).length
+      tooltip += `💬 ${bookmark.comments.length} 条注释${unresolved > 0 ? `（${unresolved} 条未解决）` : ''}\n`
+    }
+
+    if (bookmark.isArchived && bookmark.expiresAt) {
+      tooltip += `🗄️ 临时书签已于 ${bookmark.expiresAt.toLocaleString('zh-CN')} 过期归档\n`
+    }
+    else if (bookmark.isTemporary && bookmark.expiresAt) {
+      tooltip += `⏳ 临时书签，${this.formatRemaining(bookmark.expiresAt)}后过期（${bookmark.expiresAt.toLocaleString('zh-CN')}）\n`
+    }
+
     return tooltip
   }
 
+  /**
+   * 格式化临时书签的剩余时间
+   */
+  private formatRemaining(expiresAt: Date): string {
+    const minutes = Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / (60 * 1000)))
+    if (minutes < 60) {
+      return `${minutes} 分钟`
+    }
+
+    const hours = Math.floor(minutes / 60)
+    if (hours < 24) {
+      return `${hours} 小时 ${minutes % 60} 分钟`
+    }
+
+    return `${Math.floor(hours / 24)} 天 ${hours % 24} 小时`
+  }
+
   private createEmptyItem(): BookmarkTreeItem {
     const message = this.searchQuery
       ? `没有找到匹配 "${this.searchQuery}" 的书签`
@@ -338,7 +489,7 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
   /**
    * 设置分组方式
    */
-  public setGroupBy(groupBy: 'file' | 'type' | 'time'): void {
+  public setGroupBy(groupBy: GlobalBookmarksGroupBy): void {
     if (this.groupBy !== groupBy) {
       this.groupBy = groupBy
       console.log(`[GlobalBookmarksProvider] 切换分组方式: ${groupBy}`)
@@ -366,15 +517,194 @@ export class GlobalBookmarksProvider implements vscode.TreeDataProvider<Bookmark
     }
   }
 
+  /**
+   * 拖动书签或文件夹
+   */
+  handleDrag(source: readonly BookmarkTreeItem[], dataTransfer: vscode.DataTransfer): void {
+    const ids = source.filter(item => item.bookmark).map(item => item.bookmark!.id)
+    if (ids.length > 0) {
+      dataTransfer.set(DRAG_MIME_TYPE, new vscode.DataTransferItem(ids))
+    }
+  }
+
+  /**
+   * 放置到文件夹中，或放置到书签上以排在该书签之前
+   */
+  async handleDrop(target: BookmarkTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    const ids = dataTransfer.get(DRAG_MIME_TYPE)?.value as string[] | undefined
+    if (!ids || ids.length === 0)
+      return
+
+    if (this.groupBy !== 'folder') {
+      vscode.window.showInformationMessage('切换到"按文件夹分组"后可以拖放整理书签')
+      return
+    }
+
+    let folderId: string | undefined
+    let beforeId: string | undefined
+    if (target?.bookmark?.isFolder) {
+      folderId = target.bookmark.id
+    }
+    else if (target?.bookmark) {
+      folderId = target.bookmark.parentBookmark
+      beforeId = target.bookmark.id
+    }
+    else if (target) {
+      return
+    }
+
+    for (const id of ids) {
+      if (this.sharedBookmarkStore.getBookmark(id)) {
+        vscode.window.showWarningMessage('共享书签不能放入私有文件夹')
+        continue
+      }
+      try {
+        await this.bookmarkManager.moveBookmark(id, folderId, beforeId)
+      }
+      catch (error) {
+        vscode.window.showWarningMessage(`移动书签失败: ${error}`)
+      }
+    }
+  }
+
+  /**
+   * 新建文件夹
+   * @param parentId 父文件夹ID，省略时创建在根目录
+   */
+  public async createFolder(parentId?: string): Promise<void> {
+    const name = await vscode.window.showInputBox({
+      prompt: '输入文件夹名称',
+      placeHolder: '例如：登录流程、待重构',
+      validateInput: (value: string) => value.trim().length === 0 ? '文件夹名称不能为空' : null,
+    })
+    if (!name)
+      return
+
+    await this.bookmarkManager.createFolder(name.trim(), parentId)
+    this.setGroupBy('folder')
+  }
+
+  /**
+   * 重命名文件夹
+   */
+  public async renameFolder(folderId: string): Promise<void> {
+    const folder = this.bookmarkManager.getBookmark(folderId)
+    if (!folder?.isFolder)
+      return
+
+    const name = await vscode.window.showInputBox({
+      prompt: '重命名文件夹',
+      value: folder.label,
+      validateInput: (value: string) => value.trim().length === 0 ? '文件夹名称不能为空' : null,
+    })
+    if (name && name.trim() !== folder.label) {
+      await this.bookmarkManager.updateBookmark(folderId, { label: name.trim() })
+    }
+  }
+
+  /**
+   * 选择目标文件夹并移动书签或文件夹
+   */
+  public async moveToFolder(bookmarkId: string): Promise<void> {
+    if (this.sharedBookmarkStore.getBookmark(bookmarkId)) {
+      vscode.window.showWarningMessage('共享书签不能放入私有文件夹')
+      return
+    }
+
+    const bookmark = this.bookmarkManager.getBookmark(bookmarkId)
+    if (!bookmark)
+      return
+
+    // 排除自身及其子文件夹
+    const excluded = new Set([bookmarkId, ...this.bookmarkManager.getFolderBookmarks(bookmarkId, true).map(b => b.id)])
+    const folders = this.bookmarkManager.getFolders().filter(folder => !excluded.has(folder.id))
+
+    const items: Array<vscode.QuickPickItem & { folderId?: string }> = [
+      { label: '$(root-folder) 根目录', folderId: undefined },
+      ...folders
+        .map(folder => ({ label: `$(folder) ${this.getFolderPath(folder)}`, folderId: folder.id }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    ]
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: `将 "${bookmark.label}" 移动到...` })
+    if (!selected)
+      return
+
+    try {
+      await this.bookmarkManager.moveBookmark(bookmarkId, selected.folderId)
+      this.setGroupBy('folder')
+    }
+    catch (error) {
+      vscode.window.showWarningMessage(`移动书签失败: ${error}`)
+    }
+  }
+
+  /**
+   * 打开文件夹中的所有书签
+   */
+  public async openFolder(folderId: string): Promise<void> {
+    const bookmarks = this.bookmarkManager.getFolderBookmarks(folderId).filter(bookmark => !bookmark.isArchived)
+    if (bookmarks.length === 0) {
+      vscode.window.showInformationMessage('文件夹中没有书签')
+      return
+    }
+
+    for (const bookmark of bookmarks) {
+      try {
+        await vscode.window.showTextDocument(bookmark.uri, {
+          preview: false,
+          preserveFocus: true,
+          selection: new vscode.Range(bookmark.range.start, bookmark.range.start),
+        })
+      }
+      catch (error) {
+        console.error(`[GlobalBookmarksProvider] 打开书签失败: ${bookmark.label}`, error)
+      }
+    }
+  }
+
+  /**
+   * 删除文件夹，询问是否保留其中的书签
+   */
+  public async deleteFolder(folderId: string): Promise<void> {
+    const folder = this.bookmarkManager.getBookmark(folderId)
+    if (!folder?.isFolder)
+      return
+
+    const count = this.bookmarkManager.getFolderBookmarks(folderId).length
+    const keep = '删除文件夹，保留书签'
+    const removeAll = '删除文件夹和其中的书签'
+    const choice = count === 0
+      ? keep
+      : await vscode.window.showWarningMessage(
+          `文件夹 "${folder.label}" 中有 ${count} 个书签`,
+          { modal: true },
+          keep,
+          removeAll,
+        )
+    if (!choice)
+      return
+
+    await this.bookmarkManager.deleteFolder(folderId, choice === removeAll)
+  }
+
+  private getFolderPath(folder: EnhancedBookmark): string {
+    const names: string[] = []
+    for (let current: EnhancedBookmark | undefined = folder; current; current = current.parentBookmark ? this.bookmarkManager.getBookmark(current.parentBookmark) : undefined) {
+      names.unshift(current.label)
+    }
+    return names.join(' / ')
+  }
+
   /**
    * 删除书签
    */
   public async deleteBookmark(bookmarkId: string): Promise<void> {
-    const bookmarks = this.context.globalState.get<any[]>('CCoding.bookmarks', [])
-    const updatedBookmarks = bookmarks.filter(b => b.id !== bookmarkId)
-    await this.context.globalState.update('CCoding.bookmarks', updatedBookmarks)
-    this.bookmarkProvider.refresh()
-    this.refresh()
+    if (this.sharedBookmarkStore.getBookmark(bookmarkId)) {
+      await this.sharedBookmarkStore.deleteBookmark(bookmarkId)
+      return
+    }
+    await this.bookmarkManager.deleteBookmark(bookmarkId)
   }
 
   private getRelativePath(uri: vscode.Uri | string): string {
@@ -427,7 +757,7 @@ class BookmarkTreeItem extends vscode.TreeItem {
     public readonly children: BookmarkTreeItem[],
     public readonly iconPath: vscode.ThemeIcon,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-    public readonly bookmark?: any,
+    public readonly bookmark?: EnhancedBookmark,
   ) {
     super(name, collapsibleState)
     this.contextValue = isGroup ? 'globalBookmarkGroup' : 'globalBookmark'
@@ -1,4 +1,22 @@
+import type { BlameInfo } from '../services/gitBlameService.js'
+import type { TodoHistoryRecord, TodoHistoryService, TodoScanCoverage, TodoSnapshot } from '../services/todoHistoryService.js'
+import type { TodoMetadata } from '../services/todoScanner.js'
 import * as vscode from 'vscode'
+import { GitBlameService } from '../services/gitBlameService.js'
+import { describeTodoMetadata, isTodoOverdue, TodoScanner } from '../services/todoScanner.js'
+
+export type GlobalTodoGroupBy = 'file' | 'type' | 'priority' | 'assignee' | 'dueDate' | 'author' | 'age'
+
+const UNASSIGNED = '未指派'
+const UNCOMMITTED = '未提交'
+const UNKNOWN_AUTHOR = '未知作者'
+const DAY_MS = 24 * 60 * 60 * 1000
+// 每种文件模式最多扫描的文件数量
+const MAX_SCAN_FILES = 1000
+// 最近解决分组和趋势图覆盖的天数
+const RESOLVED_DAYS = 14
+const TREND_DAYS = 14
+const SPARK_CHARS = '▁▂▃▄▅▆▇█'
 
 /**
  * 全局待办事项 Provider
@@ -9,9 +27,14 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
   private _onDidChangeTreeData = new vscode.EventEmitter<TodoTreeItem | undefined | null | void>()
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event
 
-  private groupBy: 'file' | 'type' | 'priority' = 'type'
+  private groupBy: GlobalTodoGroupBy = 'type'
   private searchQuery = ''
-  private includedTypes: Set<string> = new Set(['TODO', 'FIXME', 'NOTE', 'BUG', 'HACK'])
+  // 只显示 git blame 时间早于该天数的待办
+  private staleDays: number | undefined
+  private includedTypes: Set<string> = new Set()
+  // 已知的全部标签，用于识别新出现的标签
+  private knownTypes: Set<string> = new Set()
+  private scanner = TodoScanner.getInstance()
 
   // 缓存相关
   private todoCache = new Map<string, any[]>() // 文件URI -> TODO数组
@@ -19,7 +42,10 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
   private isScanning = false
   private scanProgress: vscode.Progress<{ message?: string, increment?: number }> | undefined
 
-  constructor() {
+  constructor(
+    private blameService: GitBlameService,
+    private historyService: TodoHistoryService,
+  ) {
     // 监听配置变化
     vscode.workspace.onDidChangeConfiguration((e) => {
       if (e.affectsConfiguration('CCoding.todos') || e.affectsConfiguration('CCoding.search')) {
@@ -37,6 +63,18 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
       this.handleDocumentChange(document)
     })
 
+    // 自定义正则匹配到新标签后加入包含的类型并重新扫描
+    this.scanner.onDidChange(() => {
+      const added = this.scanner.getTags().filter(tag => !this.knownTypes.has(tag.name))
+      if (added.length > 0) {
+        added.forEach((tag) => {
+          this.knownTypes.add(tag.name)
+          this.includedTypes.add(tag.name)
+        })
+        this.clearCacheAndRefresh()
+      }
+    })
+
     // 初始化配置
     this.updateConfiguration()
   }
@@ -65,17 +103,27 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
       }
 
       // 扫描工作区中的所有TODO项目（带缓存）
-      const allTodos = await this.scanAllTodosWithCache()
+      const { todos: allTodos, coverage, hasFreshContent } = await this.scanAllTodosWithCache()
+      this.applyHistory(allTodos, coverage, hasFreshContent)
 
       if (allTodos.length === 0) {
-        return [this.createEmptyItem()]
+        const resolvedGroup = this.createResolvedGroup()
+        return resolvedGroup ? [this.createEmptyItem(), resolvedGroup] : [this.createEmptyItem()]
       }
 
-      // 应用搜索过滤
-      const filteredTodos = this.applySearch(allTodos)
+      // 应用搜索和过期过滤
+      const filteredTodos = this.applyStaleFilter(this.applySearch(allTodos))
+      if (filteredTodos.length === 0 && this.staleDays) {
+        return [this.createEmptyItem()]
+      }
 
-      // 按选择的方式分组
-      return this.groupTodos(filteredTodos)
+      // 按选择的方式分组，未搜索和过滤时附加趋势和最近解决
+      const groups = this.groupTodos(filteredTodos)
+      if (this.searchQuery || this.staleDays) {
+        return groups
+      }
+      const resolvedGroup = this.createResolvedGroup()
+      return [this.createTrendItem(allTodos.length), ...groups, ...(resolvedGroup ? [resolvedGroup] : [])]
     }
     catch (error) {
       console.error('[GlobalTodosProvider] 获取TODO失败:', error)
@@ -87,9 +135,8 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
    * 更新配置
    */
   private updateConfiguration(): void {
-    const config = vscode.workspace.getConfiguration('CCoding.todos')
-    const enabledTypes = config.get<string[]>('enabledTypes', ['TODO', 'FIXME', 'NOTE', 'BUG', 'HACK'])
-    this.includedTypes = new Set(enabledTypes.map(t => t.toUpperCase()))
+    this.includedTypes = new Set(this.scanner.getTags().map(tag => tag.name))
+    this.knownTypes = new Set(this.includedTypes)
     console.log('[GlobalTodosProvider] 更新配置，启用类型:', Array.from(this.includedTypes))
   }
 
@@ -117,9 +164,9 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
   private changeTimeout: NodeJS.Timeout | undefined
 
   /**
-   * 清除缓存并刷新
+   * 清除缓存并刷新，重新扫描全部文件
    */
-  private clearCacheAndRefresh(): void {
+  public clearCacheAndRefresh(): void {
     this.todoCache.clear()
     this.lastScanTime.clear()
     console.log('[GlobalTodosProvider] 清除缓存并刷新')
@@ -129,16 +176,22 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
   /**
    * 带缓存的扫描所有TODO项目
    */
-  private async scanAllTodosWithCache(): Promise<any[]> {
+  private async scanAllTodosWithCache(): Promise<{ todos: any[], coverage: TodoScanCoverage, hasFreshContent: boolean }> {
     const todos: any[] = []
+    const coverage: TodoScanCoverage = { scannedFiles: new Set(), skippedFiles: new Set(), complete: true }
+    // 本次是否从磁盘读取了已保存的新内容
+    let hasFreshContent = false
 
     // 获取工作区文件
     const workspaceFolders = vscode.workspace.workspaceFolders
     if (!workspaceFolders) {
-      return todos
+      return { todos, coverage, hasFreshContent }
     }
 
     this.isScanning = true
+    const dirtyDocuments = new Map(vscode.workspace.textDocuments
+      .filter(document => document.isDirty)
+      .map(document => [document.uri.toString(), document]))
 
     try {
       const excludePatterns = this.getExcludePatterns()
@@ -151,13 +204,25 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
         const files = await vscode.workspace.findFiles(
           pattern,
           `{${excludePatterns.join(',')}}`,
-          1000, // 限制文件数量
+          MAX_SCAN_FILES,
         )
+        if (files.length >= MAX_SCAN_FILES) {
+          coverage.complete = false
+        }
 
         for (const fileUri of files) {
           const uriString = fileUri.toString()
+          const filePath = this.getRelativePath(fileUri)
 
           try {
+            // 有未保存修改的文件直接扫描编辑器中的内容，不写入缓存
+            const dirtyDocument = dirtyDocuments.get(uriString)
+            if (dirtyDocument) {
+              coverage.skippedFiles.add(filePath)
+              todos.push(...this.scanTodosInDocument(dirtyDocument))
+              continue
+            }
+
             // 检查缓存是否有效
             const cachedTodos = this.todoCache.get(uriString)
             const lastScan = this.lastScanTime.get(uriString)
@@ -165,6 +230,7 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
 
             if (cachedTodos && lastScan && lastScan >= fileStats.mtime) {
               // 使用缓存
+              coverage.scannedFiles.add(filePath)
               todos.push(...cachedTodos)
               continue
             }
@@ -172,27 +238,34 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
             // 重新扫描文件
             const document = await vscode.workspace.openTextDocument(fileUri)
             const fileTodos = this.scanTodosInDocument(document)
+            if (fileTodos.length > 0 && GitBlameService.isEnabled()) {
+              await this.annotateWithBlame(document, fileTodos)
+            }
 
             // 更新缓存
             this.todoCache.set(uriString, fileTodos)
             this.lastScanTime.set(uriString, Date.now())
 
+            coverage.scannedFiles.add(filePath)
+            hasFreshContent = true
             todos.push(...fileTodos)
           }
           catch (error) {
+            coverage.skippedFiles.add(filePath)
             console.warn(`[GlobalTodosProvider] 无法读取文件 ${fileUri.fsPath}:`, error)
           }
         }
       }
     }
     catch (error) {
+      coverage.complete = false
       console.error('[GlobalTodosProvider] 扫描文件失败:', error)
     }
     finally {
       this.isScanning = false
     }
 
-    return todos
+    return { todos, coverage, hasFreshContent }
   }
 
   /**
@@ -280,48 +353,145 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
   }
 
   private scanTodosInDocument(document: vscode.TextDocument): any[] {
-    const todos: any[] = []
+    return this.scanner.scanDocument(document)
+      // 只包含启用的类型
+      .filter(match => this.includedTypes.has(match.type))
+      .map(match => ({
+        id: `${document.uri.toString()}-${match.line}-${match.range.start.character}`,
+        type: match.type,
+        text: match.text,
+        uri: document.uri,
+        range: match.range,
+        timestamp: Date.now(),
+        filePath: this.getRelativePath(document.uri),
+        metadata: match.metadata,
+        priority: this.inferPriority(match.type, match.text, match.metadata),
+      }))
+  }
+
+  /**
+   * 与历史记录对比，为待办分配稳定的 id
+   * 只有读取到已保存的新内容时才记录新增、解决和移动，未保存的内容只查找已有记录
+   * @param todos 本次扫描到的全部待办
+   * @param coverage 本次扫描覆盖的文件范围
+   * @param record 是否更新历史
+   */
+  private applyHistory(todos: any[], coverage: TodoScanCoverage, record: boolean): void {
+    // 没有打开工作区时扫描结果为空，不能据此把历史中的待办标记为已解决
+    if (!vscode.workspace.workspaceFolders) {
+      return
+    }
 
-    // 支持多种TODO格式的正则表达式
-    const todoRegex = /(?:\/\/\s*|\/\*\s*|#\s*|<!--\s*)?(TODO|FIXME|NOTE|BUG|HACK)(?:\s*[:：]\s*(?:\d+\.\s*)?)?(.+)/gi
+    const toSnapshot = (todo: any): TodoSnapshot => ({
+      type: todo.type,
+      text: todo.text,
+      uri: todo.uri,
+      filePath: todo.filePath,
+      line: todo.range.start.line,
+    })
+    const assign = (todo: any, history: TodoHistoryRecord | undefined): void => {
+      if (history) {
+        todo.id = history.id
+        todo.history = history
+      }
+    }
 
-    for (let i = 0; i < document.lineCount; i++) {
-      const line = document.lineAt(i)
-      const lineText = line.text.trim()
+    const saved = todos.filter(todo => !coverage.skippedFiles.has(todo.filePath))
+    const unsaved = todos.filter(todo => coverage.skippedFiles.has(todo.filePath))
 
-      if (!lineText)
-        continue
+    const savedRecords = record
+      ? this.historyService.update(saved.map(toSnapshot), coverage)
+      : this.historyService.lookup(saved.map(toSnapshot))
+    saved.forEach((todo, index) => assign(todo, savedRecords[index]))
 
-      const matches = [...lineText.matchAll(todoRegex)]
+    const unsavedRecords = this.historyService.lookup(unsaved.map(toSnapshot))
+    unsaved.forEach((todo, index) => assign(todo, unsavedRecords[index]))
+  }
 
-      for (const match of matches) {
-        const [fullMatch, type, text] = match
-        const startPos = line.text.indexOf(fullMatch)
+  private createTrendItem(openCount: number): TodoTreeItem {
+    const trend = this.historyService.getTrend(TREND_DAYS)
+    const counts = trend.map(day => day.count).filter((count): count is number => count !== undefined)
+    const min = Math.min(...counts)
+    const max = Math.max(...counts)
+    const sparkline = trend
+      .map((day) => {
+        if (day.count === undefined)
+          return ' '
+        const level = max === min ? 0 : Math.round((day.count - min) / (max - min) * (SPARK_CHARS.length - 1))
+        return SPARK_CHARS[level]
+      })
+      .join('')
 
-        // 只包含启用的类型
-        if (!this.includedTypes.has(type.toUpperCase())) {
-          continue
-        }
+    const first = counts[0] ?? openCount
+    const change = openCount - first
+    const item = new TodoTreeItem(
+      `📈 ${sparkline}`,
+      false,
+      [],
+      new vscode.ThemeIcon('graph-line'),
+      vscode.TreeItemCollapsibleState.None,
+    )
+    item.description = `${openCount} 项未完成 · ${TREND_DAYS} 天${change > 0 ? `增加 ${change}` : change < 0 ? `减少 ${-change}` : '持平'}`
+    item.tooltip = trend.map(day => `${day.date}: ${day.count ?? '-'}`).join('\n')
+    item.contextValue = 'globalTodoTrend'
+    return item
+  }
 
-        const todoItem = {
-          id: `${document.uri.toString()}-${i}-${startPos}`,
-          type: type.toUpperCase(),
-          text: text.trim(),
-          uri: document.uri,
-          range: new vscode.Range(
-            new vscode.Position(i, startPos),
-            new vscode.Position(i, startPos + fullMatch.length),
-          ),
-          timestamp: Date.now(),
-          filePath: this.getRelativePath(document.uri),
-          priority: this.inferPriority(type, text),
-        }
+  private createResolvedGroup(): TodoTreeItem | undefined {
+    const resolved = this.historyService.getRecentlyResolved(RESOLVED_DAYS)
+    if (resolved.length === 0) {
+      return undefined
+    }
 
-        todos.push(todoItem)
+    const children = resolved.map((record) => {
+      const days = Math.floor((Date.now() - record.resolvedAt!) / DAY_MS)
+      const item = new TodoTreeItem(
+        record.text,
+        false,
+        [],
+        new vscode.ThemeIcon('pass', new vscode.ThemeColor('charts.green')),
+        vscode.TreeItemCollapsibleState.None,
+      )
+      item.description = `${record.type} · ${record.filePath}:${record.line + 1} · ${days === 0 ? '今天' : `${days} 天前`}解决`
+      item.tooltip = `**${record.type}**: ${record.text}\n\n📁 ${record.filePath}:${record.line + 1}\n🕒 首次发现: ${new Date(record.firstSeen).toLocaleString()}\n✔️ 解决时间: ${new Date(record.resolvedAt!).toLocaleString()}`
+      item.contextValue = 'globalTodoResolved'
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open',
+        arguments: [vscode.Uri.parse(record.uri), { selection: new vscode.Range(record.line, 0, record.line, 0) }],
       }
+      return item
+    })
+
+    return new TodoTreeItem(
+      `✔️ 最近解决 (${resolved.length})`,
+      true,
+      children,
+      new vscode.ThemeIcon('check-all'),
+      vscode.TreeItemCollapsibleState.Collapsed,
+    )
+  }
+
+  /**
+   * 通过 git blame 为待办补充作者和提交时间
+   */
+  private async annotateWithBlame(document: vscode.TextDocument, todos: any[]): Promise<void> {
+    const blame = await this.blameService.blameLines(document, todos.map(todo => todo.range.start.line))
+    todos.forEach((todo) => {
+      todo.blame = blame.get(todo.range.start.line)
+    })
+  }
+
+  private applyStaleFilter(todos: any[]): any[] {
+    if (!this.staleDays) {
+      return todos
     }
 
-    return todos
+    const threshold = Date.now() - this.staleDays * DAY_MS
+    return todos.filter((todo) => {
+      const blame: BlameInfo | undefined = todo.blame
+      return blame?.committed && blame.time < threshold
+    })
   }
 
   private applySearch(todos: any[]): any[] {
@@ -333,7 +503,9 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
     return todos.filter(todo =>
       todo.text.toLowerCase().includes(query)
       || todo.filePath.toLowerCase().includes(query)
-      || todo.type.toLowerCase().includes(query),
+      || todo.type.toLowerCase().includes(query)
+      || todo.metadata.assignee?.toLowerCase().includes(query)
+      || todo.metadata.issue?.toLowerCase().includes(query),
     )
   }
 
@@ -345,6 +517,14 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
         return this.groupByType(todos)
       case 'priority':
         return this.groupByPriority(todos)
+      case 'assignee':
+        return this.groupByAssignee(todos)
+      case 'dueDate':
+        return this.groupByDueDate(todos)
+      case 'author':
+        return this.groupByAuthor(todos)
+      case 'age':
+        return this.groupByAge(todos)
       default:
         return this.groupByType(todos)
     }
@@ -389,16 +569,15 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
       groups.get(todo.type)!.push(todo)
     })
 
-    // 按优先级排序类型
-    const sortedTypes = Array.from(groups.keys()).sort((a, b) => {
-      const priorityOrder = { FIXME: 1, BUG: 2, TODO: 3, HACK: 4, NOTE: 5 }
-      return (priorityOrder[a] || 6) - (priorityOrder[b] || 6)
-    })
+    // 按标签优先级排序类型
+    const sortedTypes = Array.from(groups.keys()).sort((a, b) =>
+      this.scanner.getTag(b).priority - this.scanner.getTag(a).priority || a.localeCompare(b),
+    )
 
     return sortedTypes.map((type) => {
       const groupTodos = groups.get(type)!
       const children = groupTodos
-        .sort((a, b) => b.priority - a.priority || a.filePath.localeCompare(b.filePath))
+        .sort((a, b) => this.compareTodos(a, b))
         .map(todo => this.createTodoItem(todo))
 
       const label = this.searchQuery
@@ -460,30 +639,197 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
       })
   }
 
-  private inferPriority(type: string, text: string): number {
-    // 基础优先级
-    let priority = 1
-    const upperType = type.toUpperCase()
-    const lowerText = text.toLowerCase()
+  private groupByAssignee(todos: any[]): TodoTreeItem[] {
+    const groups = new Map<string, any[]>()
+
+    todos.forEach((todo) => {
+      const assignee = todo.metadata.assignee || UNASSIGNED
+      if (!groups.has(assignee)) {
+        groups.set(assignee, [])
+      }
+      groups.get(assignee)!.push(todo)
+    })
+
+    // 未指派的放在最后
+    const assignees = Array.from(groups.keys()).sort((a, b) =>
+      Number(a === UNASSIGNED) - Number(b === UNASSIGNED) || a.localeCompare(b),
+    )
 
-    // 根据类型设置基础优先级
-    switch (upperType) {
-      case 'FIXME':
-        priority = 3
-        break
-      case 'BUG':
-        priority = 3
-        break
-      case 'TODO':
-        priority = 2
-        break
-      case 'HACK':
-        priority = 2
-        break
-      case 'NOTE':
-        priority = 1
-        break
+    return assignees.map((assignee) => {
+      const groupTodos = groups.get(assignee)!
+      const overdue = groupTodos.filter(todo => isTodoOverdue(todo.metadata.dueDate)).length
+      const children = groupTodos
+        .sort((a, b) => this.compareTodos(a, b))
+        .map(todo => this.createTodoItem(todo))
+
+      const item = new TodoTreeItem(
+        `${assignee === UNASSIGNED ? assignee : `@${assignee}`} (${groupTodos.length})`,
+        true,
+        children,
+        new vscode.ThemeIcon(assignee === UNASSIGNED ? 'circle-slash' : 'person'),
+        vscode.TreeItemCollapsibleState.Expanded,
+      )
+      if (overdue > 0) {
+        item.description = `${overdue} 项已逾期`
+      }
+      return item
+    })
+  }
+
+  private groupByDueDate(todos: any[]): TodoTreeItem[] {
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+    const dayMs = 24 * 60 * 60 * 1000
+    const groups = new Map<string, any[]>([
+      ['⏰ 已逾期', []],
+      ['📅 今天', []],
+      ['🗓️ 7 天内', []],
+      ['📆 以后', []],
+      ['➖ 无截止日期', []],
+    ])
+
+    todos.forEach((todo) => {
+      const dueDate: string | undefined = todo.metadata.dueDate
+      let category: string
+      if (!dueDate) {
+        category = '➖ 无截止日期'
+      }
+      else {
+        const [year, month, day] = dueDate.split('-').map(Number)
+        const days = Math.round((new Date(year, month - 1, day).getTime() - today.getTime()) / dayMs)
+        category = days < 0 ? '⏰ 已逾期' : days === 0 ? '📅 今天' : days <= 7 ? '🗓️ 7 天内' : '📆 以后'
+      }
+      groups.get(category)!.push(todo)
+    })
+
+    return Array.from(groups.entries())
+      .filter(([, groupTodos]) => groupTodos.length > 0)
+      .map(([category, groupTodos]) => {
+        const children = groupTodos
+          .sort((a, b) => this.compareTodos(a, b))
+          .map(todo => this.createTodoItem(todo))
+
+        return new TodoTreeItem(
+          `${category} (${groupTodos.length})`,
+          true,
+          children,
+          category.includes('逾期')
+            ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('errorForeground'))
+            : new vscode.ThemeIcon('calendar'),
+          vscode.TreeItemCollapsibleState.Expanded,
+        )
+      })
+  }
+
+  private groupByAuthor(todos: any[]): TodoTreeItem[] {
+    const groups = new Map<string, any[]>()
+
+    todos.forEach((todo) => {
+      const blame: BlameInfo | undefined = todo.blame
+      const author = !blame ? UNKNOWN_AUTHOR : blame.committed ? blame.author : UNCOMMITTED
+      if (!groups.has(author)) {
+        groups.set(author, [])
+      }
+      groups.get(author)!.push(todo)
+    })
+
+    // 未提交和未知作者放在最后
+    const rank = (author: string): number => author === UNCOMMITTED ? 1 : author === UNKNOWN_AUTHOR ? 2 : 0
+    const authors = Array.from(groups.keys()).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+
+    return authors.map((author) => {
+      const groupTodos = groups.get(author)!
+      const children = groupTodos
+        .sort((a, b) => this.getBlameTime(a) - this.getBlameTime(b) || a.filePath.localeCompare(b.filePath))
+        .map(todo => this.createTodoItem(todo))
+
+      return new TodoTreeItem(
+        `${author} (${groupTodos.length})`,
+        true,
+        children,
+        new vscode.ThemeIcon(rank(author) === 0 ? 'person' : 'question'),
+        vscode.TreeItemCollapsibleState.Expanded,
+      )
+    })
+  }
+
+  private groupByAge(todos: any[]): TodoTreeItem[] {
+    const buckets: Array<{ label: string, maxDays: number }> = [
+      { label: '🆕 7 天内', maxDays: 7 },
+      { label: '📅 30 天内', maxDays: 30 },
+      { label: '🗓️ 90 天内', maxDays: 90 },
+      { label: '📆 一年内', maxDays: 365 },
+      { label: '🕸️ 一年以上', maxDays: Infinity },
+    ]
+    const groups = new Map<string, any[]>([...buckets.map(bucket => [bucket.label, []] as [string, any[]]), [`✏️ ${UNCOMMITTED}`, []], [`❔ ${UNKNOWN_AUTHOR}`, []]])
+
+    todos.forEach((todo) => {
+      const blame: BlameInfo | undefined = todo.blame
+      let category: string
+      if (!blame) {
+        category = `❔ ${UNKNOWN_AUTHOR}`
+      }
+      else if (!blame.committed) {
+        category = `✏️ ${UNCOMMITTED}`
+      }
+      else {
+        const days = (Date.now() - blame.time) / DAY_MS
+        category = buckets.find(bucket => days <= bucket.maxDays)!.label
+      }
+      groups.get(category)!.push(todo)
+    })
+
+    return Array.from(groups.entries())
+      .filter(([, groupTodos]) => groupTodos.length > 0)
+      .map(([category, groupTodos]) => {
+        // 最老的在前
+        const children = groupTodos
+          .sort((a, b) => this.getBlameTime(a) - this.getBlameTime(b) || a.filePath.localeCompare(b.filePath))
+          .map(todo => this.createTodoItem(todo))
+
+        return new TodoTreeItem(
+          `${category} (${groupTodos.length})`,
+          true,
+          children,
+          new vscode.ThemeIcon('history'),
+          vscode.TreeItemCollapsibleState.Expanded,
+        )
+      })
+  }
+
+  /**
+   * 待办所在行的提交时间，没有提交记录的排在最后
+   */
+  private getBlameTime(todo: any): number {
+    const blame: BlameInfo | undefined = todo.blame
+    return blame?.committed ? blame.time : Number.MAX_SAFE_INTEGER
+  }
+
+  /**
+   * 截止日期早的在前，没有截止日期的在后，其次按优先级和文件排序
+   */
+  private compareTodos(a: any, b: any): number {
+    const dueA: string | undefined = a.metadata.dueDate
+    const dueB: string | undefined = b.metadata.dueDate
+    if (dueA !== dueB) {
+      if (!dueA)
+        return 1
+      if (!dueB)
+        return -1
+      return dueA.localeCompare(dueB)
     }
+    return b.priority - a.priority || a.filePath.localeCompare(b.filePath)
+  }
+
+  private inferPriority(type: string, text: string, metadata: TodoMetadata): number {
+    // 显式标注的 P0-P4 优先于推测
+    if (metadata.priority) {
+      return metadata.priority
+    }
+
+    // 根据标签设置基础优先级
+    let priority = this.scanner.getTag(type).priority
+    const lowerText = text.toLowerCase()
 
     // 根据文本内容调整优先级
     if (lowerText.includes('urgent') || lowerText.includes('紧急') || lowerText.includes('asap')) {
@@ -503,57 +849,45 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
   }
 
   private getTypeIcon(type: string): string {
-    switch (type) {
-      case 'TODO': return '✅'
-      case 'FIXME': return '🔧'
-      case 'NOTE': return '📝'
-      case 'BUG': return '🐛'
-      case 'HACK': return '⚡'
-      default: return '📋'
-    }
+    return this.scanner.getTag(type).emoji
   }
 
   private getTypeIconName(type: string): string {
-    switch (type) {
-      case 'TODO': return 'check'
-      case 'FIXME': return 'tools'
-      case 'NOTE': return 'note'
-      case 'BUG': return 'bug'
-      case 'HACK': return 'zap'
-      default: return 'list-unordered'
-    }
+    return this.scanner.getTag(type).icon
   }
 
   private getTypeColor(type: string): string {
-    switch (type) {
-      case 'TODO': return 'charts.green'
-      case 'FIXME': return 'charts.orange'
-      case 'NOTE': return 'charts.blue'
-      case 'BUG': return 'charts.red'
-      case 'HACK': return 'charts.yellow'
-      default: return 'foreground'
-    }
+    return this.scanner.getTag(type).themeColor
   }
 
   private createTodoItem(todo: any): TodoTreeItem {
+    const overdue = isTodoOverdue(todo.metadata.dueDate)
     const item = new TodoTreeItem(
       todo.text,
       false,
       [],
-      new vscode.ThemeIcon(
-        this.getTypeIconName(todo.type),
-        new vscode.ThemeColor(this.getTypeColor(todo.type)),
-      ),
+      overdue
+        ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('errorForeground'))
+        : new vscode.ThemeIcon(this.getTypeIconName(todo.type), new vscode.ThemeColor(this.getTypeColor(todo.type))),
       vscode.TreeItemCollapsibleState.None,
       todo,
     )
 
     // 设置描述和工具提示
-    item.description = `${todo.type} · ${todo.filePath}:${todo.range.start.line + 1}`
+    const { assignee, dueDate, issue, task } = todo.metadata as TodoMetadata
+    const metadata = [
+      assignee && `@${assignee}`,
+      dueDate && (overdue ? `已逾期 ${dueDate}` : dueDate),
+      issue,
+      task && `🗂️ ${task}`,
+    ].filter(Boolean)
+    const history: TodoHistoryRecord | undefined = todo.history
+    const isNew = history && !history.baseline && Date.now() - history.firstSeen < DAY_MS
+    item.description = `${isNew ? '🆕 ' : ''}${[...metadata, `${todo.type} · ${todo.filePath}:${todo.range.start.line + 1}`].join(' · ')}`
     item.tooltip = this.createTooltip(todo)
 
-    // 设置上下文值用于菜单
-    item.contextValue = 'globalTodo'
+    // 设置上下文值用于菜单，已关联任务的待办不再显示转换为任务
+    item.contextValue = task ? 'globalTodoLinked' : 'globalTodo'
 
     // 设置点击命令
     item.command = {
@@ -574,6 +908,25 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
     let tooltip = `**${todo.type}**: ${todo.text}\n\n`
     tooltip += `📁 ${todo.filePath}:${todo.range.start.line + 1}\n`
     tooltip += `🎯 优先级: ${this.getPriorityText(todo.priority)}\n`
+    const blame: BlameInfo | undefined = todo.blame
+    if (blame?.committed) {
+      const days = Math.floor((Date.now() - blame.time) / DAY_MS)
+      tooltip += `✍️ ${blame.author} · ${new Date(blame.time).toLocaleDateString()}（${days} 天前）\n`
+      tooltip += `📝 ${blame.hash.slice(0, 8)} ${blame.summary}\n`
+    }
+    else if (blame) {
+      tooltip += `✍️ ${UNCOMMITTED}\n`
+    }
+    const history: TodoHistoryRecord | undefined = todo.history
+    if (history) {
+      tooltip += `🕒 首次发现: ${new Date(history.firstSeen).toLocaleString()}\n`
+      if (history.movedFrom) {
+        tooltip += `📦 ${new Date(history.movedFrom.at).toLocaleDateString()} 从 ${history.movedFrom.filePath}:${history.movedFrom.line + 1} 移动而来\n`
+      }
+    }
+    describeTodoMetadata(todo.metadata)
+      .filter(part => !part.startsWith('🎯'))
+      .forEach(part => tooltip += `${part}\n`)
 
     return tooltip
   }
@@ -592,7 +945,9 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
   private createEmptyItem(): TodoTreeItem {
     const message = this.searchQuery
       ? `没有找到匹配 "${this.searchQuery}" 的待办事项`
-      : '没有找到待办事项'
+      : this.staleDays
+        ? `没有超过 ${this.staleDays} 天的待办事项`
+        : '没有找到待办事项'
 
     return new TodoTreeItem(
       message,
@@ -616,7 +971,7 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
   /**
    * 设置分组方式
    */
-  public setGroupBy(groupBy: 'file' | 'type' | 'priority'): void {
+  public setGroupBy(groupBy: GlobalTodoGroupBy): void {
     if (this.groupBy !== groupBy) {
       this.groupBy = groupBy
       console.log(`[GlobalTodosProvider] 切换分组方式: ${groupBy}`)
@@ -624,6 +979,19 @@ export class GlobalTodosProvider implements vscode.TreeDataProvider<TodoTreeItem
     }
   }
 
+  /**
+   * 设置过期过滤，只显示提交时间早于指定天数的待办，传入 undefined 取消过滤
+   */
+  public setStaleFilter(days: number | undefined): void {
+    this.staleDays = days
+    console.log(`[GlobalTodosProvider] 过期过滤: ${days ?? '关闭'}`)
+    this.refresh()
+  }
+
+  public getStaleFilter(): number | undefined {
+    return this.staleDays
+  }
+
   /**
    * 刷新视图
    */
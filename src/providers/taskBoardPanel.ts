@@ -0,0 +1,354 @@
+import type { TaskStatus } from '../types/tasks.js'
+import * as vscode from 'vscode'
+import { TASK_STATUS_LABELS, TaskBoardService } from '../services/taskBoardService.js'
+
+/**
+ * 任务看板面板
+ * 按待处理、进行中、已完成三列显示任务，拖动卡片修改状态，点击卡片跳转到关联注释
+ */
+export class TaskBoardPanel implements vscode.Disposable {
+  static readonly viewType = 'CCoding.taskBoard'
+
+  private panel: vscode.WebviewPanel | undefined
+  private disposables: vscode.Disposable[] = []
+
+  constructor(private taskService: TaskBoardService) {
+    this.disposables.push(
+      this.taskService.onDidChange(() => this.update()),
+    )
+  }
+
+  /**
+   * 打开面板，并检查任务的关联注释是否仍然存在
+   */
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal(undefined, true)
+      this.update()
+      return
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      TaskBoardPanel.viewType,
+      '任务看板',
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+      },
+    )
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined
+    })
+
+    this.panel.webview.onDidReceiveMessage(async (message) => {
+      switch (message.type) {
+        case 'ready':
+          this.update()
+          await this.taskService.syncAll()
+          break
+        case 'openSource':
+          await this.openSource(message.id)
+          break
+        case 'setStatus':
+          if (message.status in TASK_STATUS_LABELS) {
+            await this.taskService.setStatus(message.id, message.status as TaskStatus)
+          }
+          break
+        case 'openTaskFile': {
+          const fileUri = this.taskService.getTaskFileUri()
+          if (fileUri) {
+            try {
+              await vscode.window.showTextDocument(fileUri, { viewColumn: vscode.ViewColumn.One })
+            }
+            catch {
+              vscode.window.showInformationMessage('任务文件尚未创建，先将待办转换为任务')
+            }
+          }
+          break
+        }
+      }
+    })
+
+    this.panel.webview.html = this.generateHTML()
+  }
+
+  private async openSource(id: string): Promise<void> {
+    const task = this.taskService.getTasks().find(item => item.id === id)
+    const location = task && this.taskService.getSourceLocation(task)
+    if (!location) {
+      vscode.window.showInformationMessage(`任务 ${id} 没有关联的代码位置`)
+      return
+    }
+
+    try {
+      const editor = await vscode.window.showTextDocument(location.uri, { viewColumn: vscode.ViewColumn.One })
+      const line = Math.min(location.range.start.line, editor.document.lineCount - 1)
+      editor.selection = new vscode.Selection(line, 0, line, 0)
+      editor.revealRange(new vscode.Range(line, 0, line, 0), vscode.TextEditorRevealType.InCenter)
+    }
+    catch {
+      vscode.window.showWarningMessage(`无法打开 ${task!.source!.file}`)
+    }
+  }
+
+  private update(): void {
+    if (!this.panel)
+      return
+
+    this.panel.webview.postMessage({
+      type: 'tasks',
+      tasks: this.taskService.getTasks(),
+      columns: TASK_STATUS_LABELS,
+      filePath: TaskBoardService.getTaskFilePath(),
+    })
+  }
+
+  private generateHTML(): string {
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>任务看板</title>
+    <style>
+        body {
+            margin: 0;
+            padding: 0;
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+        }
+
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .toolbar a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
+
+        .status {
+            margin-left: auto;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .board {
+            display: grid;
+            grid-template-columns: repeat(3, 1fr);
+            gap: 10px;
+            padding: 10px;
+            height: calc(100vh - 56px);
+        }
+
+        .column {
+            display: flex;
+            flex-direction: column;
+            min-width: 0;
+            border-radius: 4px;
+            background: var(--vscode-sideBar-background);
+        }
+
+        .column.drop-target {
+            outline: 1px dashed var(--vscode-focusBorder);
+        }
+
+        .column h3 {
+            margin: 0;
+            padding: 8px 10px;
+            font-size: 13px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .column h3 .count {
+            color: var(--vscode-descriptionForeground);
+            font-weight: normal;
+        }
+
+        .cards {
+            flex: 1;
+            overflow-y: auto;
+            padding: 8px;
+        }
+
+        .card {
+            margin-bottom: 8px;
+            padding: 8px;
+            border-radius: 3px;
+            border: 1px solid var(--vscode-panel-border);
+            background: var(--vscode-editorWidget-background);
+            cursor: grab;
+        }
+
+        .card:hover {
+            border-color: var(--vscode-focusBorder);
+        }
+
+        .card .title {
+            word-break: break-word;
+        }
+
+        .card .meta {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            margin-top: 6px;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .card .source {
+            cursor: pointer;
+            color: var(--vscode-textLink-foreground);
+        }
+
+        .card .removed {
+            color: var(--vscode-charts-green);
+        }
+
+        .card .actions {
+            display: flex;
+            gap: 4px;
+            margin-top: 6px;
+        }
+
+        .card button {
+            padding: 1px 6px;
+            font-size: 11px;
+            border: none;
+            border-radius: 2px;
+            cursor: pointer;
+            color: var(--vscode-button-secondaryForeground);
+            background: var(--vscode-button-secondaryBackground);
+        }
+
+        .card button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+
+        .empty {
+            padding: 8px;
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <a id="openFile">打开任务文件</a>
+        <span class="status" id="status"></span>
+    </div>
+    <div class="board" id="board"></div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        const boardElement = document.getElementById('board');
+        const statusElement = document.getElementById('status');
+
+        document.getElementById('openFile').addEventListener('click', () => {
+            vscode.postMessage({ type: 'openTaskFile' });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type === 'tasks') {
+                render(message.tasks, message.columns);
+                statusElement.textContent = message.tasks.length + ' 个任务 · ' + message.filePath;
+            }
+        });
+
+        function element(tag, className, text) {
+            const node = document.createElement(tag);
+            if (className) node.className = className;
+            if (text !== undefined) node.textContent = text;
+            return node;
+        }
+
+        function render(tasks, columns) {
+            boardElement.textContent = '';
+            const statuses = Object.keys(columns);
+
+            for (const status of statuses) {
+                const column = element('div', 'column');
+                const items = tasks.filter(task => task.status === status);
+                const heading = element('h3', '', columns[status] + ' ');
+                heading.appendChild(element('span', 'count', String(items.length)));
+                const cards = element('div', 'cards');
+                column.append(heading, cards);
+
+                // 拖放卡片到其他列修改状态
+                column.addEventListener('dragover', event => {
+                    event.preventDefault();
+                    column.classList.add('drop-target');
+                });
+                column.addEventListener('dragleave', () => column.classList.remove('drop-target'));
+                column.addEventListener('drop', event => {
+                    event.preventDefault();
+                    column.classList.remove('drop-target');
+                    const id = event.dataTransfer.getData('text/plain');
+                    if (id) vscode.postMessage({ type: 'setStatus', id, status });
+                });
+
+                if (items.length === 0) {
+                    cards.appendChild(element('div', 'empty', '没有任务'));
+                }
+                for (const task of items) {
+                    cards.appendChild(renderCard(task, statuses, columns));
+                }
+                boardElement.appendChild(column);
+            }
+        }
+
+        function renderCard(task, statuses, columns) {
+            const card = element('div', 'card');
+            card.draggable = true;
+            card.addEventListener('dragstart', event => {
+                event.dataTransfer.setData('text/plain', task.id);
+            });
+
+            card.appendChild(element('div', 'title', task.title));
+
+            const meta = element('div', 'meta');
+            meta.appendChild(element('span', '', task.id + ' · ' + task.type));
+            if (task.source) {
+                const source = element('span', 'source', task.source.file + ':' + (task.source.line + 1));
+                source.title = '跳转到关联注释';
+                source.addEventListener('click', () => vscode.postMessage({ type: 'openSource', id: task.id }));
+                meta.appendChild(source);
+            }
+            meta.appendChild(element('span', '', '创建 ' + task.created));
+            if (task.completed) {
+                meta.appendChild(element('span', task.removedFromCode ? 'removed' : '',
+                    '完成 ' + task.completed + (task.removedFromCode ? '（注释已删除）' : '')));
+            }
+            card.appendChild(meta);
+
+            const actions = element('div', 'actions');
+            for (const status of statuses) {
+                if (status === task.status) continue;
+                const button = element('button', '', '→ ' + columns[status]);
+                button.addEventListener('click', () => vscode.postMessage({ type: 'setStatus', id: task.id, status }));
+                actions.appendChild(button);
+            }
+            card.appendChild(actions);
+            return card;
+        }
+
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`
+  }
+
+  dispose(): void {
+    this.panel?.dispose()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
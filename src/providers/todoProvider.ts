@@ -1,11 +1,14 @@
+import type { TodoMatch, TodoMetadata } from '../services/todoScanner.js'
 import * as vscode from 'vscode'
+import { describeTodoMetadata, isTodoOverdue, TodoScanner } from '../services/todoScanner.js'
 
 interface TodoItem {
   text: string
   file: string
   line: number
   column: number
-  type: 'TODO' | 'FIXME' | 'NOTE' | 'HACK' | 'BUG'
+  type: string
+  metadata: TodoMetadata
 }
 
 export class TodoProvider implements vscode.TreeDataProvider<TodoTreeItem>, vscode.Disposable {
@@ -13,7 +16,7 @@ export class TodoProvider implements vscode.TreeDataProvider<TodoTreeItem>, vsco
   readonly onDidChangeTreeData: vscode.Event<TodoTreeItem | undefined | null | void> = this._onDidChangeTreeData.event
 
   private todos: TodoItem[] = []
-  private todoRegex = /^\s*(?:\/\/|\/\*|\*|<!--|#)\s*(TODO|FIXME|NOTE|HACK|BUG)(?:\(([^)]+)\))?:?\s*(.+)/gi
+  private scanner = TodoScanner.getInstance()
   private decorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map()
   private isScanning: boolean = false
   private scanTimeout: NodeJS.Timeout | undefined
@@ -125,28 +128,7 @@ export class TodoProvider implements vscode.TreeDataProvider<TodoTreeItem>, vsco
 
     const document = editor.document
     const filePath = vscode.workspace.asRelativePath(document.uri)
-    const content = document.getText()
-    const lines = content.split('\n')
-    const currentDocTodos: TodoItem[] = []
-
-    lines.forEach((line, index) => {
-      const regex = /^\s*(?:\/\/|\/\*|\*|<!--|#)\s*(TODO|FIXME|NOTE|HACK|BUG)(?:\(([^)]+)\))?:?\s*(.+)/gi
-      let match
-
-      match = regex.exec(line)
-      while (match !== null) {
-        const [, type, _author, text] = match
-        const todoItem: TodoItem = {
-          text: text.trim(),
-          file: filePath,
-          line: index,
-          column: match.index,
-          type: type.toUpperCase() as TodoItem['type'],
-        }
-        currentDocTodos.push(todoItem)
-        match = regex.exec(line)
-      }
-    })
+    const currentDocTodos = this.scanner.scanDocument(document).map(match => this.toTodoItem(match, filePath))
 
     // 更新当前文档的TODO缓存
     this.currentDocumentTodos.set(filePath, currentDocTodos)
@@ -313,34 +295,25 @@ export class TodoProvider implements vscode.TreeDataProvider<TodoTreeItem>, vsco
   private async scanFile(fileUri: vscode.Uri) {
     try {
       const document = await vscode.workspace.openTextDocument(fileUri)
-      const content = document.getText()
-      const lines = content.split('\n')
-
-      lines.forEach((line, index) => {
-        const regex = /^\s*(?:\/\/|\/\*|\*|<!--|#)\s*(TODO|FIXME|NOTE|HACK|BUG)(?:\(([^)]+)\))?:?\s*(.+)/gi
-        let match
-
-        match = regex.exec(line)
-        while (match !== null) {
-          const [, type, _author, text] = match
-          const todoItem: TodoItem = {
-            text: text.trim(),
-            file: vscode.workspace.asRelativePath(fileUri),
-            line: index,
-            column: match.index,
-            type: type.toUpperCase() as TodoItem['type'],
-          }
-
-          this.todos.push(todoItem)
-          match = regex.exec(line)
-        }
-      })
+      const filePath = vscode.workspace.asRelativePath(fileUri)
+      this.todos.push(...this.scanner.scanDocument(document).map(match => this.toTodoItem(match, filePath)))
     }
     catch (error) {
       console.error(`Error scanning file ${fileUri.fsPath}:`, error)
     }
   }
 
+  private toTodoItem(match: TodoMatch, filePath: string): TodoItem {
+    return {
+      text: match.text,
+      file: filePath,
+      line: match.line,
+      column: match.range.start.character,
+      type: match.type,
+      metadata: match.metadata,
+    }
+  }
+
   private groupTodosByType(todos: TodoItem[]): { [key: string]: TodoItem[] } {
     const grouped: { [key: string]: TodoItem[] } = {}
     todos.forEach((todo) => {
@@ -353,8 +326,7 @@ export class TodoProvider implements vscode.TreeDataProvider<TodoTreeItem>, vsco
   }
 
   private initDecorationTypes(): void {
-    const todoTypes: TodoItem['type'][] = ['TODO', 'FIXME', 'NOTE', 'HACK', 'BUG']
-    todoTypes.forEach((type) => {
+    this.scanner.getTags().forEach(({ name: type }) => {
       const colors = this.getColorsForTodoType(type)
       const decorationType = vscode.window.createTextEditorDecorationType({
         borderWidth: '1px',
@@ -385,7 +357,23 @@ export class TodoProvider implements vscode.TreeDataProvider<TodoTreeItem>, vsco
    * @param type 待办类型
    * @returns 颜色配置对象
    */
-  private getColorsForTodoType(type: TodoItem['type']) {
+  private getColorsForTodoType(type: string) {
+    const tag = this.scanner.getTag(type)
+    // 自定义标签和改过颜色的内置标签按配置颜色生成
+    if (!tag.builtin) {
+      return {
+        background: `${tag.color}20`,
+        border: `${tag.color}80`,
+        ruler: tag.color,
+        lightBackground: `${tag.color}15`,
+        lightBorder: `${tag.color}60`,
+        lightText: tag.color,
+        darkBackground: `${tag.color}25`,
+        darkBorder: `${tag.color}90`,
+        darkText: tag.color,
+      }
+    }
+
     switch (type) {
       case 'TODO':
         return {
@@ -503,8 +491,17 @@ export class TodoProvider implements vscode.TreeDataProvider<TodoTreeItem>, vsco
       this.forceRefresh()
     })
 
+    // 标签配置变化后重建装饰器并重新扫描
+    const tagChangeDisposable = this.scanner.onDidChange(() => {
+      console.log('[CCoding] TODO标签配置变更，重新扫描TODO')
+      this.decorationTypes.forEach(decorationType => decorationType.dispose())
+      this.decorationTypes.clear()
+      this.initDecorationTypes()
+      this.forceRefresh()
+    })
+
     // 确保在dispose时清理事件监听器
-    this._disposables = [editorChangeDisposable, documentChangeDisposable, workspaceChangeDisposable]
+    this._disposables = [editorChangeDisposable, documentChangeDisposable, workspaceChangeDisposable, tagChangeDisposable]
   }
 
   /**
@@ -556,24 +553,7 @@ export class TodoProvider implements vscode.TreeDataProvider<TodoTreeItem>, vsco
     const newTodos: TodoItem[] = []
     lineNumbers.forEach((lineNumber) => {
       if (lineNumber >= 0 && lineNumber < document.lineCount) {
-        const line = document.lineAt(lineNumber)
-        const lineText = line.text
-
-        const regex = /^\s*(?:\/\/|\/\*|\*|<!--|#)\s*(TODO|FIXME|NOTE|HACK|BUG)(?:\(([^)]+)\))?:?\s*(.+)/gi
-        let match = regex.exec(lineText)
-
-        while (match !== null) {
-          const [, type, _author, text] = match
-          const todoItem: TodoItem = {
-            text: text.trim(),
-            file: filePath,
-            line: lineNumber,
-            column: match.index,
-            type: type.toUpperCase() as TodoItem['type'],
-          }
-          newTodos.push(todoItem)
-          match = regex.exec(lineText)
-        }
+        newTodos.push(...this.scanner.scanLine(document, lineNumber).map(match => this.toTodoItem(match, filePath)))
       }
     })
 
@@ -614,26 +594,16 @@ export class TodoProvider implements vscode.TreeDataProvider<TodoTreeItem>, vsco
         return
       }
 
-      const line = document.lineAt(todo.line)
-      const lineText = line.text
-
       // 重新查找待办项在当前行的精确位置
-      const regex = new RegExp(`(${todo.type})(?:\\s*\\([^)]+\\))?\\s*:?\\s*(.+)`, 'i')
-      const match = lineText.match(regex)
+      const match = this.scanner.scanLine(document, todo.line).find(item => item.type === todo.type)
 
       if (match) {
-        const todoStart = lineText.indexOf(match[0])
-        const todoEnd = todoStart + match[0].length
-
         // 只高亮待办项部分，不包括注释符号
-        const range = new vscode.Range(
-          new vscode.Position(todo.line, todoStart),
-          new vscode.Position(todo.line, todoEnd),
-        )
+        const range = match.range
 
         const decoration: vscode.DecorationOptions = {
           range,
-          hoverMessage: `**${todo.type}**: ${todo.text}\n\n📁 ${todo.file}:${todo.line + 1}`,
+          hoverMessage: `**${todo.type}**: ${todo.text}\n\n${formatMetadata(todo.metadata, '\n\n')}📁 ${todo.file}:${todo.line + 1}`,
         }
 
         if (!todoDecorations.has(todo.type)) {
@@ -724,12 +694,13 @@ class TodoTreeItem extends vscode.TreeItem {
     )
     if (isGroup) {
       this.description = `${todos.length} item${todos.length > 1 ? 's' : ''}`
-      this.iconPath = new vscode.ThemeIcon(this.getIconForTodoType(label as TodoItem['type']), this.getColorForTodoType(label as TodoItem['type']))
+      const tag = TodoScanner.getInstance().getTag(label)
+      this.iconPath = new vscode.ThemeIcon(tag.icon, new vscode.ThemeColor(tag.themeColor))
     }
     else {
       const todo = todos[0]
       this.description = `${todo.file}:${todo.line + 1}`
-      this.tooltip = `${todo.text}\n${todo.file}:${todo.line + 1}`
+      this.tooltip = `${todo.text}\n${formatMetadata(todo.metadata, '\n')}${todo.file}:${todo.line + 1}`
       this.command = {
         command: 'vscode.open',
         title: 'Open',
@@ -743,41 +714,19 @@ class TodoTreeItem extends vscode.TreeItem {
           },
         ],
       }
-      this.iconPath = new vscode.ThemeIcon('circle-outline', this.getColorForTodoType(todo.type))
-    }
-  }
-
-  private getIconForTodoType(type: TodoItem['type']): string {
-    switch (type) {
-      case 'TODO':
-        return 'check'
-      case 'FIXME':
-        return 'tools'
-      case 'NOTE':
-        return 'note'
-      case 'HACK':
-        return 'warning'
-      case 'BUG':
-        return 'bug'
-      default:
-        return 'circle-outline'
+      this.iconPath = isTodoOverdue(todo.metadata.dueDate)
+        ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('errorForeground'))
+        : new vscode.ThemeIcon('circle-outline', new vscode.ThemeColor(TodoScanner.getInstance().getTag(todo.type).themeColor))
     }
   }
+}
 
-  private getColorForTodoType(type: TodoItem['type']): vscode.ThemeColor {
-    switch (type) {
-      case 'TODO':
-        return new vscode.ThemeColor('charts.blue')
-      case 'FIXME':
-        return new vscode.ThemeColor('charts.orange')
-      case 'NOTE':
-        return new vscode.ThemeColor('charts.green')
-      case 'HACK':
-        return new vscode.ThemeColor('charts.yellow')
-      case 'BUG':
-        return new vscode.ThemeColor('charts.red')
-      default:
-        return new vscode.ThemeColor('foreground')
-    }
-  }
+/**
+ * 结构化信息的提示文本，没有信息时返回空字符串
+ * @param metadata 结构化信息
+ * @param separator 结尾的分隔符
+ */
+function formatMetadata(metadata: TodoMetadata, separator: string): string {
+  const parts = describeTodoMetadata(metadata)
+  return parts.length > 0 ? `${parts.join('  ')}${separator}` : ''
 }
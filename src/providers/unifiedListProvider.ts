@@ -1,3 +1,4 @@
+import type { StyleSymbolKind } from '../parsers/styleParser.js'
 import * as vscode from 'vscode'
 
 /**
@@ -36,12 +37,28 @@ export interface UnifiedItem {
   isExpanded?: boolean
   // 扩展属性
   symbolKind?: vscode.SymbolKind
-  todoType?: 'TODO' | 'FIXME' | 'NOTE' | 'BUG' | 'HACK'
+  todoType?: string
+  todoEmoji?: string
   bookmarkNote?: string
   priority?: number
   // 中文类型描述
   chineseType?: string
-  frameworkType?: 'react' | 'vue' | 'general'
+  frameworkType?: 'react' | 'vue' | 'svelte' | 'angular' | 'general'
+  // 函数复杂度（仅函数类符号）
+  cyclomaticComplexity?: number
+  cognitiveComplexity?: number
+  complexityLevel?: number
+  // React Hook 依赖数组问题
+  hookWarnings?: string[]
+  // 样式大纲中的规则类型
+  styleKind?: StyleSymbolKind
+  // 查询工作区引用使用的符号名称位置，不可引用的符号没有
+  referencePosition?: {
+    line: number
+    character: number
+  }
+  // 已缓存的工作区引用次数，尚未查询时为空
+  referenceCount?: number
 }
 
 /**
@@ -100,6 +117,14 @@ export class UnifiedListItem extends vscode.TreeItem {
       lines.push(`备注: ${unifiedItem.bookmarkNote}`)
     }
 
+    if (unifiedItem.hookWarnings?.length) {
+      lines.push(...unifiedItem.hookWarnings.map(warning => `⚠️ ${warning}`))
+    }
+
+    if (unifiedItem.cognitiveComplexity !== undefined) {
+      lines.push(`复杂度: 圈复杂度 ${unifiedItem.cyclomaticComplexity} · 认知复杂度 ${unifiedItem.cognitiveComplexity}`)
+    }
+
     lines.push(`时间: ${this.formatTimestamp(unifiedItem.timestamp)}`)
 
     return lines.join('\n')
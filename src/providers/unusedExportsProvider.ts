@@ -0,0 +1,136 @@
+import type { ModuleExportKind } from '../parsers/moduleParser.js'
+import type { UnusedExport, UnusedExportDetector } from '../services/unusedExportDetector.js'
+import * as vscode from 'vscode'
+
+const KIND_LABELS: Record<ModuleExportKind, string> = {
+  function: '函数',
+  component: '组件',
+  hook: 'Hook',
+  composable: '组合式函数',
+}
+
+const KIND_ICONS: Record<ModuleExportKind, string> = {
+  function: 'symbol-function',
+  component: 'symbol-class',
+  hook: 'symbol-event',
+  composable: 'symbol-event',
+}
+
+/**
+ * 未使用导出 Provider
+ * 按文件分组显示最近一次扫描中没有被导入的导出
+ */
+export class UnusedExportsProvider implements vscode.TreeDataProvider<UnusedExportTreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<UnusedExportTreeItem | undefined | null | void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+
+  private disposables: vscode.Disposable[] = []
+
+  constructor(private detector: UnusedExportDetector) {
+    this.disposables.push(this.detector.onDidChange(() => this._onDidChangeTreeData.fire()))
+  }
+
+  getTreeItem(element: UnusedExportTreeItem): vscode.TreeItem {
+    return element
+  }
+
+  getChildren(element?: UnusedExportTreeItem): UnusedExportTreeItem[] {
+    if (element) {
+      return element.children
+    }
+
+    const result = this.detector.getResult()
+    if (!result) {
+      return [new UnusedExportTreeItem('运行 "扫描未使用的导出" 开始检测', [], new vscode.ThemeIcon('info'))]
+    }
+
+    if (result.exports.length === 0) {
+      return [new UnusedExportTreeItem(
+        `${result.totalExports} 个导出均已被使用`,
+        [],
+        new vscode.ThemeIcon('pass', new vscode.ThemeColor('charts.green')),
+      )]
+    }
+
+    const groups = new Map<string, UnusedExport[]>()
+    for (const item of result.exports) {
+      const key = item.uri.fsPath
+      if (!groups.has(key)) {
+        groups.set(key, [])
+      }
+      groups.get(key)!.push(item)
+    }
+
+    const files = Array.from(groups.values())
+      .map((exports) => {
+        const uri = exports[0].uri
+        const item = new UnusedExportTreeItem(
+          vscode.workspace.asRelativePath(uri),
+          exports.map(entry => this.createExportItem(entry)),
+          vscode.ThemeIcon.File,
+          vscode.TreeItemCollapsibleState.Expanded,
+        )
+        item.resourceUri = uri
+        item.description = `${exports.length} 个`
+        item.contextValue = 'unusedExportFile'
+        return item
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    const summary = new UnusedExportTreeItem(
+      `${result.exports.length} 个未使用 / 共 ${result.totalExports} 个导出`,
+      [],
+      new vscode.ThemeIcon('pulse'),
+    )
+    summary.description = `${result.scannedFiles} 个文件`
+    summary.tooltip = `扫描时间: ${new Date(result.timestamp).toLocaleString()}\n入口文件不参与检测，可通过 CCoding.unusedExports.entrypoints 配置`
+
+    return [summary, ...files]
+  }
+
+  private createExportItem(entry: UnusedExport): UnusedExportTreeItem {
+    const confirmed = entry.status === 'unused'
+    const item = new UnusedExportTreeItem(
+      entry.displayName,
+      [],
+      confirmed
+        ? new vscode.ThemeIcon('trash', new vscode.ThemeColor('list.warningForeground'))
+        : new vscode.ThemeIcon(KIND_ICONS[entry.kind]),
+      vscode.TreeItemCollapsibleState.None,
+      entry,
+    )
+
+    const statusLabel = entry.status === 'unused'
+      ? ' · 已确认无引用'
+      : entry.status === 'local' ? ' · 仅在本文件使用' : ''
+    item.description = `${KIND_LABELS[entry.kind]}${entry.name === 'default' ? ' · 默认导出' : ''}${statusLabel}`
+    item.tooltip = entry.status === 'local'
+      ? `${entry.displayName} 只在声明文件内使用，可以去掉 export`
+      : `${entry.displayName} 没有被任何文件导入`
+    item.contextValue = entry.status ? 'unusedExport-confirmed' : 'unusedExport'
+    item.command = {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [entry.uri, { selection: new vscode.Range(entry.position, entry.position) }],
+    }
+
+    return item
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
+
+class UnusedExportTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly name: string,
+    public readonly children: UnusedExportTreeItem[],
+    public readonly iconPath: vscode.ThemeIcon,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
+    public readonly unusedExport?: UnusedExport,
+  ) {
+    super(name, collapsibleState)
+  }
+}
@@ -0,0 +1,141 @@
+import type { VueComponentEdge, VueComponentGraph } from '../services/vueComponentGraph.js'
+import * as vscode from 'vscode'
+
+type ComponentRelation = 'parents' | 'children'
+
+/**
+ * Vue 组件关系 Provider
+ * 显示当前组件的父组件（渲染了它的组件）和子组件（它渲染的组件），以及每处渲染位置
+ */
+export class VueComponentGraphProvider implements vscode.TreeDataProvider<ComponentGraphItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<ComponentGraphItem | undefined | null | void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+
+  private disposables: vscode.Disposable[] = []
+
+  constructor(private graph: VueComponentGraph) {
+    this.disposables.push(
+      this.graph.onDidChange(() => this.refresh()),
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        // 切换到非编辑器面板时保留当前内容
+        if (editor) {
+          this.refresh()
+        }
+      }),
+    )
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire()
+  }
+
+  getTreeItem(element: ComponentGraphItem): vscode.TreeItem {
+    return element
+  }
+
+  async getChildren(element?: ComponentGraphItem): Promise<ComponentGraphItem[]> {
+    if (element) {
+      return element.children
+    }
+
+    const document = vscode.window.activeTextEditor?.document
+    if (!document || !document.fileName.endsWith('.vue')) {
+      return [new ComponentGraphItem('打开 .vue 文件查看组件关系', [], new vscode.ThemeIcon('info'))]
+    }
+
+    const [parents, children] = await Promise.all([
+      this.graph.getParents(document.uri),
+      this.graph.getChildren(document.uri),
+    ])
+
+    return [
+      this.createRelationGroup('parents', parents),
+      this.createRelationGroup('children', children),
+    ]
+  }
+
+  private createRelationGroup(relation: ComponentRelation, edges: VueComponentEdge[]): ComponentGraphItem {
+    // 父组件按渲染方分组，子组件按被渲染的组件分组
+    const groups = new Map<string, VueComponentEdge[]>()
+    for (const edge of edges) {
+      const key = relation === 'parents' ? edge.source.fsPath : edge.target.fsPath
+      if (!groups.has(key)) {
+        groups.set(key, [])
+      }
+      groups.get(key)!.push(edge)
+    }
+
+    const items = Array.from(groups.values())
+      .map(group => this.createComponentItem(relation, group))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    const label = relation === 'parents' ? '父组件' : '子组件'
+    const group = new ComponentGraphItem(
+      `${label} (${items.length})`,
+      items,
+      new vscode.ThemeIcon(relation === 'parents' ? 'arrow-up' : 'arrow-down'),
+      vscode.TreeItemCollapsibleState.Expanded,
+    )
+    group.tooltip = relation === 'parents' ? '渲染了当前组件的组件' : '当前组件模板中渲染的组件'
+    group.contextValue = 'vueComponentRelation'
+    return group
+  }
+
+  private createComponentItem(relation: ComponentRelation, edges: VueComponentEdge[]): ComponentGraphItem {
+    const uri = relation === 'parents' ? edges[0].source : edges[0].target
+    const locations = edges.map(edge => this.createLocationItem(edge))
+    const item = new ComponentGraphItem(
+      this.graph.getComponentName(uri),
+      locations,
+      new vscode.ThemeIcon('symbol-class'),
+      vscode.TreeItemCollapsibleState.Collapsed,
+      uri,
+    )
+
+    item.description = `${vscode.workspace.asRelativePath(uri)} · ${edges.length} 处`
+    item.tooltip = uri.fsPath
+    item.contextValue = 'vueComponent'
+    item.command = {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [uri],
+    }
+    return item
+  }
+
+  private createLocationItem(edge: VueComponentEdge): ComponentGraphItem {
+    const line = edge.range.start.line
+    const item = new ComponentGraphItem(
+      `<${edge.tagName}>`,
+      [],
+      new vscode.ThemeIcon('code'),
+    )
+
+    item.description = `${vscode.workspace.asRelativePath(edge.source)}:${line + 1}`
+    item.contextValue = 'vueComponentUsage'
+    item.command = {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [edge.source, { selection: edge.range }],
+    }
+    return item
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
+
+class ComponentGraphItem extends vscode.TreeItem {
+  constructor(
+    public readonly name: string,
+    public readonly children: ComponentGraphItem[],
+    icon: vscode.ThemeIcon,
+    collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
+    public readonly componentUri?: vscode.Uri,
+  ) {
+    super(name, collapsibleState)
+    this.iconPath = icon
+  }
+}
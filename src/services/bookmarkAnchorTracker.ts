@@ -0,0 +1,357 @@
+import type { EnhancedBookmark } from '../types/bookmarks.js'
+import type { EnhancedBookmarkManager } from './enhancedBookmarkManager.js'
+import type { SharedBookmarkStore } from './sharedBookmarkStore.js'
+import * as vscode from 'vscode'
+
+/**
+ * 书签锚定跟踪器
+ * 跟随文档编辑平移书签位置，并在文件重新打开时按代码预览/符号名重新锚定
+ * 私有书签和工作区共享书签都会跟踪，共享文件被外部修改（如拉取代码）后重新锚定已打开的文档；
+ * 共享书签的新位置在文档保存时才写入共享文件
+ */
+export class BookmarkAnchorTracker implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = []
+
+  // 尚未持久化的位置更新（按文档分组，防抖保存）
+  private pendingUpdates: Map<string, { document: vscode.TextDocument, ranges: Map<string, vscode.Range> }> = new Map()
+  private saveTimeout: NodeJS.Timeout | undefined
+
+  // 配置
+  private saveDelay = 500
+  private minMatchScore = 0.6
+
+  constructor(
+    private bookmarkManager: EnhancedBookmarkManager,
+    private sharedBookmarkStore: SharedBookmarkStore,
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => this.handleDocumentChange(event)),
+      vscode.workspace.onDidOpenTextDocument(document => this.reanchorDocument(document)),
+      vscode.workspace.onDidSaveTextDocument(document => this.handleDocumentSave(document)),
+      this.sharedBookmarkStore.onDidChangeBookmarks(() => {
+        // 正在编辑的文档由平移跟踪处理，避免和未保存的平移结果冲突
+        for (const document of vscode.workspace.textDocuments.filter(item => !item.isDirty)) {
+          this.reanchorDocument(document)
+        }
+      }),
+    )
+
+    // 激活时已打开的文档同样需要校验锚点
+    for (const document of vscode.workspace.textDocuments) {
+      this.reanchorDocument(document)
+    }
+  }
+
+  /**
+   * 根据内容变更平移书签
+   */
+  private handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+    if (event.contentChanges.length === 0)
+      return
+
+    const bookmarks = this.getDocumentBookmarks(event.document.uri)
+    if (bookmarks.length === 0)
+      return
+
+    const uriString = event.document.uri.toString()
+    const pending = this.pendingUpdates.get(uriString)?.ranges || new Map<string, vscode.Range>()
+
+    for (const bookmark of bookmarks) {
+      const current = pending.get(bookmark.id) || bookmark.range
+      let shifted = current
+
+      // contentChanges 的范围均基于变更前的文档，且按位置倒序给出，可以依次应用
+      for (const change of event.contentChanges) {
+        shifted = shiftRange(shifted, change)
+      }
+
+      if (!shifted.isEqual(current)) {
+        pending.set(bookmark.id, shifted)
+      }
+    }
+
+    if (pending.size > 0) {
+      this.pendingUpdates.set(uriString, { document: event.document, ranges: pending })
+      this.scheduleSave()
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+    }
+    this.saveTimeout = setTimeout(() => {
+      for (const { document } of Array.from(this.pendingUpdates.values())) {
+        this.flushPendingUpdates(document)
+      }
+    }, this.saveDelay)
+  }
+
+  /**
+   * 文档保存后写入该文档中书签的新位置，包括共享书签
+   */
+  private async handleDocumentSave(document: vscode.TextDocument): Promise<void> {
+    await this.flushPendingUpdates(document)
+    try {
+      await this.sharedBookmarkStore.saveRelocations(document.uri)
+    }
+    catch (error) {
+      console.error('[CCoding] 保存共享书签位置失败:', error)
+    }
+  }
+
+  /**
+   * 持久化待保存的位置更新，同时刷新代码预览用于下次重新锚定
+   */
+  private async flushPendingUpdates(document: vscode.TextDocument): Promise<void> {
+    const uriString = document.uri.toString()
+    const pending = this.pendingUpdates.get(uriString)
+    if (!pending || pending.ranges.size === 0)
+      return
+
+    this.pendingUpdates.delete(uriString)
+    const updates = Array.from(pending.ranges.entries()).map(([id, range]) => ({ id, range }))
+
+    try {
+      await this.relocate(updates, document)
+    }
+    catch (error) {
+      console.error('[CCoding] 保存书签位置失败:', error)
+    }
+  }
+
+  /**
+   * 按书签所在的存储分别保存新位置
+   */
+  private async relocate(updates: Array<{ id: string, range: vscode.Range }>, document: vscode.TextDocument): Promise<void> {
+    const shared = updates
+      .filter(update => this.sharedBookmarkStore.getBookmark(update.id))
+      .map(update => ({
+        ...update,
+        codePreview: update.range.start.line < document.lineCount
+          ? this.bookmarkManager.extractCodePreview(document, update.range)
+          : undefined,
+      }))
+    const sharedIds = new Set(shared.map(update => update.id))
+    const local = updates.filter(update => !sharedIds.has(update.id))
+
+    if (local.length > 0) {
+      await this.bookmarkManager.relocateBookmarks(local, document)
+    }
+    if (shared.length > 0) {
+      this.sharedBookmarkStore.relocateBookmarks(shared)
+    }
+  }
+
+  /**
+   * 重新锚定文档中的书签
+   * 文件在编辑器外被修改时，存储的行号可能已失效，按代码预览和符号名模糊查找新位置
+   */
+  private async reanchorDocument(document: vscode.TextDocument): Promise<void> {
+    if (document.uri.scheme !== 'file')
+      return
+
+    const bookmarks = this.getDocumentBookmarks(document.uri)
+    if (bookmarks.length === 0)
+      return
+
+    const updates: Array<{ id: string, range: vscode.Range }> = []
+
+    for (const bookmark of bookmarks) {
+      const anchorText = extractAnchorLine(bookmark.codePreview)
+      const line = bookmark.range.start.line
+
+      // 旧版迁移的书签没有预览，只补全预览，不移动
+      if (!anchorText) {
+        if (line < document.lineCount) {
+          updates.push({ id: bookmark.id, range: bookmark.range })
+        }
+        continue
+      }
+
+      if (line < document.lineCount && normalize(document.lineAt(line).text) === normalize(anchorText)) {
+        continue
+      }
+
+      const matchedLine = this.findBestMatchingLine(document, anchorText, bookmark.symbolName, line)
+      if (matchedLine !== undefined && matchedLine !== line) {
+        const delta = matchedLine - line
+        updates.push({
+          id: bookmark.id,
+          range: new vscode.Range(
+            matchedLine,
+            bookmark.range.start.character,
+            Math.max(matchedLine, bookmark.range.end.line + delta),
+            bookmark.range.end.character,
+          ),
+        })
+        console.log(`[CCoding] 书签 "${bookmark.label}" 重新锚定: L${line + 1} -> L${matchedLine + 1}`)
+      }
+    }
+
+    if (updates.length > 0) {
+      try {
+        await this.relocate(updates, document)
+      }
+      catch (error) {
+        console.error('[CCoding] 重新锚定书签失败:', error)
+      }
+    }
+  }
+
+  /**
+   * 查找与锚点文本最相似的行
+   * 相似度相同时取距离原位置最近的行；低于阈值时退回按符号名查找
+   */
+  private findBestMatchingLine(
+    document: vscode.TextDocument,
+    anchorText: string,
+    symbolName: string | undefined,
+    originalLine: number,
+  ): number | undefined {
+    const target = normalize(anchorText)
+    let bestLine: number | undefined
+    let bestScore = 0
+
+    for (let i = 0; i < document.lineCount; i++) {
+      const text = normalize(document.lineAt(i).text)
+      if (!text)
+        continue
+
+      let score = text === target ? 1 : similarity(text, target)
+      if (symbolName && containsWord(text, symbolName)) {
+        score = Math.min(1, score + 0.2)
+      }
+
+      const isCloser = bestLine === undefined || Math.abs(i - originalLine) < Math.abs(bestLine - originalLine)
+      if (score > bestScore || (score === bestScore && isCloser)) {
+        bestScore = score
+        bestLine = i
+      }
+    }
+
+    if (bestLine !== undefined && bestScore >= this.minMatchScore) {
+      return bestLine
+    }
+
+    if (symbolName) {
+      return this.findNearestSymbolLine(document, symbolName, originalLine)
+    }
+
+    return undefined
+  }
+
+  private findNearestSymbolLine(document: vscode.TextDocument, symbolName: string, originalLine: number): number | undefined {
+    let nearest: number | undefined
+
+    for (let i = 0; i < document.lineCount; i++) {
+      if (containsWord(document.lineAt(i).text, symbolName)) {
+        if (nearest === undefined || Math.abs(i - originalLine) < Math.abs(nearest - originalLine)) {
+          nearest = i
+        }
+      }
+    }
+
+    return nearest
+  }
+
+  private getDocumentBookmarks(uri: vscode.Uri): EnhancedBookmark[] {
+    const uriString = uri.toString()
+    return [...this.bookmarkManager.getAllBookmarks(), ...this.sharedBookmarkStore.getAllBookmarks()]
+      .filter(bookmark => bookmark.uri.toString() === uriString)
+  }
+
+  dispose(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+      this.saveTimeout = undefined
+    }
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+    this.pendingUpdates.clear()
+  }
+}
+
+/**
+ * 根据单个内容变更平移范围
+ */
+function shiftRange(range: vscode.Range, change: vscode.TextDocumentContentChangeEvent): vscode.Range {
+  const start = shiftPosition(range.start, change)
+  const end = shiftPosition(range.end, change)
+  return new vscode.Range(start, end.isBefore(start) ? start : end)
+}
+
+function shiftPosition(position: vscode.Position, change: vscode.TextDocumentContentChangeEvent): vscode.Position {
+  const { range } = change
+
+  // 变更在位置之后，不受影响
+  if (range.start.isAfter(position)) {
+    return position
+  }
+
+  const insertedLines = change.text.split('\n')
+  const lineDelta = insertedLines.length - 1 - (range.end.line - range.start.line)
+
+  // 变更完全在位置之前
+  if (range.end.isBeforeOrEqual(position)) {
+    if (range.end.line < position.line) {
+      return position.translate(lineDelta)
+    }
+    // 变更结束于同一行：列号也需要调整
+    const lastLineLength = insertedLines[insertedLines.length - 1].length
+    const character = (insertedLines.length > 1 ? 0 : range.start.character)
+      + lastLineLength
+      + (position.character - range.end.character)
+    return new vscode.Position(position.line + lineDelta, Math.max(0, character))
+  }
+
+  // 位置所在内容被删除：收缩到变更起点
+  return range.start
+}
+
+/**
+ * 从代码预览中提取锚点行（以 ➤ 标记的行）
+ */
+export function extractAnchorLine(codePreview: string): string | undefined {
+  if (!codePreview)
+    return undefined
+
+  const anchor = codePreview.split('\n').find(line => line.startsWith('➤ '))
+  return anchor !== undefined ? anchor.slice(2) : undefined
+}
+
+export function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ')
+}
+
+function containsWord(text: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`\\b${escaped}\\b`).test(text)
+}
+
+/**
+ * 基于字符二元组的 Dice 相似度（0-1）
+ */
+function similarity(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) {
+    return a === b ? 1 : 0
+  }
+
+  const bigrams = new Map<string, number>()
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1)
+  }
+
+  let overlap = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2)
+    const count = bigrams.get(bigram) || 0
+    if (count > 0) {
+      bigrams.set(bigram, count - 1)
+      overlap++
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2)
+}
@@ -0,0 +1,270 @@
+import type { BookmarkComment, EnhancedBookmark } from '../types/bookmarks.js'
+import type { EnhancedBookmarkManager } from './enhancedBookmarkManager.js'
+import type { SharedBookmarkStore } from './sharedBookmarkStore.js'
+import * as os from 'node:os'
+import * as vscode from 'vscode'
+
+/**
+ * 编辑器中显示的书签注释
+ */
+export class BookmarkNoteComment implements vscode.Comment {
+  // 进入编辑模式前的内容，取消编辑时恢复
+  savedBody: string | vscode.MarkdownString
+  label?: string
+  contextValue?: string
+
+  constructor(
+    public readonly id: string,
+    public readonly bookmarkId: string,
+    public body: string | vscode.MarkdownString,
+    public mode: vscode.CommentMode,
+    public author: vscode.CommentAuthorInformation,
+    public timestamp: Date,
+    public isResolved: boolean,
+  ) {
+    this.savedBody = body
+    this.label = isResolved ? '已解决' : undefined
+    this.contextValue = 'bookmarkComment'
+  }
+}
+
+/**
+ * 书签注释控制器
+ * 通过 Comments API 将书签注释显示为编辑器中的评论线程，支持添加、编辑、解决和重新打开
+ */
+export class BookmarkCommentController implements vscode.Disposable {
+  private controller: vscode.CommentController
+  private threads: Map<string, vscode.CommentThread> = new Map()
+  private disposables: vscode.Disposable[] = []
+
+  constructor(
+    private bookmarkManager: EnhancedBookmarkManager,
+    private sharedBookmarkStore: SharedBookmarkStore,
+  ) {
+    this.controller = vscode.comments.createCommentController('CCoding.bookmarkComments', 'CCoding 书签注释')
+    // 只允许在书签所在行发起注释
+    this.controller.commentingRangeProvider = {
+      provideCommentingRanges: (document: vscode.TextDocument) => this.getAllBookmarks()
+        .filter(bookmark => bookmark.uri.toString() === document.uri.toString())
+        .map(bookmark => new vscode.Range(bookmark.range.start.line, 0, bookmark.range.start.line, 0)),
+    }
+
+    this.disposables.push(
+      this.controller,
+      this.bookmarkManager.onDidChangeBookmarks(() => this.syncThreads()),
+      this.sharedBookmarkStore.onDidChangeBookmarks(() => this.syncThreads()),
+    )
+    this.syncThreads()
+  }
+
+  /**
+   * 根据书签数据重建评论线程
+   * 正在编辑的线程不会被覆盖
+   */
+  private syncThreads(): void {
+    const bookmarks = new Map(this.getAllBookmarks().map(bookmark => [bookmark.id, bookmark]))
+
+    for (const [bookmarkId, thread] of this.threads) {
+      const bookmark = bookmarks.get(bookmarkId)
+      if (!bookmark || bookmark.comments.length === 0 || bookmark.isArchived) {
+        thread.dispose()
+        this.threads.delete(bookmarkId)
+      }
+    }
+
+    for (const bookmark of bookmarks.values()) {
+      if (bookmark.comments.length === 0 || bookmark.isArchived)
+        continue
+
+      const thread = this.threads.get(bookmark.id)
+      if (!thread) {
+        this.threads.set(bookmark.id, this.createThread(bookmark))
+        continue
+      }
+
+      if (!thread.comments.some(comment => comment.mode === vscode.CommentMode.Editing)) {
+        this.updateThread(thread, bookmark)
+      }
+    }
+  }
+
+  private createThread(bookmark: EnhancedBookmark): vscode.CommentThread {
+    const thread = this.controller.createCommentThread(bookmark.uri, this.getThreadRange(bookmark), [])
+    thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed
+    this.updateThread(thread, bookmark)
+    return thread
+  }
+
+  private updateThread(thread: vscode.CommentThread, bookmark: EnhancedBookmark): void {
+    const resolved = bookmark.comments.every(comment => comment.isResolved)
+
+    thread.range = this.getThreadRange(bookmark)
+    thread.label = `📑 ${bookmark.label}`
+    thread.comments = bookmark.comments.map(comment => this.toNoteComment(bookmark.id, comment))
+    thread.contextValue = resolved ? 'bookmarkThread-resolved' : 'bookmarkThread-unresolved'
+    thread.state = resolved ? vscode.CommentThreadState.Resolved : vscode.CommentThreadState.Unresolved
+  }
+
+  private toNoteComment(bookmarkId: string, comment: BookmarkComment): BookmarkNoteComment {
+    return new BookmarkNoteComment(
+      comment.id,
+      bookmarkId,
+      new vscode.MarkdownString(comment.content),
+      vscode.CommentMode.Preview,
+      { name: comment.author },
+      comment.timestamp,
+      comment.isResolved,
+    )
+  }
+
+  /**
+   * 添加注释（线程回复框提交）
+   * 新建的线程不属于任何书签时，按所在行查找书签
+   */
+  async addComment(reply: vscode.CommentReply): Promise<void> {
+    const thread = reply.thread
+    const bookmark = this.findThreadBookmark(thread)
+    if (!bookmark) {
+      thread.dispose()
+      vscode.window.showWarningMessage('只能为书签所在行添加注释')
+      return
+    }
+
+    // 编辑器新建的线程：书签还没有线程时接管，否则合并到已有线程
+    const existing = this.threads.get(bookmark.id)
+    if (!existing) {
+      thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded
+      this.threads.set(bookmark.id, thread)
+    }
+    else if (existing !== thread) {
+      thread.dispose()
+    }
+
+    const comment: BookmarkComment = {
+      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      author: this.getAuthorName(),
+      content: reply.text,
+      timestamp: new Date(),
+      isResolved: false,
+    }
+
+    await this.saveComments(bookmark, [...bookmark.comments, comment])
+  }
+
+  /**
+   * 进入编辑模式
+   */
+  editComment(comment: BookmarkNoteComment): void {
+    const thread = this.threads.get(comment.bookmarkId)
+    if (!thread)
+      return
+
+    thread.comments = thread.comments.map((c) => {
+      if ((c as BookmarkNoteComment).id === comment.id) {
+        c.mode = vscode.CommentMode.Editing
+      }
+      return c
+    })
+  }
+
+  /**
+   * 保存编辑后的注释
+   */
+  async saveComment(comment: BookmarkNoteComment): Promise<void> {
+    const bookmark = this.getBookmark(comment.bookmarkId)
+    if (!bookmark)
+      return
+
+    const content = typeof comment.body === 'string' ? comment.body : comment.body.value
+    comment.mode = vscode.CommentMode.Preview
+    await this.saveComments(bookmark, bookmark.comments.map(c => c.id === comment.id ? { ...c, content } : c))
+  }
+
+  /**
+   * 取消编辑，恢复原内容
+   */
+  cancelEdit(comment: BookmarkNoteComment): void {
+    const thread = this.threads.get(comment.bookmarkId)
+    if (!thread)
+      return
+
+    thread.comments = thread.comments.map((c) => {
+      if ((c as BookmarkNoteComment).id === comment.id) {
+        c.body = (c as BookmarkNoteComment).savedBody
+        c.mode = vscode.CommentMode.Preview
+      }
+      return c
+    })
+  }
+
+  async deleteComment(comment: BookmarkNoteComment): Promise<void> {
+    const bookmark = this.getBookmark(comment.bookmarkId)
+    if (!bookmark)
+      return
+
+    await this.saveComments(bookmark, bookmark.comments.filter(c => c.id !== comment.id))
+  }
+
+  /**
+   * 解决或重新打开线程中的全部注释
+   */
+  async setThreadResolved(thread: vscode.CommentThread, isResolved: boolean): Promise<void> {
+    const bookmark = this.findThreadBookmark(thread)
+    if (!bookmark)
+      return
+
+    await this.saveComments(bookmark, bookmark.comments.map(comment => ({ ...comment, isResolved })))
+  }
+
+  private async saveComments(bookmark: EnhancedBookmark, comments: BookmarkComment[]): Promise<void> {
+    if (this.sharedBookmarkStore.getBookmark(bookmark.id)) {
+      await this.sharedBookmarkStore.updateBookmark(bookmark.id, { comments })
+    }
+    else {
+      await this.bookmarkManager.updateBookmark(bookmark.id, { comments })
+    }
+  }
+
+  private findThreadBookmark(thread: vscode.CommentThread): EnhancedBookmark | undefined {
+    for (const [bookmarkId, existing] of this.threads) {
+      if (existing === thread)
+        return this.getBookmark(bookmarkId)
+    }
+
+    const line = thread.range?.start.line
+    return this.getAllBookmarks().find(bookmark =>
+      bookmark.uri.toString() === thread.uri.toString() && bookmark.range.start.line === line,
+    )
+  }
+
+  private getBookmark(bookmarkId: string): EnhancedBookmark | undefined {
+    return this.sharedBookmarkStore.getBookmark(bookmarkId) || this.bookmarkManager.getBookmark(bookmarkId)
+  }
+
+  private getAllBookmarks(): EnhancedBookmark[] {
+    return [
+      ...this.bookmarkManager.getAllBookmarks(),
+      ...this.sharedBookmarkStore.getAllBookmarks(),
+    ].filter(bookmark => !bookmark.isFolder)
+  }
+
+  private getThreadRange(bookmark: EnhancedBookmark): vscode.Range {
+    return new vscode.Range(bookmark.range.start.line, 0, bookmark.range.start.line, 0)
+  }
+
+  private getAuthorName(): string {
+    try {
+      return os.userInfo().username
+    }
+    catch {
+      return '我'
+    }
+  }
+
+  dispose(): void {
+    this.threads.forEach(thread => thread.dispose())
+    this.threads.clear()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
@@ -0,0 +1,355 @@
+import type { BookmarkExportData, EnhancedBookmark } from '../types/bookmarks.js'
+import type { EnhancedBookmarkManager } from './enhancedBookmarkManager.js'
+import type { SharedBookmarkStore } from './sharedBookmarkStore.js'
+import { Buffer } from 'node:buffer'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { FrameworkType } from '../types/frontendSymbols.js'
+
+/**
+ * 导出格式
+ */
+export type BookmarkExportFormat = 'json' | 'markdown' | 'csv'
+
+/**
+ * 导入结果
+ */
+export interface BookmarkImportResult {
+  imported: number
+  duplicates: number
+  remapped: number
+  invalid: number
+}
+
+const EXPORT_FORMAT_VERSION = '1.0'
+
+const FORMAT_EXTENSIONS: Record<BookmarkExportFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+  csv: 'csv',
+}
+
+/**
+ * 书签导入导出服务
+ * JSON 使用 BookmarkExportData 格式，可再次导入；Markdown 和 CSV 仅用于阅读和分享
+ */
+export class BookmarkExportService {
+  constructor(
+    private bookmarkManager: EnhancedBookmarkManager,
+    private sharedBookmarkStore: SharedBookmarkStore,
+  ) {}
+
+  /**
+   * 选择格式和保存位置后导出书签
+   * @param bookmarks 要导出的书签，省略时导出全部
+   * @param name 默认文件名（不含扩展名）
+   */
+  async exportBookmarks(bookmarks: EnhancedBookmark[] = this.getAllBookmarks(), name = 'ccoding-bookmarks'): Promise<void> {
+    if (bookmarks.filter(bookmark => !bookmark.isFolder).length === 0) {
+      vscode.window.showInformationMessage('没有可导出的书签')
+      return
+    }
+
+    const selected = await vscode.window.showQuickPick([
+      { label: 'JSON', description: '完整数据，可重新导入', value: 'json' as const },
+      { label: 'Markdown', description: '按文件分组的可点击列表', value: 'markdown' as const },
+      { label: 'CSV', description: '表格，适合在电子表格中查看', value: 'csv' as const },
+    ], { placeHolder: '选择导出格式' })
+    if (!selected)
+      return
+
+    const format = selected.value
+    const extension = FORMAT_EXTENSIONS[format]
+    const folder = vscode.workspace.workspaceFolders?.[0]
+    const defaultName = `${name}.${extension}`
+
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: folder ? vscode.Uri.joinPath(folder.uri, defaultName) : vscode.Uri.file(defaultName),
+      filters: {
+        [`${selected.label} Files`]: [extension],
+      },
+    })
+    if (!uri)
+      return
+
+    const content = this.formatBookmarks(bookmarks, format, uri)
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'))
+    vscode.window.showInformationMessage(`已导出 ${bookmarks.filter(bookmark => !bookmark.isFolder).length} 个书签到 ${uri.fsPath}`)
+  }
+
+  /**
+   * 按格式生成导出内容
+   * JSON 保留书签文件夹以便恢复层级，Markdown 和 CSV 只包含书签
+   * @param bookmarks 要导出的书签
+   * @param format 导出格式
+   * @param targetUri 导出文件位置，Markdown 链接相对于该文件生成
+   */
+  formatBookmarks(bookmarks: EnhancedBookmark[], format: BookmarkExportFormat, targetUri?: vscode.Uri): string {
+    switch (format) {
+      case 'markdown':
+        return this.toMarkdown(bookmarks.filter(bookmark => !bookmark.isFolder), targetUri)
+      case 'csv':
+        return this.toCsv(bookmarks.filter(bookmark => !bookmark.isFolder))
+      default:
+        return `${JSON.stringify(this.toExportData(bookmarks), null, 2)}\n`
+    }
+  }
+
+  /**
+   * 选择 JSON 文件并导入书签
+   */
+  async importBookmarks(): Promise<void> {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: {
+        'JSON Files': ['json'],
+      },
+      openLabel: '导入书签',
+    })
+    if (!uris || uris.length === 0)
+      return
+
+    const content = Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8')
+    const result = await this.importFromJson(content)
+
+    const details = [`导入 ${result.imported} 个`]
+    if (result.duplicates > 0)
+      details.push(`跳过重复 ${result.duplicates} 个`)
+    if (result.remapped > 0)
+      details.push(`重映射路径 ${result.remapped} 个`)
+    if (result.invalid > 0)
+      details.push(`无效 ${result.invalid} 个`)
+    vscode.window.showInformationMessage(`书签导入完成：${details.join('，')}`)
+  }
+
+  /**
+   * 解析导出的 JSON 并导入到私有书签
+   * 同一位置已有书签时跳过；导出时的项目根目录与当前工作区不同时按相对路径重映射
+   */
+  async importFromJson(content: string): Promise<BookmarkImportResult> {
+    let data: any
+    try {
+      data = JSON.parse(content)
+    }
+    catch {
+      throw new Error('文件不是有效的 JSON')
+    }
+
+    if (!data || !Array.isArray(data.bookmarks)) {
+      throw new Error('文件不是 CCoding 书签导出格式')
+    }
+
+    const result: BookmarkImportResult = { imported: 0, duplicates: 0, remapped: 0, invalid: 0 }
+    const existing = this.getAllBookmarks()
+    const existingIds = new Set(existing.map(bookmark => bookmark.id))
+    const existingLocations = new Set(existing.map(bookmark => this.getLocationKey(bookmark)))
+    const toImport: EnhancedBookmark[] = []
+    // 因ID冲突而换了新ID的书签：旧ID -> 新ID
+    const renamedIds = new Map<string, string>()
+
+    for (const item of data.bookmarks) {
+      if (!this.bookmarkManager.isValidBookmarkData(item) || !item.stats) {
+        result.invalid++
+        continue
+      }
+
+      let bookmark = this.bookmarkManager.deserializeBookmark(item)
+
+      // 文件夹没有代码位置，按ID去重
+      if (bookmark.isFolder) {
+        if (existingIds.has(bookmark.id)) {
+          result.duplicates++
+          continue
+        }
+        existingIds.add(bookmark.id)
+        toImport.push({ ...bookmark, isShared: false, relatedBookmarks: bookmark.relatedBookmarks || [], childBookmarks: bookmark.childBookmarks || [] })
+        continue
+      }
+
+      const remapped = this.remapToWorkspace(bookmark)
+      if (remapped !== bookmark) {
+        bookmark = remapped
+        result.remapped++
+      }
+
+      const locationKey = this.getLocationKey(bookmark)
+      if (existingLocations.has(locationKey)) {
+        result.duplicates++
+        continue
+      }
+
+      if (existingIds.has(bookmark.id)) {
+        const id = `bookmark_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+        renamedIds.set(bookmark.id, id)
+        bookmark = { ...bookmark, id }
+      }
+
+      bookmark = {
+        ...bookmark,
+        isShared: false,
+        tags: bookmark.tags || [],
+        relatedFiles: bookmark.relatedFiles || [],
+        relatedBookmarks: bookmark.relatedBookmarks || [],
+        childBookmarks: bookmark.childBookmarks || [],
+        version: bookmark.version || 1,
+        lastModified: Number.isNaN(bookmark.lastModified.getTime()) ? new Date() : bookmark.lastModified,
+      }
+
+      existingIds.add(bookmark.id)
+      existingLocations.add(locationKey)
+      toImport.push(bookmark)
+    }
+
+    // 文件夹和相关书签仍引用导出时的ID，改为指向换号后的书签
+    const resolveId = (id: string) => renamedIds.get(id) ?? id
+    for (const bookmark of toImport) {
+      if (bookmark.parentBookmark)
+        bookmark.parentBookmark = resolveId(bookmark.parentBookmark)
+      bookmark.childBookmarks = bookmark.childBookmarks.map(resolveId)
+      bookmark.relatedBookmarks = bookmark.relatedBookmarks.map(resolveId)
+    }
+
+    await this.bookmarkManager.importBookmarks(toImport)
+    result.imported = toImport.length
+    console.log(`[CCoding] 导入书签: ${result.imported} 个，重复 ${result.duplicates} 个，重映射 ${result.remapped} 个，无效 ${result.invalid} 个`)
+    return result
+  }
+
+  private getAllBookmarks(): EnhancedBookmark[] {
+    return [
+      ...this.bookmarkManager.getAllBookmarks(),
+      ...this.sharedBookmarkStore.getAllBookmarks(),
+    ]
+  }
+
+  private toExportData(bookmarks: EnhancedBookmark[]): BookmarkExportData {
+    return {
+      version: EXPORT_FORMAT_VERSION,
+      exportDate: new Date(),
+      projectName: vscode.workspace.name,
+      bookmarks: bookmarks.map(bookmark => this.bookmarkManager.serializeBookmark(bookmark)),
+      metadata: {
+        totalBookmarks: bookmarks.filter(bookmark => !bookmark.isFolder).length,
+        framework: this.getDominantFramework(bookmarks),
+        exportReason: 'manual',
+      },
+    }
+  }
+
+  /**
+   * Markdown：按文件分组，每个书签是可点击的 path:line 链接
+   */
+  private toMarkdown(bookmarks: EnhancedBookmark[], targetUri?: vscode.Uri): string {
+    const lines: string[] = [
+      `# ${vscode.workspace.name || 'CCoding'} 书签`,
+      '',
+      `> 导出时间：${new Date().toLocaleString('zh-CN')}，共 ${bookmarks.length} 个书签`,
+      '',
+    ]
+
+    for (const [filePath, fileBookmarks] of this.groupByFile(bookmarks)) {
+      lines.push(`## 📁 ${filePath} (${fileBookmarks.length})`, '')
+
+      for (const bookmark of fileBookmarks) {
+        const line = bookmark.range.start.line + 1
+        const target = targetUri
+          ? path.relative(path.dirname(targetUri.fsPath), bookmark.uri.fsPath).split(path.sep).join('/')
+          : bookmark.uri.fsPath.split(path.sep).join('/')
+        const link = `[${filePath}:${line}](${encodeURI(target)}#L${line})`
+        const tags = bookmark.tags.length > 0 ? ` ${bookmark.tags.map(tag => `\`#${tag}\``).join(' ')}` : ''
+        const description = bookmark.description ? ` — ${bookmark.description}` : ''
+
+        lines.push(`- **${bookmark.label}** ${link}${tags}${description}`)
+      }
+      lines.push('')
+    }
+
+    return lines.join('\n')
+  }
+
+  private toCsv(bookmarks: EnhancedBookmark[]): string {
+    const header = ['id', 'label', 'file', 'line', 'type', 'priority', 'tags', 'description', 'shared', 'createdAt', 'lastModified']
+    const rows = bookmarks.map(bookmark => [
+      bookmark.id,
+      bookmark.label,
+      this.getRelativePath(bookmark.uri),
+      String(bookmark.range.start.line + 1),
+      bookmark.type,
+      String(bookmark.priority),
+      bookmark.tags.join(';'),
+      bookmark.description || '',
+      String(bookmark.isShared),
+      bookmark.stats.createdAt.toISOString(),
+      bookmark.lastModified.toISOString(),
+    ])
+
+    return `${[header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\n')}\n`
+  }
+
+  /**
+   * 与全局书签视图的按文件分组保持一致
+   */
+  private groupByFile(bookmarks: EnhancedBookmark[]): Map<string, EnhancedBookmark[]> {
+    const groups = new Map<string, EnhancedBookmark[]>()
+
+    bookmarks.forEach((bookmark) => {
+      const filePath = this.getRelativePath(bookmark.uri)
+      if (!groups.has(filePath)) {
+        groups.set(filePath, [])
+      }
+      groups.get(filePath)!.push(bookmark)
+    })
+
+    groups.forEach(groupBookmarks => groupBookmarks.sort((a, b) => a.range.start.line - b.range.start.line))
+    return groups
+  }
+
+  private getDominantFramework(bookmarks: EnhancedBookmark[]): FrameworkType {
+    const counts = new Map<FrameworkType, number>()
+    bookmarks.forEach(bookmark => counts.set(bookmark.framework, (counts.get(bookmark.framework) || 0) + 1))
+
+    let dominant = FrameworkType.General
+    let max = 0
+    counts.forEach((count, framework) => {
+      if (count > max) {
+        max = count
+        dominant = framework
+      }
+    })
+    return dominant
+  }
+
+  /**
+   * 导出文件中的路径在本机工作区外时，按相对路径映射到当前工作区
+   * 优先选择与原项目目录同名的工作区文件夹
+   */
+  private remapToWorkspace(bookmark: EnhancedBookmark): EnhancedBookmark {
+    const folders = vscode.workspace.workspaceFolders
+    if (!folders || folders.length === 0 || vscode.workspace.getWorkspaceFolder(bookmark.uri)) {
+      return bookmark
+    }
+    if (!bookmark.relativePath || path.isAbsolute(bookmark.relativePath)) {
+      return bookmark
+    }
+
+    const projectName = bookmark.projectPath ? path.basename(bookmark.projectPath) : undefined
+    const folder = folders.find(f => f.name === projectName) || folders[0]
+    const uri = vscode.Uri.joinPath(folder.uri, ...bookmark.relativePath.split(/[\\/]/).filter(Boolean))
+
+    return { ...bookmark, uri, projectPath: folder.uri.fsPath }
+  }
+
+  private getLocationKey(bookmark: EnhancedBookmark): string {
+    return `${bookmark.uri.toString()}:${bookmark.range.start.line}`
+  }
+
+  private getRelativePath(uri: vscode.Uri): string {
+    return vscode.workspace.getWorkspaceFolder(uri)
+      ? vscode.workspace.asRelativePath(uri, false)
+      : uri.fsPath
+  }
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
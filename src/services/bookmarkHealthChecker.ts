@@ -0,0 +1,346 @@
+import type { BookmarkHealthCheck, BookmarkIssue, EnhancedBookmark } from '../types/bookmarks.js'
+import type { EnhancedBookmarkManager } from './enhancedBookmarkManager.js'
+import type { SharedBookmarkStore } from './sharedBookmarkStore.js'
+import { Buffer } from 'node:buffer'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { extractAnchorLine, normalize } from './bookmarkAnchorTracker.js'
+
+/**
+ * 书签健康检查器
+ * 逐个检查书签文件是否存在、位置是否越界、代码是否漂移、是否重复或长期未使用，
+ * 并为可自动修复的问题记录修复动作
+ */
+export class BookmarkHealthChecker {
+  // 最近一次检查中可自动修复问题的修复动作
+  private fixes: Map<BookmarkIssue, () => Promise<void>> = new Map()
+
+  // 配置
+  private unusedDays = 90
+
+  constructor(
+    private bookmarkManager: EnhancedBookmarkManager,
+    private sharedBookmarkStore: SharedBookmarkStore,
+  ) {}
+
+  /**
+   * 执行健康检查
+   */
+  async runHealthCheck(): Promise<BookmarkHealthCheck> {
+    this.fixes.clear()
+
+    const allBookmarks = this.getAllBookmarks()
+    const issues: BookmarkIssue[] = []
+    const bookmarkIds = new Set(allBookmarks.map(bookmark => bookmark.id))
+    for (const bookmark of allBookmarks) {
+      if (bookmark.parentBookmark && !bookmarkIds.has(bookmark.parentBookmark)) {
+        this.addIssue(issues, {
+          bookmarkId: bookmark.id,
+          type: 'orphaned',
+          severity: 'low',
+          description: '所在文件夹已不存在',
+          suggestedAction: '移动到根目录',
+        }, () => this.updateBookmark(bookmark, { parentBookmark: undefined }))
+      }
+    }
+
+    // 文件夹不指向代码位置，只检查层级关系
+    const bookmarks = allBookmarks.filter(bookmark => !bookmark.isFolder)
+    const fileLines = new Map<string, string[] | undefined>()
+
+    for (const bookmark of bookmarks) {
+      if (bookmark.uri.scheme !== 'file' || !bookmark.uri.fsPath) {
+        this.addIssue(issues, {
+          bookmarkId: bookmark.id,
+          type: 'invalid-path',
+          severity: 'critical',
+          description: `无效的书签路径: ${bookmark.uri.toString()}`,
+          suggestedAction: '删除书签',
+        }, () => this.deleteBookmark(bookmark))
+        continue
+      }
+
+      const uriString = bookmark.uri.toString()
+      if (!fileLines.has(uriString)) {
+        fileLines.set(uriString, await this.readLines(bookmark.uri))
+      }
+      const lines = fileLines.get(uriString)
+
+      if (!lines) {
+        const remappedUri = await this.findInWorkspace(bookmark)
+        this.addIssue(issues, {
+          bookmarkId: bookmark.id,
+          type: 'file-not-found',
+          severity: 'high',
+          description: `文件不存在: ${this.getRelativePath(bookmark.uri)}`,
+          suggestedAction: remappedUri ? `改为指向 ${this.getRelativePath(remappedUri)}` : '确认文件是否已移动，或删除书签',
+        }, remappedUri ? () => this.updateBookmark(bookmark, { uri: remappedUri, projectPath: this.getProjectPath(remappedUri) }) : undefined)
+        continue
+      }
+
+      if (bookmark.range.start.line >= lines.length) {
+        const lastLine = Math.max(0, lines.length - 1)
+        this.addIssue(issues, {
+          bookmarkId: bookmark.id,
+          type: 'orphaned',
+          severity: 'high',
+          description: `书签位于第 ${bookmark.range.start.line + 1} 行，但文件只有 ${lines.length} 行`,
+          suggestedAction: `移动到文件末行（第 ${lastLine + 1} 行）`,
+        }, () => this.updateBookmark(bookmark, { range: new vscode.Range(lastLine, 0, lastLine, 0) }))
+        continue
+      }
+
+      const anchorText = extractAnchorLine(bookmark.codePreview)
+      if (anchorText && normalize(lines[bookmark.range.start.line]) !== normalize(anchorText)) {
+        const matchedLine = this.findAnchorLine(lines, anchorText, bookmark.range.start.line)
+        this.addIssue(issues, {
+          bookmarkId: bookmark.id,
+          type: 'outdated',
+          severity: 'medium',
+          description: `第 ${bookmark.range.start.line + 1} 行的代码已与书签记录不一致`,
+          suggestedAction: matchedLine !== undefined ? `移动到第 ${matchedLine + 1} 行` : '检查书签位置是否仍然正确',
+        }, matchedLine !== undefined
+          ? () => this.updateBookmark(bookmark, {
+              range: new vscode.Range(matchedLine, bookmark.range.start.character, matchedLine, bookmark.range.end.character),
+            })
+          : undefined)
+      }
+
+      // 共享书签没有个人访问记录，已归档的书签无需再次归档
+      if (bookmark.isShared || bookmark.isArchived)
+        continue
+
+      const lastAccessed = bookmark.stats.lastAccessed.getTime()
+      const idleDays = Math.floor((Date.now() - lastAccessed) / (24 * 60 * 60 * 1000))
+      if (!bookmark.stats.isFavorite && idleDays >= this.unusedDays) {
+        this.addIssue(issues, {
+          bookmarkId: bookmark.id,
+          type: 'unused',
+          severity: 'low',
+          description: `已 ${idleDays} 天未访问`,
+          suggestedAction: '归档书签',
+        }, () => this.updateBookmark(bookmark, { isArchived: true }))
+      }
+    }
+
+    this.detectDuplicates(bookmarks, issues)
+
+    const countByType = (type: BookmarkIssue['type']) => new Set(issues.filter(issue => issue.type === type).map(issue => issue.bookmarkId)).size
+    const invalidIds = new Set(issues
+      .filter(issue => issue.type === 'invalid-path' || issue.type === 'file-not-found')
+      .map(issue => issue.bookmarkId))
+
+    const result: BookmarkHealthCheck = {
+      totalChecked: bookmarks.length,
+      validBookmarks: bookmarks.length - new Set(issues.map(issue => issue.bookmarkId)).size,
+      invalidBookmarks: invalidIds.size,
+      outdatedBookmarks: countByType('outdated'),
+      unusedBookmarks: countByType('unused'),
+      duplicateBookmarks: countByType('duplicate'),
+      orphanedBookmarks: countByType('orphaned'),
+      issues,
+      recommendations: [],
+    }
+    result.recommendations = this.buildRecommendations(result)
+
+    console.log(`[CCoding] 书签健康检查: 共 ${result.totalChecked} 个，发现 ${issues.length} 个问题`)
+    return result
+  }
+
+  /**
+   * 自动修复单个问题
+   * @returns 是否已修复
+   */
+  async fixIssue(issue: BookmarkIssue): Promise<boolean> {
+    const fix = this.fixes.get(issue)
+    if (!issue.autoFixable || !fix)
+      return false
+
+    await fix()
+    this.fixes.delete(issue)
+    return true
+  }
+
+  /**
+   * 修复所有可自动修复的问题
+   * @returns 已修复的问题数
+   */
+  async fixAllIssues(issues: BookmarkIssue[]): Promise<number> {
+    let fixed = 0
+    for (const issue of issues) {
+      try {
+        if (await this.fixIssue(issue))
+          fixed++
+      }
+      catch (error) {
+        console.error(`[CCoding] 修复书签问题失败: ${issue.description}`, error)
+      }
+    }
+    return fixed
+  }
+
+  private addIssue(
+    issues: BookmarkIssue[],
+    issue: Omit<BookmarkIssue, 'autoFixable'>,
+    fix?: () => Promise<void>,
+  ): void {
+    const fullIssue: BookmarkIssue = { ...issue, autoFixable: !!fix }
+    issues.push(fullIssue)
+    if (fix) {
+      this.fixes.set(fullIssue, fix)
+    }
+  }
+
+  /**
+   * 同一文件同一行的多个书签，保留访问次数最多（其次最早创建）的一个
+   */
+  private detectDuplicates(bookmarks: EnhancedBookmark[], issues: BookmarkIssue[]): void {
+    const byLocation = new Map<string, EnhancedBookmark[]>()
+    for (const bookmark of bookmarks) {
+      const key = `${bookmark.uri.toString()}:${bookmark.range.start.line}`
+      if (!byLocation.has(key)) {
+        byLocation.set(key, [])
+      }
+      byLocation.get(key)!.push(bookmark)
+    }
+
+    for (const group of byLocation.values()) {
+      if (group.length < 2)
+        continue
+
+      const [kept, ...duplicates] = group.sort((a, b) =>
+        b.stats.accessCount - a.stats.accessCount
+        || a.stats.createdAt.getTime() - b.stats.createdAt.getTime(),
+      )
+      for (const duplicate of duplicates) {
+        this.addIssue(issues, {
+          bookmarkId: duplicate.id,
+          type: 'duplicate',
+          severity: 'low',
+          description: `与书签 "${kept.label}" 位于同一行`,
+          suggestedAction: '删除重复书签',
+        }, () => this.deleteBookmark(duplicate))
+      }
+    }
+  }
+
+  private buildRecommendations(result: BookmarkHealthCheck): string[] {
+    const recommendations: string[] = []
+
+    if (result.issues.length === 0) {
+      recommendations.push('所有书签状态良好')
+      return recommendations
+    }
+    if (result.invalidBookmarks > 0) {
+      recommendations.push(`${result.invalidBookmarks} 个书签指向的文件已不存在，建议修复路径或删除`)
+    }
+    if (result.outdatedBookmarks > 0) {
+      recommendations.push(`${result.outdatedBookmarks} 个书签所在代码已变化，建议确认位置`)
+    }
+    if (result.duplicateBookmarks > 0) {
+      recommendations.push(`${result.duplicateBookmarks} 个重复书签可以删除`)
+    }
+    if (result.unusedBookmarks > 0) {
+      recommendations.push(`${result.unusedBookmarks} 个书签超过 ${this.unusedDays} 天未使用，建议归档`)
+    }
+    return recommendations
+  }
+
+  /**
+   * 读取文件内容，优先使用已打开文档（包含未保存的修改）
+   * @returns 文件不存在时返回 undefined
+   */
+  private async readLines(uri: vscode.Uri): Promise<string[] | undefined> {
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString())
+    if (openDocument) {
+      return openDocument.getText().split(/\r?\n/)
+    }
+
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+      return content.split(/\r?\n/)
+    }
+    catch {
+      return undefined
+    }
+  }
+
+  /**
+   * 按相对路径在当前工作区中查找文件
+   */
+  private async findInWorkspace(bookmark: EnhancedBookmark): Promise<vscode.Uri | undefined> {
+    if (!bookmark.relativePath || path.isAbsolute(bookmark.relativePath))
+      return undefined
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const candidate = vscode.Uri.joinPath(folder.uri, ...bookmark.relativePath.split(/[\\/]/).filter(Boolean))
+      if (candidate.toString() === bookmark.uri.toString())
+        continue
+
+      try {
+        await vscode.workspace.fs.stat(candidate)
+        return candidate
+      }
+      catch {
+        // 继续查找下一个工作区文件夹
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * 查找与锚点文本完全一致且距离原位置最近的行
+   */
+  private findAnchorLine(lines: string[], anchorText: string, originalLine: number): number | undefined {
+    const target = normalize(anchorText)
+    let nearest: number | undefined
+
+    lines.forEach((line, index) => {
+      if (normalize(line) === target && (nearest === undefined || Math.abs(index - originalLine) < Math.abs(nearest - originalLine))) {
+        nearest = index
+      }
+    })
+
+    return nearest
+  }
+
+  private getAllBookmarks(): EnhancedBookmark[] {
+    return [
+      ...this.bookmarkManager.getAllBookmarks(),
+      ...this.sharedBookmarkStore.getAllBookmarks(),
+    ]
+  }
+
+  private async updateBookmark(
+    bookmark: EnhancedBookmark,
+    changes: Partial<Omit<EnhancedBookmark, 'id' | 'stats' | 'version'>>,
+  ): Promise<void> {
+    if (this.sharedBookmarkStore.getBookmark(bookmark.id)) {
+      await this.sharedBookmarkStore.updateBookmark(bookmark.id, changes)
+    }
+    else {
+      await this.bookmarkManager.updateBookmark(bookmark.id, changes)
+    }
+  }
+
+  private async deleteBookmark(bookmark: EnhancedBookmark): Promise<void> {
+    if (this.sharedBookmarkStore.getBookmark(bookmark.id)) {
+      await this.sharedBookmarkStore.deleteBookmark(bookmark.id)
+    }
+    else {
+      await this.bookmarkManager.deleteBookmark(bookmark.id)
+    }
+  }
+
+  private getProjectPath(uri: vscode.Uri): string {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri)
+    return workspaceFolder ? workspaceFolder.uri.fsPath : path.dirname(uri.fsPath)
+  }
+
+  private getRelativePath(uri: vscode.Uri): string {
+    return vscode.workspace.getWorkspaceFolder(uri)
+      ? vscode.workspace.asRelativePath(uri, false)
+      : uri.fsPath
+  }
+}
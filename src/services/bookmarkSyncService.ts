@@ -0,0 +1,456 @@
+import type { BookmarkSyncConfig, EnhancedBookmark } from '../types/bookmarks.js'
+import type { EnhancedBookmarkManager } from './enhancedBookmarkManager.js'
+import { Buffer } from 'node:buffer'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+
+/**
+ * 同步文件格式
+ */
+interface BookmarkSyncFile {
+  version: number
+  updatedAt: string
+  bookmarks: any[]
+}
+
+/**
+ * 上次同步时的书签版本（三方合并的基线）
+ */
+interface BookmarkSyncBase {
+  filePath: string
+  bookmarks: Record<string, { version: number, lastModified: string }>
+}
+
+/**
+ * 双方都修改过的书签
+ */
+interface BookmarkConflict {
+  id: string
+  local?: EnhancedBookmark
+  remote?: EnhancedBookmark
+}
+
+/**
+ * 同步结果
+ */
+export interface BookmarkSyncResult {
+  pulled: number
+  pushed: number
+  deleted: number
+  conflicts: number
+}
+
+const SYNC_FILE_VERSION = 1
+const SYNC_BASE_KEY = 'CCoding.bookmarkSyncBase'
+
+/**
+ * 书签同步服务
+ * 基于文件的同步：将书签推送/拉取到配置的文件路径（网络共享盘或 git 跟踪的目录），
+ * 以上次同步的 version/lastModified 为基线做三方合并
+ */
+export class BookmarkSyncService implements vscode.Disposable {
+  private syncTimer: NodeJS.Timeout | undefined
+  private isSyncing = false
+  private disposables: vscode.Disposable[] = []
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private bookmarkManager: EnhancedBookmarkManager,
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('CCoding.bookmarks.sync')) {
+          this.setupAutoSync()
+        }
+      }),
+    )
+    this.setupAutoSync()
+  }
+
+  /**
+   * 读取同步配置
+   */
+  getConfig(): BookmarkSyncConfig {
+    const config = vscode.workspace.getConfiguration('CCoding.bookmarks.sync')
+    return {
+      enabled: config.get<boolean>('enabled', false),
+      provider: config.get<BookmarkSyncConfig['provider']>('provider', 'file'),
+      filePath: config.get<string>('filePath', ''),
+      autoSync: config.get<boolean>('autoSync', false),
+      syncInterval: config.get<number>('syncInterval', 30),
+      conflictResolution: config.get<BookmarkSyncConfig['conflictResolution']>('conflictResolution', 'manual'),
+    }
+  }
+
+  private setupAutoSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer)
+      this.syncTimer = undefined
+    }
+
+    const config = this.getConfig()
+    if (!config.enabled || !config.autoSync || config.syncInterval <= 0) {
+      return
+    }
+
+    this.syncTimer = setInterval(() => {
+      this.sync({ silent: true }).catch((error) => {
+        console.error('[CCoding] 自动同步书签失败:', error)
+      })
+    }, config.syncInterval * 60 * 1000)
+  }
+
+  /**
+   * 执行一次同步
+   * @param options 同步选项
+   * @param options.silent 自动同步时不弹出提示；手动冲突处理模式下冲突留到下次手动同步处理
+   * @returns 同步结果；未启用、正在同步或用户取消冲突处理时返回 undefined
+   */
+  async sync(options: { silent?: boolean } = {}): Promise<BookmarkSyncResult | undefined> {
+    const config = this.getConfig()
+    if (!config.enabled) {
+      if (!options.silent) {
+        vscode.window.showWarningMessage('书签同步未启用，请先设置 CCoding.bookmarks.sync.enabled')
+      }
+      return undefined
+    }
+    if (config.provider !== 'file') {
+      throw new Error(`暂不支持的同步方式: ${config.provider}`)
+    }
+
+    const fileUri = this.resolveSyncFile(config.filePath)
+    if (!fileUri) {
+      throw new Error('未配置同步文件路径（CCoding.bookmarks.sync.filePath）')
+    }
+
+    if (this.isSyncing) {
+      return undefined
+    }
+    this.isSyncing = true
+
+    try {
+      const local = new Map(this.bookmarkManager.getAllBookmarks().map(bookmark => [bookmark.id, bookmark]))
+      // 读取时的版本，用于识别处理冲突期间用户又修改过的书签
+      const localVersions = new Map(Array.from(local.values(), bookmark => [bookmark.id, this.getVersionKey(bookmark)]))
+      const remote = await this.readRemote(fileUri)
+      const base = this.loadBase(fileUri)
+
+      const merged = new Map<string, EnhancedBookmark>()
+      const conflicts: BookmarkConflict[] = []
+      const result: BookmarkSyncResult = { pulled: 0, pushed: 0, deleted: 0, conflicts: 0 }
+
+      const ids = new Set([...local.keys(), ...remote.keys()])
+      for (const id of ids) {
+        const localBookmark = local.get(id)
+        const remoteBookmark = remote.get(id)
+        const baseVersion = base[id]
+
+        const localChanged = !!localBookmark && this.isChangedSince(localBookmark, baseVersion)
+        const remoteChanged = !!remoteBookmark && this.isChangedSince(remoteBookmark, baseVersion)
+
+        if (localBookmark && remoteBookmark) {
+          if (this.isSameVersion(localBookmark, remoteBookmark) || !remoteChanged) {
+            merged.set(id, localBookmark)
+            if (localChanged)
+              result.pushed++
+          }
+          else if (!localChanged) {
+            merged.set(id, this.withLocalStats(remoteBookmark, localBookmark))
+            result.pulled++
+          }
+          else {
+            conflicts.push({ id, local: localBookmark, remote: remoteBookmark })
+          }
+        }
+        else if (localBookmark) {
+          // 远端没有：新增的本地书签，或远端已删除
+          if (!baseVersion) {
+            merged.set(id, localBookmark)
+            result.pushed++
+          }
+          else if (localChanged) {
+            conflicts.push({ id, local: localBookmark })
+          }
+          else {
+            result.deleted++
+          }
+        }
+        else if (remoteBookmark) {
+          // 本地没有：新增的远端书签，或本地已删除
+          if (!baseVersion) {
+            merged.set(id, remoteBookmark)
+            result.pulled++
+          }
+          else if (remoteChanged) {
+            conflicts.push({ id, remote: remoteBookmark })
+          }
+          else {
+            result.deleted++
+          }
+        }
+      }
+
+      // 自动同步不弹出冲突处理界面，冲突的书签两边保持原样，基线不变，下次手动同步时处理
+      const deferred = options.silent && config.conflictResolution === 'manual' ? conflicts : []
+      if (conflicts.length > 0) {
+        result.conflicts = conflicts.length
+      }
+      if (conflicts.length > 0 && deferred.length === 0) {
+        const resolved = await this.resolveConflicts(conflicts, config.conflictResolution)
+        if (!resolved) {
+          vscode.window.showWarningMessage('书签同步已取消，未做任何修改')
+          return undefined
+        }
+        for (const bookmark of resolved) {
+          merged.set(bookmark.id, bookmark)
+        }
+      }
+
+      const mergedBookmarks = Array.from(merged.values())
+      const deferredBase: BookmarkSyncBase['bookmarks'] = {}
+      for (const { id } of deferred) {
+        if (base[id]) {
+          deferredBase[id] = base[id]
+        }
+      }
+      await this.writeRemote(fileUri, [...mergedBookmarks, ...deferred.flatMap(conflict => conflict.remote ? [conflict.remote] : [])])
+
+      // 只应用合并改变的书签；读取之后又被修改或新建的书签保持当前内容，下次同步时处理
+      const localResult = new Map([...mergedBookmarks, ...deferred.flatMap(conflict => conflict.local ? [conflict.local] : [])]
+        .map(bookmark => [bookmark.id, bookmark]))
+      const unchangedSinceRead = (id: string): boolean => {
+        const current = this.bookmarkManager.getBookmark(id)
+        return current ? this.getVersionKey(current) === localVersions.get(id) : !localVersions.has(id)
+      }
+      const upserts = Array.from(localResult.values())
+        .filter(bookmark => bookmark !== local.get(bookmark.id) && unchangedSinceRead(bookmark.id))
+      const deletedIds = Array.from(local.keys())
+        .filter(id => !localResult.has(id) && unchangedSinceRead(id))
+      await this.bookmarkManager.applySyncChanges(upserts, deletedIds)
+      await this.saveBase(fileUri, mergedBookmarks, deferredBase)
+
+      console.log(`[CCoding] 书签同步完成: 拉取 ${result.pulled}，推送 ${result.pushed}，删除 ${result.deleted}，冲突 ${result.conflicts}`)
+      if (deferred.length > 0) {
+        vscode.window.setStatusBarMessage(`$(warning) 书签同步：${deferred.length} 个冲突待手动同步处理`, 10 * 1000)
+      }
+      if (!options.silent) {
+        vscode.window.showInformationMessage(
+          `书签同步完成：拉取 ${result.pulled} 个，推送 ${result.pushed} 个，删除 ${result.deleted} 个，冲突 ${result.conflicts} 个`,
+        )
+      }
+      return result
+    }
+    finally {
+      this.isSyncing = false
+    }
+  }
+
+  /**
+   * 按配置的策略解决冲突
+   * @returns 需要保留的书签；手动模式下用户取消时返回 undefined
+   */
+  private async resolveConflicts(
+    conflicts: BookmarkConflict[],
+    strategy: BookmarkSyncConfig['conflictResolution'],
+  ): Promise<EnhancedBookmark[] | undefined> {
+    const resolved: EnhancedBookmark[] = []
+
+    for (const conflict of conflicts) {
+      const { local, remote } = conflict
+
+      if (strategy === 'overwrite') {
+        // 本地覆盖远端
+        if (local)
+          resolved.push(local)
+        continue
+      }
+
+      if (strategy === 'auto-merge') {
+        // 编辑优先于删除；双方都编辑时取版本号更高者，版本相同取最近修改者
+        const winner = !local || !remote
+          ? (local || remote)!
+          : this.pickNewer(local, remote)
+        resolved.push(local && remote && winner === remote ? this.withLocalStats(remote, local) : winner)
+        continue
+      }
+
+      const choice = await this.askConflictChoice(conflict)
+      if (!choice) {
+        return undefined
+      }
+      if (choice === 'local' && local) {
+        resolved.push(local)
+      }
+      else if (choice === 'remote' && remote) {
+        resolved.push(local ? this.withLocalStats(remote, local) : remote)
+      }
+      else if (choice === 'both') {
+        if (local)
+          resolved.push(local)
+        if (remote) {
+          resolved.push(local
+            ? { ...remote, id: `${remote.id}_remote`, label: `${remote.label} (远端)` }
+            : remote)
+        }
+      }
+    }
+
+    return resolved
+  }
+
+  /**
+   * 手动冲突处理界面
+   */
+  private async askConflictChoice(conflict: BookmarkConflict): Promise<'local' | 'remote' | 'both' | undefined> {
+    const { local, remote } = conflict
+    const label = (local || remote)!.label
+
+    const items: Array<vscode.QuickPickItem & { value: 'local' | 'remote' | 'both' }> = [
+      {
+        label: '💻 保留本地版本',
+        description: local ? this.describeVersion(local) : '本地已删除',
+        detail: local ? `${local.relativePath}:${local.lineNumber} · ${local.label}` : undefined,
+        value: 'local',
+      },
+      {
+        label: '☁️ 使用远端版本',
+        description: remote ? this.describeVersion(remote) : '远端已删除',
+        detail: remote ? `${remote.relativePath}:${remote.lineNumber} · ${remote.label}` : undefined,
+        value: 'remote',
+      },
+    ]
+    if (local && remote) {
+      items.push({ label: '📑 保留两者', description: '远端版本作为新书签保存', value: 'both' })
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `书签 "${label}" 在本地和远端都被修改，选择要保留的版本`,
+      ignoreFocusOut: true,
+    })
+    return selected?.value
+  }
+
+  private describeVersion(bookmark: EnhancedBookmark): string {
+    return `v${bookmark.version} · ${bookmark.lastModified.toLocaleString('zh-CN')}`
+  }
+
+  private pickNewer(a: EnhancedBookmark, b: EnhancedBookmark): EnhancedBookmark {
+    if (a.version !== b.version) {
+      return a.version > b.version ? a : b
+    }
+    return a.lastModified.getTime() >= b.lastModified.getTime() ? a : b
+  }
+
+  private getVersionKey(bookmark: EnhancedBookmark): string {
+    return `${bookmark.version}@${bookmark.lastModified.getTime()}`
+  }
+
+  private isSameVersion(a: EnhancedBookmark, b: EnhancedBookmark): boolean {
+    return a.version === b.version && a.lastModified.getTime() === b.lastModified.getTime()
+  }
+
+  private isChangedSince(bookmark: EnhancedBookmark, base?: { version: number, lastModified: string }): boolean {
+    if (!base)
+      return true
+    return bookmark.version !== base.version || bookmark.lastModified.getTime() !== new Date(base.lastModified).getTime()
+  }
+
+  /**
+   * 使用统计属于个人数据，采用远端内容时保留本地统计
+   */
+  private withLocalStats(remote: EnhancedBookmark, local: EnhancedBookmark): EnhancedBookmark {
+    return { ...remote, stats: local.stats }
+  }
+
+  private resolveSyncFile(filePath?: string): vscode.Uri | undefined {
+    if (!filePath)
+      return undefined
+
+    const expanded = filePath.startsWith('~') ? path.join(os.homedir(), filePath.slice(1)) : filePath
+    if (path.isAbsolute(expanded)) {
+      return vscode.Uri.file(expanded)
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]
+    return folder ? vscode.Uri.joinPath(folder.uri, expanded) : undefined
+  }
+
+  private async readRemote(fileUri: vscode.Uri): Promise<Map<string, EnhancedBookmark>> {
+    const remote = new Map<string, EnhancedBookmark>()
+    let content: string
+
+    try {
+      content = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8')
+    }
+    catch {
+      // 首次同步时远端文件尚不存在
+      return remote
+    }
+
+    const data = JSON.parse(content) as BookmarkSyncFile
+    for (const item of Array.isArray(data.bookmarks) ? data.bookmarks : []) {
+      if (this.bookmarkManager.isValidBookmarkData(item)) {
+        const bookmark = this.remapToWorkspace(this.bookmarkManager.deserializeBookmark(item))
+        remote.set(bookmark.id, bookmark)
+      }
+    }
+
+    return remote
+  }
+
+  /**
+   * 其他机器上的绝对路径在本机不存在时，按相对路径映射到当前工作区
+   */
+  private remapToWorkspace(bookmark: EnhancedBookmark): EnhancedBookmark {
+    const folder = vscode.workspace.workspaceFolders?.[0]
+    if (!folder || vscode.workspace.getWorkspaceFolder(bookmark.uri) || !bookmark.relativePath || path.isAbsolute(bookmark.relativePath)) {
+      return bookmark
+    }
+
+    const uri = vscode.Uri.joinPath(folder.uri, ...bookmark.relativePath.split('/'))
+    return { ...bookmark, uri, projectPath: folder.uri.fsPath }
+  }
+
+  private async writeRemote(fileUri: vscode.Uri, bookmarks: EnhancedBookmark[]): Promise<void> {
+    const data: BookmarkSyncFile = {
+      version: SYNC_FILE_VERSION,
+      updatedAt: new Date().toISOString(),
+      bookmarks: bookmarks.map(bookmark => this.bookmarkManager.serializeBookmark(bookmark)),
+    }
+
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(fileUri, '..'))
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(`${JSON.stringify(data, null, 2)}\n`, 'utf8'))
+  }
+
+  private loadBase(fileUri: vscode.Uri): BookmarkSyncBase['bookmarks'] {
+    const base = this.context.globalState.get<BookmarkSyncBase>(SYNC_BASE_KEY)
+    return base && base.filePath === fileUri.toString() ? base.bookmarks : {}
+  }
+
+  /**
+   * 保存本次同步后的基线
+   * @param fileUri 同步文件
+   * @param bookmarks 已同步的书签
+   * @param kept 沿用上次基线的条目，用于暂缓处理的冲突
+   */
+  private async saveBase(fileUri: vscode.Uri, bookmarks: EnhancedBookmark[], kept: BookmarkSyncBase['bookmarks'] = {}): Promise<void> {
+    const base: BookmarkSyncBase = { filePath: fileUri.toString(), bookmarks: { ...kept } }
+    for (const bookmark of bookmarks) {
+      base.bookmarks[bookmark.id] = {
+        version: bookmark.version,
+        lastModified: bookmark.lastModified.toISOString(),
+      }
+    }
+    await this.context.globalState.update(SYNC_BASE_KEY, base)
+  }
+
+  dispose(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer)
+      this.syncTimer = undefined
+    }
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
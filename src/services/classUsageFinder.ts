@@ -0,0 +1,174 @@
+import { Buffer } from 'node:buffer'
+import * as vscode from 'vscode'
+
+/**
+ * 类名在模板或脚本中的一处使用
+ */
+export interface ClassUsage {
+  uri: vscode.Uri
+  range: vscode.Range
+  // 使用方式，如 class、:class、className、class: 指令、CSS Modules
+  source: string
+  // 所在行的内容
+  preview: string
+}
+
+interface TextMatch {
+  offset: number
+  source: string
+}
+
+// 值中可能包含类名的属性：HTML / Vue / Svelte / Angular 的 class 绑定和 JSX 的 className
+const ATTRIBUTE_PATTERN = /(?<![\w-])(class|className|:class|v-bind:class|\[class\]|\[ngClass\]|ngClass)\s*=\s*(["'{])/g
+// 拼接类名的常用函数和 classList 操作
+const CALL_PATTERN = /\b(classList\.(?:add|remove|toggle|contains|replace)|clsx|classnames|classNames|cx|cn)\s*\(/g
+
+/**
+ * 类名使用位置查找
+ * 扫描工作区的模板、JSX 和脚本，找出 class / className 绑定、Svelte class: 指令、
+ * CSS Modules 访问（styles.foo、$style.foo）以及 clsx 等函数中出现的类名
+ */
+export class ClassUsageFinder {
+  private static readonly SOURCE_PATTERN = '**/*.{vue,svelte,html,htm,jsx,tsx,js,ts,astro}'
+  private static readonly EXCLUDE_PATTERN = '{**/node_modules/**,**/dist/**,**/.git/**,**/*.d.ts,**/*.min.js}'
+  private static readonly MAX_FILES = 5000
+
+  /**
+   * 查找类名在工作区中的使用位置
+   * @param className 不带 . 的类名
+   */
+  static async findUsages(className: string): Promise<ClassUsage[]> {
+    const files = await vscode.workspace.findFiles(this.SOURCE_PATTERN, this.EXCLUDE_PATTERN, this.MAX_FILES)
+    const openDocuments = new Map(vscode.workspace.textDocuments.map(document => [document.uri.fsPath, document]))
+    const usages: ClassUsage[] = []
+
+    for (const uri of files) {
+      try {
+        // 已打开的文件使用编辑器中未保存的内容
+        const text = openDocuments.get(uri.fsPath)?.getText()
+          ?? Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+        if (!text.includes(className))
+          continue
+
+        const matches = this.findInText(text, className)
+        if (matches.length === 0)
+          continue
+
+        const lineStarts = this.getLineStarts(text)
+        for (const match of matches) {
+          const start = this.positionAt(lineStarts, match.offset)
+          const lineEnd = lineStarts[start.line + 1] ?? text.length
+          usages.push({
+            uri,
+            range: new vscode.Range(start, start.translate(0, className.length)),
+            source: match.source,
+            preview: text.slice(lineStarts[start.line], lineEnd).trim(),
+          })
+        }
+      }
+      catch (error) {
+        console.warn(`[CCoding] 无法读取文件 ${uri.fsPath}:`, error)
+      }
+    }
+
+    return usages
+  }
+
+  /**
+   * 查找文本中类名出现的位置
+   * @param text 文件内容
+   * @param className 不带 . 的类名
+   */
+  static findInText(text: string, className: string): TextMatch[] {
+    const name = className.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const token = new RegExp(`(?<![\\w-])${name}(?![\\w-])`, 'g')
+    const matches = new Map<number, TextMatch>()
+
+    const searchIn = (start: number, end: number, source: string): void => {
+      for (const match of text.slice(start, end).matchAll(token)) {
+        matches.set(start + match.index!, { offset: start + match.index!, source })
+      }
+    }
+
+    for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+      const valueStart = match.index! + match[0].length
+      const valueEnd = match[2] === '{'
+        ? this.findClosing(text, valueStart - 1, '{', '}')
+        : text.indexOf(match[2], valueStart)
+      if (valueEnd !== -1) {
+        searchIn(valueStart, valueEnd, match[1])
+      }
+    }
+
+    for (const match of text.matchAll(CALL_PATTERN)) {
+      const argsStart = match.index! + match[0].length
+      const argsEnd = this.findClosing(text, argsStart - 1, '(', ')')
+      if (argsEnd !== -1) {
+        searchIn(argsStart, argsEnd, match[1])
+      }
+    }
+
+    // Svelte 的 class:name 指令
+    for (const match of text.matchAll(new RegExp(`(?<![\\w-])class:(${name})(?![\\w-])`, 'g'))) {
+      const offset = match.index! + 'class:'.length
+      matches.set(offset, { offset, source: 'class:' })
+    }
+
+    // CSS Modules：styles.name、$style.name、styles['name']
+    for (const match of text.matchAll(new RegExp(`(\\$style|\\bstyles|\\bclasses)(?:\\.|\\[["'])(${name})(?![\\w-])`, 'g'))) {
+      const offset = match.index! + match[0].length - className.length
+      matches.set(offset, { offset, source: match[1] })
+    }
+
+    return [...matches.values()].sort((a, b) => a.offset - b.offset)
+  }
+
+  /**
+   * 匹配的右括号位置，跳过字符串中的括号
+   */
+  private static findClosing(text: string, openIndex: number, open: string, close: string): number {
+    let depth = 0
+    let quote: string | undefined
+    for (let index = openIndex; index < text.length; index++) {
+      const char = text[index]
+      if (quote) {
+        if (char === '\\')
+          index++
+        else if (char === quote)
+          quote = undefined
+        continue
+      }
+
+      if (char === '"' || char === '\'' || char === '`')
+        quote = char
+      else if (char === open)
+        depth++
+      else if (char === close && --depth === 0)
+        return index
+    }
+    return -1
+  }
+
+  private static getLineStarts(text: string): number[] {
+    const starts = [0]
+    for (let index = 0; index < text.length; index++) {
+      if (text[index] === '\n') {
+        starts.push(index + 1)
+      }
+    }
+    return starts
+  }
+
+  private static positionAt(lineStarts: number[], offset: number): vscode.Position {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2)
+      if (lineStarts[middle] <= offset)
+        low = middle
+      else
+        high = middle - 1
+    }
+    return new vscode.Position(low, offset - lineStarts[low])
+  }
+}
@@ -0,0 +1,371 @@
+import type { SvelteScriptBlock } from '../parsers/svelteParser.js'
+import type { VueSfcBlock } from '../parsers/vueParser.js'
+import path from 'node:path'
+import ts from 'typescript'
+import * as vscode from 'vscode'
+import { getCalleeName, getPropertyName } from '../parsers/astUtils.js'
+import { SvelteParser } from '../parsers/svelteParser.js'
+import { VueParser } from '../parsers/vueParser.js'
+
+/**
+ * 单个函数的复杂度
+ */
+export interface FunctionComplexity {
+  name: string
+  // 圈复杂度：1 + 分支数
+  cyclomatic: number
+  // 认知复杂度：按 SonarSource 规范，嵌套越深增量越大
+  cognitive: number
+  // 从声明开始（含 const xxx =）到函数结束
+  range: vscode.Range
+}
+
+/**
+ * 复杂度等级：1 简单 / 2 中等 / 3 复杂 / 4 非常复杂
+ */
+export type ComplexityLevel = 1 | 2 | 3 | 4
+
+type FunctionNode = ts.SignatureDeclaration & { body?: ts.ConciseBody }
+
+interface ScriptSource {
+  content: string
+  // 内容在整个文件中的起始偏移
+  offset: number
+  kind: ts.ScriptKind
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX,
+}
+
+const LANG_SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  jsx: ts.ScriptKind.JSX,
+}
+
+const LOGICAL_OPERATORS = [
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+]
+
+const LOGICAL_ASSIGNMENT_OPERATORS = [
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]
+
+/**
+ * 基于 TypeScript AST 计算每个函数的圈复杂度和认知复杂度
+ * 支持 JS/TS/JSX/TSX 以及 .vue / .svelte 中的 <script> 块
+ */
+export class ComplexityAnalyzer {
+  // 按文档版本缓存，函数列表、导航面板和编辑器装饰共用同一份结果
+  private static cache = new WeakMap<vscode.TextDocument, { version: number, results: FunctionComplexity[] }>()
+
+  static analyzeDocument(document: vscode.TextDocument): FunctionComplexity[] {
+    const cached = this.cache.get(document)
+    if (cached && cached.version === document.version)
+      return cached.results
+
+    const results: FunctionComplexity[] = []
+    try {
+      for (const source of this.getScriptSources(document)) {
+        const sourceFile = ts.createSourceFile(document.fileName, source.content, ts.ScriptTarget.Latest, true, source.kind)
+        this.collectFunctions(sourceFile, sourceFile, source.offset, document, results)
+      }
+    }
+    catch (error) {
+      console.error('[CCoding] 复杂度分析失败:', error)
+    }
+
+    this.cache.set(document, { version: document.version, results })
+    return results
+  }
+
+  /**
+   * 查找与符号对应的函数：声明起始行相同，外层函数优先
+   */
+  static findFunction(results: FunctionComplexity[], range: vscode.Range): FunctionComplexity | undefined {
+    return results.find(result => result.range.start.line === range.start.line)
+  }
+
+  /**
+   * 认知复杂度阈值，超过阈值的函数视为热点
+   */
+  static getThreshold(): number {
+    return Math.max(1, vscode.workspace.getConfiguration('CCoding.complexity').get<number>('threshold', 15))
+  }
+
+  /**
+   * 按阈值换算复杂度等级，超过阈值即为 3 级以上
+   * @param cognitive 认知复杂度
+   * @param threshold 认知复杂度阈值
+   */
+  static getLevel(cognitive: number, threshold = this.getThreshold()): ComplexityLevel {
+    if (cognitive <= threshold / 2)
+      return 1
+    if (cognitive <= threshold)
+      return 2
+    if (cognitive <= threshold * 2)
+      return 3
+    return 4
+  }
+
+  private static getScriptSources(document: vscode.TextDocument): ScriptSource[] {
+    const extension = path.extname(document.fileName).toLowerCase()
+
+    if (extension === '.vue') {
+      const descriptor = VueParser.parseSfc(document)
+      return [descriptor.script, descriptor.scriptSetup]
+        .filter((block): block is VueSfcBlock => block !== null)
+        .map(block => ({
+          content: block.content,
+          offset: block.offset,
+          kind: LANG_SCRIPT_KINDS[String(block.attrs.lang)] ?? ts.ScriptKind.TS,
+        }))
+    }
+
+    if (extension === '.svelte') {
+      const component = SvelteParser.parseSvelteFile(document)
+      return [component?.moduleScript, component?.script]
+        .filter((block): block is SvelteScriptBlock => !!block)
+        .map(block => ({
+          content: block.content,
+          offset: block.offset,
+          kind: ts.ScriptKind.TS,
+        }))
+    }
+
+    const kind = SCRIPT_KINDS[extension]
+    return kind === undefined ? [] : [{ content: document.getText(), offset: 0, kind }]
+  }
+
+  private static collectFunctions(
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    offset: number,
+    document: vscode.TextDocument,
+    results: FunctionComplexity[],
+  ): void {
+    if (this.isFunctionNode(node) && node.body) {
+      const declaration = this.getDeclarationNode(node)
+      results.push({
+        name: this.getFunctionName(node),
+        cyclomatic: this.calculateCyclomatic(node),
+        cognitive: this.calculateCognitive(node),
+        range: new vscode.Range(
+          document.positionAt(offset + declaration.getStart(sourceFile)),
+          document.positionAt(offset + node.getEnd()),
+        ),
+      })
+    }
+
+    ts.forEachChild(node, child => this.collectFunctions(child, sourceFile, offset, document, results))
+  }
+
+  private static isFunctionNode(node: ts.Node): node is FunctionNode {
+    return ts.isFunctionDeclaration(node)
+      || ts.isFunctionExpression(node)
+      || ts.isArrowFunction(node)
+      || ts.isMethodDeclaration(node)
+      || ts.isConstructorDeclaration(node)
+      || ts.isGetAccessorDeclaration(node)
+      || ts.isSetAccessorDeclaration(node)
+  }
+
+  /**
+   * 箭头函数/函数表达式以所在的变量或属性声明作为起点
+   * const handle = useCallback(() => {}) 同样归属于 handle
+   */
+  private static getDeclarationNode(node: FunctionNode): ts.Node {
+    if (!ts.isArrowFunction(node) && !ts.isFunctionExpression(node))
+      return node
+
+    let current: ts.Node = node
+    while (ts.isParenthesizedExpression(current.parent) || ts.isCallExpression(current.parent)) {
+      current = current.parent
+    }
+
+    const parent = current.parent
+    if (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent))
+      return parent
+    return node
+  }
+
+  private static getFunctionName(node: FunctionNode): string {
+    if (ts.isConstructorDeclaration(node))
+      return 'constructor'
+    if (node.name && (ts.isIdentifier(node.name) || ts.isStringLiteralLike(node.name) || ts.isPrivateIdentifier(node.name)))
+      return node.name.text
+
+    const declaration = this.getDeclarationNode(node)
+    if (ts.isVariableDeclaration(declaration) && ts.isIdentifier(declaration.name))
+      return declaration.name.text
+    if (ts.isPropertyAssignment(declaration) || ts.isPropertyDeclaration(declaration))
+      return getPropertyName(declaration) ?? '匿名函数'
+
+    // 作为回调传入，如 useEffect(() => {})
+    if (ts.isCallExpression(node.parent)) {
+      const callee = getCalleeName(node.parent)
+      if (callee)
+        return `${callee} 回调`
+    }
+    return '匿名函数'
+  }
+
+  /**
+   * 圈复杂度：1 + if / ?: / case / 循环 / catch / && || ?? 的数量
+   * 嵌套函数单独计算，不计入外层
+   */
+  private static calculateCyclomatic(fn: FunctionNode): number {
+    let complexity = 1
+
+    const visit = (node: ts.Node): void => {
+      if (this.isFunctionNode(node))
+        return
+
+      if (
+        ts.isIfStatement(node)
+        || ts.isConditionalExpression(node)
+        || ts.isCaseClause(node)
+        || ts.isCatchClause(node)
+        || ts.isIterationStatement(node, false)
+      ) {
+        complexity++
+      }
+      else if (
+        ts.isBinaryExpression(node)
+        && (LOGICAL_OPERATORS.includes(node.operatorToken.kind) || LOGICAL_ASSIGNMENT_OPERATORS.includes(node.operatorToken.kind))
+      ) {
+        complexity++
+      }
+
+      ts.forEachChild(node, visit)
+    }
+
+    if (fn.body)
+      ts.forEachChild(fn.body, visit)
+    return complexity
+  }
+
+  /**
+   * 认知复杂度（SonarSource 规范）
+   * - if / ?: / switch / 循环 / catch：+1，并按嵌套层级额外增加
+   * - else if / else、带标签的 break / continue、递归调用：+1
+   * - 每段连续相同的逻辑运算符：+1
+   * - 嵌套函数不增加分值，但会加深其内部结构的嵌套层级并计入外层
+   */
+  private static calculateCognitive(fn: FunctionNode): number {
+    const name = this.getFunctionName(fn)
+    let complexity = 0
+
+    const visit = (node: ts.Node, nesting: number): void => {
+      if (ts.isIfStatement(node)) {
+        const isElseIf = ts.isIfStatement(node.parent) && node.parent.elseStatement === node
+        complexity += isElseIf ? 1 : 1 + nesting
+        visit(node.expression, nesting)
+        visit(node.thenStatement, nesting + 1)
+        if (node.elseStatement) {
+          if (ts.isIfStatement(node.elseStatement)) {
+            visit(node.elseStatement, nesting)
+          }
+          else {
+            complexity++
+            visit(node.elseStatement, nesting + 1)
+          }
+        }
+        return
+      }
+
+      if (ts.isConditionalExpression(node)) {
+        complexity += 1 + nesting
+        visit(node.condition, nesting)
+        visit(node.whenTrue, nesting + 1)
+        visit(node.whenFalse, nesting + 1)
+        return
+      }
+
+      if (ts.isSwitchStatement(node)) {
+        complexity += 1 + nesting
+        visit(node.expression, nesting)
+        node.caseBlock.clauses.forEach(clause => visit(clause, nesting + 1))
+        return
+      }
+
+      if (ts.isIterationStatement(node, false)) {
+        complexity += 1 + nesting
+        ts.forEachChild(node, child => visit(child, child === node.statement ? nesting + 1 : nesting))
+        return
+      }
+
+      if (ts.isCatchClause(node)) {
+        complexity += 1 + nesting
+        visit(node.block, nesting + 1)
+        return
+      }
+
+      if (this.isFunctionNode(node)) {
+        ts.forEachChild(node, child => visit(child, nesting + 1))
+        return
+      }
+
+      if ((ts.isBreakStatement(node) || ts.isContinueStatement(node)) && node.label) {
+        complexity++
+      }
+      else if (this.isLogicalExpression(node) && !this.isLogicalExpression(this.skipParentheses(node.parent))) {
+        complexity += this.countLogicalSequences(node)
+      }
+      else if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === name) {
+        complexity++
+      }
+
+      ts.forEachChild(node, child => visit(child, nesting))
+    }
+
+    if (fn.body)
+      ts.forEachChild(fn.body, child => visit(child, 0))
+    return complexity
+  }
+
+  private static isLogicalExpression(node: ts.Node): node is ts.BinaryExpression {
+    return ts.isBinaryExpression(node) && LOGICAL_OPERATORS.includes(node.operatorToken.kind)
+  }
+
+  private static skipParentheses(node: ts.Node): ts.Node {
+    let current = node
+    while (ts.isParenthesizedExpression(current)) {
+      current = current.parent
+    }
+    return current
+  }
+
+  /**
+   * a && b && c || d 计为 2：运算符每切换一次算一段
+   */
+  private static countLogicalSequences(node: ts.BinaryExpression): number {
+    const operators: ts.SyntaxKind[] = []
+    const flatten = (expression: ts.Expression): void => {
+      let current = expression
+      while (ts.isParenthesizedExpression(current)) {
+        current = current.expression
+      }
+      if (!this.isLogicalExpression(current))
+        return
+      flatten(current.left)
+      operators.push(current.operatorToken.kind)
+      flatten(current.right)
+    }
+
+    flatten(node)
+    return operators.filter((operator, index) => operator !== operators[index - 1]).length
+  }
+}
@@ -0,0 +1,109 @@
+import type { FunctionComplexity } from './complexityAnalyzer.js'
+import * as vscode from 'vscode'
+import { ComplexityAnalyzer } from './complexityAnalyzer.js'
+
+/**
+ * 复杂度热点装饰器
+ * 在认知复杂度超过阈值的函数声明行末尾显示复杂度，并在概览标尺中标记
+ */
+export class ComplexityDecorationManager implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = []
+  private decorationType: vscode.TextEditorDecorationType
+  private updateTimeout: NodeJS.Timeout | undefined
+
+  // 编辑时的刷新延迟
+  private updateDelay = 500
+
+  constructor() {
+    this.decorationType = this.createDecorationType()
+
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(editor => this.updateDecorations(editor)),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.document === vscode.window.activeTextEditor?.document) {
+          this.scheduleUpdate()
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('CCoding.complexity')) {
+          this.updateDecorations(vscode.window.activeTextEditor)
+        }
+      }),
+    )
+
+    this.updateDecorations(vscode.window.activeTextEditor)
+  }
+
+  private createDecorationType(): vscode.TextEditorDecorationType {
+    return vscode.window.createTextEditorDecorationType({
+      isWholeLine: true,
+      backgroundColor: new vscode.ThemeColor('editorWarning.background'),
+      overviewRulerColor: new vscode.ThemeColor('editorWarning.foreground'),
+      overviewRulerLane: vscode.OverviewRulerLane.Right,
+      after: {
+        margin: '0 0 0 2em',
+        color: new vscode.ThemeColor('editorWarning.foreground'),
+        fontStyle: 'italic',
+      },
+    })
+  }
+
+  private scheduleUpdate(): void {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+    }
+    this.updateTimeout = setTimeout(() => {
+      this.updateTimeout = undefined
+      this.updateDecorations(vscode.window.activeTextEditor)
+    }, this.updateDelay)
+  }
+
+  /**
+   * 重新计算并应用当前编辑器的热点装饰
+   * @param editor 目标编辑器
+   */
+  updateDecorations(editor: vscode.TextEditor | undefined): void {
+    if (!editor)
+      return
+
+    const config = vscode.workspace.getConfiguration('CCoding.complexity')
+    if (!config.get<boolean>('highlightHotspots', true)) {
+      editor.setDecorations(this.decorationType, [])
+      return
+    }
+
+    const threshold = ComplexityAnalyzer.getThreshold()
+    const hotspots = ComplexityAnalyzer.analyzeDocument(editor.document)
+      .filter(result => result.cognitive > threshold)
+
+    editor.setDecorations(this.decorationType, hotspots.map(result => this.createDecoration(result, threshold)))
+  }
+
+  private createDecoration(result: FunctionComplexity, threshold: number): vscode.DecorationOptions {
+    const line = result.range.start.line
+    const hoverMessage = new vscode.MarkdownString(
+      `**${result.name}** 复杂度过高\n\n`
+      + `- 认知复杂度: ${result.cognitive}（阈值 ${threshold}）\n`
+      + `- 圈复杂度: ${result.cyclomatic}`,
+    )
+
+    return {
+      range: new vscode.Range(line, 0, line, 0),
+      hoverMessage,
+      renderOptions: {
+        after: {
+          contentText: `⚠ 认知复杂度 ${result.cognitive} · 圈复杂度 ${result.cyclomatic}`,
+        },
+      },
+    }
+  }
+
+  dispose(): void {
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout)
+    }
+    this.decorationType.dispose()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
@@ -0,0 +1,303 @@
+import type { VueComponentGraph } from './vueComponentGraph.js'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { parseModuleImports } from '../parsers/moduleParser.js'
+import { readModuleSources, resolveModulePath } from './moduleResolver.js'
+
+export type GraphFramework = 'vue' | 'react' | 'svelte' | 'angular' | 'script'
+
+export interface DependencyGraphNode {
+  // 文件 fsPath
+  id: string
+  label: string
+  // 相对工作区的路径
+  path: string
+  framework: GraphFramework
+  // 与中心文件的距离，依赖为正数，被依赖为负数
+  depth: number
+}
+
+export interface DependencyGraphEdge {
+  from: string
+  to: string
+  // render 表示 Vue 模板中渲染了该组件
+  kind: 'import' | 'render'
+}
+
+export interface DependencyGraph {
+  root: string
+  nodes: DependencyGraphNode[]
+  edges: DependencyGraphEdge[]
+  // 节点数超过上限，部分文件未显示
+  truncated: boolean
+}
+
+/**
+ * 单个源文件的依赖信息
+ */
+interface ModuleInfo {
+  uri: vscode.Uri
+  framework: GraphFramework
+  specifiers: string[]
+}
+
+/**
+ * 文件依赖关系服务
+ * 索引工作区源文件的导入，结合 Vue 组件关系图，计算某个文件周围指定深度内的依赖和被依赖文件
+ */
+export class DependencyGraphService implements vscode.Disposable {
+  private static readonly SOURCE_PATTERN = '**/*.{ts,tsx,js,jsx,mts,mjs,vue,svelte}'
+  private static readonly EXCLUDE_PATTERN = '{**/node_modules/**,**/dist/**,**/.git/**}'
+  private static readonly EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.mjs', '.vue', '.svelte']
+  private static readonly MAX_FILES = 5000
+  private static readonly MAX_NODES = 150
+
+  private _onDidChange = new vscode.EventEmitter<void>()
+  readonly onDidChange = this._onDidChange.event
+
+  // key 为文件 fsPath
+  private modules: Map<string, ModuleInfo> = new Map()
+  // 解析后的依赖与反向依赖，数据变化后按需重新计算
+  private dependencies: Map<string, string[]> | undefined
+  private dependents: Map<string, string[]> | undefined
+  private buildPromise: Promise<void> | undefined
+  private pendingUpdates: Map<string, NodeJS.Timeout> = new Map()
+  private disposables: vscode.Disposable[] = []
+
+  // 文件变化后的更新延迟
+  private updateDelay = 500
+
+  constructor(private componentGraph: VueComponentGraph) {
+    const watcher = vscode.workspace.createFileSystemWatcher(DependencyGraphService.SOURCE_PATTERN)
+
+    this.disposables.push(
+      watcher,
+      this._onDidChange,
+      watcher.onDidCreate(uri => this.scheduleUpdate(uri)),
+      watcher.onDidChange(uri => this.scheduleUpdate(uri)),
+      watcher.onDidDelete(uri => this.removeFile(uri)),
+      this.componentGraph.onDidChange(() => this._onDidChange.fire()),
+    )
+  }
+
+  static getDepth(): number {
+    return vscode.workspace.getConfiguration('CCoding.dependencyGraph').get<number>('depth', 2)
+  }
+
+  static isSourceFile(uri: vscode.Uri): boolean {
+    return uri.scheme === 'file' && this.EXTENSIONS.includes(path.extname(uri.fsPath).toLowerCase())
+  }
+
+  /**
+   * 确保工作区已完成首次扫描
+   */
+  ensureBuilt(): Promise<void> {
+    if (!this.buildPromise) {
+      this.buildPromise = this.build()
+    }
+    return this.buildPromise
+  }
+
+  /**
+   * 计算文件周围的依赖关系
+   * @param uri 中心文件
+   * @param depth 向外展开的层数
+   */
+  async buildGraph(uri: vscode.Uri, depth: number): Promise<DependencyGraph> {
+    await this.ensureBuilt()
+
+    // 工作区外或尚未索引的文件单独解析
+    if (!this.modules.has(uri.fsPath)) {
+      await this.updateFile(uri)
+      this.invalidate()
+    }
+
+    const root = uri.fsPath
+    const depths = new Map<string, number>([[root, 0]])
+    const edges = new Map<string, DependencyGraphEdge>()
+    let truncated = false
+
+    const expand = async (direction: 1 | -1): Promise<void> => {
+      let frontier = [root]
+      for (let level = 1; level <= depth && frontier.length > 0; level++) {
+        const next: string[] = []
+        for (const file of frontier) {
+          const neighbours = direction === 1 ? await this.getDependencies(file) : await this.getDependents(file)
+          for (const { file: neighbour, kind } of neighbours) {
+            if (!depths.has(neighbour)) {
+              if (depths.size >= DependencyGraphService.MAX_NODES) {
+                truncated = true
+                continue
+              }
+              depths.set(neighbour, level * direction)
+              next.push(neighbour)
+            }
+
+            const [from, to] = direction === 1 ? [file, neighbour] : [neighbour, file]
+            const key = `${from}\n${to}`
+            // 同时存在导入和渲染关系时显示为渲染
+            if (!edges.has(key) || kind === 'render') {
+              edges.set(key, { from, to, kind })
+            }
+          }
+        }
+        frontier = next
+      }
+    }
+
+    await expand(1)
+    await expand(-1)
+
+    const nodes = [...depths.entries()].map(([file, level]) => this.createNode(file, level))
+    return { root, nodes, edges: [...edges.values()], truncated }
+  }
+
+  private createNode(file: string, depth: number): DependencyGraphNode {
+    const uri = vscode.Uri.file(file)
+    const framework = this.modules.get(file)?.framework || 'script'
+    const label = framework === 'vue' ? this.componentGraph.getComponentName(uri) : path.basename(file)
+    return { id: file, label, path: vscode.workspace.asRelativePath(uri), framework, depth }
+  }
+
+  private async getDependencies(file: string): Promise<{ file: string, kind: DependencyGraphEdge['kind'] }[]> {
+    const imports = (this.getDependencyMaps().dependencies.get(file) || []).map(target => ({ file: target, kind: 'import' as const }))
+    if (!file.endsWith('.vue'))
+      return imports
+
+    const rendered = (await this.componentGraph.getChildren(vscode.Uri.file(file)))
+      .map(edge => ({ file: edge.target.fsPath, kind: 'render' as const }))
+    return [...rendered, ...imports]
+  }
+
+  private async getDependents(file: string): Promise<{ file: string, kind: DependencyGraphEdge['kind'] }[]> {
+    const importers = (this.getDependencyMaps().dependents.get(file) || []).map(source => ({ file: source, kind: 'import' as const }))
+    if (!file.endsWith('.vue'))
+      return importers
+
+    const renderers = (await this.componentGraph.getParents(vscode.Uri.file(file)))
+      .map(edge => ({ file: edge.source.fsPath, kind: 'render' as const }))
+    return [...renderers, ...importers]
+  }
+
+  private getDependencyMaps(): { dependencies: Map<string, string[]>, dependents: Map<string, string[]> } {
+    if (!this.dependencies || !this.dependents) {
+      this.dependencies = new Map()
+      this.dependents = new Map()
+
+      for (const [file, module] of this.modules) {
+        const targets = new Set<string>()
+        for (const specifier of module.specifiers) {
+          const target = resolveModulePath(file, specifier, DependencyGraphService.EXTENSIONS, candidate => this.modules.has(candidate))
+          if (target && target !== file) {
+            targets.add(target)
+          }
+        }
+
+        this.dependencies.set(file, [...targets])
+        for (const target of targets) {
+          if (!this.dependents.has(target)) {
+            this.dependents.set(target, [])
+          }
+          this.dependents.get(target)!.push(file)
+        }
+      }
+    }
+
+    return { dependencies: this.dependencies, dependents: this.dependents }
+  }
+
+  private async build(): Promise<void> {
+    this.modules.clear()
+    this.invalidate()
+
+    try {
+      const files = await vscode.workspace.findFiles(
+        DependencyGraphService.SOURCE_PATTERN,
+        DependencyGraphService.EXCLUDE_PATTERN,
+        DependencyGraphService.MAX_FILES,
+      )
+      for (const uri of files) {
+        await this.updateFile(uri)
+      }
+      console.log(`[CCoding] 依赖关系索引完成: ${this.modules.size} 个文件`)
+    }
+    catch (error) {
+      console.error('[CCoding] 构建依赖关系索引失败:', error)
+    }
+  }
+
+  private scheduleUpdate(uri: vscode.Uri): void {
+    // 尚未扫描时无需增量更新，首次扫描会读取最新内容
+    if (!this.buildPromise)
+      return
+
+    const key = uri.fsPath
+    const pending = this.pendingUpdates.get(key)
+    if (pending) {
+      clearTimeout(pending)
+    }
+
+    this.pendingUpdates.set(key, setTimeout(async () => {
+      this.pendingUpdates.delete(key)
+      await this.buildPromise
+      await this.updateFile(uri)
+      this.invalidate()
+      this._onDidChange.fire()
+    }, this.updateDelay))
+  }
+
+  private removeFile(uri: vscode.Uri): void {
+    if (this.modules.delete(uri.fsPath)) {
+      this.invalidate()
+      this._onDidChange.fire()
+    }
+  }
+
+  private invalidate(): void {
+    this.dependencies = undefined
+    this.dependents = undefined
+  }
+
+  private async updateFile(uri: vscode.Uri): Promise<void> {
+    try {
+      const specifiers = await this.readSpecifiers(uri)
+      this.modules.set(uri.fsPath, {
+        uri,
+        framework: this.detectFramework(uri, specifiers),
+        specifiers,
+      })
+    }
+    catch (error) {
+      console.warn(`[CCoding] 无法解析文件依赖 ${uri.fsPath}:`, error)
+      this.modules.delete(uri.fsPath)
+    }
+  }
+
+  /**
+   * 读取文件中的模块路径
+   */
+  private async readSpecifiers(uri: vscode.Uri): Promise<string[]> {
+    const sourceFiles = await readModuleSources(uri)
+    return [...new Set(sourceFiles.flatMap(sourceFile => parseModuleImports(sourceFile).map(item => item.source)))]
+  }
+
+  private detectFramework(uri: vscode.Uri, specifiers: string[]): GraphFramework {
+    const extension = path.extname(uri.fsPath).toLowerCase()
+    if (extension === '.vue')
+      return 'vue'
+    if (extension === '.svelte')
+      return 'svelte'
+    if (specifiers.some(specifier => specifier.startsWith('@angular/')))
+      return 'angular'
+    if (extension === '.tsx' || extension === '.jsx' || specifiers.includes('react'))
+      return 'react'
+    return 'script'
+  }
+
+  dispose(): void {
+    this.pendingUpdates.forEach(timeout => clearTimeout(timeout))
+    this.pendingUpdates.clear()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
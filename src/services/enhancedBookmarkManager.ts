@@ -5,6 +5,7 @@ import type {
   BookmarkStatistics,
   BookmarkUsageStats,
   EnhancedBookmark,
+  SerializedBookmark,
 } from '../types/bookmarks.js'
 import * as path from 'node:path'
 import * as vscode from 'vscode'
@@ -15,6 +16,9 @@ import {
 } from '../types/bookmarks.js'
 import { FrameworkType } from '../types/frontendSymbols.js'
 
+const LEGACY_MIGRATION_KEY = 'CCoding.bookmarksMigrated'
+const ROOT_ORDER_KEY = 'CCoding.bookmarkRootOrder'
+
 /**
  * 增强的书签管理器
  * 提供智能分类、标签系统、使用统计和推荐功能
@@ -22,6 +26,8 @@ import { FrameworkType } from '../types/frontendSymbols.js'
 export class EnhancedBookmarkManager {
   private bookmarks: Map<string, EnhancedBookmark> = new Map()
   private operations: BookmarkOperation[] = []
+  private undoStack: BookmarkOperation[] = []
+  private redoStack: BookmarkOperation[] = []
   private context: vscode.ExtensionContext
   private currentViewMode: BookmarkViewMode = BookmarkViewMode.ByType
 
@@ -33,9 +39,22 @@ export class EnhancedBookmarkManager {
   // 缓存
   private groupsCache: Map<BookmarkViewMode, BookmarkGroup[]> = new Map()
   private lastSuggestionTime = 0
+  private cleanupTimer: NodeJS.Timeout | undefined
+  private startupCleanupTimer: NodeJS.Timeout | undefined
+
+  // 根目录下书签和文件夹的排列顺序
+  private rootOrder: string[] = []
+
+  // 事件发射器
+  private _onDidChangeBookmarks = new vscode.EventEmitter<void>()
+  readonly onDidChangeBookmarks = this._onDidChangeBookmarks.event
+
+  private _onDidChangeHistory = new vscode.EventEmitter<void>()
+  readonly onDidChangeHistory = this._onDidChangeHistory.event
 
   constructor(context: vscode.ExtensionContext) {
     this.context = context
+    this.rootOrder = [...context.globalState.get<string[]>(ROOT_ORDER_KEY, [])]
     this.loadBookmarks()
     this.setupAutoCleanup()
   }
@@ -73,6 +92,7 @@ export class EnhancedBookmarkManager {
 
       await this.context.globalState.update('CCoding.enhancedBookmarks', serialized)
       console.log(`[CCoding] 保存增强书签: ${serialized.length} 个`)
+      this._onDidChangeBookmarks.fire()
     }
     catch (error) {
       console.error('[CCoding] 保存增强书签失败:', error)
@@ -93,6 +113,7 @@ export class EnhancedBookmarkManager {
       priority?: BookmarkPriority
       tags?: string[]
       isTemporary?: boolean
+      ttlHours?: number
     } = {},
   ): Promise<EnhancedBookmark> {
     const document = await vscode.workspace.openTextDocument(uri)
@@ -135,7 +156,9 @@ export class EnhancedBookmarkManager {
 
       isTemporary: options.isTemporary || false,
       isArchived: false,
-      expiresAt: options.isTemporary ? new Date(Date.now() + 24 * 60 * 60 * 1000) : undefined,
+      expiresAt: options.isTemporary
+        ? new Date(Date.now() + (options.ttlHours ?? this.getTemporaryTTLHours()) * 60 * 60 * 1000)
+        : undefined,
 
       timestamp: Date.now(),
       version: 1,
@@ -148,12 +171,595 @@ export class EnhancedBookmarkManager {
     this.bookmarks.set(bookmark.id, bookmark)
     await this.saveBookmarks()
 
-    this.recordOperation('create', bookmark.id, { bookmark })
+    this.recordOperation('create', bookmark.id, { bookmark: this.serializeBookmark(bookmark) })
 
     console.log(`[CCoding] 创建增强书签: ${bookmark.label} (${bookmark.type})`)
     return bookmark
   }
 
+  /**
+   * 获取所有书签
+   */
+  getAllBookmarks(): EnhancedBookmark[] {
+    return Array.from(this.bookmarks.values())
+  }
+
+  /**
+   * 根据ID获取书签
+   */
+  getBookmark(bookmarkId: string): EnhancedBookmark | undefined {
+    return this.bookmarks.get(bookmarkId)
+  }
+
+  /**
+   * 更新书签
+   */
+  async updateBookmark(
+    bookmarkId: string,
+    changes: Partial<Omit<EnhancedBookmark, 'id' | 'stats' | 'version'>>,
+  ): Promise<EnhancedBookmark | undefined> {
+    const bookmark = this.bookmarks.get(bookmarkId)
+    if (!bookmark)
+      return undefined
+
+    const previous = this.serializeBookmark(bookmark)
+    Object.assign(bookmark, changes)
+    if (changes.range) {
+      bookmark.lineNumber = changes.range.start.line + 1
+    }
+    bookmark.version++
+    bookmark.lastModified = new Date()
+
+    await this.saveBookmarks()
+    this.recordOperation('update', bookmarkId, { previous, next: this.serializeBookmark(bookmark), changedKeys: Object.keys(changes) })
+
+    return bookmark
+  }
+
+  /**
+   * 导入已有的书签对象
+   * 用于共享/取消共享、导入等场景，保留原有ID和元数据
+   */
+  async importBookmarks(bookmarks: EnhancedBookmark[]): Promise<EnhancedBookmark[]> {
+    if (bookmarks.length === 0)
+      return []
+
+    // 被覆盖的同ID书签，撤销时恢复
+    const previous = bookmarks
+      .map(bookmark => this.bookmarks.get(bookmark.id))
+      .filter((bookmark): bookmark is EnhancedBookmark => !!bookmark)
+      .map(bookmark => this.serializeBookmark(bookmark))
+
+    for (const bookmark of bookmarks) {
+      this.bookmarks.set(bookmark.id, bookmark)
+    }
+    await this.saveBookmarks()
+
+    this.recordOperation('import', bookmarks[0].id, {
+      bookmarkIds: bookmarks.map(bookmark => bookmark.id),
+      bookmarks: bookmarks.map(bookmark => this.serializeBookmark(bookmark)),
+      previous,
+    })
+    return bookmarks
+  }
+
+  /**
+   * 应用同步合并的结果，只替换或删除合并改变的书签
+   * 这些书签的撤销/重做记录已不可靠，一并丢弃，其余书签的历史保持不变
+   * @param upserts 新增或采用远端内容的书签
+   * @param deletedIds 需要删除的书签ID
+   */
+  async applySyncChanges(upserts: EnhancedBookmark[], deletedIds: string[]): Promise<void> {
+    if (upserts.length === 0 && deletedIds.length === 0)
+      return
+
+    for (const bookmark of upserts) {
+      this.bookmarks.set(bookmark.id, bookmark)
+      this.discardHistoryFor(bookmark.id)
+    }
+    for (const bookmarkId of deletedIds) {
+      this.bookmarks.delete(bookmarkId)
+      this.discardHistoryFor(bookmarkId)
+    }
+    await this.saveBookmarks()
+    this._onDidChangeHistory.fire()
+  }
+
+  /**
+   * 将临时书签转为永久书签
+   */
+  async promoteBookmark(bookmarkId: string): Promise<EnhancedBookmark | undefined> {
+    const bookmark = this.bookmarks.get(bookmarkId)
+    if (!bookmark || !bookmark.isTemporary)
+      return undefined
+
+    return this.updateBookmark(bookmarkId, { isTemporary: false, expiresAt: undefined, isArchived: false })
+  }
+
+  /**
+   * 恢复已归档的书签，临时书签重新计算过期时间
+   * @param bookmarkId 书签ID
+   */
+  async restoreArchivedBookmark(bookmarkId: string): Promise<EnhancedBookmark | undefined> {
+    const bookmark = this.bookmarks.get(bookmarkId)
+    if (!bookmark || !bookmark.isArchived)
+      return undefined
+
+    return this.updateBookmark(bookmarkId, {
+      isArchived: false,
+      expiresAt: bookmark.isTemporary ? new Date(Date.now() + this.getTemporaryTTLHours() * 60 * 60 * 1000) : undefined,
+    })
+  }
+
+  /**
+   * 更新书签位置
+   * 用于跟随编辑和重新锚定，不记录操作；位置变化时递增版本号，同步时以新位置为准
+   * @param updates 书签ID与新位置
+   * @param document 传入时同时刷新代码预览
+   */
+  async relocateBookmarks(
+    updates: Array<{ id: string, range: vscode.Range }>,
+    document?: vscode.TextDocument,
+  ): Promise<void> {
+    let changed = 0
+
+    for (const { id, range } of updates) {
+      const bookmark = this.bookmarks.get(id)
+      if (!bookmark || bookmark.range.isEqual(range))
+        continue
+
+      bookmark.range = range
+      bookmark.lineNumber = range.start.line + 1
+      if (document && range.start.line < document.lineCount) {
+        bookmark.codePreview = this.extractCodePreview(document, range)
+      }
+      bookmark.version++
+      bookmark.lastModified = new Date()
+      changed++
+    }
+
+    if (changed > 0) {
+      await this.saveBookmarks()
+    }
+  }
+
+  /**
+   * 删除书签
+   */
+  async deleteBookmark(bookmarkId: string): Promise<boolean> {
+    const bookmark = this.bookmarks.get(bookmarkId)
+    if (!bookmark)
+      return false
+
+    this.bookmarks.delete(bookmarkId)
+    await this.saveBookmarks()
+    this.recordOperation('delete', bookmarkId, { bookmark: this.serializeBookmark(bookmark) })
+
+    console.log(`[CCoding] 删除增强书签: ${bookmark.label}`)
+    return true
+  }
+
+  /**
+   * 书签移入工作区共享文件后从私有存储移除
+   * 共享会在两个存储之间移动书签，只撤销私有存储一侧会造成重复或丢失，
+   * 因此只记录不可撤销的共享操作，并丢弃撤销/重做栈中涉及该书签的记录
+   * @param bookmarkId 书签ID
+   */
+  async moveToShared(bookmarkId: string): Promise<EnhancedBookmark | undefined> {
+    const bookmark = this.bookmarks.get(bookmarkId)
+    if (!bookmark)
+      return undefined
+
+    this.bookmarks.delete(bookmarkId)
+    await this.saveBookmarks()
+    this.discardHistoryFor(bookmarkId)
+    this.recordOperation('share', bookmarkId, { shared: true, label: bookmark.label })
+    return bookmark
+  }
+
+  /**
+   * 取消共享的书签移回私有存储，规则同 moveToShared
+   * @param bookmark 共享书签
+   */
+  async moveFromShared(bookmark: EnhancedBookmark): Promise<void> {
+    this.bookmarks.set(bookmark.id, { ...bookmark, isShared: false, relativePath: vscode.workspace.asRelativePath(bookmark.uri) })
+    await this.saveBookmarks()
+    this.discardHistoryFor(bookmark.id)
+    this.recordOperation('share', bookmark.id, { shared: false, label: bookmark.label })
+  }
+
+  private discardHistoryFor(bookmarkId: string): void {
+    const unrelated = (operation: BookmarkOperation): boolean =>
+      operation.bookmarkId !== bookmarkId && !(operation.details.bookmarkIds as string[] | undefined)?.includes(bookmarkId)
+    this.undoStack = this.undoStack.filter(unrelated)
+    this.redoStack = this.redoStack.filter(unrelated)
+  }
+
+  /**
+   * 获取所有书签文件夹
+   */
+  getFolders(): EnhancedBookmark[] {
+    return Array.from(this.bookmarks.values()).filter(bookmark => bookmark.isFolder)
+  }
+
+  /**
+   * 创建书签文件夹
+   * 文件夹同样以书签形式保存，通过 parentBookmark / childBookmarks 组织层级
+   * @param name 文件夹名称
+   * @param parentId 父文件夹ID，省略时创建在根目录
+   */
+  async createFolder(name: string, parentId?: string): Promise<EnhancedBookmark> {
+    const parent = parentId ? this.bookmarks.get(parentId) : undefined
+    if (parentId && !parent?.isFolder) {
+      throw new Error('父文件夹不存在')
+    }
+
+    const uri = vscode.workspace.workspaceFolders?.[0]?.uri || vscode.Uri.file('/')
+    const folder: EnhancedBookmark = {
+      id: this.generateBookmarkId(),
+      label: name,
+      uri,
+      range: new vscode.Range(0, 0, 0, 0),
+      type: BookmarkType.General,
+      priority: BookmarkPriority.Medium,
+      tags: [],
+      category: 'folder',
+      framework: FrameworkType.General,
+      projectPath: uri.fsPath,
+      relativePath: '',
+      codePreview: '',
+      lineNumber: 1,
+      stats: this.createInitialStats(),
+      relatedFiles: [],
+      relatedBookmarks: [],
+      parentBookmark: parentId,
+      childBookmarks: [],
+      isShared: false,
+      comments: [],
+      isTemporary: false,
+      isArchived: false,
+      isFolder: true,
+      timestamp: Date.now(),
+      version: 1,
+      lastModified: new Date(),
+    }
+
+    this.bookmarks.set(folder.id, folder)
+    this.insertIntoOrder(folder.id, parentId)
+    await this.saveBookmarks()
+    await this.saveRootOrder()
+
+    this.recordOperation('create', folder.id, { bookmark: this.serializeBookmark(folder) })
+    console.log(`[CCoding] 创建书签文件夹: ${name}`)
+    return folder
+  }
+
+  /**
+   * 获取文件夹下的直接子项（按 childBookmarks 排序）
+   * 以 parentBookmark 为准：未登记在 childBookmarks 中的子项排在最后
+   * @param folderId 文件夹ID，省略时返回根目录子项
+   */
+  getFolderChildren(folderId?: string): EnhancedBookmark[] {
+    const children = Array.from(this.bookmarks.values()).filter(bookmark =>
+      folderId
+        ? bookmark.parentBookmark === folderId
+        : !bookmark.parentBookmark || !this.bookmarks.get(bookmark.parentBookmark)?.isFolder,
+    )
+    const order = folderId ? this.bookmarks.get(folderId)?.childBookmarks || [] : this.rootOrder
+    const position = (id: string) => {
+      const index = order.indexOf(id)
+      return index === -1 ? Number.MAX_SAFE_INTEGER : index
+    }
+
+    return children.sort((a, b) =>
+      position(a.id) - position(b.id)
+      || Number(!!b.isFolder) - Number(!!a.isFolder)
+      || a.timestamp - b.timestamp,
+    )
+  }
+
+  /**
+   * 获取文件夹内（含子文件夹）的全部书签
+   * @param folderId 文件夹ID
+   * @param includeFolders 是否同时返回子文件夹
+   */
+  getFolderBookmarks(folderId: string, includeFolders = false): EnhancedBookmark[] {
+    const result: EnhancedBookmark[] = []
+    for (const child of this.getFolderChildren(folderId)) {
+      if (child.isFolder) {
+        if (includeFolders)
+          result.push(child)
+        result.push(...this.getFolderBookmarks(child.id, includeFolders))
+      }
+      else {
+        result.push(child)
+      }
+    }
+    return result
+  }
+
+  /**
+   * 移动书签或文件夹
+   * @param bookmarkId 要移动的书签或文件夹
+   * @param folderId 目标文件夹，省略时移动到根目录
+   * @param beforeId 插入到该兄弟项之前，省略时追加到末尾
+   */
+  async moveBookmark(bookmarkId: string, folderId?: string, beforeId?: string): Promise<boolean> {
+    const bookmark = this.bookmarks.get(bookmarkId)
+    if (!bookmark || bookmarkId === folderId || bookmarkId === beforeId)
+      return false
+
+    if (folderId) {
+      const folder = this.bookmarks.get(folderId)
+      if (!folder?.isFolder) {
+        throw new Error('目标文件夹不存在')
+      }
+      // 不能把文件夹移动到自己的子文件夹中
+      for (let current: EnhancedBookmark | undefined = folder; current; current = current.parentBookmark ? this.bookmarks.get(current.parentBookmark) : undefined) {
+        if (current.id === bookmarkId) {
+          throw new Error('不能将文件夹移动到其子文件夹中')
+        }
+      }
+    }
+
+    this.removeFromOrder(bookmarkId, bookmark.parentBookmark)
+    this.insertIntoOrder(bookmarkId, folderId, beforeId)
+
+    if (bookmark.parentBookmark !== folderId) {
+      // 层级变化作为一次修改记录，可以撤销
+      await this.updateBookmark(bookmarkId, { parentBookmark: folderId })
+    }
+    else {
+      await this.saveBookmarks()
+    }
+    await this.saveRootOrder()
+    return true
+  }
+
+  /**
+   * 删除文件夹
+   * @param folderId 文件夹ID
+   * @param deleteContents 为 true 时一并删除其中的书签和子文件夹，否则将内容移到上一级
+   */
+  async deleteFolder(folderId: string, deleteContents: boolean): Promise<void> {
+    const folder = this.bookmarks.get(folderId)
+    if (!folder?.isFolder)
+      return
+
+    if (deleteContents) {
+      await this.deleteFolderWithContents(folder)
+      return
+    }
+
+    for (const child of this.getFolderChildren(folderId)) {
+      await this.moveBookmark(child.id, folder.parentBookmark)
+    }
+
+    this.removeFromOrder(folderId, folder.parentBookmark)
+    await this.deleteBookmark(folderId)
+    await this.saveRootOrder()
+  }
+
+  /**
+   * 连同全部内容删除文件夹，整体记录为一次删除操作，撤销时一次恢复
+   * @param folder 要删除的文件夹
+   */
+  private async deleteFolderWithContents(folder: EnhancedBookmark): Promise<void> {
+    const contents = this.getFolderBookmarks(folder.id, true)
+    const parent = folder.parentBookmark ? this.bookmarks.get(folder.parentBookmark) : undefined
+    const order = parent?.isFolder ? parent.childBookmarks : this.rootOrder
+
+    this.recordOperation('delete', folder.id, {
+      bookmark: this.serializeBookmark(folder),
+      bookmarks: contents.map(bookmark => this.serializeBookmark(bookmark)),
+      bookmarkIds: [folder.id, ...contents.map(bookmark => bookmark.id)],
+      orderIndex: order.indexOf(folder.id),
+    })
+
+    this.removeFromOrder(folder.id, folder.parentBookmark)
+    for (const bookmark of [folder, ...contents]) {
+      this.bookmarks.delete(bookmark.id)
+    }
+    await this.saveBookmarks()
+    await this.saveRootOrder()
+
+    console.log(`[CCoding] 删除文件夹及其内容: ${folder.label}（${contents.length} 项）`)
+  }
+
+  private insertIntoOrder(bookmarkId: string, parentId?: string, beforeId?: string): void {
+    const order = parentId ? this.bookmarks.get(parentId)!.childBookmarks : this.rootOrder
+    const existing = order.indexOf(bookmarkId)
+    if (existing !== -1) {
+      order.splice(existing, 1)
+    }
+
+    const index = beforeId ? order.indexOf(beforeId) : -1
+    if (index === -1) {
+      order.push(bookmarkId)
+    }
+    else {
+      order.splice(index, 0, bookmarkId)
+    }
+  }
+
+  private removeFromOrder(bookmarkId: string, parentId?: string): void {
+    const parent = parentId ? this.bookmarks.get(parentId) : undefined
+    const order = parent?.isFolder ? parent.childBookmarks : this.rootOrder
+    const index = order.indexOf(bookmarkId)
+    if (index !== -1) {
+      order.splice(index, 1)
+    }
+  }
+
+  private async saveRootOrder(): Promise<void> {
+    // 清理已不存在的ID
+    this.rootOrder = this.rootOrder.filter(id => this.bookmarks.has(id))
+    await this.context.globalState.update(ROOT_ORDER_KEY, this.rootOrder)
+  }
+
+  /**
+   * 迁移旧版 CCoding.bookmarks 数据
+   * 迁移是幂等的：完成后写入标记，已迁移的书签通过 legacyId 跳过；
+   * 任一步失败时回滚到迁移前的增强书签快照，旧数据保持不变以便下次重试
+   * @returns 本次迁移的书签数量
+   */
+  async migrateLegacyBookmarks(): Promise<number> {
+    if (this.context.globalState.get<boolean>(LEGACY_MIGRATION_KEY, false)) {
+      return 0
+    }
+
+    const legacy = this.context.globalState.get<any[]>('CCoding.bookmarks', [])
+    const snapshot = this.context.globalState.get<any[]>('CCoding.enhancedBookmarks', [])
+    const snapshotBookmarks = new Map(this.bookmarks)
+
+    try {
+      const migratedIds = new Set(
+        this.getAllBookmarks()
+          .map(bookmark => bookmark.legacyId)
+          .filter((id): id is string => !!id),
+      )
+
+      let migrated = 0
+      for (const data of Array.isArray(legacy) ? legacy : []) {
+        if (!this.isValidLegacyBookmarkData(data) || migratedIds.has(String(data.id))) {
+          continue
+        }
+
+        const bookmark = this.fromLegacyBookmark(data)
+        this.bookmarks.set(bookmark.id, bookmark)
+        migratedIds.add(String(data.id))
+        migrated++
+      }
+
+      if (migrated > 0) {
+        await this.saveBookmarks()
+      }
+      await this.context.globalState.update(LEGACY_MIGRATION_KEY, true)
+
+      console.log(`[CCoding] 旧版书签迁移完成: ${migrated} 个`)
+      return migrated
+    }
+    catch (error) {
+      console.error('[CCoding] 旧版书签迁移失败，正在回滚:', error)
+      this.bookmarks = snapshotBookmarks
+      await this.context.globalState.update('CCoding.enhancedBookmarks', snapshot)
+      this._onDidChangeBookmarks.fire()
+      throw error
+    }
+  }
+
+  /**
+   * 修复存储中的书签数据
+   * 移除结构损坏的条目并重新加载
+   * @returns 移除的书签数量
+   */
+  async repairBookmarks(): Promise<number> {
+    const saved = this.context.globalState.get<any[]>('CCoding.enhancedBookmarks', [])
+    const validBookmarks = (Array.isArray(saved) ? saved : []).filter(data => this.isValidBookmarkData(data))
+
+    await this.context.globalState.update('CCoding.enhancedBookmarks', validBookmarks)
+
+    this.bookmarks.clear()
+    await this.loadBookmarks()
+    this._onDidChangeBookmarks.fire()
+
+    return saved.length - validBookmarks.length
+  }
+
+  /**
+   * 将旧版书签数据转换为增强书签
+   * 不打开文档，避免文件已删除时迁移失败
+   */
+  private fromLegacyBookmark(data: any): EnhancedBookmark {
+    const uri = typeof data.uri === 'string' ? vscode.Uri.parse(data.uri) : vscode.Uri.parse(data.uri.toString())
+    const start = data.range.start || data.range.end
+    const end = data.range.end || data.range.start
+    const range = new vscode.Range(
+      new vscode.Position(start.line || 0, start.character || 0),
+      new vscode.Position(end.line || 0, end.character || 0),
+    )
+    const timestamp = typeof data.timestamp === 'number' ? data.timestamp : Date.now()
+    const inferred = this.inferLegacyBookmarkType(data.label, data.description)
+    const stats = this.createInitialStats()
+    // 旧版数据没有访问记录，最近访问时间从迁移时开始计算
+    stats.createdAt = new Date(timestamp)
+    stats.isRecent = false
+
+    return {
+      id: this.generateBookmarkId(),
+      legacyId: String(data.id),
+      label: data.label,
+      description: data.description,
+      uri,
+      range,
+
+      type: inferred.type,
+      priority: inferred.type === BookmarkType.Important ? BookmarkPriority.High : BookmarkPriority.Medium,
+      tags: inferred.tags,
+      category: inferred.type,
+
+      framework: this.detectFrameworkFromPath(uri.fsPath),
+      projectPath: this.getProjectPath(uri),
+      relativePath: vscode.workspace.asRelativePath(uri),
+
+      codePreview: '',
+      lineNumber: range.start.line + 1,
+
+      stats,
+
+      relatedFiles: [],
+      relatedBookmarks: [],
+      parentBookmark: undefined,
+      childBookmarks: [],
+
+      isShared: false,
+      comments: [],
+
+      isTemporary: false,
+      isArchived: false,
+
+      timestamp,
+      version: 1,
+      lastModified: new Date(timestamp),
+    }
+  }
+
+  /**
+   * 根据标签和描述推断旧版书签类型
+   * 关键词与 GlobalBookmarksProvider.inferBookmarkType 保持一致
+   */
+  private inferLegacyBookmarkType(label: string, description?: string): { type: BookmarkType, tags: string[] } {
+    const text = `${label} ${description || ''}`.toLowerCase()
+
+    if (text.includes('bug') || text.includes('问题') || text.includes('错误')) {
+      return { type: BookmarkType.Bug, tags: ['bug'] }
+    }
+    if (text.includes('todo') || text.includes('待办') || text.includes('任务')) {
+      return { type: BookmarkType.Todo, tags: ['todo'] }
+    }
+    if (text.includes('idea') || text.includes('想法') || text.includes('灵感')) {
+      return { type: BookmarkType.General, tags: ['idea'] }
+    }
+    if (text.includes('review') || text.includes('检查') || text.includes('审查')) {
+      return { type: BookmarkType.General, tags: ['review'] }
+    }
+    if (text.includes('important') || text.includes('重要') || text.includes('关键')) {
+      return { type: BookmarkType.Important, tags: ['important'] }
+    }
+
+    return { type: BookmarkType.General, tags: [] }
+  }
+
+  private isValidLegacyBookmarkData(data: any): boolean {
+    return data
+      && typeof data === 'object'
+      && data.id
+      && typeof data.label === 'string'
+      && data.uri
+      && data.range
+      && (data.range.start || data.range.end)
+  }
+
   /**
    * 智能检测书签信息
    */
@@ -329,10 +935,22 @@ export class EnhancedBookmarkManager {
     return FrameworkType.General
   }
 
+  /**
+   * 仅根据文件扩展名检测框架类型
+   */
+  private detectFrameworkFromPath(filePath: string): FrameworkType {
+    const fileName = filePath.toLowerCase()
+    if (fileName.endsWith('.vue'))
+      return FrameworkType.Vue
+    if (fileName.endsWith('.jsx') || fileName.endsWith('.tsx'))
+      return FrameworkType.React
+    return FrameworkType.General
+  }
+
   /**
    * 提取代码预览
    */
-  private extractCodePreview(document: vscode.TextDocument, range: vscode.Range): string {
+  extractCodePreview(document: vscode.TextDocument, range: vscode.Range): string {
     const startLine = Math.max(0, range.start.line - 1)
     const endLine = Math.min(document.lineCount - 1, range.end.line + 1)
 
@@ -776,7 +1394,7 @@ export class EnhancedBookmarkManager {
       bookmarkId,
       timestamp: new Date(),
       details,
-      undoable: ['create', 'update', 'delete'].includes(type),
+      undoable: ['create', 'update', 'delete', 'import'].includes(type),
     }
 
     this.operations.push(operation)
@@ -785,9 +1403,159 @@ export class EnhancedBookmarkManager {
     if (this.operations.length > this.maxOperationHistory) {
       this.operations = this.operations.slice(-this.maxOperationHistory)
     }
+
+    if (operation.undoable) {
+      this.undoStack.push(operation)
+      if (this.undoStack.length > this.maxOperationHistory) {
+        this.undoStack = this.undoStack.slice(-this.maxOperationHistory)
+      }
+      this.redoStack = []
+    }
+    this._onDidChangeHistory.fire()
+  }
+
+  /**
+   * 获取操作历史（最新在前）
+   * @param includeAccess 是否包含访问记录
+   */
+  getOperationHistory(includeAccess = false): BookmarkOperation[] {
+    return this.operations
+      .filter(operation => includeAccess || operation.type !== 'access')
+      .reverse()
+  }
+
+  /**
+   * 操作是否已被撤销（可重做）
+   */
+  isOperationUndone(operationId: string): boolean {
+    return this.redoStack.some(operation => operation.id === operationId)
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0
   }
 
-  private isValidBookmarkData(data: any): boolean {
+  /**
+   * 撤销最近一次可撤销的操作
+   * @returns 被撤销的操作，没有可撤销操作时返回 undefined
+   */
+  async undo(): Promise<BookmarkOperation | undefined> {
+    const operation = this.undoStack.pop()
+    if (!operation)
+      return undefined
+
+    this.applyOperation(operation, 'undo')
+    await this.saveBookmarks()
+    await this.saveRootOrder()
+
+    this.redoStack.push(operation)
+    this._onDidChangeHistory.fire()
+    return operation
+  }
+
+  /**
+   * 重做最近一次撤销的操作
+   * @returns 被重做的操作，没有可重做操作时返回 undefined
+   */
+  async redo(): Promise<BookmarkOperation | undefined> {
+    const operation = this.redoStack.pop()
+    if (!operation)
+      return undefined
+
+    this.applyOperation(operation, 'redo')
+    await this.saveBookmarks()
+    await this.saveRootOrder()
+
+    this.undoStack.push(operation)
+    this._onDidChangeHistory.fire()
+    return operation
+  }
+
+  /**
+   * 按操作记录的快照正向或反向应用操作
+   * 更新操作只回滚被修改的字段，避免覆盖之后的位置跟随等变化
+   */
+  private applyOperation(operation: BookmarkOperation, direction: 'undo' | 'redo'): void {
+    const { details } = operation
+
+    switch (operation.type) {
+      case 'create':
+      case 'delete': {
+        // 连同内容删除的文件夹额外记录了其中的书签和在上级中的位置
+        const restore = (operation.type === 'create') === (direction === 'redo')
+        const contents: SerializedBookmark[] = details.bookmarks || []
+        if (restore) {
+          const bookmark = this.deserializeBookmark(details.bookmark)
+          this.bookmarks.set(bookmark.id, bookmark)
+          for (const data of contents) {
+            const child = this.deserializeBookmark(data)
+            this.bookmarks.set(child.id, child)
+          }
+          if (details.orderIndex !== undefined && details.orderIndex !== -1) {
+            const parent = bookmark.parentBookmark ? this.bookmarks.get(bookmark.parentBookmark) : undefined
+            const order = parent?.isFolder ? parent.childBookmarks : this.rootOrder
+            if (!order.includes(bookmark.id)) {
+              order.splice(details.orderIndex, 0, bookmark.id)
+            }
+          }
+        }
+        else {
+          const bookmark = this.bookmarks.get(operation.bookmarkId)
+          if (bookmark && contents.length > 0) {
+            this.removeFromOrder(bookmark.id, bookmark.parentBookmark)
+          }
+          this.bookmarks.delete(operation.bookmarkId)
+          for (const data of contents) {
+            this.bookmarks.delete(data.id)
+          }
+        }
+        break
+      }
+      case 'update': {
+        const bookmark = this.bookmarks.get(operation.bookmarkId)
+        if (!bookmark)
+          break
+
+        const snapshot = this.deserializeBookmark(direction === 'undo' ? details.previous : details.next)
+        const restoreField = <K extends keyof EnhancedBookmark>(key: K): void => {
+          bookmark[key] = snapshot[key]
+        }
+        const changedKeys: Array<keyof EnhancedBookmark> = details.changedKeys
+        changedKeys.forEach(restoreField)
+        bookmark.lineNumber = bookmark.range.start.line + 1
+        bookmark.version++
+        bookmark.lastModified = new Date()
+        break
+      }
+      case 'import': {
+        const bookmarkIds: string[] = details.bookmarkIds
+        const previous: SerializedBookmark[] = details.previous
+        const imported: SerializedBookmark[] = details.bookmarks
+        if (direction === 'undo') {
+          for (const id of bookmarkIds) {
+            this.bookmarks.delete(id)
+          }
+          for (const data of previous) {
+            const bookmark = this.deserializeBookmark(data)
+            this.bookmarks.set(bookmark.id, bookmark)
+          }
+        }
+        else {
+          for (const data of imported) {
+            const bookmark = this.deserializeBookmark(data)
+            this.bookmarks.set(bookmark.id, bookmark)
+          }
+        }
+        break
+      }
+    }
+  }
+
+  isValidBookmarkData(data: any): boolean {
     return data
       && typeof data.id === 'string'
       && typeof data.label === 'string'
@@ -797,7 +1565,7 @@ export class EnhancedBookmarkManager {
       && data.priority !== undefined
   }
 
-  private serializeBookmark(bookmark: EnhancedBookmark): any {
+  serializeBookmark(bookmark: EnhancedBookmark): SerializedBookmark {
     return {
       ...bookmark,
       uri: bookmark.uri.toString(),
@@ -810,12 +1578,13 @@ export class EnhancedBookmarkManager {
         lastAccessed: bookmark.stats.lastAccessed.toISOString(),
         createdAt: bookmark.stats.createdAt.toISOString(),
       },
+      comments: bookmark.comments.map(comment => ({ ...comment, timestamp: comment.timestamp.toISOString() })),
       lastModified: bookmark.lastModified.toISOString(),
       expiresAt: bookmark.expiresAt?.toISOString(),
     }
   }
 
-  private deserializeBookmark(data: any): EnhancedBookmark {
+  deserializeBookmark(data: any): EnhancedBookmark {
     return {
       ...data,
       uri: vscode.Uri.parse(data.uri),
@@ -828,32 +1597,63 @@ export class EnhancedBookmarkManager {
         lastAccessed: new Date(data.stats.lastAccessed),
         createdAt: new Date(data.stats.createdAt),
       },
+      comments: (data.comments || []).map((comment: any) => ({ ...comment, timestamp: new Date(comment.timestamp) })),
       lastModified: new Date(data.lastModified),
       expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
     }
   }
 
+  /**
+   * 临时书签的默认有效期（小时）
+   */
+  private getTemporaryTTLHours(): number {
+    const hours = vscode.workspace.getConfiguration('CCoding.bookmarks').get<number>('temporaryTTLHours', 24)
+    return hours > 0 ? hours : 24
+  }
+
   private setupAutoCleanup(): void {
-    // 每小时检查一次过期的临时书签
-    setInterval(() => {
+    // 每分钟检查一次过期的临时书签，启动时先检查一次
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupExpiredBookmarks()
+    }, 60 * 1000)
+    this.startupCleanupTimer = setTimeout(() => {
+      this.startupCleanupTimer = undefined
       this.cleanupExpiredBookmarks()
-    }, 60 * 60 * 1000)
+    }, 5 * 1000)
   }
 
+  /**
+   * 归档过期的临时书签（不删除，可在归档中恢复或转为永久书签）
+   */
   private async cleanupExpiredBookmarks(): Promise<void> {
     const now = new Date()
-    let cleaned = 0
-
-    for (const [id, bookmark] of this.bookmarks) {
-      if (bookmark.isTemporary && bookmark.expiresAt && bookmark.expiresAt < now) {
-        this.bookmarks.delete(id)
-        cleaned++
+    let archived = 0
+
+    for (const bookmark of this.bookmarks.values()) {
+      if (bookmark.isTemporary && !bookmark.isArchived && bookmark.expiresAt && bookmark.expiresAt < now) {
+        bookmark.isArchived = true
+        bookmark.version++
+        bookmark.lastModified = now
+        archived++
       }
     }
 
-    if (cleaned > 0) {
+    if (archived > 0) {
       await this.saveBookmarks()
-      console.log(`[CCoding] 清理过期临时书签: ${cleaned} 个`)
+      console.log(`[CCoding] 归档过期临时书签: ${archived} 个`)
+    }
+  }
+
+  dispose(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = undefined
+    }
+    if (this.startupCleanupTimer) {
+      clearTimeout(this.startupCleanupTimer)
+      this.startupCleanupTimer = undefined
     }
+    this._onDidChangeBookmarks.dispose()
+    this._onDidChangeHistory.dispose()
   }
 }
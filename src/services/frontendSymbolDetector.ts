@@ -1,15 +1,21 @@
+import type { ReactHook, ReactModule } from '../parsers/reactParser.js'
+import type { VueComponent } from '../parsers/vueParser.js'
 import type {
   FrontendSymbolInfo,
   ReactSymbolInfo,
   SymbolContext,
   VueSymbolInfo,
 } from '../types/frontendSymbols.js'
+import type { SymbolReferenceService } from './symbolReferenceService.js'
 import * as vscode from 'vscode'
+import { ReactParser } from '../parsers/reactParser.js'
+import { VueParser } from '../parsers/vueParser.js'
 import {
   FrameworkType,
   FrontendSymbolKind,
   SymbolPriority,
 } from '../types/frontendSymbols.js'
+import { ComplexityAnalyzer } from './complexityAnalyzer.js'
 
 /**
  * 前端符号检测器
@@ -20,12 +26,23 @@ export class FrontendSymbolDetector {
   private content: string
   private lines: string[]
   private framework: FrameworkType
+  private vueComponent: VueComponent | null = null
+  private reactModule: ReactModule | null = null
+  private referenceService?: SymbolReferenceService
 
-  constructor(document: vscode.TextDocument) {
+  constructor(document: vscode.TextDocument, referenceService?: SymbolReferenceService) {
     this.document = document
+    this.referenceService = referenceService
     this.content = document.getText()
     this.lines = this.content.split('\n')
     this.framework = this.detectFramework()
+
+    if (this.framework === FrameworkType.Vue && document.fileName.toLowerCase().endsWith('.vue')) {
+      this.vueComponent = VueParser.parseVueFile(document)
+    }
+    else if (this.framework === FrameworkType.React) {
+      this.reactModule = ReactParser.parseReactModule(document)
+    }
   }
 
   /**
@@ -56,7 +73,7 @@ export class FrontendSymbolDetector {
     }
 
     // 通过关键字判断
-    if (this.content.includes('defineComponent') || this.content.includes('<script setup>')) {
+    if (this.content.includes('defineComponent') || /<script\s[^>]*\bsetup\b/.test(this.content)) {
       return FrameworkType.Vue
     }
 
@@ -111,6 +128,7 @@ export class FrontendSymbolDetector {
       framework: this.framework,
       priority: this.calculatePriority(symbol, frontendKind),
       range: symbol.range,
+      selectionRange: symbol.selectionRange,
       uri: this.document.uri,
       level: parent ? parent.level + 1 : 0,
       parent,
@@ -128,10 +146,12 @@ export class FrontendSymbolDetector {
       tags: this.generateTags(symbol, frontendKind, signature),
       relatedFiles: [],
 
-      complexity: this.calculateComplexity(symbol),
+      complexity: 1,
       timestamp: Date.now(),
     }
 
+    this.applyComplexity(frontendSymbol, symbol)
+
     // 添加框架特定信息
     if (this.framework === FrameworkType.Vue) {
       frontendSymbol.vueInfo = this.analyzeVueSymbol(symbol, signature)
@@ -190,6 +210,27 @@ export class FrontendSymbolDetector {
 
     // React 特定检测
     if (this.framework === FrameworkType.React) {
+      // 优先使用 AST 解析结果：memo / forwardRef 包裹的组件在 VSCode 中是变量
+      if (this.reactModule) {
+        if (this.reactModule.customHooks.some(hook => hook.name === name)) {
+          return FrontendSymbolKind.ReactCustomHook
+        }
+        if (this.reactModule.components.some(component => component.name === name)) {
+          return FrontendSymbolKind.ReactComponent
+        }
+
+        const hook = this.findReactHook(name)
+        if (hook?.type === 'useState' || hook?.type === 'useReducer') {
+          return FrontendSymbolKind.ReactState
+        }
+        if (hook?.type === 'useCallback') {
+          return FrontendSymbolKind.ReactCallback
+        }
+        if (hook) {
+          return FrontendSymbolKind.ReactHook
+        }
+      }
+
       // Hooks
       if (name.startsWith('use') && symbol.kind === vscode.SymbolKind.Function) {
         if (['useState', 'useEffect', 'useCallback', 'useMemo', 'useRef', 'useContext'].includes(name)) {
@@ -303,8 +344,8 @@ export class FrontendSymbolDetector {
     // 检查在事件中的使用
     const usedInEvents = this.isUsedInEvents(name)
 
-    // 简单的引用计数（实际实现可以更复杂）
-    const referenceCount = this.countReferences(name)
+    // 跨文件引用数来自引用服务的缓存，尚未查询时为 0
+    const referenceCount = this.countReferences(symbol.selectionRange.start)
 
     return {
       usedInTemplate,
@@ -318,7 +359,10 @@ export class FrontendSymbolDetector {
    * 检查符号是否在模板中使用
    */
   private isUsedInTemplate(symbolName: string): boolean {
-    if (this.framework === FrameworkType.Vue) {
+    if (this.vueComponent) {
+      return this.vueComponent.blocks.template?.content.includes(symbolName) ?? false
+    }
+    else if (this.framework === FrameworkType.Vue) {
       // 检查 Vue 模板部分
       const templateMatch = this.content.match(/<template>([\s\S]*?)<\/template>/)
       if (templateMatch) {
@@ -352,19 +396,22 @@ export class FrontendSymbolDetector {
   }
 
   /**
-   * 计算符号引用次数
+   * 已缓存的工作区引用次数，不含定义本身
    */
-  private countReferences(symbolName: string): number {
-    const regex = new RegExp(`\\b${symbolName}\\b`, 'g')
-    const matches = this.content.match(regex)
-    return matches ? matches.length - 1 : 0 // 减去定义本身
+  private countReferences(position: vscode.Position): number {
+    return this.referenceService?.getCachedReferences(this.document.uri, position)?.length ?? 0
   }
 
   /**
    * 符号分类
    */
   private categorizeSymbol(frontendKind: FrontendSymbolKind): string {
-    if ([FrontendSymbolKind.VueComponent, FrontendSymbolKind.ReactComponent].includes(frontendKind)) {
+    if ([
+      FrontendSymbolKind.VueComponent,
+      FrontendSymbolKind.ReactComponent,
+      FrontendSymbolKind.VueProps,
+      FrontendSymbolKind.VueEmit,
+    ].includes(frontendKind)) {
       return 'component'
     }
 
@@ -433,9 +480,11 @@ export class FrontendSymbolDetector {
    */
   private analyzeVueSymbol(symbol: vscode.DocumentSymbol, signature: string): VueSymbolInfo {
     const info: VueSymbolInfo = {
-      isCompositionAPI: this.content.includes('<script setup>') || this.content.includes('defineComponent'),
+      isCompositionAPI: !!this.vueComponent?.setup || this.content.includes('defineComponent'),
       usedInTemplate: this.isUsedInTemplate(symbol.name),
       templateBindings: [],
+      props: this.vueComponent?.props.map(prop => prop.name),
+      emits: this.vueComponent?.emits.map(emit => emit.name),
     }
 
     // 检测响应式类型
@@ -469,6 +518,34 @@ export class FrontendSymbolDetector {
   private analyzeReactSymbol(symbol: vscode.DocumentSymbol, signature: string): ReactSymbolInfo {
     const info: ReactSymbolInfo = {}
 
+    const component = this.reactModule?.components.find(item => item.name === symbol.name)
+    if (component) {
+      const stateHooks = component.hooks.filter(hook => hook.type === 'useState' || hook.type === 'useReducer')
+      info.componentType = component.wrappers[0] || component.type
+      info.propsType = component.propsType
+      info.stateVariables = stateHooks.map(hook => hook.bindings[0]).filter(Boolean)
+      info.stateSetters = stateHooks.map(hook => hook.bindings[1]).filter(Boolean)
+      info.effectCleanup = component.hooks.some(hook => hook.hasCleanup)
+      return info
+    }
+
+    if (this.reactModule?.customHooks.some(hook => hook.name === symbol.name)) {
+      info.hookType = 'custom'
+      return info
+    }
+
+    const hook = this.findReactHook(symbol.name)
+    if (hook) {
+      const builtinTypes: ReactSymbolInfo['hookType'][] = ['useState', 'useEffect', 'useCallback', 'useMemo', 'useRef', 'useContext']
+      info.hookType = builtinTypes.includes(hook.type as ReactSymbolInfo['hookType']) ? hook.type as ReactSymbolInfo['hookType'] : 'custom'
+      info.hookDependencies = hook.dependencies
+      if (hook.type === 'useState' || hook.type === 'useReducer') {
+        info.stateVariables = hook.bindings.slice(0, 1)
+        info.stateSetters = hook.bindings.slice(1, 2)
+      }
+      return info
+    }
+
     // 检测组件类型
     if (/^[A-Z]/.test(symbol.name) && symbol.kind === vscode.SymbolKind.Function) {
       info.componentType = 'functional'
@@ -502,18 +579,171 @@ export class FrontendSymbolDetector {
   private async detectAdditionalSymbols(): Promise<FrontendSymbolInfo[]> {
     const additionalSymbols: FrontendSymbolInfo[] = []
 
-    // 这里可以添加自定义的符号检测逻辑
-    // 例如：检测箭头函数、解构赋值等
+    // Vue 组件的 props / v-model / emits 来自编译宏或组件选项，VSCode 原生符号中没有
+    if (this.vueComponent) {
+      const { props, models, emits } = this.vueComponent
+
+      for (const prop of props) {
+        additionalSymbols.push(this.createDetectedSymbol(
+          prop.name,
+          FrontendSymbolKind.VueProps,
+          vscode.SymbolKind.Property,
+          prop.range,
+          `${prop.name}${prop.required ? '' : '?'}: ${prop.type || 'unknown'}${prop.default ? ` = ${prop.default}` : ''}`,
+          ['prop'],
+        ))
+      }
+
+      for (const model of models) {
+        additionalSymbols.push(this.createDetectedSymbol(
+          model.name,
+          FrontendSymbolKind.VueProps,
+          vscode.SymbolKind.Property,
+          model.range,
+          `v-model:${model.name}: ${model.type || 'unknown'}`,
+          ['prop', 'v-model'],
+        ))
+      }
+
+      for (const emit of emits) {
+        additionalSymbols.push(this.createDetectedSymbol(
+          emit.name,
+          FrontendSymbolKind.VueEmit,
+          vscode.SymbolKind.Event,
+          emit.range,
+          `emit('${emit.name}'${emit.params.map(param => `, ${param}`).join('')})`,
+          ['emit'],
+          emit.params,
+        ))
+      }
+    }
+
+    // React effect 没有返回值，VSCode 原生符号中不会出现
+    if (this.reactModule) {
+      const owners = [...this.reactModule.components, ...this.reactModule.customHooks]
+      for (const owner of owners) {
+        for (const hook of owner.hooks) {
+          if (hook.type !== 'useEffect' && hook.type !== 'useLayoutEffect')
+            continue
+
+          const dependencies = hook.dependencies ? `[${hook.dependencies.join(', ')}]` : ''
+          const symbol = this.createDetectedSymbol(
+            `${hook.hookName}${dependencies ? ` ${dependencies}` : ''}`,
+            FrontendSymbolKind.ReactEffect,
+            vscode.SymbolKind.Event,
+            hook.range,
+            `${owner.name} → ${hook.hookName}(() => {...}${dependencies ? `, ${dependencies}` : ''})`,
+            ['effect'],
+            hook.dependencies,
+          )
+          symbol.reactInfo = {
+            hookType: 'useEffect',
+            hookDependencies: hook.dependencies,
+            effectType: !hook.dependencies ? 'update' : hook.dependencies.length === 0 ? 'mount' : 'conditional',
+            effectCleanup: hook.hasCleanup,
+          }
+          additionalSymbols.push(symbol)
+        }
+      }
+    }
 
     return additionalSymbols
   }
 
   /**
-   * 分析符号间的关系
+   * 在组件和自定义 Hook 中查找接收该变量的 Hook 调用
    */
-  private analyzeSymbolRelationships(_symbols: FrontendSymbolInfo[]): void {
-    // 分析符号之间的调用关系、依赖关系等
-    // 这里可以实现更复杂的关系分析逻辑
+  private findReactHook(name: string): ReactHook | undefined {
+    if (!this.reactModule)
+      return undefined
+
+    return [...this.reactModule.components, ...this.reactModule.customHooks]
+      .flatMap(owner => owner.hooks)
+      .find(hook => hook.bindings.includes(name))
+  }
+
+  /**
+   * 创建 VSCode 原生符号之外检测到的符号
+   */
+  private createDetectedSymbol(
+    name: string,
+    frontendKind: FrontendSymbolKind,
+    kind: vscode.SymbolKind,
+    range: vscode.Range,
+    signature: string,
+    tags: string[],
+    parameters: string[] = [],
+  ): FrontendSymbolInfo {
+    const symbol: FrontendSymbolInfo = {
+      id: `${frontendKind}_${name}_${range.start.line}`,
+      name,
+      kind,
+      frontendKind,
+      framework: this.framework,
+      priority: SymbolPriority.High,
+      range,
+      selectionRange: range,
+      uri: this.document.uri,
+      level: 0,
+      children: [],
+
+      signature,
+      parameters,
+      isAsync: false,
+      isPrivate: false,
+      isExported: frontendKind === FrontendSymbolKind.VueProps || frontendKind === FrontendSymbolKind.VueEmit,
+
+      context: {
+        usedInTemplate: this.isUsedInTemplate(name),
+        usedInEvents: false,
+        referenceCount: this.countReferences(range.start),
+        usageFrequency: 0,
+      },
+      category: this.categorizeSymbol(frontendKind),
+      tags,
+      relatedFiles: [],
+
+      complexity: 1,
+      timestamp: Date.now(),
+    }
+
+    if (this.vueComponent) {
+      symbol.vueInfo = {
+        isCompositionAPI: this.vueComponent.setup,
+        usedInTemplate: symbol.context.usedInTemplate,
+        templateBindings: [],
+        props: this.vueComponent.props.map(prop => prop.name),
+        emits: this.vueComponent.emits.map(emit => emit.name),
+      }
+    }
+
+    return symbol
+  }
+
+  /**
+   * 根据已缓存的引用填充引用了符号的其他文件
+   */
+  private analyzeSymbolRelationships(symbols: FrontendSymbolInfo[]): void {
+    if (!this.referenceService)
+      return
+
+    for (const symbol of symbols) {
+      const references = this.referenceService.getCachedReferences(symbol.uri, (symbol.selectionRange || symbol.range).start)
+      if (references) {
+        symbol.relatedFiles = FrontendSymbolDetector.getRelatedFiles(symbol, references.map(reference => reference.uri))
+      }
+      this.analyzeSymbolRelationships(symbol.children)
+    }
+  }
+
+  /**
+   * 引用位置中除符号所在文件外的文件路径，去重
+   * @param symbol 目标符号
+   * @param uris 引用所在文件
+   */
+  static getRelatedFiles(symbol: FrontendSymbolInfo, uris: vscode.Uri[]): string[] {
+    const files = new Set(uris.filter(uri => uri.toString() !== symbol.uri.toString()).map(uri => uri.fsPath))
+    return [...files]
   }
 
   // 辅助方法
@@ -546,14 +776,16 @@ export class FrontendSymbolDetector {
     return lineText.includes('export')
   }
 
-  private calculateComplexity(symbol: vscode.DocumentSymbol): number {
-    const lineCount = symbol.range.end.line - symbol.range.start.line + 1
-    if (lineCount <= 5)
-      return 1
-    if (lineCount <= 15)
-      return 2
-    if (lineCount <= 30)
-      return 3
-    return 4
+  /**
+   * 根据 AST 计算的圈复杂度/认知复杂度设置复杂度等级，非函数符号保持简单
+   */
+  private applyComplexity(frontendSymbol: FrontendSymbolInfo, symbol: vscode.DocumentSymbol): void {
+    const metrics = ComplexityAnalyzer.findFunction(ComplexityAnalyzer.analyzeDocument(this.document), symbol.range)
+    if (!metrics)
+      return
+
+    frontendSymbol.complexity = ComplexityAnalyzer.getLevel(metrics.cognitive)
+    frontendSymbol.cyclomaticComplexity = metrics.cyclomatic
+    frontendSymbol.cognitiveComplexity = metrics.cognitive
   }
 }
@@ -0,0 +1,193 @@
+import { execFile } from 'node:child_process'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+
+/**
+ * 一行代码的 blame 信息
+ */
+export interface BlameInfo {
+  hash: string
+  author: string
+  authorMail: string
+  // 作者提交时间（毫秒）
+  time: number
+  summary: string
+  // 未提交的修改没有作者和提交时间
+  committed: boolean
+}
+
+interface BlameCacheEntry {
+  revision: string
+  lines: Map<number, BlameInfo | undefined>
+}
+
+const UNCOMMITTED_HASH = /^0+$/
+const HEADER_PATTERN = /^([0-9a-f]{40}) \d+ (\d+)/
+
+/**
+ * 本地 git blame 服务
+ * 按行查询作者和提交时间，结果按文件版本（HEAD + 修改时间）缓存，
+ * 有未保存修改的文档通过 --contents 以编辑器中的内容计算
+ */
+export class GitBlameService implements vscode.Disposable {
+  private static readonly HEAD_TTL = 5000
+  private static readonly TIMEOUT = 10000
+
+  private cache: Map<string, BlameCacheEntry> = new Map()
+  // 目录 -> HEAD 提交，不在仓库中时为 undefined
+  private heads: Map<string, { head: string | undefined, time: number }> = new Map()
+
+  static isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('CCoding.todos').get<boolean>('gitBlame', true)
+  }
+
+  /**
+   * 查询指定行的 blame 信息，文件不在 git 仓库中或未被跟踪时返回空结果
+   * @param document 文档
+   * @param lines 从 0 开始的行号
+   */
+  async blameLines(document: vscode.TextDocument, lines: number[]): Promise<Map<number, BlameInfo>> {
+    const result = new Map<number, BlameInfo>()
+    if (document.uri.scheme !== 'file' || lines.length === 0)
+      return result
+
+    const filePath = document.uri.fsPath
+    const cwd = path.dirname(filePath)
+    const head = await this.getHead(cwd)
+    if (!head)
+      return result
+
+    const revision = await this.getRevision(document, head)
+    let entry = this.cache.get(filePath)
+    if (!entry || entry.revision !== revision) {
+      entry = { revision, lines: new Map() }
+      this.cache.set(filePath, entry)
+    }
+
+    // 超出文件行数的 -L 会让整个 blame 失败
+    const missing = [...new Set(lines)].filter(line => line < document.lineCount && !entry!.lines.has(line))
+    if (missing.length > 0) {
+      const blamed = await this.runBlame(document, missing)
+      missing.forEach(line => entry!.lines.set(line, blamed.get(line)))
+    }
+
+    for (const line of lines) {
+      const info = entry.lines.get(line)
+      if (info) {
+        result.set(line, info)
+      }
+    }
+    return result
+  }
+
+  private async getRevision(document: vscode.TextDocument, head: string): Promise<string> {
+    if (document.isDirty)
+      return `${head}:dirty:${document.version}`
+    try {
+      const stat = await vscode.workspace.fs.stat(document.uri)
+      return `${head}:${stat.mtime}`
+    }
+    catch {
+      return `${head}:${document.version}`
+    }
+  }
+
+  private async getHead(cwd: string): Promise<string | undefined> {
+    const cached = this.heads.get(cwd)
+    if (cached && Date.now() - cached.time < GitBlameService.HEAD_TTL)
+      return cached.head
+
+    let head: string | undefined
+    try {
+      head = (await this.git(cwd, ['rev-parse', 'HEAD'])).trim() || undefined
+    }
+    catch {
+      head = undefined
+    }
+    this.heads.set(cwd, { head, time: Date.now() })
+    return head
+  }
+
+  private async runBlame(document: vscode.TextDocument, lines: number[]): Promise<Map<number, BlameInfo>> {
+    const filePath = document.uri.fsPath
+    const args = ['blame', '--line-porcelain']
+    if (document.isDirty) {
+      args.push('--contents', '-')
+    }
+    lines.forEach(line => args.push('-L', `${line + 1},${line + 1}`))
+    args.push('--', path.basename(filePath))
+
+    try {
+      const output = await this.git(path.dirname(filePath), args, document.isDirty ? document.getText() : undefined)
+      return this.parsePorcelain(output)
+    }
+    catch (error) {
+      // 未跟踪的文件会失败，视为没有 blame 信息
+      console.log(`[CCoding] git blame 失败 ${filePath}: ${error}`)
+      return new Map()
+    }
+  }
+
+  /**
+   * 解析 --line-porcelain 输出，键为从 0 开始的行号
+   */
+  private parsePorcelain(output: string): Map<number, BlameInfo> {
+    const result = new Map<number, BlameInfo>()
+    let line = -1
+    let info: BlameInfo | undefined
+
+    for (const text of output.split('\n')) {
+      const header = HEADER_PATTERN.exec(text)
+      if (header) {
+        line = Number(header[2]) - 1
+        info = { hash: header[1], author: '', authorMail: '', time: 0, summary: '', committed: !UNCOMMITTED_HASH.test(header[1]) }
+      }
+      else if (!info) {
+        continue
+      }
+      else if (text.startsWith('\t')) {
+        result.set(line, info)
+        info = undefined
+      }
+      else if (text.startsWith('author ')) {
+        info.author = text.slice('author '.length)
+      }
+      else if (text.startsWith('author-mail ')) {
+        info.authorMail = text.slice('author-mail '.length).replace(/^<|>$/g, '')
+      }
+      else if (text.startsWith('author-time ')) {
+        info.time = Number(text.slice('author-time '.length)) * 1000
+      }
+      else if (text.startsWith('summary ')) {
+        info.summary = text.slice('summary '.length)
+      }
+    }
+
+    return result
+  }
+
+  private git(cwd: string, args: string[], input?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = execFile('git', args, { cwd, timeout: GitBlameService.TIMEOUT, maxBuffer: 16 * 1024 * 1024 }, (error, stdout) => {
+        if (error) {
+          reject(error)
+        }
+        else {
+          resolve(stdout)
+        }
+      })
+      if (input !== undefined) {
+        child.stdin?.end(input)
+      }
+    })
+  }
+
+  clear(): void {
+    this.cache.clear()
+    this.heads.clear()
+  }
+
+  dispose(): void {
+    this.clear()
+  }
+}
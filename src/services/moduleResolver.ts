@@ -0,0 +1,202 @@
+import { Buffer } from 'node:buffer'
+import * as path from 'node:path'
+import ts from 'typescript'
+import * as vscode from 'vscode'
+import { SvelteParser } from '../parsers/svelteParser.js'
+import { VueParser } from '../parsers/vueParser.js'
+
+/**
+ * tsconfig / jsconfig 中影响模块解析的配置，路径均为绝对路径
+ */
+interface CompilerPathOptions {
+  baseUrl?: string
+  // paths 中的目标相对此目录：设置了 baseUrl 时为 baseUrl，否则为声明 paths 的配置文件所在目录
+  pathsBase?: string
+  paths?: Record<string, string[]>
+}
+
+const CONFIG_FILES = ['tsconfig.json', 'jsconfig.json']
+const CONFIG_TTL = 5000
+// ESM 写法导入的 .js 在源码中对应的 TypeScript 扩展名
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+}
+
+// 目录 -> 最近的配置，短时间内不重复读取
+const configCache = new Map<string, { options: CompilerPathOptions | undefined, time: number }>()
+
+/**
+ * 把导入路径解析为工作区中的文件
+ * 支持相对路径、最近的 tsconfig / jsconfig 中的 paths 和 baseUrl，没有匹配的 paths 时 @/、~/ 指向 src 目录；
+ * 以 .js 等扩展名导入的 ESM 写法会同时尝试对应的 .ts / .tsx 源文件
+ * 第三方包或找不到对应文件时返回 undefined
+ * @param fromFile 导入所在文件
+ * @param source 导入路径
+ * @param extensions 省略扩展名时依次尝试的扩展名
+ * @param exists 判断候选文件是否存在
+ */
+export function resolveModulePath(
+  fromFile: string,
+  source: string,
+  extensions: string[],
+  exists: (file: string) => boolean,
+): string | undefined {
+  for (const base of getBasePaths(fromFile, source)) {
+    const found = getCandidates(base, extensions).find(exists)
+    if (found)
+      return found
+  }
+  return undefined
+}
+
+function getBasePaths(fromFile: string, source: string): string[] {
+  if (source.startsWith('.'))
+    return [path.resolve(path.dirname(fromFile), source)]
+
+  const bases: string[] = []
+  const options = getCompilerPathOptions(fromFile)
+  if (options?.paths && options.pathsBase) {
+    bases.push(...matchPaths(source, options.paths, options.pathsBase))
+  }
+  if (options?.baseUrl) {
+    bases.push(path.resolve(options.baseUrl, source))
+  }
+  if (bases.length === 0 && /^[@~]\//.test(source)) {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fromFile))
+    if (folder) {
+      bases.push(path.join(folder.uri.fsPath, 'src', source.slice(2)))
+    }
+  }
+  return bases
+}
+
+function getCandidates(base: string, extensions: string[]): string[] {
+  const candidates = [base]
+  const extension = path.extname(base).toLowerCase()
+  const sourceExtensions = SOURCE_EXTENSIONS[extension]
+  if (sourceExtensions) {
+    const stem = base.slice(0, -extension.length)
+    candidates.push(...sourceExtensions.map(item => `${stem}${item}`))
+  }
+  candidates.push(
+    ...extensions.map(item => `${base}${item}`),
+    ...extensions.map(item => path.join(base, `index${item}`)),
+  )
+  return candidates
+}
+
+/**
+ * 按 TypeScript 的规则匹配 paths：精确匹配优先，其余取前缀最长的通配模式
+ */
+function matchPaths(source: string, paths: Record<string, string[]>, pathsBase: string): string[] {
+  let best: { targets: string[], wildcard: string, prefixLength: number } | undefined
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const star = pattern.indexOf('*')
+    if (star === -1) {
+      if (pattern === source)
+        return targets.map(target => path.resolve(pathsBase, target))
+      continue
+    }
+    const prefix = pattern.slice(0, star)
+    const suffix = pattern.slice(star + 1)
+    if (source.length >= prefix.length + suffix.length && source.startsWith(prefix) && source.endsWith(suffix)
+      && (!best || prefix.length > best.prefixLength)) {
+      best = { targets, wildcard: source.slice(prefix.length, source.length - suffix.length), prefixLength: prefix.length }
+    }
+  }
+  return best
+    ? best.targets.map(target => path.resolve(pathsBase, target.replace('*', best!.wildcard)))
+    : []
+}
+
+/**
+ * 从文件所在目录向上查找最近的 tsconfig.json / jsconfig.json，最多到工作区文件夹
+ */
+function getCompilerPathOptions(fromFile: string): CompilerPathOptions | undefined {
+  const directory = path.dirname(fromFile)
+  const cached = configCache.get(directory)
+  if (cached && Date.now() - cached.time < CONFIG_TTL)
+    return cached.options
+
+  const root = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fromFile))?.uri.fsPath
+  let options: CompilerPathOptions | undefined
+  for (let current = directory; ; current = path.dirname(current)) {
+    const configFile = CONFIG_FILES.map(name => path.join(current, name)).find(file => ts.sys.fileExists(file))
+    if (configFile) {
+      options = readCompilerPathOptions(configFile, new Set())
+      break
+    }
+    if (current === root || path.dirname(current) === current)
+      break
+  }
+
+  configCache.set(directory, { options, time: Date.now() })
+  return options
+}
+
+/**
+ * 读取配置中的 baseUrl 和 paths，合并相对路径的 extends
+ */
+function readCompilerPathOptions(configFile: string, visited: Set<string>): CompilerPathOptions | undefined {
+  if (visited.has(configFile))
+    return undefined
+  visited.add(configFile)
+
+  const text = ts.sys.readFile(configFile)
+  if (text === undefined)
+    return undefined
+  const { config, error } = ts.parseConfigFileTextToJson(configFile, text)
+  if (error || !config) {
+    console.warn(`[CCoding] 无法解析 ${configFile}`)
+    return undefined
+  }
+
+  const directory = path.dirname(configFile)
+  const extendsList: string[] = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : []
+  let options: CompilerPathOptions = {}
+  for (const extended of extendsList) {
+    // 只处理相对路径，npm 包中的共享配置通常不包含 paths
+    if (typeof extended !== 'string' || !extended.startsWith('.'))
+      continue
+    const file = path.resolve(directory, extended.endsWith('.json') ? extended : `${extended}.json`)
+    options = { ...options, ...readCompilerPathOptions(file, visited) }
+  }
+
+  const compilerOptions = config.compilerOptions ?? {}
+  if (typeof compilerOptions.baseUrl === 'string') {
+    options.baseUrl = path.resolve(directory, compilerOptions.baseUrl)
+    options.pathsBase = options.baseUrl
+  }
+  if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+    options.paths = compilerOptions.paths
+    options.pathsBase = options.baseUrl ?? directory
+  }
+  return options
+}
+
+/**
+ * 读取文件中的脚本并构建语法树，.vue / .svelte 只解析 <script> 块
+ * @param uri 源文件
+ */
+export async function readModuleSources(uri: vscode.Uri): Promise<ts.SourceFile[]> {
+  const extension = path.extname(uri.fsPath).toLowerCase()
+  let scripts: string[]
+
+  if (extension === '.vue') {
+    const blocks = VueParser.parseSfc(await vscode.workspace.openTextDocument(uri))
+    scripts = [blocks.script, blocks.scriptSetup].flatMap(block => block ? [block.content] : [])
+  }
+  else if (extension === '.svelte') {
+    const component = SvelteParser.parseSvelteFile(await vscode.workspace.openTextDocument(uri))
+    scripts = [component?.script, component?.moduleScript].flatMap(block => block ? [block.content] : [])
+  }
+  else {
+    scripts = [Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')]
+  }
+
+  const scriptKind = extension === '.tsx' || extension === '.jsx' ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  return scripts.map(script => ts.createSourceFile(uri.fsPath, script, ts.ScriptTarget.Latest, true, scriptKind))
+}
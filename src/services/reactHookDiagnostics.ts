@@ -0,0 +1,150 @@
+import type { ReactHook } from '../parsers/reactParser.js'
+import * as vscode from 'vscode'
+import { ReactParser } from '../parsers/reactParser.js'
+
+/**
+ * 依赖数组问题，一个 Hook 最多产生缺少/多余两条
+ */
+export interface ReactHookIssue {
+  kind: 'missing' | 'unnecessary'
+  hook: ReactHook
+  dependencies: string[]
+  // 所属组件或自定义 Hook
+  ownerName: string
+  ownerRange: vscode.Range
+  message: string
+}
+
+/**
+ * React Hook 依赖数组检查
+ * 对比 useEffect / useMemo / useCallback 的依赖数组与回调实际引用的值，以诊断信息报告缺少或多余的依赖
+ */
+export class ReactHookDiagnostics implements vscode.Disposable {
+  private static readonly LANGUAGE_IDS = ['javascript', 'javascriptreact', 'typescript', 'typescriptreact']
+
+  private diagnostics = vscode.languages.createDiagnosticCollection('CCoding.reactHooks')
+  private disposables: vscode.Disposable[] = []
+  private pendingChecks: Map<string, NodeJS.Timeout> = new Map()
+
+  // 编辑时的检查延迟
+  private checkDelay = 500
+
+  constructor() {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.checkDocument(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleCheck(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.clearDocument(document)),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('CCoding.reactHooks')) {
+          this.checkOpenDocuments()
+        }
+      }),
+    )
+
+    this.checkOpenDocuments()
+  }
+
+  static isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('CCoding.reactHooks').get<boolean>('checkDependencies', true)
+  }
+
+  /**
+   * 收集文档中所有组件和自定义 Hook 的依赖数组问题
+   * @param document 目标文档
+   */
+  static collectIssues(document: vscode.TextDocument): ReactHookIssue[] {
+    if (!this.LANGUAGE_IDS.includes(document.languageId))
+      return []
+
+    const module = ReactParser.parseReactModule(document)
+    if (!module)
+      return []
+
+    const owners = [...module.components, ...module.customHooks]
+    return owners.flatMap(owner => owner.hooks.flatMap((hook) => {
+      const issues: ReactHookIssue[] = []
+      if (hook.missingDependencies?.length) {
+        issues.push({
+          kind: 'missing',
+          hook,
+          dependencies: hook.missingDependencies,
+          ownerName: owner.name,
+          ownerRange: owner.range,
+          message: `React Hook ${hook.hookName} 缺少依赖: ${hook.missingDependencies.join(', ')}`,
+        })
+      }
+      if (hook.unnecessaryDependencies?.length) {
+        issues.push({
+          kind: 'unnecessary',
+          hook,
+          dependencies: hook.unnecessaryDependencies,
+          ownerName: owner.name,
+          ownerRange: owner.range,
+          message: `React Hook ${hook.hookName} 包含不必要的依赖: ${hook.unnecessaryDependencies.join(', ')}`,
+        })
+      }
+      return issues
+    }))
+  }
+
+  private checkOpenDocuments(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      this.checkDocument(document)
+    }
+  }
+
+  private scheduleCheck(document: vscode.TextDocument): void {
+    const key = document.uri.toString()
+    const pending = this.pendingChecks.get(key)
+    if (pending) {
+      clearTimeout(pending)
+    }
+
+    this.pendingChecks.set(key, setTimeout(() => {
+      this.pendingChecks.delete(key)
+      this.checkDocument(document)
+    }, this.checkDelay))
+  }
+
+  private checkDocument(document: vscode.TextDocument): void {
+    if (document.isClosed || !ReactHookDiagnostics.isEnabled()) {
+      this.diagnostics.delete(document.uri)
+      return
+    }
+
+    try {
+      const diagnostics = ReactHookDiagnostics.collectIssues(document).map((issue) => {
+        const diagnostic = new vscode.Diagnostic(
+          issue.hook.dependencyRange || issue.hook.range,
+          issue.message,
+          vscode.DiagnosticSeverity.Warning,
+        )
+        diagnostic.source = 'CCoding'
+        diagnostic.code = issue.kind === 'missing' ? 'react-hooks-missing-deps' : 'react-hooks-unnecessary-deps'
+        return diagnostic
+      })
+      this.diagnostics.set(document.uri, diagnostics)
+    }
+    catch (error) {
+      console.error('[CCoding] React Hook 依赖检查失败:', error)
+    }
+  }
+
+  private clearDocument(document: vscode.TextDocument): void {
+    const key = document.uri.toString()
+    const pending = this.pendingChecks.get(key)
+    if (pending) {
+      clearTimeout(pending)
+      this.pendingChecks.delete(key)
+    }
+    this.diagnostics.delete(document.uri)
+  }
+
+  dispose(): void {
+    this.pendingChecks.forEach(timeout => clearTimeout(timeout))
+    this.pendingChecks.clear()
+    this.diagnostics.dispose()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
@@ -0,0 +1,399 @@
+import type { EnhancedBookmark } from '../types/bookmarks.js'
+import { Buffer } from 'node:buffer'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+
+/**
+ * 共享书签文件格式
+ */
+interface SharedBookmarkFile {
+  version: number
+  bookmarks: SerializedSharedBookmark[]
+}
+
+/**
+ * 共享书签的序列化格式
+ * 使用相对路径，不包含个人使用统计，便于随仓库提交
+ */
+type SerializedSharedBookmark = Omit<EnhancedBookmark, 'uri' | 'range' | 'stats' | 'projectPath' | 'lastModified' | 'expiresAt' | 'comments'> & {
+  range: {
+    start: { line: number, character: number }
+    end: { line: number, character: number }
+  }
+  lastModified: string
+  comments: Array<Omit<EnhancedBookmark['comments'][number], 'timestamp'> & { timestamp: string }>
+}
+
+const SHARED_FILE_VERSION = 1
+
+/**
+ * 工作区共享书签存储
+ * 将 isShared 书签读写到各工作区文件夹下的共享文件（默认 .vscode/ccoding-bookmarks.json），
+ * 与 globalState 中的私有书签并行存在，并监听文件的外部修改
+ */
+export class SharedBookmarkStore implements vscode.Disposable {
+  private bookmarks: Map<string, EnhancedBookmark> = new Map()
+  private watchers: vscode.FileSystemWatcher[] = []
+  private disposables: vscode.Disposable[] = []
+
+  // 最近一次由本扩展写入的内容，用于忽略自身写入触发的文件事件
+  private lastWrittenContent: Map<string, string> = new Map()
+
+  // 跟随编辑移动、尚未写入共享文件的书签，文档保存时才写入，避免输入过程中反复改动提交的文件
+  private unsavedRelocations: Set<string> = new Set()
+
+  private _onDidChangeBookmarks = new vscode.EventEmitter<void>()
+  readonly onDidChangeBookmarks = this._onDidChangeBookmarks.event
+
+  constructor() {
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('CCoding.bookmarks')) {
+          this.initialize()
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.initialize()),
+    )
+    this.initialize()
+  }
+
+  /**
+   * 是否启用共享书签文件
+   */
+  isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('CCoding.bookmarks').get<boolean>('enableSharedFile', false)
+  }
+
+  private getSharedFilePath(): string {
+    return vscode.workspace.getConfiguration('CCoding.bookmarks').get<string>('sharedFilePath', '.vscode/ccoding-bookmarks.json')
+  }
+
+  /**
+   * 重新建立文件监听并加载共享书签
+   */
+  private async initialize(): Promise<void> {
+    this.watchers.forEach(watcher => watcher.dispose())
+    this.watchers = []
+    this.bookmarks.clear()
+    this.unsavedRelocations.clear()
+
+    if (!this.isEnabled()) {
+      this._onDidChangeBookmarks.fire()
+      return
+    }
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(folder, this.getSharedFilePath()),
+      )
+      watcher.onDidCreate(() => this.reloadFolder(folder))
+      watcher.onDidChange(() => this.reloadFolder(folder))
+      watcher.onDidDelete(() => this.reloadFolder(folder))
+      this.watchers.push(watcher)
+
+      await this.loadFolder(folder)
+    }
+
+    console.log(`[CCoding] 加载共享书签: ${this.bookmarks.size} 个`)
+    this._onDidChangeBookmarks.fire()
+  }
+
+  /**
+   * 读取某个工作区文件夹的共享书签文件
+   */
+  private async loadFolder(folder: vscode.WorkspaceFolder): Promise<boolean> {
+    const fileUri = this.getSharedFileUri(folder)
+    let content: string
+
+    try {
+      content = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8')
+    }
+    catch {
+      // 文件不存在时视为没有共享书签
+      return true
+    }
+
+    if (content === this.lastWrittenContent.get(fileUri.toString())) {
+      return false
+    }
+
+    try {
+      const data = JSON.parse(content) as SharedBookmarkFile
+      for (const item of Array.isArray(data.bookmarks) ? data.bookmarks : []) {
+        if (this.isValidSharedBookmark(item)) {
+          const bookmark = this.deserializeBookmark(item, folder)
+          this.bookmarks.set(bookmark.id, bookmark)
+        }
+      }
+    }
+    catch (error) {
+      console.error(`[CCoding] 解析共享书签文件失败: ${fileUri.fsPath}`, error)
+      vscode.window.showWarningMessage(`共享书签文件格式错误: ${vscode.workspace.asRelativePath(fileUri)}`)
+    }
+
+    return true
+  }
+
+  /**
+   * 共享文件被外部修改（如 git pull）时重新加载
+   */
+  private async reloadFolder(folder: vscode.WorkspaceFolder): Promise<void> {
+    const previous = Array.from(this.bookmarks.values())
+    const others = previous.filter(bookmark => vscode.workspace.getWorkspaceFolder(bookmark.uri)?.uri.toString() !== folder.uri.toString())
+
+    this.bookmarks.clear()
+    others.forEach(bookmark => this.bookmarks.set(bookmark.id, bookmark))
+
+    const changed = await this.loadFolder(folder)
+    if (!changed) {
+      // 自身写入触发的事件，恢复原数据
+      previous.forEach(bookmark => this.bookmarks.set(bookmark.id, bookmark))
+      return
+    }
+
+    // 外部修改的内容为准，丢弃该文件夹中尚未写入的位置更新
+    previous.filter(bookmark => !others.includes(bookmark)).forEach(bookmark => this.unsavedRelocations.delete(bookmark.id))
+    console.log(`[CCoding] 共享书签文件已变更，重新加载: ${folder.name}`)
+    this._onDidChangeBookmarks.fire()
+  }
+
+  /**
+   * 将共享书签写回各工作区文件夹的共享文件
+   */
+  private async saveFolder(folder: vscode.WorkspaceFolder): Promise<void> {
+    const folderBookmarks = Array.from(this.bookmarks.values())
+      .filter(bookmark => vscode.workspace.getWorkspaceFolder(bookmark.uri)?.uri.toString() === folder.uri.toString())
+      .sort((a, b) => a.relativePath.localeCompare(b.relativePath) || a.lineNumber - b.lineNumber)
+
+    // 随本次写入一起保存的位置更新递增版本号
+    for (const bookmark of folderBookmarks) {
+      if (this.unsavedRelocations.delete(bookmark.id)) {
+        bookmark.version++
+        bookmark.lastModified = new Date()
+      }
+    }
+
+    const data: SharedBookmarkFile = {
+      version: SHARED_FILE_VERSION,
+      bookmarks: folderBookmarks.map(bookmark => this.serializeBookmark(bookmark, folder)),
+    }
+    const content = `${JSON.stringify(data, null, 2)}\n`
+    const fileUri = this.getSharedFileUri(folder)
+
+    this.lastWrittenContent.set(fileUri.toString(), content)
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(fileUri, '..'))
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content, 'utf8'))
+  }
+
+  private async saveBookmarkFolder(bookmark: EnhancedBookmark): Promise<void> {
+    const folder = vscode.workspace.getWorkspaceFolder(bookmark.uri)
+    if (folder) {
+      await this.saveFolder(folder)
+    }
+    this._onDidChangeBookmarks.fire()
+  }
+
+  /**
+   * 获取所有共享书签
+   */
+  getAllBookmarks(): EnhancedBookmark[] {
+    return Array.from(this.bookmarks.values())
+  }
+
+  /**
+   * 根据ID获取共享书签
+   */
+  getBookmark(bookmarkId: string): EnhancedBookmark | undefined {
+    return this.bookmarks.get(bookmarkId)
+  }
+
+  /**
+   * 添加共享书签
+   * 书签必须位于某个工作区文件夹内，才能以相对路径写入共享文件
+   */
+  async addBookmark(bookmark: EnhancedBookmark): Promise<EnhancedBookmark> {
+    if (!this.isEnabled()) {
+      throw new Error('未启用共享书签文件（CCoding.bookmarks.enableSharedFile）')
+    }
+
+    const folder = vscode.workspace.getWorkspaceFolder(bookmark.uri)
+    if (!folder) {
+      throw new Error('只能共享工作区内文件的书签')
+    }
+
+    const shared: EnhancedBookmark = {
+      ...bookmark,
+      isShared: true,
+      isTemporary: false,
+      expiresAt: undefined,
+      projectPath: folder.uri.fsPath,
+      relativePath: this.toFolderRelativePath(bookmark.uri, folder),
+      lastModified: new Date(),
+    }
+
+    this.bookmarks.set(shared.id, shared)
+    await this.saveBookmarkFolder(shared)
+    return shared
+  }
+
+  /**
+   * 更新共享书签
+   */
+  async updateBookmark(
+    bookmarkId: string,
+    changes: Partial<Omit<EnhancedBookmark, 'id' | 'stats' | 'version'>>,
+  ): Promise<EnhancedBookmark | undefined> {
+    const bookmark = this.bookmarks.get(bookmarkId)
+    if (!bookmark)
+      return undefined
+
+    Object.assign(bookmark, changes)
+    if (changes.range) {
+      bookmark.lineNumber = changes.range.start.line + 1
+    }
+    bookmark.version++
+    bookmark.lastModified = new Date()
+
+    await this.saveBookmarkFolder(bookmark)
+    return bookmark
+  }
+
+  /**
+   * 更新共享书签位置
+   * 用于跟随编辑和重新锚定，只修改内存中的位置，由 saveRelocations 在文档保存时写入
+   * @param updates 书签ID、新位置和刷新后的代码预览
+   */
+  relocateBookmarks(updates: Array<{ id: string, range: vscode.Range, codePreview?: string }>): void {
+    let changed = false
+
+    for (const { id, range, codePreview } of updates) {
+      const bookmark = this.bookmarks.get(id)
+      if (!bookmark || bookmark.range.isEqual(range))
+        continue
+
+      bookmark.range = range
+      bookmark.lineNumber = range.start.line + 1
+      if (codePreview !== undefined) {
+        bookmark.codePreview = codePreview
+      }
+      this.unsavedRelocations.add(id)
+      changed = true
+    }
+
+    if (changed) {
+      this._onDidChangeBookmarks.fire()
+    }
+  }
+
+  /**
+   * 写入指定文档中尚未保存的书签位置
+   * @param uri 已保存的文档
+   */
+  async saveRelocations(uri: vscode.Uri): Promise<void> {
+    const folders = new Map<string, vscode.WorkspaceFolder>()
+    for (const id of this.unsavedRelocations) {
+      const bookmark = this.bookmarks.get(id)
+      const folder = bookmark?.uri.toString() === uri.toString() && vscode.workspace.getWorkspaceFolder(bookmark.uri)
+      if (folder) {
+        folders.set(folder.uri.toString(), folder)
+      }
+    }
+
+    if (folders.size > 0) {
+      for (const folder of folders.values()) {
+        await this.saveFolder(folder)
+      }
+      this._onDidChangeBookmarks.fire()
+    }
+  }
+
+  /**
+   * 删除共享书签
+   */
+  async deleteBookmark(bookmarkId: string): Promise<boolean> {
+    const bookmark = this.bookmarks.get(bookmarkId)
+    if (!bookmark)
+      return false
+
+    this.bookmarks.delete(bookmarkId)
+    await this.saveBookmarkFolder(bookmark)
+    return true
+  }
+
+  private getSharedFileUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+    return vscode.Uri.joinPath(folder.uri, ...this.getSharedFilePath().split(/[\\/]/).filter(Boolean))
+  }
+
+  private toFolderRelativePath(uri: vscode.Uri, folder: vscode.WorkspaceFolder): string {
+    return path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/')
+  }
+
+  private isValidSharedBookmark(data: any): boolean {
+    return data
+      && typeof data.id === 'string'
+      && typeof data.label === 'string'
+      && typeof data.relativePath === 'string'
+      && data.range
+      && data.range.start
+      && data.range.end
+  }
+
+  private serializeBookmark(bookmark: EnhancedBookmark, folder: vscode.WorkspaceFolder): SerializedSharedBookmark {
+    const { uri: _uri, range, stats: _stats, projectPath: _projectPath, expiresAt: _expiresAt, lastModified, comments, ...rest } = bookmark
+
+    return {
+      ...rest,
+      relativePath: this.toFolderRelativePath(bookmark.uri, folder),
+      range: {
+        start: { line: range.start.line, character: range.start.character },
+        end: { line: range.end.line, character: range.end.character },
+      },
+      comments: comments.map(comment => ({ ...comment, timestamp: comment.timestamp.toISOString() })),
+      lastModified: lastModified.toISOString(),
+    }
+  }
+
+  private deserializeBookmark(data: SerializedSharedBookmark, folder: vscode.WorkspaceFolder): EnhancedBookmark {
+    const createdAt = new Date(data.timestamp || Date.now())
+
+    return {
+      ...data,
+      uri: vscode.Uri.joinPath(folder.uri, ...data.relativePath.split('/')),
+      range: new vscode.Range(
+        new vscode.Position(data.range.start.line, data.range.start.character),
+        new vscode.Position(data.range.end.line, data.range.end.character),
+      ),
+      tags: data.tags || [],
+      projectPath: folder.uri.fsPath,
+      codePreview: data.codePreview || '',
+      lineNumber: data.range.start.line + 1,
+      stats: {
+        accessCount: 0,
+        lastAccessed: createdAt,
+        createdAt,
+        averageSessionTime: 0,
+        daysSinceLastAccess: 0,
+        accessFrequency: 0,
+        isRecent: false,
+        isFavorite: false,
+      },
+      relatedFiles: data.relatedFiles || [],
+      relatedBookmarks: data.relatedBookmarks || [],
+      childBookmarks: data.childBookmarks || [],
+      isShared: true,
+      comments: (data.comments || []).map(comment => ({ ...comment, timestamp: new Date(comment.timestamp) })),
+      isTemporary: false,
+      isArchived: data.isArchived || false,
+      version: data.version || 1,
+      lastModified: data.lastModified ? new Date(data.lastModified) : createdAt,
+    }
+  }
+
+  dispose(): void {
+    this.watchers.forEach(watcher => watcher.dispose())
+    this.watchers = []
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+    this._onDidChangeBookmarks.dispose()
+  }
+}
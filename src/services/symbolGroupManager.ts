@@ -41,6 +41,18 @@ export class SymbolGroupManager {
           filter: symbol => symbol.frontendKind === FrontendSymbolKind.VueComponent,
           sorter: (a, b) => a.name.localeCompare(b.name),
         },
+        {
+          id: 'vue-interface',
+          name: '📨 Props / Emits',
+          icon: 'symbol-interface',
+          color: 'charts.green',
+          priority: 9,
+          defaultExpanded: true,
+          filter: symbol => [
+            FrontendSymbolKind.VueProps,
+            FrontendSymbolKind.VueEmit,
+          ].includes(symbol.frontendKind),
+        },
         {
           id: 'vue-composables',
           name: '🪝 组合式函数',
@@ -753,7 +765,12 @@ export class SymbolGroupManager {
 
     // 复杂度
     const complexityName = this.getComplexityName(symbol.complexity)
-    lines.push(`📊 复杂度: ${complexityName}`)
+    if (symbol.cognitiveComplexity !== undefined) {
+      lines.push(`📊 复杂度: ${complexityName}（圈复杂度 ${symbol.cyclomaticComplexity}，认知复杂度 ${symbol.cognitiveComplexity}）`)
+    }
+    else {
+      lines.push(`📊 复杂度: ${complexityName}`)
+    }
 
     // 子符号数量
     if (symbol.children.length > 0) {
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode'
+
+/**
+ * 符号的一处引用
+ */
+export interface SymbolReference {
+  uri: vscode.Uri
+  range: vscode.Range
+}
+
+/**
+ * 同一文件中的引用
+ */
+export interface SymbolReferenceGroup {
+  uri: vscode.Uri
+  references: SymbolReference[]
+}
+
+/**
+ * 跨文件符号引用服务
+ * 通过 vscode.executeReferenceProvider 查询整个工作区的引用，按需计算并缓存，
+ * 文件修改后只清除该文件中符号的缓存和引用位置在该文件中的缓存
+ */
+export class SymbolReferenceService implements vscode.Disposable {
+  private cache: Map<string, SymbolReference[]> = new Map()
+  // 同一符号的并发查询共用一个请求
+  private pending: Map<string, Promise<SymbolReference[]>> = new Map()
+  private disposables: vscode.Disposable[] = []
+
+  constructor() {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        // 输出面板等非文件文档的变化不影响引用
+        if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+          this.clearFile(event.document.uri)
+        }
+      }),
+      vscode.workspace.onDidCreateFiles(() => this.clear()),
+      vscode.workspace.onDidDeleteFiles(() => this.clear()),
+      vscode.workspace.onDidRenameFiles(() => this.clear()),
+    )
+  }
+
+  /**
+   * 已缓存的引用，尚未查询时返回 undefined
+   * @param uri 符号所在文件
+   * @param position 符号名称的位置
+   */
+  getCachedReferences(uri: vscode.Uri, position: vscode.Position): SymbolReference[] | undefined {
+    return this.cache.get(this.getCacheKey(uri, position))
+  }
+
+  /**
+   * 查询符号在工作区中的引用，不包含声明本身
+   * @param uri 符号所在文件
+   * @param position 符号名称的位置
+   */
+  async getReferences(uri: vscode.Uri, position: vscode.Position): Promise<SymbolReference[]> {
+    const key = this.getCacheKey(uri, position)
+    const cached = this.cache.get(key)
+    if (cached)
+      return cached
+
+    const pending = this.pending.get(key)
+    if (pending)
+      return pending
+
+    const request = this.queryReferences(uri, position)
+      .then((references) => {
+        this.cache.set(key, references)
+        return references
+      })
+      .catch((error) => {
+        // 失败不缓存，下次展开时重试
+        console.error('[CCoding] 查询符号引用失败:', error)
+        return []
+      })
+      .finally(() => this.pending.delete(key))
+
+    this.pending.set(key, request)
+    return request
+  }
+
+  /**
+   * 按文件分组，文件按路径排序，同一文件内按位置排序
+   * @param references 引用列表
+   */
+  static groupByFile(references: SymbolReference[]): SymbolReferenceGroup[] {
+    const groups = new Map<string, SymbolReferenceGroup>()
+    for (const reference of references) {
+      const key = reference.uri.toString()
+      const group = groups.get(key) || { uri: reference.uri, references: [] }
+      group.references.push(reference)
+      groups.set(key, group)
+    }
+
+    return [...groups.values()]
+      .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath))
+      .map(group => ({
+        uri: group.uri,
+        references: group.references.sort((a, b) => a.range.start.compareTo(b.range.start)),
+      }))
+  }
+
+  private async queryReferences(uri: vscode.Uri, position: vscode.Position): Promise<SymbolReference[]> {
+    const locations = await vscode.commands.executeCommand<vscode.Location[]>(
+      'vscode.executeReferenceProvider',
+      uri,
+      position,
+    )
+
+    return (locations || [])
+      .filter(location => !(location.uri.toString() === uri.toString() && location.range.contains(position)))
+      .map(location => ({ uri: location.uri, range: location.range }))
+  }
+
+  private getCacheKey(uri: vscode.Uri, position: vscode.Position): string {
+    return `${uri.toString()}#${position.line}:${position.character}`
+  }
+
+  /**
+   * 清除与文件相关的缓存：文件中符号的引用，以及引用位置在该文件中的符号
+   * @param uri 修改的文件
+   */
+  clearFile(uri: vscode.Uri): void {
+    const file = uri.toString()
+    for (const [key, references] of this.cache) {
+      if (key.startsWith(`${file}#`) || references.some(reference => reference.uri.toString() === file)) {
+        this.cache.delete(key)
+      }
+    }
+  }
+
+  clear(): void {
+    this.cache.clear()
+  }
+
+  dispose(): void {
+    this.clear()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
@@ -0,0 +1,506 @@
+import type { TaskItem, TaskStatus } from '../types/tasks.js'
+import { Buffer } from 'node:buffer'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { TodoScanner } from './todoScanner.js'
+
+/**
+ * 要转换为任务的待办
+ */
+export interface TaskSource {
+  type: string
+  text: string
+  uri: vscode.Uri
+  line: number
+}
+
+/**
+ * JSON 任务文件格式
+ */
+interface TaskBoardFile {
+  version: number
+  tasks: TaskItem[]
+}
+
+const TASK_FILE_VERSION = 1
+const TASK_ID_PATTERN = /^T-(\d+)$/
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  open: '待处理',
+  inProgress: '进行中',
+  done: '已完成',
+}
+
+// Markdown 任务文件的分组标题，兼容英文标题
+const SECTION_STATUS: Record<string, TaskStatus> = {
+  '待处理': 'open',
+  '进行中': 'inProgress',
+  '已完成': 'done',
+  'open': 'open',
+  'in progress': 'inProgress',
+  'done': 'done',
+}
+
+/**
+ * 任务看板服务
+ * 将待办转换为任务并保存到第一个工作区文件夹下的任务文件（默认 .vscode/ccoding-tasks.md，
+ * 扩展名为 .json 时使用 JSON 格式），代码注释改写为 TODO(T-1) 与任务关联；
+ * 文件保存后按已保存的内容同步：关联注释被删除的任务自动移到已完成，移动后更新任务记录的位置
+ */
+export class TaskBoardService implements vscode.Disposable {
+  private tasks: TaskItem[] = []
+  private watcher: vscode.FileSystemWatcher | undefined
+  private disposables: vscode.Disposable[] = []
+  // 最近一次由本扩展写入的内容，用于忽略自身写入触发的文件事件
+  private lastWrittenContent: string | undefined
+  // 上次读取的任务文件解析失败，修正之前不写入，避免覆盖用户的内容
+  private loadFailed = false
+
+  private _onDidChange = new vscode.EventEmitter<void>()
+  readonly onDidChange = this._onDidChange.event
+
+  constructor() {
+    this.disposables.push(
+      this._onDidChange,
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('CCoding.tasks')) {
+          this.initialize()
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.initialize()),
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        if (document.uri.scheme === 'file' && this.tasks.length > 0) {
+          this.syncDocument(document)
+        }
+      }),
+      vscode.workspace.onDidDeleteFiles(event => this.handleDeletedFiles(event.files)),
+    )
+    this.initialize()
+  }
+
+  static getTaskFilePath(): string {
+    return vscode.workspace.getConfiguration('CCoding.tasks').get<string>('filePath', '.vscode/ccoding-tasks.md')
+  }
+
+  getTaskFileUri(): vscode.Uri | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0]
+    return folder ? vscode.Uri.joinPath(folder.uri, TaskBoardService.getTaskFilePath()) : undefined
+  }
+
+  getTasks(): TaskItem[] {
+    return [...this.tasks]
+  }
+
+  /**
+   * 将待办转换为任务，并把任务编号写入代码注释
+   * @param source 待办
+   */
+  async promote(source: TaskSource): Promise<TaskItem> {
+    const folder = vscode.workspace.workspaceFolders?.[0]
+    if (!folder) {
+      throw new Error('没有打开的工作区')
+    }
+
+    const document = await vscode.workspace.openTextDocument(source.uri)
+    const match = TodoScanner.getInstance().scanLine(document, source.line).find(item => item.type === source.type)
+    if (!match) {
+      throw new Error('待办所在的行已经变化，请刷新后重试')
+    }
+    if (match.metadata.task) {
+      throw new Error(`该待办已关联任务 ${match.metadata.task}`)
+    }
+
+    await this.load()
+    if (this.loadFailed) {
+      throw new Error('任务文件格式错误，修正后重试')
+    }
+    const task: TaskItem = {
+      id: `T-${this.getNextNumber()}`,
+      title: match.text,
+      status: 'open',
+      type: match.type,
+      source: { file: this.getRelativePath(source.uri), line: source.line },
+      created: this.formatDate(Date.now()),
+    }
+
+    const linked = await this.linkComment(document, match.range, task.id)
+    if (!linked) {
+      throw new Error('无法改写待办注释')
+    }
+
+    this.tasks.push(task)
+    await this.save()
+    this._onDidChange.fire()
+    return task
+  }
+
+  /**
+   * 修改任务状态
+   * @param id 任务编号
+   * @param status 新状态
+   */
+  async setStatus(id: string, status: TaskStatus): Promise<void> {
+    const task = this.tasks.find(item => item.id === id)
+    if (!task || task.status === status)
+      return
+    if (this.loadFailed) {
+      vscode.window.showWarningMessage('任务文件格式错误，修正后才能修改任务状态')
+      return
+    }
+
+    task.status = status
+    task.completed = status === 'done' ? this.formatDate(Date.now()) : undefined
+    if (status !== 'done') {
+      task.removedFromCode = undefined
+    }
+    await this.save()
+    this._onDidChange.fire()
+  }
+
+  /**
+   * 任务关联注释所在的位置
+   * @param task 任务
+   */
+  getSourceLocation(task: TaskItem): vscode.Location | undefined {
+    const folder = vscode.workspace.workspaceFolders?.[0]
+    if (!folder || !task.source)
+      return undefined
+    const uri = vscode.Uri.joinPath(folder.uri, task.source.file)
+    return new vscode.Location(uri, new vscode.Position(task.source.line, 0))
+  }
+
+  /**
+   * 检查所有未完成任务的关联注释是否仍然存在
+   * 有未保存修改的文件跳过，保存后再同步
+   */
+  async syncAll(): Promise<void> {
+    const files = new Set(this.tasks.filter(task => task.status !== 'done' && task.source).map(task => task.source!.file))
+    for (const file of files) {
+      const location = this.getSourceLocation(this.tasks.find(task => task.source?.file === file)!)
+      if (!location)
+        continue
+      try {
+        const document = await vscode.workspace.openTextDocument(location.uri)
+        if (!document.isDirty) {
+          await this.syncDocument(document)
+        }
+      }
+      catch {
+        // 文件已不存在
+        await this.resolveRemoved(this.tasks.filter(task => task.status !== 'done' && task.source?.file === file))
+      }
+    }
+  }
+
+  /**
+   * 在 TODO 的标签后插入任务编号：已有括号时追加到括号内，否则添加 (T-1)
+   */
+  private async linkComment(document: vscode.TextDocument, range: vscode.Range, id: string): Promise<boolean> {
+    const lineText = document.lineAt(range.start.line).text
+    const tagEnd = range.start.character + (/^[\w-]+/.exec(lineText.slice(range.start.character))?.[0].length ?? 0)
+    const edit = new vscode.WorkspaceEdit()
+
+    if (lineText[tagEnd] === '(') {
+      const closing = lineText.indexOf(')', tagEnd)
+      if (closing === -1)
+        return false
+      const inner = lineText.slice(tagEnd + 1, closing).trim()
+      edit.insert(document.uri, new vscode.Position(range.start.line, closing), inner ? `, ${id}` : id)
+    }
+    else {
+      edit.insert(document.uri, new vscode.Position(range.start.line, tagEnd), `(${id})`)
+    }
+
+    return vscode.workspace.applyEdit(edit)
+  }
+
+  /**
+   * 对比文档中的任务链接：更新移动后的位置，关联注释消失的任务移到已完成
+   */
+  private async syncDocument(document: vscode.TextDocument): Promise<void> {
+    const file = this.getRelativePath(document.uri)
+    const links = new Map<string, number>()
+    for (const match of TodoScanner.getInstance().scanDocument(document)) {
+      if (match.metadata.task) {
+        links.set(match.metadata.task, match.line)
+      }
+    }
+
+    let changed = false
+    for (const task of this.tasks) {
+      const line = links.get(task.id)
+      if (line === undefined)
+        continue
+      if (task.source?.file !== file || task.source.line !== line) {
+        task.source = { file, line }
+        changed = true
+      }
+      // 撤销删除后关联注释重新出现
+      if (task.removedFromCode) {
+        task.status = 'open'
+        task.completed = undefined
+        task.removedFromCode = undefined
+        changed = true
+      }
+    }
+
+    const removed = this.tasks.filter(task => task.status !== 'done' && task.source?.file === file && !links.has(task.id))
+    if (removed.length > 0) {
+      await this.resolveRemoved(removed)
+    }
+    else if (changed) {
+      await this.save()
+      this._onDidChange.fire()
+    }
+  }
+
+  private async resolveRemoved(tasks: TaskItem[]): Promise<void> {
+    if (tasks.length === 0)
+      return
+
+    const today = this.formatDate(Date.now())
+    tasks.forEach((task) => {
+      task.status = 'done'
+      task.completed = today
+      task.removedFromCode = true
+    })
+    console.log(`[CCoding] 关联注释已删除，任务完成: ${tasks.map(task => task.id).join(', ')}`)
+    await this.save()
+    this._onDidChange.fire()
+  }
+
+  private async handleDeletedFiles(uris: readonly vscode.Uri[]): Promise<void> {
+    const files = new Set(uris.map(uri => this.getRelativePath(uri)))
+    await this.resolveRemoved(this.tasks.filter(task => task.status !== 'done' && task.source && files.has(task.source.file)))
+  }
+
+  /**
+   * 重新建立文件监听并加载任务
+   */
+  private async initialize(): Promise<void> {
+    this.watcher?.dispose()
+    this.watcher = undefined
+
+    const folder = vscode.workspace.workspaceFolders?.[0]
+    if (folder) {
+      this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, TaskBoardService.getTaskFilePath()))
+      this.watcher.onDidCreate(() => this.reload())
+      this.watcher.onDidChange(() => this.reload())
+      this.watcher.onDidDelete(() => this.reload())
+    }
+
+    await this.load()
+    this._onDidChange.fire()
+  }
+
+  /**
+   * 任务文件被外部修改时重新加载
+   */
+  private async reload(): Promise<void> {
+    if (await this.load()) {
+      this._onDidChange.fire()
+    }
+  }
+
+  /**
+   * 读取任务文件，内容与上次写入一致时跳过
+   */
+  private async load(): Promise<boolean> {
+    const fileUri = this.getTaskFileUri()
+    if (!fileUri) {
+      this.tasks = []
+      return true
+    }
+
+    let content: string
+    try {
+      content = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8')
+    }
+    catch {
+      // 文件不存在时视为没有任务
+      this.tasks = []
+      this.loadFailed = false
+      return true
+    }
+
+    if (content === this.lastWrittenContent) {
+      return false
+    }
+
+    try {
+      this.tasks = this.isJsonFile() ? this.parseJson(content) : this.parseMarkdown(content)
+      this.loadFailed = false
+    }
+    catch (error) {
+      this.loadFailed = true
+      console.error(`[CCoding] 解析任务文件失败: ${fileUri.fsPath}`, error)
+      vscode.window.showWarningMessage(`任务文件格式错误，修正前不会保存任务修改: ${vscode.workspace.asRelativePath(fileUri)}`)
+      return true
+    }
+
+    // 手动添加的任务分配编号后写回
+    if (this.normalizeTasks()) {
+      await this.save()
+    }
+    return true
+  }
+
+  /**
+   * 为手动添加的任务补全编号、创建和完成日期
+   * @returns 是否有修改
+   */
+  private normalizeTasks(): boolean {
+    const today = this.formatDate(Date.now())
+    let changed = false
+    for (const task of this.tasks) {
+      if (!task.id) {
+        task.id = `T-${this.getNextNumber()}`
+        changed = true
+      }
+      if (!task.created) {
+        task.created = today
+        changed = true
+      }
+      if (task.status === 'done' && !task.completed) {
+        task.completed = today
+        changed = true
+      }
+    }
+    return changed
+  }
+
+  private async save(): Promise<void> {
+    const fileUri = this.getTaskFileUri()
+    if (!fileUri)
+      return
+    if (this.loadFailed) {
+      console.warn(`[CCoding] 任务文件解析失败，跳过保存: ${fileUri.fsPath}`)
+      return
+    }
+
+    const content = this.isJsonFile() ? this.serializeJson() : this.serializeMarkdown()
+    this.lastWrittenContent = content
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(fileUri, '..'))
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content, 'utf8'))
+  }
+
+  private isJsonFile(): boolean {
+    return path.extname(TaskBoardService.getTaskFilePath()).toLowerCase() === '.json'
+  }
+
+  private parseJson(content: string): TaskItem[] {
+    const data = JSON.parse(content) as TaskBoardFile
+    return (Array.isArray(data.tasks) ? data.tasks : [])
+      .filter(task => TASK_ID_PATTERN.test(task.id) && typeof task.title === 'string')
+      .map(task => ({ ...task, status: task.status in TASK_STATUS_LABELS ? task.status : 'open' }))
+  }
+
+  private serializeJson(): string {
+    const data: TaskBoardFile = { version: TASK_FILE_VERSION, tasks: this.tasks }
+    return `${JSON.stringify(data, null, 2)}\n`
+  }
+
+  /**
+   * 解析 Markdown 任务文件：## 分组标题决定状态，勾选 [x] 的任务视为已完成，任务下的缩进列表为属性；
+   * 没有 **T-1** 编号的任务视为手动添加，编号留空由 normalizeTasks 分配
+   */
+  private parseMarkdown(content: string): TaskItem[] {
+    const tasks: TaskItem[] = []
+    let status: TaskStatus = 'open'
+    let current: TaskItem | undefined
+
+    for (const line of content.split(/\r?\n/)) {
+      if (line.startsWith('## ')) {
+        status = SECTION_STATUS[line.slice(3).trim().toLowerCase()] ?? status
+        current = undefined
+        continue
+      }
+
+      const task = /^- \[([ x])\] (.*)$/i.exec(line)
+      if (task) {
+        const id = /^\*\*(T-\d+)\*\* /.exec(task[2])
+        const title = (id ? task[2].slice(id[0].length) : task[2]).trim()
+        if (!title) {
+          current = undefined
+          continue
+        }
+        current = { id: id?.[1] ?? '', title, status: task[1] === ' ' ? status : 'done', type: 'TODO', created: '' }
+        tasks.push(current)
+        continue
+      }
+
+      const property = /^\s+- (类型|位置|创建|完成): (.*)$/.exec(line)
+      if (current && property) {
+        const value = property[2].trim()
+        switch (property[1]) {
+          case '类型':
+            current.type = value
+            break
+          case '位置': {
+            const location = /^(.+):(\d+)$/.exec(value)
+            if (location) {
+              current.source = { file: location[1], line: Number(location[2]) - 1 }
+            }
+            break
+          }
+          case '创建':
+            current.created = value
+            break
+          case '完成':
+            current.completed = value.replace(/（.*）$/, '')
+            current.removedFromCode = value.includes('注释已删除') || undefined
+            break
+        }
+      }
+    }
+
+    return tasks
+  }
+
+  private serializeMarkdown(): string {
+    const lines = [
+      '# CCoding 任务',
+      '',
+      '> 由 CCoding 任务看板生成和维护，代码中的 TODO(T-1) 与同编号任务关联。',
+      '> 可以手动添加 `- [ ] 标题` 形式的任务，保存后自动编号；勾选 [x] 的任务视为已完成。',
+      '',
+    ]
+    for (const status of Object.keys(TASK_STATUS_LABELS) as TaskStatus[]) {
+      lines.push(`## ${TASK_STATUS_LABELS[status]}`, '')
+      for (const task of this.tasks.filter(item => item.status === status)) {
+        lines.push(`- [${status === 'done' ? 'x' : ' '}] **${task.id}** ${task.title}`)
+        lines.push(`  - 类型: ${task.type}`)
+        if (task.source) {
+          lines.push(`  - 位置: ${task.source.file}:${task.source.line + 1}`)
+        }
+        lines.push(`  - 创建: ${task.created}`)
+        if (task.completed) {
+          lines.push(`  - 完成: ${task.completed}${task.removedFromCode ? '（注释已删除）' : ''}`)
+        }
+      }
+      lines.push('')
+    }
+    return `${lines.join('\n').trimEnd()}\n`
+  }
+
+  private getNextNumber(): number {
+    return this.tasks.reduce((max, task) => Math.max(max, Number(TASK_ID_PATTERN.exec(task.id)?.[1] ?? 0)), 0) + 1
+  }
+
+  private getRelativePath(uri: vscode.Uri): string {
+    const folder = vscode.workspace.workspaceFolders?.[0]
+    return folder ? path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/') : uri.fsPath
+  }
+
+  private formatDate(time: number): string {
+    const date = new Date(time)
+    const pad = (value: number): string => String(value).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  }
+
+  dispose(): void {
+    this.watcher?.dispose()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
@@ -0,0 +1,276 @@
+import type * as vscode from 'vscode'
+import { createHash } from 'node:crypto'
+
+/**
+ * 一次扫描中的待办
+ */
+export interface TodoSnapshot {
+  type: string
+  text: string
+  uri: vscode.Uri
+  filePath: string
+  line: number
+}
+
+/**
+ * 一次扫描覆盖的文件范围
+ */
+export interface TodoScanCoverage {
+  // 读取了已保存内容的文件
+  scannedFiles: Set<string>
+  // 读取失败或有未保存修改的文件，其中的待办保持原状
+  skippedFiles: Set<string>
+  // 文件数量未达到上限，未扫描到的其余文件视为已删除
+  complete: boolean
+}
+
+/**
+ * 持久化的待办生命周期记录
+ */
+export interface TodoHistoryRecord {
+  // 首次出现时生成，行号变化或跨文件移动后保持不变
+  id: string
+  // 类型和规范化文本的哈希
+  contentKey: string
+  type: string
+  text: string
+  uri: string
+  filePath: string
+  line: number
+  firstSeen: number
+  lastSeen: number
+  resolvedAt?: number
+  // 最近一次跨文件移动
+  movedFrom?: { filePath: string, line: number, at: number }
+  // 首次扫描时已存在，不算作新增
+  baseline?: boolean
+}
+
+interface TodoHistoryState {
+  version: number
+  records: TodoHistoryRecord[]
+  // YYYY-MM-DD -> 当天最后一次扫描的未完成数量
+  daily: Record<string, number>
+}
+
+const HISTORY_KEY = 'CCoding.todoHistory'
+const HISTORY_VERSION = 1
+const DAY_MS = 24 * 60 * 60 * 1000
+// 已解决记录和每日统计的保留天数
+const RETENTION_DAYS = 90
+
+/**
+ * 待办生命周期跟踪
+ * 以文件 + 类型 + 文本的哈希识别同一个待办，在保存文件或全量扫描后对比上次结果，
+ * 记录新增、解决和跨文件移动，并按天统计未完成数量，保存在工作区状态中
+ */
+export class TodoHistoryService {
+  private state: TodoHistoryState
+  private idCounter = 0
+
+  constructor(private context: vscode.ExtensionContext) {
+    const saved = this.context.workspaceState.get<TodoHistoryState>(HISTORY_KEY)
+    this.state = saved && saved.version === HISTORY_VERSION
+      ? saved
+      : { version: HISTORY_VERSION, records: [], daily: {} }
+  }
+
+  /**
+   * 用一次全量扫描的结果更新历史，返回与输入顺序一致的记录
+   * 只有扫描覆盖的文件中消失的待办才会标记为已解决
+   * @param todos 本次扫描到的已保存内容中的待办
+   * @param coverage 本次扫描覆盖的文件范围
+   */
+  update(todos: TodoSnapshot[], coverage: TodoScanCoverage): TodoHistoryRecord[] {
+    const now = Date.now()
+    const isCovered = (filePath: string): boolean =>
+      !coverage.skippedFiles.has(filePath) && (coverage.complete || coverage.scannedFiles.has(filePath))
+    const isFirstScan = this.state.records.length === 0 && Object.keys(this.state.daily).length === 0
+    const open = this.state.records.filter(record => !record.resolvedAt)
+    const resolved = this.state.records.filter(record => record.resolvedAt)
+    const matched = new Set<TodoHistoryRecord>()
+    const result: Array<TodoHistoryRecord | undefined> = Array.from({ length: todos.length })
+
+    // 同一文件中内容相同的待办按出现顺序区分
+    const keys = this.getOccurrenceKeys(todos)
+    const openByKey = this.indexRecords(open)
+    const resolvedByKey = this.indexRecords(resolved)
+
+    // 1. 同一文件中的同一待办（行号可能变化）
+    todos.forEach((todo, index) => {
+      const record = openByKey.get(keys[index])
+      if (record && !matched.has(record)) {
+        matched.add(record)
+        result[index] = this.touch(record, todo, now)
+      }
+    })
+
+    // 2. 从其他文件移动过来：内容相同且原位置已经消失
+    todos.forEach((todo, index) => {
+      if (result[index])
+        return
+      const contentKey = this.getContentKey(todo)
+      const record = open.find(candidate => !matched.has(candidate) && candidate.contentKey === contentKey
+        && candidate.filePath !== todo.filePath && isCovered(candidate.filePath))
+      if (record) {
+        matched.add(record)
+        record.movedFrom = { filePath: record.filePath, line: record.line, at: now }
+        result[index] = this.touch(record, todo, now)
+      }
+    })
+
+    // 3. 重新出现的已解决待办，其余为新增
+    todos.forEach((todo, index) => {
+      if (result[index])
+        return
+      const record = resolvedByKey.get(keys[index])
+      if (record && !matched.has(record)) {
+        matched.add(record)
+        record.resolvedAt = undefined
+        result[index] = this.touch(record, todo, now)
+        return
+      }
+
+      const created: TodoHistoryRecord = {
+        id: `${this.getContentKey(todo)}-${now.toString(36)}-${(this.idCounter++).toString(36)}`,
+        contentKey: this.getContentKey(todo),
+        type: todo.type,
+        text: todo.text,
+        uri: todo.uri.toString(),
+        filePath: todo.filePath,
+        line: todo.line,
+        firstSeen: now,
+        lastSeen: now,
+        baseline: isFirstScan || undefined,
+      }
+      this.state.records.push(created)
+      matched.add(created)
+      result[index] = created
+    })
+
+    // 扫描覆盖范围内未匹配的未完成记录视为已解决
+    open.filter(record => !matched.has(record) && isCovered(record.filePath)).forEach((record) => {
+      record.resolvedAt = now
+    })
+
+    this.state.daily[this.formatDate(now)] = this.state.records.filter(record => !record.resolvedAt).length
+    this.prune(now)
+    this.save()
+
+    return result as TodoHistoryRecord[]
+  }
+
+  /**
+   * 查找待办对应的未完成记录，不修改历史，用于未保存的内容
+   * @param todos 同一批扫描到的待办
+   */
+  lookup(todos: TodoSnapshot[]): Array<TodoHistoryRecord | undefined> {
+    const keys = this.getOccurrenceKeys(todos)
+    const openByKey = this.indexRecords(this.state.records.filter(record => !record.resolvedAt))
+    return keys.map(key => openByKey.get(key))
+  }
+
+  /**
+   * 指定天数内解决的待办，最近的在前
+   * @param days 天数
+   */
+  getRecentlyResolved(days: number): TodoHistoryRecord[] {
+    const since = Date.now() - days * DAY_MS
+    return this.state.records
+      .filter(record => record.resolvedAt && record.resolvedAt >= since)
+      .sort((a, b) => b.resolvedAt! - a.resolvedAt!)
+  }
+
+  /**
+   * 最近若干天每天的未完成数量，没有扫描的日期沿用前一天的数量
+   * @param days 天数
+   */
+  getTrend(days: number): Array<{ date: string, count: number | undefined }> {
+    const trend: Array<{ date: string, count: number | undefined }> = []
+    const dates = Object.keys(this.state.daily).sort()
+    let last: number | undefined
+
+    for (let offset = days - 1; offset >= 0; offset--) {
+      const date = this.formatDate(Date.now() - offset * DAY_MS)
+      if (this.state.daily[date] !== undefined) {
+        last = this.state.daily[date]
+      }
+      else if (last === undefined) {
+        // 区间之前最近一次的数量
+        const previous = dates.filter(item => item < date).pop()
+        last = previous ? this.state.daily[previous] : undefined
+      }
+      trend.push({ date, count: last })
+    }
+    return trend
+  }
+
+  /**
+   * 清空历史
+   */
+  async clear(): Promise<void> {
+    this.state = { version: HISTORY_VERSION, records: [], daily: {} }
+    await this.context.workspaceState.update(HISTORY_KEY, this.state)
+  }
+
+  private touch(record: TodoHistoryRecord, todo: TodoSnapshot, now: number): TodoHistoryRecord {
+    record.type = todo.type
+    record.text = todo.text
+    record.uri = todo.uri.toString()
+    record.filePath = todo.filePath
+    record.line = todo.line
+    record.lastSeen = now
+    return record
+  }
+
+  private getContentKey(todo: { type: string, text: string }): string {
+    const normalized = `${todo.type.toUpperCase()}\n${todo.text.replace(/\s+/g, ' ').trim()}`
+    return createHash('sha1').update(normalized).digest('hex').slice(0, 12)
+  }
+
+  private getOccurrenceKeys(todos: TodoSnapshot[]): string[] {
+    const counts = new Map<string, number>()
+    return todos.map((todo) => {
+      const key = `${todo.filePath}|${this.getContentKey(todo)}`
+      const occurrence = counts.get(key) ?? 0
+      counts.set(key, occurrence + 1)
+      return `${key}|${occurrence}`
+    })
+  }
+
+  private indexRecords(records: TodoHistoryRecord[]): Map<string, TodoHistoryRecord> {
+    const index = new Map<string, TodoHistoryRecord>()
+    const counts = new Map<string, number>()
+    // 按行号排序，与扫描结果的出现顺序一致
+    for (const record of [...records].sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line)) {
+      const key = `${record.filePath}|${record.contentKey}`
+      const occurrence = counts.get(key) ?? 0
+      counts.set(key, occurrence + 1)
+      index.set(`${key}|${occurrence}`, record)
+    }
+    return index
+  }
+
+  private prune(now: number): void {
+    const threshold = now - RETENTION_DAYS * DAY_MS
+    this.state.records = this.state.records.filter(record => !record.resolvedAt || record.resolvedAt >= threshold)
+    const oldest = this.formatDate(threshold)
+    for (const date of Object.keys(this.state.daily)) {
+      if (date < oldest) {
+        delete this.state.daily[date]
+      }
+    }
+  }
+
+  private save(): void {
+    this.context.workspaceState.update(HISTORY_KEY, this.state).then(undefined, (error) => {
+      console.warn('[CCoding] 保存待办历史失败:', error)
+    })
+  }
+
+  private formatDate(time: number): string {
+    const date = new Date(time)
+    const pad = (value: number): string => String(value).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  }
+}
@@ -0,0 +1,352 @@
+import * as vscode from 'vscode'
+
+/**
+ * 待办标签及其显示样式
+ */
+export interface TodoTag {
+  name: string
+  // 编辑器装饰使用的十六进制颜色
+  color: string
+  // 树视图图标使用的主题颜色
+  themeColor: string
+  // codicon 图标名
+  icon: string
+  emoji: string
+  // 基础优先级 1-5
+  priority: number
+  // 内置标签且未被 customTags 覆盖样式
+  builtin: boolean
+}
+
+/**
+ * 标签后括号中的结构化信息，如 TODO(@alice, 2026-11-01, #123, P1)
+ */
+export interface TodoMetadata {
+  assignee?: string
+  // YYYY-MM-DD
+  dueDate?: string
+  // #123 或 PROJ-123
+  issue?: string
+  // 由 P0-P4 换算的优先级 5-1
+  priority?: number
+  // 关联的任务看板任务，如 T-12
+  task?: string
+}
+
+/**
+ * 一行中匹配到的待办，range 从标签开始到说明文字结束
+ */
+export interface TodoMatch {
+  type: string
+  text: string
+  metadata: TodoMetadata
+  line: number
+  range: vscode.Range
+}
+
+interface CustomTagConfig {
+  tag: string
+  color?: string
+  themeColor?: string
+  icon?: string
+  emoji?: string
+  priority?: number
+}
+
+interface CustomPatternConfig {
+  pattern: string
+  tag?: string
+  flags?: string
+}
+
+interface CompiledPattern {
+  regex: RegExp
+  tag: string
+}
+
+type TagStyle = Omit<TodoTag, 'name' | 'builtin'>
+
+const BUILTIN_TAGS: Record<string, TagStyle> = {
+  TODO: { color: '#3498db', themeColor: 'charts.blue', icon: 'check', emoji: '✅', priority: 2 },
+  FIXME: { color: '#e67e22', themeColor: 'charts.orange', icon: 'tools', emoji: '🔧', priority: 3 },
+  NOTE: { color: '#2ecc71', themeColor: 'charts.green', icon: 'note', emoji: '📝', priority: 1 },
+  HACK: { color: '#f1c40f', themeColor: 'charts.yellow', icon: 'warning', emoji: '⚡', priority: 2 },
+  BUG: { color: '#e74c3c', themeColor: 'charts.red', icon: 'bug', emoji: '🐛', priority: 3 },
+}
+
+const DEFAULT_STYLE: TagStyle = { color: '#95a5a6', themeColor: 'foreground', icon: 'circle-outline', emoji: '📋', priority: 2 }
+const DEFAULT_ENABLED_TYPES = Object.keys(BUILTIN_TAGS)
+
+// 注释起始符：// /* * <!-- # ; --，只认行首或空白之后的，避免匹配字符串中的 http://
+const COMMENT_PREFIX = String.raw`(?:^|\s)(?:\/\/+|\/\*+|<!--|--|[*#;])`
+// Markdown 和纯文本允许标签出现在行首或列表项开头
+const PLAIN_PREFIX = String.raw`(?:^\s*(?:[-*+]\s+|\d+\.\s+)?(?:\[[ xX]\]\s*)?)`
+const PLAIN_LANGUAGES = new Set(['markdown', 'plaintext'])
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TASK_PATTERN = /^T-\d+$/
+const ISSUE_PATTERN = /^(?:#\d+|[A-Z][A-Z\d]*-\d+)$/
+const PRIORITY_PATTERN = /^P([0-4])$/i
+// 行尾的注释结束符
+const COMMENT_SUFFIX = /\s*(?:\*\/|-->)\s*$/
+
+/**
+ * 待办扫描引擎
+ * 待办树、全局待办、当前文件导航和统一搜索共用的标签识别规则
+ * 标签集合来自 CCoding.todos.enabledTypes 和 CCoding.todos.customTags，
+ * CCoding.todos.customPatterns 可以补充自定义正则，正则产生的标签同样加入标签集合
+ */
+export class TodoScanner {
+  private static instance: TodoScanner
+
+  private _onDidChange = new vscode.EventEmitter<void>()
+  readonly onDidChange = this._onDidChange.event
+
+  // 配置变化后置空，下次使用时重新编译
+  private tags: Map<string, TodoTag> | undefined
+  private commentRegex: RegExp | undefined
+  private plainRegex: RegExp | undefined
+  private customPatterns: CompiledPattern[] = []
+  // 正则命名分组匹配到新标签后延迟通知，避免在扫描过程中触发刷新
+  private tagChangeTimeout: NodeJS.Timeout | undefined
+
+  private constructor() {
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('CCoding.todos')) {
+        this.tags = undefined
+        this._onDidChange.fire()
+      }
+    })
+  }
+
+  public static getInstance(): TodoScanner {
+    if (!TodoScanner.instance) {
+      TodoScanner.instance = new TodoScanner()
+    }
+    return TodoScanner.instance
+  }
+
+  /**
+   * 当前启用的全部标签
+   */
+  public getTags(): TodoTag[] {
+    return Array.from(this.ensureCompiled().values())
+  }
+
+  /**
+   * 标签样式，未知标签返回默认样式
+   * @param type 标签名
+   */
+  public getTag(type: string): TodoTag {
+    const name = type.toUpperCase()
+    return this.ensureCompiled().get(name) ?? { name, ...DEFAULT_STYLE, builtin: false }
+  }
+
+  /**
+   * 扫描整个文档
+   * @param document 文档
+   */
+  public scanDocument(document: vscode.TextDocument): TodoMatch[] {
+    const matches: TodoMatch[] = []
+    for (let line = 0; line < document.lineCount; line++) {
+      matches.push(...this.scanLine(document, line))
+    }
+    return matches
+  }
+
+  /**
+   * 扫描文档中的一行
+   * @param document 文档
+   * @param line 行号
+   */
+  public scanLine(document: vscode.TextDocument, line: number): TodoMatch[] {
+    const tags = this.ensureCompiled()
+    const text = document.lineAt(line).text
+    if (!text.trim() || tags.size === 0)
+      return []
+
+    const matches: TodoMatch[] = []
+    const regex = PLAIN_LANGUAGES.has(document.languageId) ? this.plainRegex : this.commentRegex
+    for (const match of regex ? text.matchAll(regex) : []) {
+      // 高亮从标签开始，不包括注释符号
+      const start = match.index! + match[1].length
+      const end = match.index! + match[0].replace(COMMENT_SUFFIX, '').length
+      this.pushMatch(matches, line, start, end, match[2], match[4], parseTodoMetadata(match[3] ?? ''))
+    }
+
+    for (const pattern of this.customPatterns) {
+      for (const match of text.matchAll(pattern.regex)) {
+        const groups = match.groups || {}
+        const type = (groups.tag || pattern.tag).toUpperCase()
+        this.registerTag(tags, type)
+        const start = match.index!
+        if (matches.some(item => item.range.start.character <= start && start < item.range.end.character))
+          continue
+        const metadata = parseTodoMetadata(groups.meta ?? '')
+        if (groups.author && !metadata.assignee) {
+          metadata.assignee = groups.author.trim().replace(/^@/, '')
+        }
+        this.pushMatch(matches, line, start, start + match[0].length, type, groups.text ?? match[1] ?? match[0], metadata)
+      }
+    }
+
+    return matches
+  }
+
+  /**
+   * 将自定义正则的命名分组匹配到的新标签加入标签集合
+   * @param tags 标签集合
+   * @param name 标签名
+   */
+  private registerTag(tags: Map<string, TodoTag>, name: string): void {
+    if (!name || tags.has(name))
+      return
+
+    tags.set(name, this.createTag(name))
+    clearTimeout(this.tagChangeTimeout)
+    this.tagChangeTimeout = setTimeout(() => {
+      this.tagChangeTimeout = undefined
+      this._onDidChange.fire()
+    }, 0)
+  }
+
+  private createTag(name: string): TodoTag {
+    return { name, ...(BUILTIN_TAGS[name] ?? DEFAULT_STYLE), builtin: name in BUILTIN_TAGS }
+  }
+
+  private pushMatch(matches: TodoMatch[], line: number, start: number, end: number, type: string, rawText: string, metadata: TodoMetadata): void {
+    const text = rawText.replace(COMMENT_SUFFIX, '').trim()
+    if (!text)
+      return
+    matches.push({
+      type: type.toUpperCase(),
+      text,
+      metadata,
+      line,
+      range: new vscode.Range(line, start, line, end),
+    })
+  }
+
+  private ensureCompiled(): Map<string, TodoTag> {
+    if (this.tags)
+      return this.tags
+
+    const config = vscode.workspace.getConfiguration('CCoding.todos')
+    const enabledTypes = config.get<string[]>('enabledTypes', DEFAULT_ENABLED_TYPES)
+    const customTags = config.get<CustomTagConfig[]>('customTags', [])
+    const patterns = config.get<CustomPatternConfig[]>('customPatterns', [])
+
+    const tags = new Map<string, TodoTag>()
+    for (const type of enabledTypes) {
+      const name = type.trim().toUpperCase()
+      if (name) {
+        tags.set(name, this.createTag(name))
+      }
+    }
+    for (const custom of customTags) {
+      const name = custom.tag?.trim().toUpperCase()
+      if (!name)
+        continue
+      const base = tags.get(name) ?? { name, ...(BUILTIN_TAGS[name] ?? DEFAULT_STYLE), builtin: false }
+      tags.set(name, {
+        ...base,
+        color: custom.color ?? base.color,
+        themeColor: custom.themeColor ?? base.themeColor,
+        icon: custom.icon ?? base.icon,
+        emoji: custom.emoji ?? base.emoji,
+        priority: custom.priority ?? base.priority,
+        builtin: base.builtin && !custom.color,
+      })
+    }
+
+    // 长标签优先，避免 TODO 抢先匹配 TODOS 之类的前缀
+    const names = Array.from(tags.keys())
+      .sort((a, b) => b.length - a.length)
+      .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('|')
+    // 标签、(结构化信息)、冒号、可选序号、说明文字；说明文字在同一行下一个带标签的注释前结束
+    const nextComment = String.raw`${COMMENT_PREFIX}\s*(?:${names})(?![\w-])`
+    const body = String.raw`(${names})(?![\w-])(?:\(([^)]*)\))?\s*[:：]?\s*(?:\d+\.\s+)?(.*?)(?=${nextComment}|$)`
+    this.commentRegex = names ? new RegExp(`(${COMMENT_PREFIX}\\s*)${body}`, 'gi') : undefined
+    // 正文中的 todo 等普通单词很常见，纯文本只匹配大小写一致的标签
+    this.plainRegex = names ? new RegExp(`((?:${COMMENT_PREFIX}|${PLAIN_PREFIX})\\s*)${body}`, 'g') : undefined
+
+    // 自定义正则的标签只加入标签集合，不参与上面的注释匹配
+    this.customPatterns = []
+    for (const item of patterns) {
+      try {
+        const flags = item.flags ?? 'i'
+        const tag = item.tag?.trim().toUpperCase() || 'TODO'
+        this.customPatterns.push({
+          regex: new RegExp(item.pattern, flags.includes('g') ? flags : `${flags}g`),
+          tag,
+        })
+        if (!tags.has(tag)) {
+          tags.set(tag, this.createTag(tag))
+        }
+      }
+      catch (error) {
+        console.warn(`[CCoding] 无效的待办正则 ${item.pattern}:`, error)
+      }
+    }
+
+    this.tags = tags
+    return tags
+  }
+}
+
+/**
+ * 解析标签后括号中逗号分隔的结构化信息
+ * 支持 @负责人、YYYY-MM-DD 截止日期、T-12 任务、#123 / PROJ-123 关联 issue 和 P0-P4 优先级，
+ * 兼容旧写法 TODO(alice) 中不带 @ 的负责人
+ * @param raw 括号内的文本
+ */
+export function parseTodoMetadata(raw: string): TodoMetadata {
+  const metadata: TodoMetadata = {}
+  for (const part of raw.split(/[,，]/).map(item => item.trim()).filter(Boolean)) {
+    const priority = PRIORITY_PATTERN.exec(part)
+    if (part.startsWith('@'))
+      metadata.assignee = part.slice(1)
+    else if (DUE_DATE_PATTERN.test(part))
+      metadata.dueDate = part
+    else if (TASK_PATTERN.test(part))
+      metadata.task = part
+    else if (ISSUE_PATTERN.test(part))
+      metadata.issue = part
+    else if (priority)
+      metadata.priority = 5 - Number(priority[1])
+    else if (!metadata.assignee)
+      metadata.assignee = part
+  }
+  return metadata
+}
+
+/**
+ * 截止日期是否早于今天
+ * @param dueDate YYYY-MM-DD
+ */
+export function isTodoOverdue(dueDate: string | undefined): boolean {
+  if (!dueDate)
+    return false
+  const today = new Date()
+  const pad = (value: number): string => String(value).padStart(2, '0')
+  return dueDate < `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`
+}
+
+/**
+ * 结构化信息的显示文本，如 👤 alice、📅 2026-11-01、🔗 #123、🗂️ T-12、🎯 P1
+ * @param metadata 结构化信息
+ */
+export function describeTodoMetadata(metadata: TodoMetadata): string[] {
+  const parts: string[] = []
+  if (metadata.assignee)
+    parts.push(`👤 ${metadata.assignee}`)
+  if (metadata.dueDate)
+    parts.push(`📅 ${metadata.dueDate}${isTodoOverdue(metadata.dueDate) ? '（已逾期）' : ''}`)
+  if (metadata.issue)
+    parts.push(`🔗 ${metadata.issue}`)
+  if (metadata.task)
+    parts.push(`🗂️ ${metadata.task}`)
+  if (metadata.priority)
+    parts.push(`🎯 P${5 - metadata.priority}`)
+  return parts
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode'
+import { describeTodoMetadata, TodoScanner } from './todoScanner.js'
 
 export enum SearchType {
   ALL = 'all',
@@ -292,40 +293,33 @@ export class UnifiedSearchService {
    */
   private scanTodosInDocument(document: vscode.TextDocument, searchRegex: RegExp): SearchResult[] {
     const results: SearchResult[] = []
-    const todoRegex = /(?:\/\/\s*|\/\*\s*|#\s*|<!--\s*)?(TODO|FIXME|NOTE|BUG|HACK)(?:\s*[:：]\s*(?:\d+\.\s*)?)?(.+)/gi
-
-    for (let i = 0; i < document.lineCount; i++) {
-      const line = document.lineAt(i)
-      const lineText = line.text.trim()
-
-      if (!lineText)
-        continue
-
-      const todoMatches = [...lineText.matchAll(todoRegex)]
-
-      for (const todoMatch of todoMatches) {
-        const [fullMatch, type, text] = todoMatch
-
-        // 检查TODO文本是否匹配搜索查询
-        if (searchRegex.test(text) || searchRegex.test(type)) {
-          const startPos = line.text.indexOf(fullMatch)
-          const priority = this.calculateTodoPriority(type, text)
-
-          results.push({
-            type: SearchType.TODOS,
-            label: text.trim(),
-            description: `${type} · ${vscode.workspace.asRelativePath(document.uri, false)}:${i + 1}`,
-            detail: `待办匹配: ${type} - ${text.trim()}`,
-            uri: document.uri,
-            range: new vscode.Range(
-              new vscode.Position(i, startPos),
-              new vscode.Position(i, startPos + fullMatch.length),
-            ),
-            iconId: this.getTodoIconId(type),
-            priority,
-            data: { todoType: type, filePath: vscode.workspace.asRelativePath(document.uri, false) },
-          })
-        }
+
+    for (const { type, text, metadata, line, range } of TodoScanner.getInstance().scanDocument(document)) {
+      // 检查TODO文本、类型、负责人和关联 issue 是否匹配搜索查询
+      const fields = [text, type, metadata.assignee, metadata.issue].filter((field): field is string => !!field)
+      // searchRegex 带 g 标志，每次匹配前重置 lastIndex
+      if (fields.some((field) => {
+        searchRegex.lastIndex = 0
+        return searchRegex.test(field)
+      })) {
+        const details = describeTodoMetadata(metadata)
+        results.push({
+          type: SearchType.TODOS,
+          label: text,
+          description: `${type} · ${vscode.workspace.asRelativePath(document.uri, false)}:${line + 1}`,
+          detail: `待办匹配: ${type} - ${text}${details.length > 0 ? ` · ${details.join(' ')}` : ''}`,
+          uri: document.uri,
+          range,
+          iconId: this.getTodoIconId(type),
+          priority: this.calculateTodoPriority(type, text, metadata.priority),
+          data: {
+            todoType: type,
+            filePath: vscode.workspace.asRelativePath(document.uri, false),
+            assignee: metadata.assignee,
+            dueDate: metadata.dueDate,
+            issue: metadata.issue,
+          },
+        })
       }
     }
 
@@ -367,30 +361,11 @@ export class UnifiedSearchService {
   /**
    * 计算TODO优先级
    */
-  private calculateTodoPriority(type: string, text: string): number {
-    let priority = 40
-    const upperType = type.toUpperCase()
+  private calculateTodoPriority(type: string, text: string, explicitPriority?: number): number {
+    // 根据显式标注的 P0-P4 或标签优先级（1-5）设置基础优先级
+    let priority = 20 + (explicitPriority ?? TodoScanner.getInstance().getTag(type).priority) * 20
     const lowerText = text.toLowerCase()
 
-    // 根据类型设置基础优先级
-    switch (upperType) {
-      case 'FIXME':
-        priority = 80
-        break
-      case 'BUG':
-        priority = 80
-        break
-      case 'TODO':
-        priority = 60
-        break
-      case 'HACK':
-        priority = 60
-        break
-      case 'NOTE':
-        priority = 40
-        break
-    }
-
     // 根据文本内容调整优先级
     if (lowerText.includes('urgent') || lowerText.includes('紧急') || lowerText.includes('asap')) {
       priority += 10
@@ -425,14 +400,7 @@ export class UnifiedSearchService {
    * 获取TODO图标ID
    */
   private getTodoIconId(type: string): string {
-    switch (type.toUpperCase()) {
-      case 'TODO': return 'check'
-      case 'FIXME': return 'tools'
-      case 'NOTE': return 'note'
-      case 'BUG': return 'bug'
-      case 'HACK': return 'zap'
-      default: return 'list-unordered'
-    }
+    return TodoScanner.getInstance().getTag(type).icon
   }
 
   /**
@@ -0,0 +1,238 @@
+import type { ModuleExportKind } from '../parsers/moduleParser.js'
+import type { SymbolReferenceService } from './symbolReferenceService.js'
+import type { VueComponentGraph } from './vueComponentGraph.js'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { parseModuleExports, parseModuleImports } from '../parsers/moduleParser.js'
+import { readModuleSources, resolveModulePath } from './moduleResolver.js'
+
+/**
+ * 确认结果：unused 没有任何引用，local 只在声明文件内使用
+ */
+export type UnusedExportStatus = 'unused' | 'local'
+
+export interface UnusedExport {
+  uri: vscode.Uri
+  // 导出名，默认导出为 default
+  name: string
+  // 声明时的名称，用于显示
+  displayName: string
+  kind: ModuleExportKind
+  position: vscode.Position
+  // 通过语言服务确认后的状态
+  status?: UnusedExportStatus
+}
+
+export interface UnusedExportScanResult {
+  exports: UnusedExport[]
+  scannedFiles: number
+  totalExports: number
+  timestamp: number
+}
+
+/**
+ * 未使用导出检测
+ * 扫描工作区内导出的函数、组件、Hook 和组合式函数，找出没有被任何文件导入的导出
+ * 命中入口文件配置（CCoding.unusedExports.entrypoints）的文件视为被外部使用，不参与检测
+ */
+export class UnusedExportDetector implements vscode.Disposable {
+  private static readonly SOURCE_PATTERN = '**/*.{ts,tsx,js,jsx,mts,mjs,vue,svelte}'
+  private static readonly EXCLUDE_PATTERN = '{**/node_modules/**,**/dist/**,**/.git/**,**/*.d.ts}'
+  private static readonly EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.mjs', '.vue', '.svelte']
+  private static readonly MAX_FILES = 5000
+
+  private _onDidChange = new vscode.EventEmitter<void>()
+  readonly onDidChange = this._onDidChange.event
+
+  private result: UnusedExportScanResult | undefined
+  private scanning: Promise<UnusedExportScanResult> | undefined
+  private disposables: vscode.Disposable[] = []
+
+  constructor(
+    private componentGraph: VueComponentGraph,
+    private referenceService: SymbolReferenceService,
+  ) {
+    this.disposables.push(
+      this._onDidChange,
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        // 入口配置变化后重新扫描已有结果
+        if (this.result && event.affectsConfiguration('CCoding.unusedExports')) {
+          this.scan()
+        }
+      }),
+    )
+  }
+
+  static getEntrypoints(): string[] {
+    return vscode.workspace.getConfiguration('CCoding.unusedExports').get<string[]>('entrypoints', [])
+  }
+
+  getResult(): UnusedExportScanResult | undefined {
+    return this.result
+  }
+
+  /**
+   * 扫描整个工作区，扫描进行中时返回同一次扫描的结果
+   */
+  scan(): Promise<UnusedExportScanResult> {
+    if (!this.scanning) {
+      this.scanning = this.performScan().finally(() => {
+        this.scanning = undefined
+      })
+    }
+    return this.scanning
+  }
+
+  /**
+   * 通过语言服务的引用查询确认导出确实无人使用
+   * 在其他文件中找到引用时从结果中移除，返回引用数
+   * @param item 待确认的导出
+   */
+  async confirm(item: UnusedExport): Promise<{ status: UnusedExportStatus | 'used', references: number }> {
+    // 单文件组件没有可查询的声明位置，以组件关系图为准
+    if (this.isComponentFile(item.uri)) {
+      const parents = await this.componentGraph.getParents(item.uri)
+      return this.applyConfirmation(item, parents.length > 0 ? 'used' : 'unused', parents.length)
+    }
+
+    const references = await this.referenceService.getReferences(item.uri, item.position)
+    const external = references.filter(reference => reference.uri.fsPath !== item.uri.fsPath)
+    if (external.length > 0)
+      return this.applyConfirmation(item, 'used', external.length)
+    return this.applyConfirmation(item, references.length > 0 ? 'local' : 'unused', references.length)
+  }
+
+  private applyConfirmation(
+    item: UnusedExport,
+    status: UnusedExportStatus | 'used',
+    references: number,
+  ): { status: UnusedExportStatus | 'used', references: number } {
+    if (this.result) {
+      if (status === 'used') {
+        this.result.exports = this.result.exports.filter(entry => entry !== item)
+      }
+      else {
+        item.status = status
+      }
+      this._onDidChange.fire()
+    }
+    return { status, references }
+  }
+
+  private async performScan(): Promise<UnusedExportScanResult> {
+    const files = await vscode.workspace.findFiles(
+      UnusedExportDetector.SOURCE_PATTERN,
+      UnusedExportDetector.EXCLUDE_PATTERN,
+      UnusedExportDetector.MAX_FILES,
+    )
+    const known = new Set(files.map(uri => uri.fsPath))
+    const entrypoints = await this.findEntrypoints()
+    const candidates: UnusedExport[] = []
+    // 每个文件被导入的导出名
+    const used = new Map<string, Set<string>>()
+
+    for (const uri of files) {
+      try {
+        const sourceFiles = await readModuleSources(uri)
+        const imports = sourceFiles.flatMap(sourceFile => parseModuleImports(sourceFile))
+
+        for (const item of imports) {
+          const target = resolveModulePath(uri.fsPath, item.source, UnusedExportDetector.EXTENSIONS, file => known.has(file))
+          if (target && target !== uri.fsPath) {
+            if (!used.has(target)) {
+              used.set(target, new Set())
+            }
+            item.names.forEach(name => used.get(target)!.add(name))
+          }
+        }
+
+        if (entrypoints.has(uri.fsPath))
+          continue
+
+        if (this.isComponentFile(uri)) {
+          candidates.push({
+            uri,
+            name: 'default',
+            displayName: uri.fsPath.endsWith('.vue') ? this.componentGraph.getComponentName(uri) : path.basename(uri.fsPath, '.svelte'),
+            kind: 'component',
+            position: new vscode.Position(0, 0),
+          })
+          continue
+        }
+
+        const sources = imports.map(item => item.source)
+        const framework = sources.includes('vue') ? 'vue' : sources.includes('react') ? 'react' : undefined
+        for (const sourceFile of sourceFiles) {
+          for (const item of parseModuleExports(sourceFile, framework)) {
+            const { line, character } = sourceFile.getLineAndCharacterOfPosition(item.offset)
+            candidates.push({
+              uri,
+              name: item.name,
+              displayName: item.localName === 'default' ? path.basename(uri.fsPath) : item.localName,
+              kind: item.kind,
+              position: new vscode.Position(line, character),
+            })
+          }
+        }
+      }
+      catch (error) {
+        console.warn(`[CCoding] 无法解析文件导出 ${uri.fsPath}:`, error)
+      }
+    }
+
+    const previous = new Map((this.result?.exports || []).map(item => [this.getKey(item), item.status]))
+    const exports: UnusedExport[] = []
+    for (const item of candidates) {
+      const names = used.get(item.uri.fsPath)
+      if (names?.has('*') || names?.has(item.name))
+        continue
+      // 通过全局注册或自动导入渲染的组件
+      if (this.isComponentFile(item.uri) && (await this.componentGraph.getParents(item.uri)).length > 0)
+        continue
+
+      item.status = previous.get(this.getKey(item))
+      exports.push(item)
+    }
+
+    this.result = {
+      exports,
+      scannedFiles: files.length,
+      totalExports: candidates.length,
+      timestamp: Date.now(),
+    }
+    console.log(`[CCoding] 未使用导出扫描完成: ${exports.length}/${candidates.length}`)
+    this._onDidChange.fire()
+    return this.result
+  }
+
+  /**
+   * 按工作区文件夹匹配入口文件配置
+   */
+  private async findEntrypoints(): Promise<Set<string>> {
+    const entrypoints = new Set<string>()
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      for (const pattern of UnusedExportDetector.getEntrypoints()) {
+        const files = await vscode.workspace.findFiles(
+          new vscode.RelativePattern(folder, pattern),
+          UnusedExportDetector.EXCLUDE_PATTERN,
+        )
+        files.forEach(uri => entrypoints.add(uri.fsPath))
+      }
+    }
+    return entrypoints
+  }
+
+  private isComponentFile(uri: vscode.Uri): boolean {
+    const extension = path.extname(uri.fsPath).toLowerCase()
+    return extension === '.vue' || extension === '.svelte'
+  }
+
+  private getKey(item: UnusedExport): string {
+    return `${item.uri.fsPath}#${item.name}`
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
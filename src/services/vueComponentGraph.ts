@@ -0,0 +1,275 @@
+import type { VueComponentImport, VueComponentUsage } from '../parsers/vueParser.js'
+import { Buffer } from 'node:buffer'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { VueParser } from '../parsers/vueParser.js'
+import { resolveModulePath } from './moduleResolver.js'
+
+/**
+ * 单个 .vue 文件的解析结果
+ */
+interface ComponentFile {
+  uri: vscode.Uri
+  name: string
+  imports: VueComponentImport[]
+  usages: VueComponentUsage[]
+}
+
+/**
+ * 一次渲染关系：source 组件模板中的某个标签渲染了 target 组件
+ */
+export interface VueComponentEdge {
+  source: vscode.Uri
+  target: vscode.Uri
+  tagName: string
+  range: vscode.Range
+}
+
+/**
+ * 工作区 Vue 组件关系图
+ * 根据模板中的组件标签，结合脚本导入、components 选项和全局注册解析出被渲染的组件文件
+ * 首次查询时扫描整个工作区，之后随文件变化增量更新
+ */
+export class VueComponentGraph implements vscode.Disposable {
+  private static readonly MAX_FILES = 5000
+  private static readonly EXCLUDE_PATTERN = '{**/node_modules/**,**/dist/**,**/.git/**}'
+
+  private _onDidChange = new vscode.EventEmitter<void>()
+  readonly onDidChange = this._onDidChange.event
+
+  // key 为文件 fsPath
+  private components: Map<string, ComponentFile> = new Map()
+  private registrations: Map<string, VueComponentImport[]> = new Map()
+  // 依赖关系在数据变化后按需重新计算
+  private edges: VueComponentEdge[] | undefined
+  private buildPromise: Promise<void> | undefined
+  private pendingUpdates: Map<string, NodeJS.Timeout> = new Map()
+  private disposables: vscode.Disposable[] = []
+
+  // 编辑时的更新延迟
+  private updateDelay = 500
+
+  constructor() {
+    const componentWatcher = vscode.workspace.createFileSystemWatcher('**/*.vue')
+    const scriptWatcher = vscode.workspace.createFileSystemWatcher('**/*.{ts,js,mts,mjs}')
+
+    this.disposables.push(
+      componentWatcher,
+      scriptWatcher,
+      this._onDidChange,
+      componentWatcher.onDidCreate(uri => this.scheduleUpdate(uri)),
+      componentWatcher.onDidChange(uri => this.scheduleUpdate(uri)),
+      componentWatcher.onDidDelete(uri => this.removeFile(uri)),
+      scriptWatcher.onDidCreate(uri => this.scheduleUpdate(uri)),
+      scriptWatcher.onDidChange(uri => this.scheduleUpdate(uri)),
+      scriptWatcher.onDidDelete(uri => this.removeFile(uri)),
+      // 未保存的模板修改也反映到关系图中
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.document.uri.scheme === 'file' && event.document.fileName.endsWith('.vue')) {
+          this.scheduleUpdate(event.document.uri)
+        }
+      }),
+    )
+  }
+
+  /**
+   * 确保工作区已完成首次扫描
+   */
+  ensureBuilt(): Promise<void> {
+    if (!this.buildPromise) {
+      this.buildPromise = this.build()
+    }
+    return this.buildPromise
+  }
+
+  /**
+   * 丢弃现有数据并重新扫描工作区
+   */
+  async rebuild(): Promise<void> {
+    this.buildPromise = undefined
+    await this.ensureBuilt()
+    this._onDidChange.fire()
+  }
+
+  getComponentName(uri: vscode.Uri): string {
+    return this.components.get(uri.fsPath)?.name || path.basename(uri.fsPath, '.vue')
+  }
+
+  /**
+   * 组件模板中渲染的其他组件
+   * @param uri 组件文件
+   */
+  async getChildren(uri: vscode.Uri): Promise<VueComponentEdge[]> {
+    await this.ensureBuilt()
+    return this.getEdges().filter(edge => edge.source.fsPath === uri.fsPath)
+  }
+
+  /**
+   * 渲染了该组件的所有位置
+   * @param uri 组件文件
+   */
+  async getParents(uri: vscode.Uri): Promise<VueComponentEdge[]> {
+    await this.ensureBuilt()
+    return this.getEdges().filter(edge => edge.target.fsPath === uri.fsPath)
+  }
+
+  private async build(): Promise<void> {
+    this.components.clear()
+    this.registrations.clear()
+    this.edges = undefined
+
+    try {
+      const componentFiles = await vscode.workspace.findFiles('**/*.vue', VueComponentGraph.EXCLUDE_PATTERN, VueComponentGraph.MAX_FILES)
+      for (const uri of componentFiles) {
+        await this.updateComponentFile(uri)
+      }
+
+      const scriptFiles = await vscode.workspace.findFiles('**/*.{ts,js,mts,mjs}', VueComponentGraph.EXCLUDE_PATTERN, VueComponentGraph.MAX_FILES)
+      for (const uri of scriptFiles) {
+        await this.updateScriptFile(uri)
+      }
+
+      console.log(`[CCoding] Vue 组件关系图: ${this.components.size} 个组件，${this.registrations.size} 个全局注册文件`)
+    }
+    catch (error) {
+      console.error('[CCoding] 构建 Vue 组件关系图失败:', error)
+    }
+  }
+
+  private scheduleUpdate(uri: vscode.Uri): void {
+    // 尚未扫描时无需增量更新，首次扫描会读取最新内容
+    if (!this.buildPromise)
+      return
+
+    const key = uri.fsPath
+    const pending = this.pendingUpdates.get(key)
+    if (pending) {
+      clearTimeout(pending)
+    }
+
+    this.pendingUpdates.set(key, setTimeout(async () => {
+      this.pendingUpdates.delete(key)
+      await this.buildPromise
+      if (uri.fsPath.endsWith('.vue')) {
+        await this.updateComponentFile(uri)
+      }
+      else {
+        await this.updateScriptFile(uri)
+      }
+      this.edges = undefined
+      this._onDidChange.fire()
+    }, this.updateDelay))
+  }
+
+  private removeFile(uri: vscode.Uri): void {
+    const removed = this.components.delete(uri.fsPath) || this.registrations.delete(uri.fsPath)
+    if (removed) {
+      this.edges = undefined
+      this._onDidChange.fire()
+    }
+  }
+
+  private async updateComponentFile(uri: vscode.Uri): Promise<void> {
+    try {
+      const document = await vscode.workspace.openTextDocument(uri)
+      const component = VueParser.parseVueFile(document)
+      this.components.set(uri.fsPath, {
+        uri,
+        name: component?.name || path.basename(uri.fsPath, '.vue'),
+        imports: component?.componentImports || [],
+        usages: component?.template?.componentUsages || [],
+      })
+    }
+    catch (error) {
+      console.warn(`[CCoding] 无法解析 Vue 组件 ${uri.fsPath}:`, error)
+      this.components.delete(uri.fsPath)
+    }
+  }
+
+  private async updateScriptFile(uri: vscode.Uri): Promise<void> {
+    try {
+      const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+      // 先用文本过滤，避免为大量无关脚本构建语法树
+      const registrations = text.includes('.component(') || text.includes('GlobalComponents')
+        ? VueParser.parseGlobalRegistrations(text, uri.fsPath)
+        : []
+
+      if (registrations.length > 0) {
+        this.registrations.set(uri.fsPath, registrations)
+      }
+      else {
+        this.registrations.delete(uri.fsPath)
+      }
+    }
+    catch (error) {
+      console.warn(`[CCoding] 无法读取脚本 ${uri.fsPath}:`, error)
+      this.registrations.delete(uri.fsPath)
+    }
+  }
+
+  private getEdges(): VueComponentEdge[] {
+    if (this.edges)
+      return this.edges
+
+    const globals = new Map<string, string>()
+    for (const [file, registrations] of this.registrations) {
+      for (const registration of registrations) {
+        const target = this.resolveSource(file, registration.source)
+        if (target) {
+          globals.set(this.normalizeName(registration.name), target)
+        }
+      }
+    }
+
+    // 按文件名匹配，用于 Nuxt 等自动导入场景，同名文件不唯一时放弃
+    const byFileName = new Map<string, string | null>()
+    for (const file of this.components.keys()) {
+      const name = this.normalizeName(path.basename(file, '.vue'))
+      byFileName.set(name, byFileName.has(name) ? null : file)
+    }
+
+    this.edges = []
+    for (const [file, component] of this.components) {
+      for (const usage of component.usages) {
+        const name = this.normalizeName(usage.name)
+        const imported = component.imports.find(item => this.normalizeName(item.name) === name)
+        const target = (imported && this.resolveSource(file, imported.source))
+          || globals.get(name)
+          || byFileName.get(name)
+        if (target) {
+          this.edges.push({
+            source: component.uri,
+            target: this.components.get(target)!.uri,
+            tagName: usage.name,
+            range: usage.range,
+          })
+        }
+      }
+    }
+
+    return this.edges
+  }
+
+  /**
+   * 把模块路径解析为已知的组件文件
+   * @param fromFile 导入所在文件
+   * @param source 模块路径
+   */
+  private resolveSource(fromFile: string, source: string): string | undefined {
+    return resolveModulePath(fromFile, source, ['.vue'], candidate => this.components.has(candidate))
+  }
+
+  /**
+   * UserCard、user-card 视为同一组件
+   */
+  private normalizeName(name: string): string {
+    return name.replace(/-/g, '').toLowerCase()
+  }
+
+  dispose(): void {
+    this.pendingUpdates.forEach(timeout => clearTimeout(timeout))
+    this.pendingUpdates.clear()
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+}
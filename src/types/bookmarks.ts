@@ -109,6 +109,8 @@ export interface EnhancedBookmark {
   timestamp: number
   version: number // 版本号，用于冲突解决
   lastModified: Date
+  legacyId?: string // 旧版书签ID（从 CCoding.bookmarks 迁移而来）
+  isFolder?: boolean // 是否为书签文件夹（只用于组织层级，不指向代码位置）
 }
 
 /**
@@ -122,6 +124,21 @@ export interface BookmarkComment {
   isResolved: boolean
 }
 
+/**
+ * 书签的 JSON 快照，用于持久化和操作记录
+ */
+export type SerializedBookmark = Omit<EnhancedBookmark, 'uri' | 'range' | 'stats' | 'comments' | 'lastModified' | 'expiresAt'> & {
+  uri: string
+  range: {
+    start: { line: number, character: number }
+    end: { line: number, character: number }
+  }
+  stats: Omit<BookmarkUsageStats, 'lastAccessed' | 'createdAt'> & { lastAccessed: string, createdAt: string }
+  comments: Array<Omit<BookmarkComment, 'timestamp'> & { timestamp: string }>
+  lastModified: string
+  expiresAt?: string
+}
+
 /**
  * 书签分组配置
  */
@@ -182,7 +199,7 @@ export interface BookmarkExportData {
   version: string
   exportDate: Date
   projectName?: string
-  bookmarks: EnhancedBookmark[]
+  bookmarks: SerializedBookmark[]
   groups?: BookmarkGroup[]
   metadata: {
     totalBookmarks: number
@@ -99,6 +99,7 @@ export interface FrontendSymbolInfo {
   framework: FrameworkType
   priority: SymbolPriority
   range: vscode.Range
+  selectionRange?: vscode.Range // 符号名称所在范围，用于查询引用
   uri: vscode.Uri
   level: number
   parent?: FrontendSymbolInfo
@@ -124,6 +125,8 @@ export interface FrontendSymbolInfo {
 
   // 元数据
   complexity: number
+  cyclomaticComplexity?: number
+  cognitiveComplexity?: number
   timestamp: number
   description?: string
   todo?: string[] // 与此符号相关的TODO项
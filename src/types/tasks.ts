@@ -0,0 +1,26 @@
+/**
+ * 任务状态，对应任务看板的三列
+ */
+export type TaskStatus = 'open' | 'inProgress' | 'done'
+
+/**
+ * 由待办转换而来的任务
+ */
+export interface TaskItem {
+  // T-1、T-2 …，同时写入代码注释 TODO(T-1) 作为链接
+  id: string
+  title: string
+  status: TaskStatus
+  // 待办标签，如 TODO、FIXME
+  type: string
+  // 关联注释的位置，相对工作区文件夹
+  source?: {
+    file: string
+    line: number
+  }
+  // YYYY-MM-DD
+  created: string
+  completed?: string
+  // 关联注释已从代码中删除
+  removedFromCode?: boolean
+}